@@ -0,0 +1,7 @@
+@echo off
+rem Windows OpenSSH runs this script (SSH_ASKPASS) when it needs a passphrase,
+rem or asks whether to trust a server: it cannot run askpass.sh. Like askpass.sh,
+rem it passes the question on to the Git Helper extension and prints the answer.
+rem See src/askpass.ts and src/askpassMain.ts.
+set ELECTRON_RUN_AS_NODE=1
+"%GIT_HELPER_ASKPASS_NODE%" "%GIT_HELPER_ASKPASS_MAIN%" %*
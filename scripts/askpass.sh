@@ -0,0 +1,6 @@
+#!/bin/sh
+# Git (and SSH) run this script when they need a username, password or
+# passphrase. It passes the question on to the Git Helper extension, which
+# shows it in a VS Code input box, and prints the answer for Git to read.
+# See src/askpass.ts and src/askpassMain.ts.
+ELECTRON_RUN_AS_NODE=1 exec "$GIT_HELPER_ASKPASS_NODE" "$GIT_HELPER_ASKPASS_MAIN" "$@"
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/**
+ * auth-test-server.js — A password-protected Git server on your own computer.
+ *
+ * WHY?
+ *   To try the sign-in prompts (src/askpass.ts) and the sign-in error
+ *   explanations, you need a remote that asks for a password. Pushing to
+ *   GitHub over and over with right and wrong tokens isn't much fun, so
+ *   this script stands in for it:
+ *
+ *     npm run auth-test-server            (or: node scripts/auth-test-server.js [port])
+ *
+ *   It creates an empty bare repository in your temp folder and serves it
+ *   over HTTP with Git's own `git http-backend`, behind "basic auth" — the
+ *   same username/password check GitHub does for https:// remotes.
+ *
+ * TRYING IT:
+ *   1. Run the script and leave it running. It prints a URL.
+ *   2. In the Extension Development Host, add the URL as a remote
+ *      (the "Add a Remote" step works) and push.
+ *   3. VS Code asks for a username and password. Try the right ones, the
+ *      wrong ones, and pressing Escape.
+ *
+ * Plain Node.js only (no dependencies), so it runs without compiling.
+ * It listens on 127.0.0.1, so nothing outside your computer can reach it.
+ */
+
+const http = require("http");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const zlib = require("zlib");
+const { execFileSync, spawn } = require("child_process");
+
+const USERNAME = process.env.TEST_SERVER_USER || "learner";
+const PASSWORD = process.env.TEST_SERVER_PASSWORD || "secret-token";
+const port = Number(process.argv[2] || 8765);
+
+// --- An empty repository to push to ---
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "git-helper-auth-server-"));
+execFileSync("git", ["init", "--bare", "--quiet", path.join(root, "practice.git")]);
+
+/** True if the request carries the right username and password */
+function isSignedIn(request) {
+    const header = request.headers.authorization || "";
+    if (!header.startsWith("Basic ")) {
+        return false;
+    }
+    const [user, ...rest] = Buffer.from(header.slice(6), "base64").toString("utf8").split(":");
+    return user === USERNAME && rest.join(":") === PASSWORD;
+}
+
+const server = http.createServer((request, response) => {
+    const url = new URL(request.url, "http://localhost");
+
+    if (!isSignedIn(request)) {
+        // 401 + WWW-Authenticate is what makes Git ask for a username and password
+        console.log(`401 ${request.method} ${url.pathname} (not signed in)`);
+        response.writeHead(401, { "WWW-Authenticate": 'Basic realm="Git Helper test server"' });
+        response.end("Sign-in required\n");
+        return;
+    }
+    console.log(`200 ${request.method} ${url.pathname}${url.search}`);
+
+    // --- Hand the request to git http-backend (it speaks CGI) ---
+    const backend = spawn("git", ["http-backend"], {
+        env: {
+            ...process.env,
+            GIT_PROJECT_ROOT: root,
+            GIT_HTTP_EXPORT_ALL: "1",
+            REQUEST_METHOD: request.method,
+            PATH_INFO: url.pathname,
+            QUERY_STRING: url.search.slice(1),
+            CONTENT_TYPE: request.headers["content-type"] || "",
+            REMOTE_USER: USERNAME, // pushing over HTTP is only allowed for signed-in users
+            REMOTE_ADDR: "127.0.0.1",
+        },
+    });
+    // Git compresses big request bodies; http-backend wants them plain
+    const body = request.headers["content-encoding"] === "gzip" ? request.pipe(zlib.createGunzip()) : request;
+    body.pipe(backend.stdin);
+    backend.stderr.pipe(process.stderr);
+
+    // The reply starts with CGI headers ("Status: 404", "Content-Type: ..."),
+    // then a blank line, then the body
+    let buffered = Buffer.alloc(0);
+    let headersSent = false;
+    backend.stdout.on("data", (chunk) => {
+        if (headersSent) {
+            response.write(chunk);
+            return;
+        }
+        buffered = Buffer.concat([buffered, chunk]);
+        const end = buffered.indexOf("\r\n\r\n");
+        if (end === -1) {
+            return;
+        }
+        let status = 200;
+        const headers = {};
+        for (const line of buffered.subarray(0, end).toString("utf8").split("\r\n")) {
+            const colon = line.indexOf(":");
+            const name = line.slice(0, colon);
+            const value = line.slice(colon + 1).trim();
+            if (name.toLowerCase() === "status") {
+                status = parseInt(value, 10);
+            } else {
+                headers[name] = value;
+            }
+        }
+        response.writeHead(status, headers);
+        response.write(buffered.subarray(end + 4));
+        headersSent = true;
+    });
+    backend.on("close", () => {
+        if (!headersSent) {
+            response.writeHead(500);
+        }
+        response.end();
+    });
+});
+
+server.listen(port, "127.0.0.1", () => {
+    console.log("Password-protected Git server running.");
+    console.log("");
+    console.log(`  Remote URL: http://127.0.0.1:${port}/practice.git`);
+    console.log(`  Username:   ${USERNAME}`);
+    console.log(`  Password:   ${PASSWORD}`);
+    console.log("");
+    console.log(`Repository folder: ${root}`);
+    console.log("Press Ctrl+C to stop.");
+});
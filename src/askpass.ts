@@ -0,0 +1,175 @@
+/**
+ * askpass.ts — Answers Git's username and password questions with VS Code input boxes.
+ *
+ * WHY?
+ *   In a terminal, `git push` to a private repository stops and asks:
+ *
+ *     Username for 'https://github.com':
+ *     Password for 'https://ada@github.com':
+ *
+ *   The extension runs Git without a terminal, so there's nowhere to type.
+ *   Git would either hang until the timeout or fail with a cryptic message.
+ *
+ * HOW IT WORKS:
+ *   Git has a standard way to ask for passwords without a terminal: if the
+ *   GIT_ASKPASS environment variable names a program, Git runs it with the
+ *   question and reads the answer from its output. SSH does the same with
+ *   SSH_ASKPASS (for key passphrases and "do you trust this server?").
+ *
+ *     git ──runs──▶ scripts/askpass.sh ──▶ askpassMain.js
+ *                   (askpass.cmd for SSH on Windows)
+ *                                             │  "Password for ...?"
+ *                                             ▼
+ *                         this file: a tiny local server inside VS Code
+ *                                             │
+ *                                             ▼
+ *                                 VS Code input box → the user types
+ *
+ *   The "server" only listens on a private local socket (a named pipe on
+ *   Windows), never on the network. Whatever the user types goes straight
+ *   back to Git and is never stored or logged by the extension.
+ *
+ *   If your Git has a credential helper (Git for Windows and macOS usually
+ *   do), Git asks it first and saves what you type, so you're only asked once.
+ */
+
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { setAskpassEnvironment } from "./gitCommands";
+
+/** What the helper program sends us */
+interface AskpassRequest {
+    prompt: string;
+}
+
+/**
+ * Runs the local askpass server and points Git at it.
+ * Created once in extension.ts; disposing it stops the server.
+ */
+export class AskpassBridge implements vscode.Disposable {
+    private readonly _server: http.Server;
+
+    /** Where the server listens — a socket file, or a named pipe on Windows */
+    private readonly _handle: string;
+
+    /**
+     * @param extensionPath - The extension's folder (to find the helper script)
+     * @param _outputChannel - Where to log if the bridge can't start
+     */
+    constructor(extensionPath: string, private readonly _outputChannel: vscode.OutputChannel) {
+        const id = crypto.randomBytes(8).toString("hex");
+        this._handle =
+            process.platform === "win32"
+                ? `\\\\.\\pipe\\git-helper-askpass-${id}`
+                : path.join(os.tmpdir(), `git-helper-askpass-${id}.sock`);
+
+        // Git (Git for Windows too) runs askpass.sh with its own shell, but
+        // Windows' OpenSSH can't run a .sh file, so SSH gets askpass.cmd there
+        const script = path.join(extensionPath, "scripts", "askpass.sh");
+        const sshScript =
+            process.platform === "win32" ? path.join(extensionPath, "scripts", "askpass.cmd") : script;
+        this._server = http.createServer((request, response) => this._handleRequest(request, response));
+        this._server.on("error", (error) => {
+            // Git still works without the bridge — it just can't ask for passwords
+            setAskpassEnvironment(undefined);
+            this._outputChannel.appendLine(`Couldn't start the password prompt helper: ${error.message}`);
+        });
+        this._server.listen(this._handle, () => {
+            // The script must be executable for Git to run it
+            // (packaging can lose the permission bits)
+            fs.chmod(script, 0o755, () => {});
+            setAskpassEnvironment({
+                GIT_ASKPASS: script,
+                SSH_ASKPASS: sshScript,
+                // Use SSH_ASKPASS even without a graphical display (OpenSSH 8.4+)
+                SSH_ASKPASS_REQUIRE: "force",
+                GIT_HELPER_ASKPASS_NODE: process.execPath,
+                GIT_HELPER_ASKPASS_MAIN: path.join(__dirname, "askpassMain.js"),
+                GIT_HELPER_ASKPASS_HANDLE: this._handle,
+            });
+        });
+    }
+
+    public dispose(): void {
+        setAskpassEnvironment(undefined);
+        this._server.close();
+    }
+
+    // =============================================================
+    // Answering Questions
+    // =============================================================
+
+    /** Reads one question from the helper and sends back the answer */
+    private _handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        let body = "";
+        request.setEncoding("utf8");
+        request.on("data", (chunk: string) => (body += chunk));
+        request.on("end", async () => {
+            let answer: string | undefined;
+            try {
+                answer = await this._ask((JSON.parse(body) as AskpassRequest).prompt);
+            } catch {
+                answer = undefined;
+            }
+            response.writeHead(200, { "Content-Type": "application/json" });
+            response.end(JSON.stringify({ answer }));
+        });
+    }
+
+    /**
+     * Shows Git's question to the user.
+     *
+     * @param prompt - Exactly what Git or SSH asked, e.g. "Username for 'https://github.com': "
+     * @returns What the user typed, or undefined if they cancelled
+     */
+    private async _ask(prompt: string): Promise<string | undefined> {
+        const question = prompt.trim().replace(/:$/, "");
+
+        // --- SSH: "The authenticity of host ... can't be established" ---
+        // SSH asks this the first time you connect to a server.
+        if (/\(yes\/no/i.test(question)) {
+            const choice = await vscode.window.showWarningMessage(
+                "SSH hasn't connected to this server before and wants you to confirm it's the right one.",
+                { modal: true, detail: question },
+                "Trust This Server"
+            );
+            return choice ? "yes" : undefined;
+        }
+
+        // --- Username ---
+        if (/^Username/i.test(question)) {
+            return vscode.window.showInputBox({
+                title: "Git needs you to sign in",
+                prompt: question,
+                placeHolder: "Your username on this server (e.g. your GitHub username)",
+                ignoreFocusOut: true,
+            });
+        }
+
+        // --- SSH key passphrase ---
+        if (/passphrase/i.test(question)) {
+            return vscode.window.showInputBox({
+                title: "Unlock your SSH key",
+                prompt: question,
+                placeHolder: "The passphrase you chose when you created the key",
+                password: true,
+                ignoreFocusOut: true,
+            });
+        }
+
+        // --- Password (or anything else — it's safest to hide what's typed) ---
+        return vscode.window.showInputBox({
+            title: "Git needs you to sign in",
+            prompt: question,
+            placeHolder: /^Password for 'https?:/i.test(question)
+                ? "GitHub, GitLab and Bitbucket want an access token here, not your account password"
+                : "",
+            password: true,
+            ignoreFocusOut: true,
+        });
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * askpassMain.ts — The tiny program Git runs to ask for a password.
+ *
+ * This file does NOT run inside VS Code. Git starts it (through
+ * scripts/askpass.sh) as a separate process whenever it needs a username,
+ * password or SSH passphrase, with the question as its only argument:
+ *
+ *   askpass.sh "Password for 'https://ada@github.com': "
+ *
+ * Git reads the answer from whatever we print. We don't know the answer,
+ * so we forward the question to the extension over a local connection
+ * (see askpass.ts), wait for the user to fill in the input box, and print
+ * what they typed. If they cancel, we exit with an error and Git gives up.
+ *
+ * That's why there's no `import * as vscode` here — only Node.js built-ins.
+ */
+
+import * as http from "http";
+
+/** The reply from the extension: no answer means the user cancelled */
+interface AskpassReply {
+    answer?: string;
+}
+
+function fail(message: string): never {
+    process.stderr.write(`Git Helper: ${message}\n`);
+    process.exit(1);
+}
+
+const socketPath = process.env.GIT_HELPER_ASKPASS_HANDLE;
+if (!socketPath) {
+    fail("missing GIT_HELPER_ASKPASS_HANDLE (this program is started by Git, not by hand)");
+}
+
+const request = http.request({ socketPath, path: "/", method: "POST" }, (response) => {
+    let body = "";
+    response.setEncoding("utf8");
+    response.on("data", (chunk: string) => (body += chunk));
+    response.on("end", () => {
+        let reply: AskpassReply;
+        try {
+            reply = JSON.parse(body) as AskpassReply;
+        } catch {
+            fail("got an unreadable reply from VS Code");
+        }
+        if (reply.answer === undefined) {
+            fail("sign-in was cancelled");
+        }
+        process.stdout.write(`${reply.answer}\n`);
+    });
+});
+request.on("error", (error) => fail(`couldn't reach VS Code (${error.message})`));
+request.end(JSON.stringify({ prompt: process.argv.slice(2).join(" ") }));
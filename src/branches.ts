@@ -0,0 +1,450 @@
+/**
+ * branches.ts — Create, switch, rename, delete and publish branches.
+ *
+ * WHAT IS A BRANCH?
+ *   Just a name that points at a commit. When you commit on a branch, the
+ *   name moves forward to the new commit. Making a branch is cheap — it
+ *   copies nothing — so it's normal to make one for every feature or fix
+ *   and merge it back when it's done.
+ *
+ * THE COMMANDS (and what they run):
+ *   Create   → git switch -c <name>        (or git branch <name> to stay put)
+ *   Switch   → git switch <name>           (a remote branch gets a local copy)
+ *   Rename   → git branch -m <old> <new>
+ *   Delete   → git branch -d <name>        (refuses if its commits would be lost)
+ *   Force    → git branch -D <name>        (deletes anyway — asks first)
+ *   Publish  → git push -u <remote> <name> (and remembers it as the upstream)
+ *
+ * Every command is logged in the Output panel like any other, and errors
+ * are explained by showGitError().
+ */
+
+import * as vscode from "vscode";
+import { getTargetRepo, queryGit, runGitCommand } from "./gitCommands";
+import { getRepoStatus } from "./gitStatus";
+import { showGitError } from "./errorExplainer";
+import { runWithPreflight } from "./preflight";
+
+// =============================================================
+// Types
+// =============================================================
+
+/**
+ * A branch, with its newest commit — what the pickers list.
+ */
+interface BranchInfo {
+    /** e.g. "main" or, for a remote branch, "origin/main" */
+    name: string;
+
+    remote: boolean;
+
+    /** True for the branch you're on */
+    current: boolean;
+
+    /** The remote branch it pushes to and pulls from, e.g. "origin/main" */
+    upstream?: string;
+
+    /** The first line of its newest commit's message */
+    subject: string;
+
+    /** When its newest commit was made, e.g. "3 days ago" */
+    when: string;
+}
+
+/** A branch in a QuickPick */
+interface BranchItem extends vscode.QuickPickItem {
+    branch: BranchInfo;
+}
+
+// =============================================================
+// Helpers
+// =============================================================
+
+/** The fields we ask `git for-each-ref` for, separated by NUL characters */
+const BRANCH_FORMAT = [
+    "%(refname)",
+    "%(refname:short)",
+    "%(HEAD)",
+    "%(upstream:short)",
+    "%(subject)",
+    "%(committerdate:relative)",
+].join("%00");
+
+/**
+ * Lists local and remote branches, most recently changed first.
+ */
+async function listBranches(cwd: string): Promise<BranchInfo[]> {
+    const result = await queryGit(
+        ["for-each-ref", "--sort=-committerdate", `--format=${BRANCH_FORMAT}`, "refs/heads", "refs/remotes"],
+        cwd
+    );
+    if (!result.success) {
+        return [];
+    }
+    return result.output
+        .split("\n")
+        .map((line) => line.split("\0"))
+        .filter(([ref]) => ref && !ref.endsWith("/HEAD")) // origin/HEAD just names the remote's default branch
+        .map(([ref, name, head, upstream, subject, when]) => ({
+            name,
+            remote: ref.startsWith("refs/remotes/"),
+            current: head === "*",
+            upstream: upstream || undefined,
+            subject,
+            when,
+        }));
+}
+
+/**
+ * Shows branches in a QuickPick, each with its newest commit.
+ *
+ * @returns The picked branch, or undefined if the user cancelled
+ */
+async function pickBranch(branches: BranchInfo[], title: string): Promise<BranchInfo | undefined> {
+    const items: BranchItem[] = branches.map((branch) => ({
+        label: `$(${branch.remote ? "cloud" : "git-branch"}) ${branch.name}`,
+        description: branch.current ? "current branch" : branch.upstream ? `↔ ${branch.upstream}` : undefined,
+        detail: `${branch.subject} · ${branch.when}`,
+        branch,
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+        title,
+        placeHolder: "Type to filter branches",
+        matchOnDetail: true,
+    });
+    return picked?.branch;
+}
+
+/**
+ * Checks a branch name against Git's rules (see `git check-ref-format`),
+ * in plain words. Used as an input box's validateInput.
+ *
+ * @param existing - Names that are already taken
+ * @returns What's wrong, or undefined if the name is fine
+ */
+export function validateBranchName(name: string, existing: string[] = []): string | undefined {
+    if (!name) {
+        return "Enter a name, e.g. feature/about-page";
+    }
+    if (/\s/.test(name)) {
+        return "Branch names can't contain spaces — use - instead (e.g. fix-login-bug).";
+    }
+    if (/[~^:?*[\\]|\.\.|@\{/.test(name) || name === "@") {
+        return "Branch names can't contain ~ ^ : ? * [ \\ or .. or @{";
+    }
+    if (/^[-/]|[/.]$|\/\//.test(name)) {
+        return "Branch names can't start with - or /, end with / or ., or contain //.";
+    }
+    if (name.endsWith(".lock") || name.split("/").some((part) => part.startsWith("."))) {
+        return "No part of a branch name can start with . or end with .lock.";
+    }
+    if (existing.includes(name)) {
+        return `There's already a branch called "${name}".`;
+    }
+    return undefined;
+}
+
+/** Runs a command, then shows `success` or explains the error */
+async function run(
+    args: string[],
+    cwd: string,
+    outputChannel: vscode.OutputChannel,
+    success: string
+): Promise<boolean> {
+    const result = await runGitCommand(args, outputChannel, cwd);
+    if (result.success) {
+        vscode.window.showInformationMessage(success);
+    } else {
+        await showGitError(result, outputChannel);
+    }
+    return result.success;
+}
+
+/** The target repo, or undefined (after saying why) if there isn't one */
+async function getRepo(): Promise<string | undefined> {
+    const cwd = getTargetRepo();
+    if (!cwd) {
+        vscode.window.showErrorMessage("No folder is open in VS Code. Please open a folder first (File > Open Folder).");
+        return undefined;
+    }
+    if (!(await getRepoStatus(cwd))) {
+        vscode.window.showWarningMessage("This folder isn't a Git repository yet — run `git init` first.");
+        return undefined;
+    }
+    return cwd;
+}
+
+// =============================================================
+// The Commands
+// =============================================================
+
+/**
+ * Asks for a name, then creates a branch from where you are — and
+ * switches to it, unless you'd rather stay where you are.
+ */
+export async function createBranch(outputChannel: vscode.OutputChannel): Promise<void> {
+    const cwd = await getRepo();
+    if (!cwd) {
+        return;
+    }
+    const taken = (await listBranches(cwd)).filter((b) => !b.remote).map((b) => b.name);
+    const name = await vscode.window.showInputBox({
+        title: "Create a Branch",
+        prompt: "Name the new branch. It starts from the commit you're on now.",
+        placeHolder: "e.g., feature/about-page",
+        validateInput: (value) => validateBranchName(value.trim(), taken),
+    });
+    if (!name?.trim()) {
+        return;
+    }
+    const branch = name.trim();
+
+    const choice = await vscode.window.showQuickPick(
+        [
+            {
+                label: "$(arrow-right) Create it and switch to it",
+                detail:
+                    `Runs git switch -c ${branch}. Your next commit goes on "${branch}", ` +
+                    "and uncommitted changes come along.",
+                args: ["switch", "-c", branch],
+            },
+            {
+                label: "$(add) Just create it",
+                detail: `Runs git branch ${branch}. You stay on the branch you're on.`,
+                args: ["branch", branch],
+            },
+        ],
+        { title: `Create "${branch}"` }
+    );
+    if (choice) {
+        await run(choice.args, cwd, outputChannel, `Created the branch "${branch}".`);
+    }
+}
+
+/**
+ * Lists local and remote branches to switch to. If you have uncommitted
+ * changes, asks whether to bring them along, stash them first, or cancel.
+ */
+export async function switchBranch(outputChannel: vscode.OutputChannel): Promise<void> {
+    const cwd = await getRepo();
+    const status = cwd ? await getRepoStatus(cwd) : undefined;
+    if (!cwd || !status) {
+        return;
+    }
+    if (status.conflicted.length > 0) {
+        vscode.window.showWarningMessage(
+            "Some files still have merge conflicts. Resolve them (or abort the merge) before you switch branches."
+        );
+        return;
+    }
+
+    const branches = await listBranches(cwd);
+    // A remote branch that already has a local copy is listed once, as the local branch
+    const tracked = new Set(branches.map((b) => b.upstream));
+    const choices = branches.filter((b) => !b.current && !(b.remote && tracked.has(b.name)));
+    if (choices.length === 0) {
+        vscode.window.showInformationMessage("There are no other branches to switch to. Create one first.");
+        return;
+    }
+    const target = await pickBranch(choices, "Switch to Branch");
+    if (!target) {
+        return;
+    }
+
+    // A remote branch, e.g. "origin/feature": make a local "feature" that tracks it
+    const local = target.remote ? target.name.slice(target.name.indexOf("/") + 1) : target.name;
+    const args = target.remote ? ["switch", "-c", local, "--track", target.name] : ["switch", local];
+
+    // Uncommitted changes: bring them along, or put them aside first?
+    if (status.staged.length + status.unstaged.length > 0) {
+        const choice = await vscode.window.showQuickPick(
+            [
+                {
+                    label: "$(arrow-right) Bring my changes along",
+                    detail:
+                        `Runs git ${args.join(" ")}. Your uncommitted changes move with you ` +
+                        "(Git stops if they'd clash with the other branch's files).",
+                    stash: false,
+                },
+                {
+                    label: "$(archive) Stash them here, then switch",
+                    detail:
+                        `Puts your changes aside (git stash), so you start "${local}" with a clean slate. ` +
+                        "Bring them back later with git stash pop.",
+                    stash: true,
+                },
+                { label: "$(close) Cancel", detail: "Stay where you are.", stash: undefined },
+            ],
+            { title: `Switch to "${local}"`, placeHolder: "You have uncommitted changes", ignoreFocusOut: true }
+        );
+        if (choice?.stash === undefined) {
+            return;
+        }
+        if (choice.stash) {
+            const message = `Git Helper: on ${status.branch ?? "detached HEAD"} before switching to ${local}`;
+            const stashArgs = ["stash", "push", "--include-untracked", "-m", message];
+            const stash = await runGitCommand(stashArgs, outputChannel, cwd);
+            if (!stash.success) {
+                await showGitError(stash, outputChannel);
+                return;
+            }
+        }
+    }
+
+    await run(args, cwd, outputChannel, `Switched to "${local}".`);
+}
+
+/**
+ * Renames a branch (the one you're on, unless you pick another).
+ */
+export async function renameBranch(outputChannel: vscode.OutputChannel): Promise<void> {
+    const cwd = await getRepo();
+    if (!cwd) {
+        return;
+    }
+    const local = (await listBranches(cwd)).filter((b) => !b.remote);
+    const current = local.find((b) => b.current);
+    const others = local.filter((b) => !b.current);
+    const target =
+        current && others.length === 0
+            ? current
+            : await pickBranch([...(current ? [current] : []), ...others], "Rename Which Branch?");
+    if (!target) {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        title: `Rename "${target.name}"`,
+        prompt: "The new name",
+        value: target.name,
+        validateInput: (value) =>
+            value.trim() === target.name
+                ? undefined
+                : validateBranchName(value.trim(), local.map((b) => b.name)),
+    });
+    if (!name?.trim() || name.trim() === target.name) {
+        return;
+    }
+
+    const renamed = await run(
+        ["branch", "-m", target.name, name.trim()],
+        cwd,
+        outputChannel,
+        `Renamed "${target.name}" to "${name.trim()}".`
+    );
+    if (renamed && target.upstream) {
+        // Only the local name changed — the remote still has the old one
+        outputChannel.appendLine(
+            `Note: ${target.upstream} keeps its old name on the remote. ` +
+                `To rename it there too, publish "${name.trim()}" and delete the old remote branch.`
+        );
+    }
+}
+
+/**
+ * Deletes a local branch.
+ *
+ * The safe version (`git branch -d`) only deletes a branch whose commits
+ * are all on another branch too, so nothing is lost. If it has commits
+ * nowhere else, we say so, and only force it (`git branch -D`) if the
+ * user confirms.
+ *
+ * @param force - Skip the safe attempt and go straight to the forced version
+ */
+export async function deleteBranch(outputChannel: vscode.OutputChannel, force = false): Promise<void> {
+    const cwd = await getRepo();
+    if (!cwd) {
+        return;
+    }
+    const branches = await listBranches(cwd);
+    const current = branches.find((b) => b.current)?.name ?? "HEAD";
+    const choices = branches.filter((b) => !b.remote && !b.current);
+    if (choices.length === 0) {
+        vscode.window.showInformationMessage(
+            "There are no branches to delete. (You can't delete the branch you're on — switch away first.)"
+        );
+        return;
+    }
+    const target = await pickBranch(choices, force ? "Force Delete Which Branch?" : "Delete Which Branch?");
+    if (!target) {
+        return;
+    }
+
+    // Commits on the branch that aren't on HEAD or its upstream would be lost
+    const unmerged = await queryGit(
+        ["rev-list", "--count", target.name, "--not", "HEAD", ...(target.upstream ? [target.upstream] : [])],
+        cwd
+    );
+    const lost = unmerged.success ? Number(unmerged.output) : 0;
+
+    if (lost === 0 && !force) {
+        await run(["branch", "-d", target.name], cwd, outputChannel, `Deleted the branch "${target.name}".`);
+        return;
+    }
+
+    const commits = lost === 1 ? "1 commit" : `${lost} commits`;
+    const warning =
+        lost > 0
+            ? `"${target.name}" has ${commits} that aren't merged into "${current}"` +
+              (target.upstream ? ` or pushed to ${target.upstream}. ` : ". ") +
+              "Deleting it anyway (git branch -D) throws them away."
+            : `Delete "${target.name}" with git branch -D? Its commits are all on other branches, so nothing is lost.`;
+    const answer = await vscode.window.showWarningMessage(warning, { modal: true }, "Delete Anyway");
+    if (answer !== "Delete Anyway") {
+        return;
+    }
+
+    const hash = await queryGit(["rev-parse", "--short", target.name], cwd);
+    const done = `Deleted the branch "${target.name}".`;
+    const deleted = await run(["branch", "-D", target.name], cwd, outputChannel, done);
+    if (deleted && hash.success && lost > 0) {
+        outputChannel.appendLine(
+            `Changed your mind? git branch ${target.name} ${hash.output} brings it back ` +
+                "(Git keeps unreachable commits for a few weeks)."
+        );
+    }
+}
+
+/**
+ * Pushes the current branch to a remote for the first time, with -u so
+ * it's remembered as the branch's upstream.
+ */
+export async function publishBranch(outputChannel: vscode.OutputChannel): Promise<void> {
+    const cwd = await getRepo();
+    const status = cwd ? await getRepoStatus(cwd) : undefined;
+    if (!cwd || !status) {
+        return;
+    }
+    if (!status.branch) {
+        vscode.window.showWarningMessage(
+            "You're not on a branch (detached HEAD). Create a branch first, then publish it."
+        );
+        return;
+    }
+    if (status.upstream) {
+        vscode.window.showInformationMessage(
+            `"${status.branch}" is already published as ${status.upstream}. Use Sync to push new commits.`
+        );
+        return;
+    }
+
+    // With several remotes, ask which one. With none, the pre-flight check offers to add "origin".
+    const remotes = (await queryGit(["remote"], cwd)).output.split("\n").filter(Boolean);
+    const remote =
+        remotes.length > 1
+            ? await vscode.window.showQuickPick(remotes, { title: `Publish "${status.branch}" to...` })
+            : remotes[0] ?? "origin";
+    if (!remote) {
+        return;
+    }
+
+    const result = await runWithPreflight("push", ["push", "-u", remote, status.branch], outputChannel, cwd);
+    if (!result) {
+        return;
+    }
+    if (result.success) {
+        vscode.window.showInformationMessage(`Published "${status.branch}" to ${remote}/${status.branch}.`);
+    } else {
+        await showGitError(result, outputChannel);
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * changesView.ts — The walkthrough panel's "Changes" section: the repo's
+ * files by group (staged, unstaged, untracked, conflicted — see
+ * gitStatus.ts), with buttons to stage, unstage, discard, or open a diff.
+ *
+ * The panel reads the status whenever files change (its file watcher)
+ * and passes it here. The "Discard" buttons are handled by the "Undo"
+ * section (undoView.ts), since discarding is something to undo.
+ */
+
+import * as vscode from "vscode";
+import { getTargetRepo, runGitCommand } from "./gitCommands";
+import { describeChange, RepoStatus, summarizeStatus } from "./gitStatus";
+import { openFileDiff } from "./diffView";
+import { showGitError } from "./errorExplainer";
+import { markResolved } from "./conflicts";
+import { MessageHandler, PostMessage, WalkthroughSection } from "./walkthroughSection";
+
+/** The file groups of the "Changes" section, in the order they're shown */
+const STATUS_GROUPS = [
+    { id: "conflicted", title: "Merge Conflicts" },
+    { id: "staged", title: "Staged Changes" },
+    { id: "unstaged", title: "Changes" },
+    { id: "untracked", title: "Untracked Files" },
+] as const;
+
+/** One of the file lists in RepoStatus */
+type StatusGroupId = (typeof STATUS_GROUPS)[number]["id"];
+
+/** True if the webview sent one of the group IDs above */
+function isStatusGroup(id: string | undefined): id is StatusGroupId {
+    return STATUS_GROUPS.some((group) => group.id === id);
+}
+
+/**
+ * Fills in the "Changes" section and handles its buttons.
+ */
+export class ChangesView implements WalkthroughSection {
+    public readonly styles = STYLES;
+    public readonly script = SCRIPT;
+    public readonly html = HTML;
+
+    /** The latest repo status shown in the section */
+    private _status?: RepoStatus;
+
+    public readonly handlers: Record<string, MessageHandler> = {
+        stageFile: async ({ path }) => {
+            if (path) {
+                await this._stageFile(path, true);
+            }
+        },
+        unstageFile: async ({ path }) => {
+            if (path) {
+                await this._stageFile(path, false);
+            }
+        },
+        openDiff: async ({ group, path }) => {
+            const cwd = getTargetRepo();
+            const file = isStatusGroup(group) ? this._status?.[group].find((f) => f.path === path) : undefined;
+            if (cwd && file) {
+                await openFileDiff(cwd, file, group === "staged");
+            }
+        },
+    };
+
+    /**
+     * @param _post - Sends messages to the panel's webview
+     * @param _outputChannel - Where the stage/unstage commands are logged
+     * @param _refresh - Reads the repo again and redraws the panel's sections
+     */
+    constructor(
+        private readonly _post: PostMessage,
+        private readonly _outputChannel: vscode.OutputChannel,
+        private readonly _refresh: () => Promise<void>
+    ) {}
+
+    /**
+     * Sends the repo status to the webview, grouped the way the section
+     * shows it.
+     */
+    public update(status: RepoStatus | undefined): void {
+        this._status = status;
+        this._post({
+            type: "repoStatus",
+            status: status && {
+                summary: summarizeStatus(status),
+                groups: STATUS_GROUPS.map((group) => ({
+                    id: group.id,
+                    title: group.title,
+                    files: status[group.id].map((file) => ({
+                        path: file.path,
+                        label: describeChange(file),
+                    })),
+                })),
+            },
+        });
+    }
+
+    /**
+     * Stages or unstages one file, using the same commands the learner
+     * would type:
+     *
+     *   git add -- <file>               ← stage (or mark a conflict resolved)
+     *   git restore --staged -- <file>  ← unstage
+     *
+     * Before the first commit there's nothing to "restore" from, so
+     * unstaging uses `git rm --cached` instead (it keeps the file on disk).
+     */
+    private async _stageFile(filePath: string, stage: boolean): Promise<void> {
+        // Staging a conflicted file marks it resolved — check the markers are gone first
+        const cwd = getTargetRepo();
+        if (stage && cwd && this._status?.conflicted.some((f) => f.path === filePath)) {
+            await markResolved(cwd, filePath, this._outputChannel);
+            await this._refresh();
+            return;
+        }
+
+        let args: string[];
+        if (stage) {
+            args = ["add", "--", filePath];
+        } else {
+            // A staged rename has two paths — unstage both halves
+            const file = this._status?.staged.find((f) => f.path === filePath);
+            const paths = file?.origPath ? [file.origPath, filePath] : [filePath];
+            args = this._status?.commit
+                ? ["restore", "--staged", "--", ...paths]
+                : ["rm", "--cached", "--quiet", "--", ...paths];
+        }
+
+        const result = await runGitCommand(args, this._outputChannel);
+        if (!result.success) {
+            await showGitError(result, this._outputChannel);
+        }
+        await this._refresh();
+    }
+}
+
+// =============================================================
+// HTML, CSS and JavaScript
+// =============================================================
+
+const HTML = /*html*/ `
+    <!-- Changes: the repo's files by group (filled in by showStatus()) -->
+    <details class="repo-status" open>
+        <summary>Changes</summary>
+        <p class="status-summary" id="status-summary">Checking the repository...</p>
+        <div id="status-files"></div>
+    </details>`;
+
+const STYLES = `
+        /* ========================================
+           CHANGES (REPOSITORY STATUS)
+           The repo's files, grouped like the
+           Source Control view, with buttons.
+           ======================================== */
+        .repo-status {
+            margin-bottom: 12px;
+        }
+
+        .repo-status > summary {
+            cursor: pointer;
+            font-weight: bold;
+            padding: 4px 0;
+        }`;
+
+const SCRIPT = `
+        /**
+         * Which buttons each file group gets in the "Changes" section, as
+         * [message type, label]. "openDiff" shows a side-by-side diff — or
+         * just opens the file for untracked files (nothing to compare with)
+         * and conflicts (which are fixed by editing the file).
+         */
+        const GROUP_ACTIONS = {
+            conflicted: [['openConflict', 'Open'], ['stageFile', 'Mark Resolved']],
+            staged: [['openDiff', 'Diff'], ['unstageFile', 'Unstage']],
+            unstaged: [['openDiff', 'Diff'], ['stageFile', 'Stage'], ['discardFile', 'Discard']],
+            untracked: [['openDiff', 'Open'], ['stageFile', 'Stage']]
+        };
+
+        /**
+         * Redraws the "Changes" section from the repo status.
+         * Like showExplanation(), it uses textContent for file names.
+         *
+         * @param {object | undefined} status - Summary and file groups, or
+         *   undefined if the folder isn't a Git repository
+         */
+        function showStatus(status) {
+            const summaryEl = document.getElementById('status-summary');
+            const filesEl = document.getElementById('status-files');
+            filesEl.replaceChildren();
+
+            if (!status) {
+                summaryEl.textContent = "This folder isn't a Git repository yet.";
+                return;
+            }
+            summaryEl.textContent = status.summary;
+
+            for (const group of status.groups) {
+                if (group.files.length === 0) {
+                    continue;
+                }
+
+                const title = document.createElement('p');
+                title.className = 'status-group-title';
+                title.textContent = group.title + ' (' + group.files.length + ')';
+                filesEl.append(title);
+
+                for (const file of group.files) {
+                    const row = document.createElement('div');
+                    row.className = 'status-file';
+
+                    const name = document.createElement('span');
+                    name.className = 'status-file-name';
+                    name.textContent = file.path;
+                    name.title = file.path;
+
+                    const label = document.createElement('span');
+                    label.className = 'status-file-label';
+                    label.textContent = file.label;
+
+                    row.append(name, label);
+
+                    for (const [type, text] of GROUP_ACTIONS[group.id]) {
+                        const button = document.createElement('button');
+                        button.className = 'link-button';
+                        button.textContent = text;
+                        button.onclick = () => vscode.postMessage({
+                            type: type,
+                            group: group.id,
+                            path: file.path
+                        });
+                        row.append(button);
+                    }
+                    filesEl.append(row);
+                }
+            }
+        }
+
+        // The repo's files changed
+        window.addEventListener('message', (event) => {
+            if (event.data.type === 'repoStatus') {
+                showStatus(event.data.status);
+            }
+        });`;
@@ -0,0 +1,455 @@
+/**
+ * commandExplainer.ts — Explains a Git command line word by word, offline.
+ *
+ * WHY?
+ *   It's easy to paste `git clean -fdx` or `git push --force` from a
+ *   forum answer without knowing what it will do — and some commands
+ *   throw away work for good. The explainer takes any command line and
+ *   says what each part means: the command, each option (even options
+ *   squeezed together, like -fdx → -f -d -x), and the words after them.
+ *   Anything that can lose work or rewrite shared history is flagged
+ *   first, with what would happen.
+ *
+ * Everything comes from the knowledge base in commandKnowledge.ts — no
+ * network, and nothing is run. The panel (commandExplainerView.ts) and
+ * the walkthrough's step cards both use it.
+ */
+
+import * as path from "path";
+import { StepPlaceholder } from "./steps";
+import { splitCommandLine } from "./terminalPractice";
+import { ActionInfo, DangerLevel, GLOBAL_OPTIONS, OptionInfo, SUBCOMMANDS, SubcommandInfo } from "./commandKnowledge";
+
+/** What the step placeholders stand for (see placeholders.ts) */
+const PLACEHOLDER_MEANINGS: Record<StepPlaceholder, string> = {
+    currentBranch: "the branch you're on",
+    defaultRemote: "your remote (usually origin)",
+    defaultBranch: "the main branch (main or master)",
+};
+
+/** The shell's ways of joining commands, e.g. `git add . && git commit` */
+const CONNECTORS: Record<string, string> = {
+    "&&": "Runs the next command only if this one worked.",
+    "||": "Runs the next command only if this one failed.",
+    ";": "Runs the next command either way.",
+    "|": "Sends this command's output into the next command.",
+    "&": "Runs this command in the background, and carries on.",
+};
+
+/**
+ * One word of a command, and what it means:
+ *   - "program"    → `git` itself (or another program)
+ *   - "global"     → an option before the command, like `-C folder`
+ *   - "subcommand" → the command, like `commit`
+ *   - "action"     → a word that picks what the command does, like `pop` in `git stash pop`
+ *   - "option"     → an option, like `-m` or `--force`
+ *   - "value"      → anything else: an option's value, a branch, a file...
+ *   - "separator"  → `--`, after which everything is a file
+ */
+export interface ExplainedPart {
+    text: string;
+    kind: "program" | "global" | "subcommand" | "action" | "option" | "value" | "separator";
+    explanation: string;
+
+    /** False for commands and options that aren't in the knowledge base */
+    known: boolean;
+}
+
+/** Something about a command that can lose work or surprise you */
+export interface CommandWarning {
+    level: DangerLevel;
+
+    /** A short name, e.g. "reset --hard" */
+    title: string;
+    consequence: string;
+}
+
+/** One command of a command line, explained */
+export interface ExplainedCommand {
+    /** The command as typed, e.g. `git commit -m "Fix typo"` */
+    text: string;
+
+    /** What the whole command does */
+    summary: string;
+
+    parts: ExplainedPart[];
+
+    /** The most serious first */
+    warnings: CommandWarning[];
+
+    /** The shell operator before this command (e.g. "&&"), and what it means */
+    connector?: { text: string; explanation: string };
+}
+
+// =============================================================
+// Explaining a Command Line
+// =============================================================
+
+/**
+ * Explains every command on a command line, e.g.
+ * `git add . && git commit -m "Save"` → two explained commands.
+ * A `$ ` prompt pasted along with the command is ignored.
+ */
+export function explainCommandLine(line: string): ExplainedCommand[] {
+    const commands: ExplainedCommand[] = [];
+    let words: string[] = [];
+    let connector: string | undefined;
+    const finish = (next?: string) => {
+        if (words.length > 0) {
+            const explained = explainWords(words);
+            if (connector) {
+                explained.connector = { text: connector, explanation: CONNECTORS[connector] };
+            }
+            commands.push(explained);
+        }
+        words = [];
+        connector = next;
+    };
+
+    for (const word of splitCommandLine(line.trim().replace(/^\$\s+/, ""))) {
+        if (word in CONNECTORS) {
+            finish(word);
+        } else {
+            words.push(word);
+        }
+    }
+    finish();
+    return commands;
+}
+
+/**
+ * Explains a command given as git's arguments (e.g. from the command
+ * log), so there's no shell quoting to get wrong:
+ * ["commit", "-m", "a && b"] is one command, not two.
+ */
+export function explainGitArgs(args: string[]): ExplainedCommand {
+    return explainWords(["git", ...args]);
+}
+
+/**
+ * Quotes a word again if it needs it, so a command can be shown the way
+ * it was typed: ["commit", "-m", "Fix typo"] → commit -m "Fix typo"
+ */
+function quoteWord(word: string): string {
+    return /^[\w@%+=:,./~^{}<>-]+$/.test(word) ? word : `"${word.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+/** Explains one command, given its words */
+function explainWords(words: string[]): ExplainedCommand {
+    const text = words.map(quoteWord).join(" ");
+    const program = path.basename(words[0]).toLowerCase();
+    if (program !== "git" && program !== "git.exe") {
+        return {
+            text,
+            summary: `"${words[0]}" isn't a Git command — your shell runs it. Git Helper only explains git commands.`,
+            parts: [{ text: words[0], kind: "program", explanation: "Not Git.", known: false }],
+            warnings: [],
+        };
+    }
+
+    const parts: ExplainedPart[] = [{ text: words[0], kind: "program", explanation: "Runs Git.", known: true }];
+    let i = 1;
+
+    // --- Options before the command, like `git -C app status` ---
+    let summary: string | undefined;
+    for (; i < words.length && words[i].startsWith("-"); i++) {
+        const [name, inlineValue] = splitInlineValue(words[i]);
+        const option = findOption(GLOBAL_OPTIONS, name);
+        parts.push({
+            text: words[i],
+            kind: "global",
+            explanation: option?.summary ?? "An option for Git itself that isn't in Git Helper's list.",
+            known: Boolean(option),
+        });
+        if (option?.value && inlineValue === undefined && i + 1 < words.length) {
+            parts.push({ text: words[++i], kind: "value", explanation: capitalize(option.value) + ".", known: true });
+        }
+        // `git --version` on its own says what the whole command does
+        summary = option?.summary;
+    }
+
+    const name = words[i];
+    if (name === undefined) {
+        return {
+            text,
+            summary: summary ?? "Runs Git without a command — it lists the most common commands.",
+            parts,
+            warnings: [],
+        };
+    }
+
+    // --- The command ---
+    const info = Object.prototype.hasOwnProperty.call(SUBCOMMANDS, name) ? SUBCOMMANDS[name] : undefined;
+    if (!info) {
+        parts.push({
+            text: name,
+            kind: "subcommand",
+            explanation: `Not in Git Helper's list — "git help ${name}" describes it.`,
+            known: false,
+        });
+        return {
+            text,
+            summary:
+                `Git Helper doesn't know "git ${name}" (it may be an alias, or a typo). ` +
+                `Run "git help ${name}" to find out.`,
+            parts,
+            warnings: [],
+        };
+    }
+    parts.push({ text: name, kind: "subcommand", explanation: info.summary, known: true });
+
+    const explained = explainArguments(name, info, words.slice(i + 1));
+    return {
+        text,
+        summary: explained.action?.summary ?? info.summary,
+        parts: [...parts, ...explained.parts],
+        warnings: explained.warnings,
+    };
+}
+
+/**
+ * Explains the words after the command: its action (if it has actions),
+ * options and values — and works out the warnings.
+ */
+function explainArguments(
+    name: string,
+    info: SubcommandInfo,
+    words: string[]
+): { parts: ExplainedPart[]; action?: ActionInfo; warnings: CommandWarning[] } {
+    const parts: ExplainedPart[] = [];
+    const warnings: CommandWarning[] = [];
+    const used = new Set<string>(); // options given, by their first name
+    const operands: string[] = [];
+    let action: ActionInfo | undefined;
+    let afterSeparator = false;
+
+    const warn = (title: string, danger: { level: DangerLevel; consequence: string }) => {
+        if (!warnings.some((w) => w.title === title)) {
+            warnings.push({ title, level: danger.level, consequence: danger.consequence });
+        }
+    };
+    const describeOperand = () => {
+        const list = action?.operands ?? info.operands;
+        if (afterSeparator) {
+            return "A file (everything after -- is a file, never a branch or an option).";
+        }
+        return list ? capitalize(list[Math.min(operands.length, list.length - 1)]) + "." : "";
+    };
+
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+
+        // --- "--": the rest are files ---
+        if (word === "--" && !afterSeparator) {
+            afterSeparator = true;
+            operands.push(word);
+            parts.push({
+                text: word,
+                kind: "separator",
+                explanation: "Everything after this is a file name, even if it looks like a branch or an option.",
+                known: true,
+            });
+            continue;
+        }
+
+        // --- Options ---
+        if (word.startsWith("-") && word !== "-" && !afterSeparator) {
+            const options = [...(action?.options ?? []), ...(info.options ?? [])];
+            for (const found of explainOption(options, word, words[i + 1])) {
+                parts.push(found.part);
+                if (found.option) {
+                    used.add(found.option.names[0]);
+                    if (found.option.danger) {
+                        warn(`${name} ${found.part.text}`, found.option.danger);
+                    }
+                }
+                if (found.value) {
+                    parts.push(found.value);
+                    i++;
+                }
+            }
+            continue;
+        }
+
+        // --- An action, like `pop` in `git stash pop` (only straight after the command) ---
+        const isAction =
+            !action &&
+            operands.length === 0 &&
+            info.actions &&
+            Object.prototype.hasOwnProperty.call(info.actions, word);
+        if (isAction && info.actions) {
+            action = info.actions[word];
+            parts.push({ text: word, kind: "action", explanation: action.summary, known: true });
+            if (action.danger) {
+                warn(`${name} ${word}`, action.danger);
+            }
+            continue;
+        }
+
+        // --- Anything else: a branch, a file, a message... ---
+        const meaning = [describeOperand(), info.values?.[word] ? `Here: ${info.values[word]}.` : describeValue(word)]
+            .filter(Boolean)
+            .join(" ");
+        operands.push(word);
+        parts.push({ text: word, kind: "value", explanation: meaning, known: true });
+    }
+
+    // --- Warnings for the command itself, and risky combinations ---
+    if (info.danger) {
+        warn(`git ${name}`, info.danger);
+    }
+    for (const rule of info.rules ?? []) {
+        const applies =
+            (rule.options ?? []).every((option) => used.has(option)) &&
+            !(rule.unless ?? []).some((option) => used.has(option)) &&
+            (!rule.operand || operands.some((operand) => rule.operand?.test(operand)));
+        if (applies) {
+            warn(rule.title, rule);
+        }
+    }
+
+    // The dangerous ones first
+    warnings.sort((a, b) => (a.level === b.level ? 0 : a.level === "danger" ? -1 : 1));
+    return { parts, action, warnings };
+}
+
+// =============================================================
+// Options
+// =============================================================
+
+/** Splits `--name=value` into its name and value */
+function splitInlineValue(word: string): [string, string | undefined] {
+    const equals = word.indexOf("=");
+    return word.startsWith("--") && equals > 0 ? [word.slice(0, equals), word.slice(equals + 1)] : [word, undefined];
+}
+
+/** Finds an option by any of its spellings */
+function findOption(options: OptionInfo[], name: string): OptionInfo | undefined {
+    return options.find((option) => option.names.includes(name));
+}
+
+/**
+ * Explains one option word, which may stand for several options:
+ *   - `--force`, `-f`, `--message=Hi`   → one option
+ *   - `-fdx`                            → -f, -d and -x
+ *   - `-am "Save"`                      → -a, and -m with the next word as its value
+ *   - `--no-verify` (when only --verify is known) → "turns off" that option
+ *   - `-5` on commands that take --max-count → the number of commits
+ *
+ * @param next - The word after this one (the value, for options that take one)
+ * @returns Each option's part; `value` is set when the next word was used up
+ */
+function explainOption(
+    options: OptionInfo[],
+    word: string,
+    next: string | undefined
+): { part: ExplainedPart; option?: OptionInfo; value?: ExplainedPart }[] {
+    const valuePart = (option: OptionInfo, text: string): ExplainedPart => ({
+        text,
+        kind: "value",
+        explanation: capitalize(option.value ?? "its value") + ".",
+        known: true,
+    });
+    const single = (option: OptionInfo, text: string, inlineValue: string | undefined) => ({
+        part: { text, kind: "option" as const, explanation: option.summary, known: true },
+        option,
+        // The value is the next word, unless it came with the option (--name=value, -mHi)
+        value: option.value && inlineValue === undefined && next !== undefined ? valuePart(option, next) : undefined,
+    });
+
+    // --- An option we know, as it was written ---
+    const [name, inlineValue] = splitInlineValue(word);
+    const option = findOption(options, name);
+    if (option) {
+        return [single(option, word, inlineValue)];
+    }
+
+    // --- --no-something: the opposite of --something ---
+    const negated = name.startsWith("--no-") ? findOption(options, "--" + name.slice(5)) : undefined;
+    if (negated) {
+        const explanation = `Turns off --${name.slice(5)}: ${negated.summary}`;
+        return [{ part: { text: word, kind: "option", explanation, known: true } }];
+    }
+
+    // --- -5: the number of commits, on commands that take --max-count ---
+    if (/^-\d+$/.test(word) && findOption(options, "--max-count")) {
+        const explanation = `Shows only the last ${word.slice(1)} commits.`;
+        return [{ part: { text: word, kind: "option", explanation, known: true } }];
+    }
+
+    // --- Short options squeezed together, like -fdx or -am ---
+    if (/^-[a-zA-Z]{2,}$/.test(word)) {
+        const letters = word.slice(1);
+        const found: ReturnType<typeof explainOption> = [];
+        for (let i = 0; i < letters.length; i++) {
+            const letterOption = findOption(options, "-" + letters[i]);
+            if (!letterOption) {
+                found.push({ part: unknownOption("-" + letters[i]) });
+                continue;
+            }
+            const rest = letters.slice(i + 1);
+            if (letterOption.value && rest) {
+                // -mHi: the rest of the word is the value
+                found.push(single(letterOption, "-" + letters[i], rest));
+                found.push({ part: valuePart(letterOption, rest) });
+                break;
+            }
+            found.push(single(letterOption, "-" + letters[i], undefined));
+        }
+        return found;
+    }
+
+    return [{ part: unknownOption(word) }];
+}
+
+/** The part for an option that isn't in the knowledge base */
+function unknownOption(text: string): ExplainedPart {
+    const explanation = "Not in Git Helper's list — \"git help\" describes every option.";
+    return { text, kind: "option", explanation, known: false };
+}
+
+// =============================================================
+// Values
+// =============================================================
+
+/**
+ * Recognizes values that mean the same thing in any command: HEAD~1,
+ * stash@{0}, a lesson placeholder like {currentBranch}...
+ * Returns "" for anything else (a branch or file name, a message).
+ */
+function describeValue(word: string): string {
+    const placeholder = /^\{(\w+)\}$/.exec(word)?.[1];
+    if (placeholder && Object.prototype.hasOwnProperty.call(PLACEHOLDER_MEANINGS, placeholder)) {
+        const meaning = PLACEHOLDER_MEANINGS[placeholder as StepPlaceholder];
+        return `Git Helper fills this in with ${meaning} when the step runs.`;
+    }
+    if (/^<[^<>]+>$/.test(word)) {
+        return "A placeholder — type your own value instead (without the < >).";
+    }
+    if (word === "HEAD" || word === "@") {
+        return "HEAD means the commit you're on now.";
+    }
+    const back = /^(?:HEAD|@)(~(\d*)|\^+)$/.exec(word);
+    if (back) {
+        const count = back[1].startsWith("~") ? Number(back[2] || 1) : back[1].length;
+        return count === 1
+            ? "The commit before the one you're on (its parent)."
+            : `The commit ${count} commits before the one you're on.`;
+    }
+    const stash = /^stash@\{(\d+)\}$/.exec(word);
+    if (stash) {
+        return stash[1] === "0" ? "The newest stash." : `Stash number ${stash[1]} (0 is the newest).`;
+    }
+    if (/^@\{(u|upstream)\}$/.test(word)) {
+        return "The remote branch this branch follows.";
+    }
+    if (/^[0-9a-f]{7,40}$/.test(word)) {
+        return "A commit, by its hash (the first 7 or so characters are enough).";
+    }
+    return "";
+}
+
+/** "the commit message" → "The commit message" */
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,272 @@
+/**
+ * commandExplainerView.ts — The "Explain a Git Command" panel: paste a
+ * command line, and see what each part of it means before you run it.
+ *
+ * The explaining is done by commandExplainer.ts, as you type — nothing
+ * is run, and nothing is sent anywhere. Risky commands (like
+ * `git reset --hard` or `git push --force`) get a warning at the top
+ * saying what they'd do.
+ *
+ * Like the command log, the explanation is drawn by the webview's own
+ * JavaScript from messages the extension sends it.
+ */
+
+import * as vscode from "vscode";
+import { explainCommandLine } from "./commandExplainer";
+
+/**
+ * Opens (or brings back) the explainer panel. Created once in extension.ts.
+ */
+export class CommandExplainerView implements vscode.Disposable {
+    /** Identifies our panels to VS Code */
+    public static readonly viewType = "gitHelper.explainCommand";
+
+    /** The open panel, if there is one (there's never more than one) */
+    private _panel?: vscode.WebviewPanel;
+
+    /** The command line to show when the panel is ready for it */
+    private _line = "";
+
+    public dispose(): void {
+        this._panel?.dispose();
+    }
+
+    /**
+     * Opens the panel, or brings it to the front if it's already open.
+     *
+     * @param line - A command line to explain straight away (e.g. text
+     *               selected in the editor). Leaves the box as it is if left out.
+     */
+    public show(line?: string): void {
+        if (line !== undefined) {
+            this._line = line;
+        }
+
+        if (this._panel) {
+            this._panel.reveal();
+            if (line !== undefined) {
+                this._panel.webview.postMessage({ type: "setLine", line });
+            }
+            return;
+        }
+
+        this._panel = vscode.window.createWebviewPanel(
+            CommandExplainerView.viewType,
+            "Git Helper: Explain a Command",
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this._panel.webview.html = this._getHtmlContent();
+        this._panel.webview.onDidReceiveMessage((message) => this._handleMessage(message));
+        this._panel.onDidDispose(() => (this._panel = undefined));
+    }
+
+    /**
+     * Handles the webview's messages: "ready" when it can be sent the
+     * command line, and "explain" as the learner types.
+     */
+    private _handleMessage(message: { type: string; line?: string }): void {
+        if (message.type === "ready") {
+            this._panel?.webview.postMessage({ type: "setLine", line: this._line });
+            return;
+        }
+
+        if (message.type === "explain") {
+            this._line = message.line ?? "";
+            this._panel?.webview.postMessage({ type: "explanation", commands: explainCommandLine(this._line) });
+        }
+    }
+
+    /** The panel's HTML, CSS and JavaScript */
+    private _getHtmlContent(): string {
+        return /*html*/ `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Explain a Command</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 0 16px 16px 16px;
+            max-width: 900px;
+        }
+
+        textarea {
+            width: 100%;
+            box-sizing: border-box;
+            min-height: 3em;
+            padding: 6px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            resize: vertical;
+        }
+
+        .hint {
+            opacity: 0.75;
+            font-size: 0.9em;
+        }
+
+        /* ========================================
+           ONE COMMAND
+           Its summary, warnings, then a row per word.
+           ======================================== */
+        .command {
+            margin-top: 16px;
+            padding-top: 8px;
+            border-top: 1px solid var(--vscode-panel-border);
+        }
+
+        .connector {
+            opacity: 0.75;
+            font-size: 0.9em;
+            margin-bottom: 6px;
+        }
+
+        .command-text {
+            font-family: var(--vscode-editor-font-family);
+            font-weight: bold;
+            word-break: break-all;
+        }
+
+        .warning {
+            margin: 8px 0;
+            padding: 6px 10px;
+            border-left: 3px solid var(--vscode-charts-yellow);
+            background: var(--vscode-textCodeBlock-background);
+        }
+
+        .warning-danger {
+            border-left-color: var(--vscode-errorForeground);
+        }
+
+        .warning-title {
+            font-weight: bold;
+        }
+
+        .parts {
+            display: grid;
+            grid-template-columns: minmax(80px, max-content) 1fr;
+            gap: 6px 16px;
+            margin-top: 8px;
+        }
+
+        .part-text {
+            font-family: var(--vscode-editor-font-family);
+            word-break: break-all;
+        }
+
+        .part-subcommand, .part-action {
+            font-weight: bold;
+        }
+
+        .part-unknown {
+            opacity: 0.75;
+            font-style: italic;
+        }
+    </style>
+</head>
+<body>
+    <h2>Explain a Git Command</h2>
+    <textarea id="line" placeholder="Paste a git command, e.g. git clean -fdx" oninput="explainSoon()"
+              spellcheck="false"></textarea>
+    <p class="hint">
+        Nothing is run — this only explains. Several commands joined with &amp;&amp; or ; are explained one by one.
+    </p>
+    <div id="explanation"></div>
+
+    <script>
+        // ========================================
+        // WEBVIEW JAVASCRIPT
+        // ========================================
+        // Sends the command line to commandExplainerView.ts as it's
+        // typed, and draws the explanation it sends back.
+        const vscode = acquireVsCodeApi();
+
+        /** Pending explain request — typing quickly only explains once */
+        let timer;
+
+        function explainSoon() {
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                vscode.postMessage({ type: 'explain', line: document.getElementById('line').value });
+            }, 150);
+        }
+
+        /** Draws every command's explanation */
+        function render(commands) {
+            const container = document.getElementById('explanation');
+            container.replaceChildren();
+            for (const command of commands) {
+                container.append(renderCommand(command));
+            }
+        }
+
+        /**
+         * Builds one command's explanation: what it does, what could go
+         * wrong, then each word and its meaning.
+         */
+        function renderCommand(command) {
+            const section = element('div', 'command', '');
+            if (command.connector) {
+                section.append(element('div', 'connector', command.connector.text + ' — ' +
+                    command.connector.explanation));
+            }
+            section.append(element('div', 'command-text', command.text), element('p', '', command.summary));
+
+            for (const warning of command.warnings) {
+                const box = element('div', 'warning warning-' + warning.level, '');
+                box.append(
+                    element('div', 'warning-title',
+                        (warning.level === 'danger' ? '⚠ Can lose work: ' : 'Careful: ') + warning.title),
+                    element('div', '', warning.consequence)
+                );
+                section.append(box);
+            }
+
+            const parts = element('div', 'parts', '');
+            for (const part of command.parts) {
+                const unknown = part.known ? '' : ' part-unknown';
+                parts.append(
+                    element('div', 'part-text part-' + part.kind + unknown, part.text),
+                    element('div', unknown.trim(), part.explanation)
+                );
+            }
+            section.append(parts);
+            return section;
+        }
+
+        /** Creates an element with a class and text */
+        function element(tag, className, text) {
+            const el = document.createElement(tag);
+            el.className = className;
+            el.textContent = text;
+            return el;
+        }
+
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+            if (message.type === 'setLine') {
+                const box = document.getElementById('line');
+                box.value = message.line;
+                box.focus();
+                vscode.postMessage({ type: 'explain', line: message.line });
+            }
+            if (message.type === 'explanation') {
+                render(message.commands);
+            }
+        });
+
+        // Ask for the command line once we're ready to explain it
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,874 @@
+/**
+ * commandKnowledge.ts — What Git's commands and options mean, in plain
+ * English (data only — commandExplainer.ts does the explaining).
+ *
+ * WHY BUNDLE IT?
+ *   `git help` pages are thorough, but written for people who already
+ *   know Git. And a learner who pastes a command from a forum answer
+ *   deserves to know what it does BEFORE running it — without a network
+ *   connection or leaving VS Code.
+ *
+ * It covers the commands and options people actually meet, not all of
+ * Git. Anything missing is shown as "not in Git Helper's list", with a
+ * pointer to `git help`.
+ *
+ * HOW TO ADD A COMMAND:
+ *   Add an entry to SUBCOMMANDS. List each option's spellings in `names`
+ *   (the first one is the name danger rules use), and give options that
+ *   are followed by a value a `value` description. Options and rules that
+ *   can lose work get a `danger`.
+ */
+
+/**
+ * How risky something is:
+ *   - "danger"  → it can throw away work, with no easy way back
+ *   - "caution" → it's safe if you know what it does, but can surprise you
+ *     (e.g. it rewrites commits others may already have)
+ */
+export type DangerLevel = "danger" | "caution";
+
+/** What can go wrong, and how badly */
+export interface Danger {
+    level: DangerLevel;
+
+    /** The consequence, in plain English */
+    consequence: string;
+}
+
+/** One option, like `-m` or `--force` */
+export interface OptionInfo {
+    /** Every spelling of the option, e.g. ["-f", "--force"] */
+    names: string[];
+
+    /** What it does */
+    summary: string;
+
+    /**
+     * Set if the option is followed by a value (e.g. `-m "message"`),
+     * describing that value. (`--name=value` is understood either way.)
+     */
+    value?: string;
+
+    /** Set if the option can lose work or surprise you */
+    danger?: Danger;
+}
+
+/**
+ * A risk that comes from a combination rather than one option — e.g.
+ * `git push origin :old-branch` deletes a branch, with no option at all.
+ */
+export interface DangerRule extends Danger {
+    /** Options that must all be there (by their first name) */
+    options?: string[];
+
+    /** Options that make it safe (by their first name) */
+    unless?: string[];
+
+    /** At least one of the other words must match this */
+    operand?: RegExp;
+
+    /** A short name for the warning, e.g. "Deletes a remote branch" */
+    title: string;
+}
+
+/** A word that picks what a command does, like `pop` in `git stash pop` */
+export interface ActionInfo {
+    summary: string;
+    options?: OptionInfo[];
+
+    /** What the words after it mean, in order (the last one covers any more) */
+    operands?: string[];
+    danger?: Danger;
+}
+
+/** A Git command, like `commit` or `push` */
+export interface SubcommandInfo {
+    summary: string;
+
+    /** Options of the command (an action's own options are looked up first) */
+    options?: OptionInfo[];
+
+    /** What the other words mean, in order (the last one covers any more) */
+    operands?: string[];
+
+    /** Words that have a special meaning here, e.g. "." for `git add` */
+    values?: Record<string, string>;
+
+    /** Words that pick an action, like `add` in `git remote add` */
+    actions?: Record<string, ActionInfo>;
+
+    /** Set if the command itself can lose work or surprise you */
+    danger?: Danger;
+
+    /** Risks from combinations of options and words */
+    rules?: DangerRule[];
+}
+
+// =============================================================
+// Options Shared by Many Commands
+// =============================================================
+
+const QUIET: OptionInfo = { names: ["-q", "--quiet"], summary: "Prints less (only errors)." };
+const VERBOSE: OptionInfo = { names: ["-v", "--verbose"], summary: "Prints more detail." };
+const DRY_RUN: OptionInfo = {
+    names: ["-n", "--dry-run"],
+    summary: "Only shows what would happen — nothing is changed. A good habit before anything risky.",
+};
+const NO_EDIT: OptionInfo = {
+    names: ["--no-edit"],
+    summary: "Uses the message Git suggests, instead of opening a text editor to change it.",
+};
+const ABORT: OptionInfo = {
+    names: ["--abort"],
+    summary: "Gives up and puts everything back the way it was before the command started.",
+};
+const CONTINUE: OptionInfo = {
+    names: ["--continue"],
+    summary: "Carries on after you've fixed the conflicts (and staged the files).",
+};
+
+/** The --oneline, --graph... family shared by log-like commands */
+const LOG_OPTIONS: OptionInfo[] = [
+    { names: ["--oneline"], summary: "Shows each commit on one line: short hash and message." },
+    { names: ["--graph"], summary: "Draws lines showing where branches split off and merge back." },
+    { names: ["--all"], summary: "Includes every branch, not just the one you're on." },
+    { names: ["--decorate"], summary: "Shows which branches and tags point at each commit." },
+    { names: ["-n", "--max-count"], summary: "Shows only this many commits.", value: "how many commits to show" },
+    { names: ["-p", "--patch"], summary: "Shows what each commit changed, line by line." },
+    { names: ["--stat"], summary: "Shows which files each commit changed, and how much." },
+    { names: ["--author"], summary: "Shows only commits by this person.", value: "part of the author's name or email" },
+    { names: ["--since", "--after"], summary: "Shows only newer commits.", value: 'a date, e.g. "2 weeks ago"' },
+    { names: ["--until", "--before"], summary: "Shows only older commits.", value: 'a date, e.g. "yesterday"' },
+    { names: ["--grep"], summary: "Shows only commits whose message contains this.", value: "the text to look for" },
+    { names: ["--follow"], summary: "Keeps following a file's history through renames." },
+];
+
+// =============================================================
+// Options That Go Before the Command
+// =============================================================
+
+/** Options between `git` and the command, e.g. `git -C app status` */
+export const GLOBAL_OPTIONS: OptionInfo[] = [
+    { names: ["--version"], summary: "Prints which version of Git is installed." },
+    { names: ["-h", "--help"], summary: "Shows Git's help." },
+    {
+        names: ["-C"],
+        summary: "Runs the command as if Git was started in another folder.",
+        value: "the folder to run in",
+    },
+    {
+        names: ["-c"],
+        summary: "Changes a setting for this one command only (nothing is saved).",
+        value: "a setting and its value, like core.pager=cat",
+    },
+    { names: ["--no-pager", "-P"], summary: "Prints everything at once, instead of a page at a time." },
+    { names: ["-p", "--paginate"], summary: "Shows the output a page at a time (press q to quit)." },
+    { names: ["--git-dir"], summary: "Uses a repository stored somewhere unusual.", value: "the .git folder to use" },
+    { names: ["--work-tree"], summary: "Uses another folder as the working files.", value: "the folder" },
+];
+
+// =============================================================
+// The Commands
+// =============================================================
+
+export const SUBCOMMANDS: Record<string, SubcommandInfo> = {
+    // --- Starting ---
+    init: {
+        summary: "Creates a new, empty repository (a hidden .git folder) so Git starts tracking this folder.",
+        options: [
+            { names: ["-b", "--initial-branch"], summary: "Names the first branch.", value: "the branch name" },
+            { names: ["--bare"], summary: "Creates a repository with no working files — for servers." },
+            QUIET,
+        ],
+        operands: ["the folder to create the repository in (this folder if left out)"],
+    },
+    clone: {
+        summary: "Downloads a copy of a repository, with its whole history, into a new folder.",
+        options: [
+            {
+                names: ["-b", "--branch"],
+                summary: "Checks out this branch instead of the default one.",
+                value: "a branch name",
+            },
+            {
+                names: ["--depth"],
+                summary: "Downloads only the latest commits (a \"shallow\" clone).",
+                value: "how many commits",
+            },
+            {
+                names: ["--recurse-submodules"],
+                summary: "Also clones the repositories this one includes (submodules).",
+            },
+            { names: ["--bare"], summary: "Clones without working files — for servers." },
+            QUIET,
+        ],
+        operands: [
+            "the address of the repository to copy",
+            "the folder to put it in (named after the repository if left out)",
+        ],
+    },
+    config: {
+        summary: "Reads or changes Git's settings.",
+        options: [
+            { names: ["--global"], summary: "Uses your personal settings, for every repository on this computer." },
+            { names: ["--local"], summary: "Uses this repository's settings only." },
+            { names: ["--system"], summary: "Uses the settings for every user of this computer." },
+            { names: ["-l", "--list"], summary: "Lists every setting." },
+            { names: ["--show-origin"], summary: "Also shows which file each setting comes from." },
+            { names: ["--get"], summary: "Prints one setting's value." },
+            { names: ["--unset"], summary: "Removes a setting." },
+            { names: ["-e", "--edit"], summary: "Opens the settings file in a text editor." },
+        ],
+        operands: ["the setting's name, like user.name", "its new value (quote it if it has spaces)"],
+    },
+
+    // --- Looking around ---
+    status: {
+        summary: "Shows which branch you're on, and which files are staged, changed or new. Changes nothing.",
+        options: [
+            { names: ["-s", "--short"], summary: "Shows one short line per file." },
+            { names: ["-b", "--branch"], summary: "Also shows the branch, in the short format." },
+            { names: ["-u", "--untracked-files"], summary: "Chooses how new files are listed." },
+        ],
+        operands: ["only show these files or folders"],
+    },
+    log: {
+        summary: "Lists the commits, newest first. Changes nothing.",
+        options: LOG_OPTIONS,
+        operands: ["where to start: a branch, tag or commit (the current commit if left out)"],
+    },
+    shortlog: {
+        summary: "Summarizes commits by author. Changes nothing.",
+        options: [
+            { names: ["-s", "--summary"], summary: "Only counts each author's commits." },
+            { names: ["-n", "--numbered"], summary: "Puts the busiest authors first." },
+            { names: ["-e", "--email"], summary: "Shows email addresses too." },
+        ],
+        operands: ["the commits to summarize"],
+    },
+    diff: {
+        summary: "Shows what changed, line by line. Changes nothing.",
+        options: [
+            {
+                names: ["--staged", "--cached"],
+                summary: "Shows the staged changes (what the next commit will contain).",
+            },
+            { names: ["--stat"], summary: "Only lists the changed files, and how much changed." },
+            { names: ["--name-only"], summary: "Only lists the changed files' names." },
+            { names: ["-w", "--ignore-all-space"], summary: "Ignores changes to spaces." },
+            { names: ["--word-diff"], summary: "Shows changed words, not whole lines." },
+        ],
+        operands: ["commits or branches to compare (your unstaged changes if left out)"],
+    },
+    show: {
+        summary: "Shows one commit: its message and what it changed. Changes nothing.",
+        options: [
+            { names: ["--stat"], summary: "Only lists the changed files." },
+            { names: ["--name-only"], summary: "Only lists the changed files' names." },
+        ],
+        operands: ["the commit to show (the current one if left out)"],
+    },
+    blame: {
+        summary: "Shows who last changed each line of a file, and in which commit. Changes nothing.",
+        options: [{ names: ["-L"], summary: "Only looks at some lines.", value: "the lines, like 10,20" }],
+        operands: ["the file"],
+    },
+    reflog: {
+        summary:
+            "Lists everywhere HEAD has been recently — even commits no branch points at any more. " +
+            "It's how you find work after a reset or a deleted branch.",
+        operands: ["the branch to show (HEAD if left out)"],
+        actions: {
+            show: { summary: "Lists where HEAD (or a branch) has been. The same as plain `git reflog`." },
+            expire: {
+                summary: "Forgets old entries.",
+                danger: {
+                    level: "danger",
+                    consequence:
+                        "Commits only the reflog remembered can then be deleted for good — it's the safety net for " +
+                        "recovering lost work.",
+                },
+            },
+        },
+    },
+    "ls-files": {
+        summary: "Lists the files Git is tracking. Changes nothing.",
+        options: [
+            { names: ["-o", "--others"], summary: "Lists files Git isn't tracking instead." },
+            { names: ["-i", "--ignored"], summary: "Lists only ignored files (use with -o)." },
+            { names: ["--exclude-standard"], summary: "Leaves out files .gitignore ignores." },
+        ],
+    },
+    "rev-parse": {
+        summary: "Answers questions about the repository, like which commit a branch is on. Changes nothing.",
+        options: [
+            { names: ["--show-toplevel"], summary: "Prints the repository's top folder." },
+            { names: ["--abbrev-ref"], summary: "Prints names instead of commit hashes." },
+            { names: ["--short"], summary: "Prints short commit hashes." },
+        ],
+        operands: ["what to look up, like HEAD"],
+    },
+    describe: {
+        summary: "Names a commit after the nearest tag, like v1.2-3-gabc1234. Changes nothing.",
+        options: [{ names: ["--tags"], summary: "Uses any tag, not only annotated ones." }],
+        operands: ["the commit (the current one if left out)"],
+    },
+    help: {
+        summary: "Opens Git's manual for a command.",
+        operands: ["the command to read about"],
+    },
+
+    // --- Saving work ---
+    add: {
+        summary: "Stages changes — puts them in the next commit.",
+        options: [
+            {
+                names: ["-A", "--all"],
+                summary: "Stages every change in the repository: new, changed and deleted files.",
+            },
+            { names: ["-u", "--update"], summary: "Stages changed and deleted files, but not new ones." },
+            { names: ["-p", "--patch"], summary: "Asks about each change, so you can stage only some of a file." },
+            { names: ["-f", "--force"], summary: "Stages files even if .gitignore ignores them." },
+            DRY_RUN,
+            VERBOSE,
+        ],
+        operands: ["the files or folders to stage"],
+        values: { ".": "everything in this folder (and the folders inside it)" },
+    },
+    commit: {
+        summary: "Saves the staged changes as a new commit — a snapshot in the project's history.",
+        options: [
+            {
+                names: ["-m", "--message"],
+                summary: "Gives the commit message on the command line.",
+                value: "the commit message",
+            },
+            { names: ["-a", "--all"], summary: "Stages changed and deleted files first (not new ones), then commits." },
+            {
+                names: ["--amend"],
+                summary: "Replaces the last commit with a new one, including anything you've staged since.",
+                danger: {
+                    level: "caution",
+                    consequence:
+                        "The old last commit is replaced. If you'd already pushed it, your branch and the remote's " +
+                        "now disagree, and pushing needs --force.",
+                },
+            },
+            NO_EDIT,
+            { names: ["--allow-empty"], summary: "Commits even if nothing changed." },
+            { names: ["-v", "--verbose"], summary: "Shows the changes in the editor while you write the message." },
+            { names: ["--no-verify", "-n"], summary: "Skips the repository's pre-commit checks (hooks)." },
+            { names: ["-S", "--gpg-sign"], summary: "Signs the commit, to prove it's from you." },
+            QUIET,
+        ],
+        operands: ["commit only these files"],
+    },
+    rm: {
+        summary: "Deletes files and stages the deletion.",
+        options: [
+            { names: ["--cached"], summary: "Stops tracking the files, but leaves them on disk." },
+            { names: ["-r"], summary: "Deletes folders and everything in them." },
+            {
+                names: ["-f", "--force"],
+                summary: "Deletes files even if they have changes that aren't committed.",
+                danger: { level: "danger", consequence: "Uncommitted changes in those files are lost." },
+            },
+            DRY_RUN,
+        ],
+        operands: ["the files to delete"],
+        rules: [
+            {
+                title: "Deletes files from disk",
+                unless: ["--cached"],
+                level: "caution",
+                consequence:
+                    "The files are deleted from your folder, not just from Git. Add --cached to keep them on disk.",
+            },
+        ],
+    },
+    mv: {
+        summary: "Moves or renames a file, and stages the change.",
+        options: [{ names: ["-f", "--force"], summary: "Overwrites a file that's already there." }, DRY_RUN],
+        operands: ["the file to move", "where to move it"],
+    },
+    restore: {
+        summary: "Puts files back the way they were — in your folder, or in the staging area.",
+        options: [
+            { names: ["-S", "--staged"], summary: "Unstages the files. Your changes stay in the files." },
+            { names: ["-W", "--worktree"], summary: "Restores the files in your folder (the default)." },
+            { names: ["-s", "--source"], summary: "Takes the files from this commit.", value: "a commit or branch" },
+            { names: ["-p", "--patch"], summary: "Asks about each change." },
+        ],
+        operands: ["the files to restore"],
+        values: { ".": "every file in this folder (and the folders inside it)" },
+        rules: [
+            {
+                title: "Throws away changes",
+                unless: ["-S"],
+                level: "danger",
+                consequence:
+                    "Changes you haven't committed in these files are thrown away. Git never saved them, so " +
+                    "there's no undo.",
+            },
+        ],
+    },
+    reset: {
+        summary: "Moves the current branch to another commit, and/or unstages files.",
+        options: [
+            { names: ["--soft"], summary: "Moves the branch only. The undone commits' changes stay staged." },
+            {
+                names: ["--mixed"],
+                summary: "Moves the branch and unstages. The changes stay in your files (the default).",
+            },
+            {
+                names: ["--hard"],
+                summary: "Moves the branch AND makes every tracked file match that commit.",
+                danger: {
+                    level: "danger",
+                    consequence:
+                        "Every uncommitted change to tracked files is thrown away, with no undo. Commits it moves " +
+                        "past can only be found again with git reflog.",
+                },
+            },
+            {
+                names: ["--keep"],
+                summary: "Like --hard, but refuses to run if it would lose uncommitted changes.",
+            },
+            { names: ["-p", "--patch"], summary: "Asks about each change to unstage." },
+            QUIET,
+        ],
+        operands: ["the commit to move to (or files to unstage)"],
+    },
+    revert: {
+        summary:
+            "Makes a new commit that undoes an earlier one. History isn't rewritten, so it's safe for commits " +
+            "you've already pushed.",
+        options: [
+            NO_EDIT,
+            { names: ["-n", "--no-commit"], summary: "Undoes the changes in your files, but doesn't commit." },
+            {
+                names: ["-m", "--mainline"],
+                summary: "Which parent to go back to, for a merge commit.",
+                value: "1 or 2",
+            },
+            ABORT,
+            CONTINUE,
+        ],
+        operands: ["the commit(s) to undo"],
+    },
+    stash: {
+        summary: "Puts your uncommitted changes aside, so you can come back to them later.",
+        options: [
+            { names: ["-u", "--include-untracked"], summary: "Stashes new (untracked) files too." },
+            { names: ["-m", "--message"], summary: "Labels the stash.", value: "the label" },
+            { names: ["-a", "--all"], summary: "Stashes ignored files too." },
+            { names: ["-k", "--keep-index"], summary: "Leaves staged changes where they are." },
+        ],
+        actions: {
+            push: {
+                summary: "Puts your changes aside (the same as plain `git stash`).",
+                operands: ["only these files"],
+            },
+            list: { summary: "Lists the stashes, newest first." },
+            show: { summary: "Shows what a stash changed.", operands: ["which stash (the newest if left out)"] },
+            pop: {
+                summary: "Brings back a stash's changes and removes it from the list.",
+                operands: ["which stash (the newest if left out)"],
+            },
+            apply: {
+                summary: "Brings back a stash's changes, but keeps it in the list too.",
+                operands: ["which stash (the newest if left out)"],
+            },
+            drop: {
+                summary: "Deletes a stash.",
+                operands: ["which stash (the newest if left out)"],
+                danger: {
+                    level: "danger",
+                    consequence: "The stashed changes are gone — make sure you don't need them.",
+                },
+            },
+            clear: {
+                summary: "Deletes every stash.",
+                danger: { level: "danger", consequence: "Every stashed change is gone at once, with no undo." },
+            },
+            branch: { summary: "Makes a new branch from a stash.", operands: ["the new branch's name", "which stash"] },
+        },
+    },
+    clean: {
+        summary: "Deletes untracked files — files in your folder that Git isn't tracking.",
+        options: [
+            {
+                names: ["-f", "--force"],
+                summary: "Actually deletes (without it, Git refuses).",
+                danger: {
+                    level: "danger",
+                    consequence:
+                        "Untracked files are deleted for good. Git never had a copy, and they don't go to the " +
+                        "Recycle Bin. Run it with -n first to see what would go.",
+                },
+            },
+            { names: ["-d"], summary: "Deletes untracked folders too, with everything in them." },
+            {
+                names: ["-x"],
+                summary: "Deletes ignored files too.",
+                danger: {
+                    level: "danger",
+                    consequence:
+                        "Files .gitignore hides are deleted as well — .env files with passwords, local settings, " +
+                        "node_modules, build output.",
+                },
+            },
+            { names: ["-X"], summary: "Deletes ONLY ignored files (like build output)." },
+            DRY_RUN,
+            { names: ["-i", "--interactive"], summary: "Asks before deleting each file." },
+        ],
+        operands: ["only clean these folders"],
+    },
+
+    // --- Branches ---
+    branch: {
+        summary: "Lists, creates, renames or deletes branches.",
+        options: [
+            { names: ["-a", "--all"], summary: "Lists the remote's branches too." },
+            { names: ["-r", "--remotes"], summary: "Lists only the remote's branches." },
+            { names: ["-v", "--verbose"], summary: "Shows each branch's newest commit." },
+            { names: ["-vv"], summary: "Shows each branch's newest commit and the remote branch it follows." },
+            {
+                names: ["-d", "--delete"],
+                summary: "Deletes a branch — only if its commits are safe on another branch.",
+            },
+            {
+                names: ["-D"],
+                summary: "Deletes a branch, even if its commits aren't on any other branch.",
+                danger: {
+                    level: "danger",
+                    consequence:
+                        "Commits that are only on this branch are left behind with no name. They can be found with " +
+                        "git reflog for a while, then they're gone.",
+                },
+            },
+            { names: ["-m", "--move"], summary: "Renames a branch." },
+            {
+                names: ["-M"],
+                summary: "Renames a branch, even if a branch with the new name exists.",
+                danger: { level: "caution", consequence: "A branch that already has the new name is replaced." },
+            },
+            {
+                names: ["-f", "--force"],
+                summary: "Moves an existing branch to another commit.",
+                danger: { level: "caution", consequence: "The branch's commits may be left behind." },
+            },
+            {
+                names: ["-u", "--set-upstream-to"],
+                summary: "Sets the remote branch this branch follows.",
+                value: "e.g. origin/main",
+            },
+            { names: ["--show-current"], summary: "Prints the current branch's name." },
+            { names: ["--merged"], summary: "Lists branches that are already merged." },
+        ],
+        operands: ["the branch's name", "the commit to start it from (the current one if left out)"],
+    },
+    switch: {
+        summary: "Moves to another branch: your files change to match it.",
+        options: [
+            { names: ["-c", "--create"], summary: "Creates a new branch, then switches to it." },
+            {
+                names: ["-C", "--force-create"],
+                summary: "Creates the branch, replacing one with the same name.",
+                danger: { level: "caution", consequence: "An existing branch with that name is moved here." },
+            },
+            {
+                names: ["-f", "--discard-changes", "--force"],
+                summary: "Switches even if your changes would be lost.",
+                danger: { level: "danger", consequence: "Your uncommitted changes are thrown away." },
+            },
+            { names: ["-d", "--detach"], summary: "Goes to a commit without being on a branch (\"detached HEAD\")." },
+            { names: ["-t", "--track"], summary: "Sets the new branch to follow the remote branch." },
+        ],
+        operands: ["the branch to switch to", "the commit to start a new branch from"],
+        values: { "-": "the branch you were on before" },
+    },
+    checkout: {
+        summary:
+            "Switches branches — or, given files, restores them. (switch and restore are its newer, clearer halves.)",
+        options: [
+            { names: ["-b"], summary: "Creates a new branch, then switches to it." },
+            {
+                names: ["-B"],
+                summary: "Creates the branch, replacing one with the same name.",
+                danger: { level: "caution", consequence: "An existing branch with that name is moved here." },
+            },
+            {
+                names: ["-f", "--force"],
+                summary: "Switches even if your changes would be lost.",
+                danger: { level: "danger", consequence: "Your uncommitted changes are thrown away." },
+            },
+            { names: ["-t", "--track"], summary: "Sets the new branch to follow the remote branch." },
+            { names: ["--ours"], summary: "During a conflict, takes your version of the files." },
+            { names: ["--theirs"], summary: "During a conflict, takes the incoming version of the files." },
+        ],
+        operands: ["the branch (or commit) to switch to — or, after --, files to restore"],
+        values: { "-": "the branch you were on before", ".": "every file in this folder" },
+        rules: [
+            {
+                title: "Throws away changes",
+                // `git checkout .` or `git checkout -- file`: restoring files, not switching
+                operand: /^(\.|--)$/,
+                level: "danger",
+                consequence:
+                    "Uncommitted changes in these files are thrown away. Git never saved them, so there's no undo.",
+            },
+        ],
+    },
+    merge: {
+        summary: "Brings another branch's commits into the current branch.",
+        options: [
+            NO_EDIT,
+            { names: ["--no-ff"], summary: "Always makes a merge commit, so the branch stays visible in the history." },
+            { names: ["--ff-only"], summary: "Only merges if no merge commit is needed — otherwise stops." },
+            {
+                names: ["--squash"],
+                summary:
+                    "Stages all the branch's changes as one, to commit yourself. The branch's own commits aren't kept.",
+            },
+            { names: ["-m"], summary: "The merge commit's message.", value: "the message" },
+            ABORT,
+            CONTINUE,
+        ],
+        operands: ["the branch to merge in"],
+    },
+    rebase: {
+        summary: "Replays your branch's commits on top of another branch, as if you'd started from there.",
+        options: [
+            {
+                names: ["-i", "--interactive"],
+                summary: "Opens a list where you can reorder, edit, squash or drop commits.",
+            },
+            { names: ["--onto"], summary: "Replays the commits onto somewhere else.", value: "the new base" },
+            { names: ["--autosquash"], summary: "Folds \"fixup!\" commits into the ones they fix." },
+            ABORT,
+            CONTINUE,
+            { names: ["--skip"], summary: "Leaves out the commit that's stuck, and carries on." },
+        ],
+        operands: ["the branch to replay onto", "the branch to rebase (the current one if left out)"],
+        danger: {
+            level: "caution",
+            consequence:
+                "Your commits are rewritten as new ones. If you'd already pushed them, don't — anyone who has the " +
+                "old ones gets a mess, and pushing needs --force.",
+        },
+    },
+    "cherry-pick": {
+        summary: "Copies a commit from another branch onto the current one.",
+        options: [
+            { names: ["-n", "--no-commit"], summary: "Copies the changes, but doesn't commit." },
+            { names: ["-x"], summary: "Notes in the message where the commit was copied from." },
+            ABORT,
+            CONTINUE,
+        ],
+        operands: ["the commit(s) to copy"],
+    },
+    tag: {
+        summary: "Lists or creates tags — permanent names for commits, like v1.0.",
+        options: [
+            { names: ["-a", "--annotate"], summary: "Makes a full tag, with a message, author and date." },
+            { names: ["-m", "--message"], summary: "The tag's message.", value: "the message" },
+            {
+                names: ["-d", "--delete"],
+                summary: "Deletes a tag (here only — not on the remote).",
+            },
+            {
+                names: ["-f", "--force"],
+                summary: "Moves an existing tag to another commit.",
+                danger: { level: "caution", consequence: "Anyone who already has the tag still has the old one." },
+            },
+            { names: ["-l", "--list"], summary: "Lists tags." },
+        ],
+        operands: ["the tag's name", "the commit to tag (the current one if left out)"],
+    },
+    bisect: {
+        summary: "Finds the commit that introduced a bug, by testing commits halfway between a good one and a bad one.",
+        actions: {
+            start: { summary: "Starts the search." },
+            good: {
+                summary: "Says the commit being tested works.",
+                operands: ["the commit (the current one if left out)"],
+            },
+            bad: {
+                summary: "Says the commit being tested is broken.",
+                operands: ["the commit (the current one if left out)"],
+            },
+            reset: { summary: "Ends the search and goes back to where you started." },
+        },
+    },
+
+    // --- Sharing ---
+    remote: {
+        summary: "Lists or changes the remotes — the other copies of this repository you push to and pull from.",
+        options: [VERBOSE],
+        actions: {
+            add: { summary: "Adds a remote.", operands: ["a short name for it (usually origin)", "its address"] },
+            remove: {
+                summary: "Removes a remote (the repository on the server isn't touched).",
+                operands: ["the remote's name"],
+            },
+            rm: {
+                summary: "Removes a remote (the repository on the server isn't touched).",
+                operands: ["the remote's name"],
+            },
+            rename: { summary: "Renames a remote.", operands: ["its current name", "its new name"] },
+            "set-url": { summary: "Changes a remote's address.", operands: ["the remote's name", "its new address"] },
+            "get-url": { summary: "Prints a remote's address.", operands: ["the remote's name"] },
+            show: { summary: "Shows details about a remote.", operands: ["the remote's name"] },
+            prune: {
+                summary: "Forgets remote branches that were deleted on the server.",
+                operands: ["the remote's name"],
+            },
+        },
+    },
+    fetch: {
+        summary: "Downloads new commits from a remote, without changing your branches or files.",
+        options: [
+            { names: ["--all"], summary: "Fetches from every remote." },
+            { names: ["-p", "--prune"], summary: "Forgets remote branches that were deleted on the server." },
+            { names: ["--tags"], summary: "Fetches all tags too." },
+            QUIET,
+        ],
+        operands: ["the remote (the current branch's if left out)", "what to fetch"],
+    },
+    pull: {
+        summary: "Fetches new commits from the remote, then merges (or rebases) them into your branch.",
+        options: [
+            {
+                names: ["--rebase", "-r"],
+                summary: "Replays your commits on top of the fetched ones, instead of merging.",
+            },
+            { names: ["--no-rebase"], summary: "Merges the fetched commits (makes a merge commit if needed)." },
+            { names: ["--ff-only"], summary: "Only updates if no merge is needed — otherwise stops." },
+            {
+                names: ["--autostash"],
+                summary: "Puts your uncommitted changes aside first, and brings them back after.",
+            },
+            NO_EDIT,
+            QUIET,
+        ],
+        operands: ["the remote to pull from", "the branch to pull"],
+    },
+    push: {
+        summary: "Uploads your commits to a remote, so others can get them.",
+        options: [
+            {
+                names: ["-u", "--set-upstream"],
+                summary: "Remembers where this branch goes, so next time a plain `git push` is enough.",
+            },
+            {
+                names: ["-f", "--force"],
+                summary: "Makes the remote's branch match yours, even if it has commits you don't.",
+                danger: {
+                    level: "danger",
+                    consequence:
+                        "Commits on the remote that you don't have are deleted from it — including teammates' " +
+                        "work. --force-with-lease is the safer version.",
+                },
+            },
+            {
+                names: ["--force-with-lease"],
+                summary: "Forces the push, but only if the remote hasn't changed since you last fetched.",
+                danger: {
+                    level: "caution",
+                    consequence:
+                        "It still replaces the remote's history with yours — the commits you replaced are gone " +
+                        "from it.",
+                },
+            },
+            {
+                names: ["-d", "--delete"],
+                summary: "Deletes branches or tags on the remote.",
+                danger: {
+                    level: "danger",
+                    consequence: "The branch is deleted on the server, for everyone. Your own copy is kept.",
+                },
+            },
+            { names: ["--tags"], summary: "Pushes all your tags too." },
+            { names: ["--all"], summary: "Pushes every branch." },
+            {
+                names: ["--mirror"],
+                summary: "Makes the remote an exact copy of this repository.",
+                danger: {
+                    level: "danger",
+                    consequence: "Branches and tags on the remote that you don't have are deleted.",
+                },
+            },
+            { names: ["--no-verify"], summary: "Skips the repository's pre-push checks (hooks)." },
+            DRY_RUN,
+        ],
+        operands: ["the remote to push to (usually origin)", "the branch to push (or delete, with --delete)"],
+        rules: [
+            {
+                title: "Deletes a remote branch",
+                operand: /^:[^:]+$/,
+                level: "danger",
+                consequence:
+                    "\":name\" means \"push nothing to name\" — the branch is deleted on the server, for everyone.",
+            },
+            {
+                title: "Force push",
+                operand: /^\+/,
+                level: "danger",
+                consequence: "A \"+\" in front of a branch force-pushes it, like --force.",
+            },
+        ],
+    },
+    submodule: {
+        summary: "Manages submodules — other repositories included inside this one.",
+        actions: {
+            add: { summary: "Adds a submodule.", operands: ["its address", "the folder to put it in"] },
+            update: { summary: "Checks out the commit each submodule should be on." },
+            init: { summary: "Gets the submodules ready, after cloning." },
+            status: { summary: "Shows which commit each submodule is on." },
+        },
+        options: [
+            { names: ["--init"], summary: "Gets submodules ready first, if they aren't." },
+            { names: ["--recursive"], summary: "Also handles submodules inside submodules." },
+        ],
+    },
+
+    // --- Housekeeping ---
+    gc: {
+        summary: "Tidies up the repository's storage. Mostly runs by itself.",
+        options: [
+            { names: ["--aggressive"], summary: "Packs things tighter (slow)." },
+            {
+                names: ["--prune"],
+                summary: "Deletes unreachable commits older than the given date.",
+                value: "a date, or now",
+                danger: {
+                    level: "danger",
+                    consequence:
+                        "Commits no branch points at — the ones git reflog could still bring back — can be " +
+                        "deleted for good.",
+                },
+            },
+        ],
+    },
+    "filter-branch": {
+        summary: "Rewrites every commit in the history (old and slow — git filter-repo is the modern tool).",
+        danger: {
+            level: "danger",
+            consequence:
+                "Every commit gets a new hash. Anyone with a copy of the repository has to start again from the " +
+                "rewritten one, and pushing needs --force.",
+        },
+    },
+    worktree: {
+        summary: "Checks out another branch in a second folder, so you can work on two at once.",
+        actions: {
+            add: {
+                summary: "Creates a new worktree folder.",
+                operands: ["the folder", "the branch to check out there"],
+            },
+            list: { summary: "Lists the worktrees." },
+            remove: { summary: "Removes a worktree folder.", operands: ["the folder"] },
+        },
+    },
+};
@@ -0,0 +1,357 @@
+/**
+ * commandLogView.ts — The Command Log panel: every Git command the
+ * extension has run in this workspace, searchable.
+ *
+ * WHY A PANEL?
+ *   The log (commandLog.ts) can hold hundreds of commands. A webview in
+ *   an editor tab has room for them: a search box that looks through
+ *   commands, repositories and output, a "failed only" filter, each
+ *   command's output a click away, and buttons to run one again or to
+ *   export what's shown.
+ *
+ * Like the walkthrough panel, the list is drawn by the webview's own
+ * JavaScript from messages the extension sends it.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { formatGitCommand } from "./gitCommands";
+import { CommandLog, describeOutcome, ExportFormat, exportCommandLog, formatDuration, rerunEntry } from "./commandLog";
+import { RecoveryStore } from "./recovery";
+
+/**
+ * Opens (or brings back) the Command Log panel and keeps it up to date.
+ * Created once in extension.ts.
+ */
+export class CommandLogView implements vscode.Disposable {
+    /** Identifies our panels to VS Code */
+    public static readonly viewType = "gitHelper.commandLog";
+
+    /** The open panel, if there is one (there's never more than one) */
+    private _panel?: vscode.WebviewPanel;
+
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param _log - The commands to show
+     * @param _outputChannel - Where re-run commands are logged
+     * @param _recovery - Where a recovery point is saved before a re-run reset
+     */
+    constructor(
+        private readonly _log: CommandLog,
+        private readonly _outputChannel: vscode.OutputChannel,
+        private readonly _recovery: RecoveryStore
+    ) {
+        this._disposables.push(this._log.onDidChange(() => this._sendEntries()));
+    }
+
+    public dispose(): void {
+        this._panel?.dispose();
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    /** Opens the panel, or brings it to the front if it's already open */
+    public show(): void {
+        if (this._panel) {
+            this._panel.reveal();
+            return;
+        }
+
+        this._panel = vscode.window.createWebviewPanel(
+            CommandLogView.viewType,
+            "Git Helper: Command Log",
+            vscode.ViewColumn.Active,
+            // Keep the search box and open entries while the tab is in the background
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this._panel.webview.html = this._getHtmlContent();
+        this._panel.webview.onDidReceiveMessage((message) => this._handleMessage(message));
+        this._panel.onDidDispose(() => (this._panel = undefined));
+    }
+
+    /** Sends the log to the webview, ready to show */
+    private _sendEntries(): void {
+        const entries = this._log.getEntries().map((entry) => ({
+            id: entry.id,
+            time: entry.time,
+            command: formatGitCommand(entry.args),
+            repoName: path.basename(entry.repo),
+            repo: entry.repo,
+            duration: formatDuration(entry.durationMs),
+            outcome: describeOutcome(entry),
+            success: entry.success,
+            output: entry.output,
+        }));
+        this._panel?.webview.postMessage({ type: "entries", entries });
+    }
+
+    /**
+     * Handles the webview's buttons (and its "ready" message, when it can
+     * first be sent the log).
+     *
+     * @param message.ids - For "export": the entries that match the search
+     */
+    private async _handleMessage(message: {
+        type: string;
+        id?: string;
+        ids?: string[];
+        format?: ExportFormat;
+    }): Promise<void> {
+        if (message.type === "ready") {
+            this._sendEntries();
+            return;
+        }
+
+        if (message.type === "rerun" && message.id) {
+            const entry = this._log.getEntry(message.id);
+            if (entry) {
+                await rerunEntry(entry, this._outputChannel, this._recovery);
+            }
+            return;
+        }
+
+        if (message.type === "export") {
+            const ids = new Set(message.ids ?? []);
+            await exportCommandLog(
+                this._log.getEntries().filter((entry) => ids.has(entry.id)),
+                message.format
+            );
+            return;
+        }
+
+        if (message.type === "clear") {
+            await this._log.clear();
+        }
+    }
+
+    /** The panel's HTML, CSS and JavaScript */
+    private _getHtmlContent(): string {
+        return /*html*/ `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Command Log</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 0 16px 16px 16px;
+        }
+
+        /* ========================================
+           TOOLBAR
+           Search, filter and the export buttons.
+           ======================================== */
+        .toolbar {
+            position: sticky;
+            top: 0;
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 8px;
+            padding: 10px 0;
+            background: var(--vscode-editor-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .toolbar input[type="search"] {
+            flex: 1;
+            min-width: 200px;
+            padding: 4px 6px;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        .count {
+            opacity: 0.75;
+            font-size: 0.9em;
+        }
+
+        button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px 10px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+
+        button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+
+        /* ========================================
+           ENTRIES
+           One collapsible row per command.
+           ======================================== */
+        .entry {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding: 6px 0;
+        }
+
+        .entry summary {
+            cursor: pointer;
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px 12px;
+            align-items: baseline;
+        }
+
+        .entry-command {
+            font-family: var(--vscode-editor-font-family);
+            font-weight: bold;
+            word-break: break-all;
+        }
+
+        .entry-failed .entry-outcome {
+            color: var(--vscode-errorForeground);
+        }
+
+        .entry-meta {
+            opacity: 0.75;
+            font-size: 0.9em;
+        }
+
+        .entry-output {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            white-space: pre-wrap;
+            word-break: break-all;
+            background: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            margin: 6px 0;
+            max-height: 300px;
+            overflow: auto;
+        }
+
+        .empty {
+            opacity: 0.75;
+            margin-top: 16px;
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <input type="search" id="search" placeholder="Search commands, repositories and output..."
+               oninput="render()">
+        <label><input type="checkbox" id="failed-only" onchange="render()"> Failed only</label>
+        <span class="count" id="count"></span>
+        <button onclick="exportShown('markdown')" title="Save the commands shown as a Markdown file">
+            Export Markdown
+        </button>
+        <button onclick="exportShown('json')" title="Save the commands shown as a JSON file">Export JSON</button>
+        <button onclick="vscode.postMessage({ type: 'clear' })">Clear Log</button>
+    </div>
+    <div id="entries"></div>
+
+    <script>
+        // ========================================
+        // WEBVIEW JAVASCRIPT
+        // ========================================
+        // Draws the log sent by commandLogView.ts, filtered by the
+        // search box, and sends button clicks back to it.
+        const vscode = acquireVsCodeApi();
+
+        /** Every entry, newest first */
+        let entries = [];
+
+        /** The entries that match the search and filter */
+        let shown = [];
+
+        /** Which entries are expanded, so a redraw doesn't close them */
+        const openIds = new Set();
+
+        /** Redraws the list from the current search and filter */
+        function render() {
+            const query = document.getElementById('search').value.trim().toLowerCase();
+            const failedOnly = document.getElementById('failed-only').checked;
+            shown = entries.filter((entry) =>
+                (!failedOnly || !entry.success) &&
+                (!query || [entry.command, entry.repo, entry.output].some((text) =>
+                    text.toLowerCase().includes(query)))
+            );
+
+            document.getElementById('count').textContent = shown.length === entries.length
+                ? entries.length + (entries.length === 1 ? ' command' : ' commands')
+                : shown.length + ' of ' + entries.length + ' commands';
+
+            const list = document.getElementById('entries');
+            list.replaceChildren();
+            if (entries.length === 0) {
+                list.append(element('p', 'empty', "No commands yet. Every Git command Git Helper runs shows up here."));
+                return;
+            }
+            if (shown.length === 0) {
+                list.append(element('p', 'empty', 'Nothing matches.'));
+                return;
+            }
+            for (const entry of shown) {
+                list.append(renderEntry(entry));
+            }
+        }
+
+        /**
+         * Builds one entry: the command and how it went, with its output
+         * and a "Run Again" button underneath.
+         */
+        function renderEntry(entry) {
+            const details = document.createElement('details');
+            details.className = 'entry' + (entry.success ? '' : ' entry-failed');
+            details.open = openIds.has(entry.id);
+            details.addEventListener('toggle', () => {
+                if (details.open) {
+                    openIds.add(entry.id);
+                } else {
+                    openIds.delete(entry.id);
+                }
+            });
+
+            const summary = document.createElement('summary');
+            summary.append(
+                element('span', 'entry-command', entry.command),
+                element('span', 'entry-outcome', entry.outcome),
+                element('span', 'entry-meta', entry.repoName + ' · ' + new Date(entry.time).toLocaleString() +
+                    ' · ' + entry.duration)
+            );
+            summary.lastChild.title = entry.repo;
+
+            const rerun = element('button', '', 'Run Again');
+            rerun.title = 'Asks first, and runs the same checks as the quick actions';
+            rerun.addEventListener('click', () => vscode.postMessage({ type: 'rerun', id: entry.id }));
+
+            details.append(summary, element('div', 'entry-output', entry.output), rerun);
+            return details;
+        }
+
+        /** Creates an element with a class and text */
+        function element(tag, className, text) {
+            const el = document.createElement(tag);
+            el.className = className;
+            el.textContent = text;
+            return el;
+        }
+
+        /** Exports the entries that match the search */
+        function exportShown(format) {
+            vscode.postMessage({ type: 'export', format, ids: shown.map((entry) => entry.id) });
+        }
+
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+            if (message.type === 'entries') {
+                entries = message.entries;
+                render();
+            }
+        });
+
+        // Ask for the log once we're ready to draw it
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,380 @@
+/**
+ * commitMessage.ts — Helps write a good commit message, and checks it.
+ *
+ * WHAT MAKES A GOOD COMMIT MESSAGE?
+ *   Git doesn't care what you write, but the people reading `git log`
+ *   later do. Most teams agree on a few rules:
+ *
+ *     Add password reset link to login page      ← the "subject": short,
+ *                                                  says what the commit does
+ *     (blank line)                               ← separates subject and body
+ *     Users kept emailing support because they   ← the "body" (optional):
+ *     couldn't find a way to reset it.             explains WHY
+ *
+ *   - Keep the subject short (72 characters is the usual limit — longer
+ *     ones get cut off in many tools)
+ *   - Write it as a command: "Add", not "Added" or "Adds". Read it as
+ *     "If applied, this commit will... add password reset link".
+ *   - Leave a blank line before the body, or Git treats it all as subject
+ *
+ * CONVENTIONAL COMMITS:
+ *   Some teams also start every subject with a type (and optionally a
+ *   scope) so tools can build changelogs from the history:
+ *
+ *     feat(login): add password reset link
+ *     fix: stop the header overlapping the menu
+ *
+ * The rules are settings (gitHelper.commitMessage.*), so a team can put
+ * theirs in the project's .vscode/settings.json and everyone gets them.
+ * The message box checks the message as you type: problems that break a
+ * rule stop you from committing, and gentler hints (like "Added" →
+ * "Add") are shown as warnings you can ignore.
+ */
+
+import * as vscode from "vscode";
+
+// =============================================================
+// Rules
+// =============================================================
+
+/** How strictly to apply Conventional Commits */
+export type ConventionalMode = "off" | "suggest" | "require";
+
+/**
+ * The rules a commit message is checked against. Each one comes from a
+ * gitHelper.commitMessage.* setting of the same name.
+ */
+export interface CommitRules {
+    /** The longest allowed subject line (0 = no limit) */
+    maxSubjectLength: number;
+
+    /** Warn when the subject doesn't start with a command ("Added" → "Add") */
+    imperativeMood: boolean;
+
+    /** "suggest" warns about a missing type prefix, "require" insists on one */
+    conventionalCommits: ConventionalMode;
+
+    /** The allowed types, e.g. "feat" and "fix" */
+    types: string[];
+
+    /** The allowed scopes (empty = any scope) */
+    scopes: string[];
+
+    /** Insist on a blank line between the subject and the body */
+    blankLineBeforeBody: boolean;
+
+    /** Build the message step by step: type, scope, subject, then body */
+    guided: boolean;
+}
+
+/** The usual Conventional Commits types, and what each one is for */
+const TYPE_DESCRIPTIONS: Record<string, string> = {
+    feat: "A new feature",
+    fix: "A bug fix",
+    docs: "Documentation only",
+    style: "Formatting, whitespace — no change in behavior",
+    refactor: "Restructuring code without changing what it does",
+    perf: "Making something faster",
+    test: "Adding or fixing tests",
+    build: "The build system or dependencies",
+    ci: "Continuous integration setup",
+    chore: "Other housekeeping",
+    revert: "Undoing an earlier commit",
+};
+
+/** Reads the rules from the settings */
+export function getCommitRules(): CommitRules {
+    const config = vscode.workspace.getConfiguration("gitHelper.commitMessage");
+    return {
+        maxSubjectLength: config.get<number>("maxSubjectLength", 72),
+        imperativeMood: config.get<boolean>("imperativeMood", true),
+        conventionalCommits: config.get<ConventionalMode>("conventionalCommits", "off"),
+        types: config.get<string[]>("types", Object.keys(TYPE_DESCRIPTIONS)),
+        scopes: config.get<string[]>("scopes", []),
+        blankLineBeforeBody: config.get<boolean>("blankLineBeforeBody", true),
+        guided: config.get<boolean>("guided", false),
+    };
+}
+
+// =============================================================
+// Checking a Message
+// =============================================================
+
+/**
+ * Something wrong with a commit message. "error" breaks a rule (the
+ * message can't be used); "warning" is a hint the user may ignore.
+ */
+export interface CommitProblem {
+    severity: "error" | "warning";
+    message: string;
+}
+
+/** Matches a Conventional Commits header: type, optional (scope), optional !, then ": " */
+const CONVENTIONAL_HEADER = /^([a-z]+)(?:\(([^()]*)\))?(!)?: (.*)$/;
+
+/**
+ * Common verbs at the start of a subject, so we can spot "Added",
+ * "Adding" or "Adds" and suggest "Add". (A short list on purpose: we'd
+ * rather miss a few than nag about words that aren't verbs at all.)
+ */
+const IMPERATIVE_VERBS = new Set(
+    (
+        "add allow bump change clean configure convert create delete disable document drop " +
+        "enable ensure extract fix handle hide implement improve include initialize install " +
+        "introduce make merge migrate modify move optimize prevent refactor remove rename " +
+        "replace restore revert rewrite show simplify sort split start stop support switch " +
+        "test tidy update upgrade use validate write"
+    ).split(" ")
+);
+
+/**
+ * If `word` is a known verb that isn't in the imperative ("Added",
+ * "fixing", "Updates"), returns the imperative ("Add", "fix", "Update").
+ */
+function suggestImperative(word: string): string | undefined {
+    const lower = word.toLowerCase();
+    const candidates: string[] = [];
+    if (lower.endsWith("ied") || lower.endsWith("ies")) {
+        candidates.push(lower.slice(0, -3) + "y"); // modified → modify
+    }
+    if (lower.endsWith("ed")) {
+        candidates.push(lower.slice(0, -2), lower.slice(0, -1), lower.slice(0, -3)); // added, created, stopped
+    }
+    if (lower.endsWith("ing")) {
+        candidates.push(lower.slice(0, -3), lower.slice(0, -3) + "e", lower.slice(0, -4)); // adding, making, stopping
+    }
+    if (lower.endsWith("es")) {
+        candidates.push(lower.slice(0, -2)); // fixes
+    }
+    if (lower.endsWith("s")) {
+        candidates.push(lower.slice(0, -1)); // adds
+    }
+    const verb = candidates.find((candidate) => IMPERATIVE_VERBS.has(candidate));
+    if (!verb) {
+        return undefined;
+    }
+    // Keep the capital letter if there was one
+    return word[0] === word[0].toUpperCase() ? verb[0].toUpperCase() + verb.slice(1) : verb;
+}
+
+/**
+ * Checks a commit message against the rules.
+ *
+ * @param message - The whole message: subject, then optionally a blank line and a body
+ * @returns The problems found, errors first (empty if the message is fine)
+ */
+export function lintCommitMessage(message: string, rules: CommitRules): CommitProblem[] {
+    const problems: CommitProblem[] = [];
+    const [subject, ...rest] = message.split(/\r?\n/);
+
+    if (subject.trim() === "") {
+        return [{ severity: "error", message: "Write a short summary of what this commit does." }];
+    }
+
+    if (rules.maxSubjectLength > 0 && subject.length > rules.maxSubjectLength) {
+        problems.push({
+            severity: "error",
+            message:
+                `The subject is ${subject.length} characters — keep it to ${rules.maxSubjectLength} or fewer. ` +
+                "Put the details in the body instead.",
+        });
+    }
+
+    // --- Conventional Commits: "type(scope): description" ---
+    let description = subject;
+    const header = CONVENTIONAL_HEADER.exec(subject);
+    if (rules.conventionalCommits !== "off") {
+        const severity = rules.conventionalCommits === "require" ? "error" : "warning";
+        const example = `${rules.types[0] ?? "feat"}: add login page`;
+        if (!header) {
+            problems.push({
+                severity,
+                message: `Start with a type, then a colon and a space — e.g. "${example}". Types: ${rules.types.join(", ")}.`,
+            });
+        } else {
+            const [, type, scope, , text] = header;
+            description = text;
+            if (!rules.types.includes(type)) {
+                problems.push({ severity, message: `"${type}" isn't one of the types: ${rules.types.join(", ")}.` });
+            }
+            if (scope !== undefined && rules.scopes.length > 0 && !rules.scopes.includes(scope)) {
+                problems.push({ severity, message: `"${scope}" isn't one of the scopes: ${rules.scopes.join(", ")}.` });
+            }
+            if (text.trim() === "") {
+                problems.push({ severity: "error", message: `Say what the commit does after "${type}: ".` });
+            }
+        }
+    } else if (header) {
+        description = header[4];
+    }
+
+    // --- Imperative mood: "Add", not "Added" ---
+    const firstWord = /^[A-Za-z]+/.exec(description.trim())?.[0];
+    const imperative = rules.imperativeMood && firstWord ? suggestImperative(firstWord) : undefined;
+    if (imperative) {
+        problems.push({
+            severity: "warning",
+            message:
+                `Write it as a command: "${imperative}", not "${firstWord}" — ` +
+                `as in "If applied, this commit will ${imperative.toLowerCase()}...".`,
+        });
+    }
+
+    // --- A blank line between the subject and the body ---
+    if (rules.blankLineBeforeBody && rest.length > 0 && rest[0].trim() !== "") {
+        problems.push({
+            severity: "error",
+            message: "Leave the second line blank — otherwise Git treats the body as part of the subject.",
+        });
+    }
+
+    return problems.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+}
+
+/**
+ * Turns lint results into what an input box's validateInput expects:
+ * the most important problem, as an error (can't press Enter) or a
+ * warning (can). `toMessage` builds the full message from what's typed,
+ * for boxes that only ask for part of it.
+ */
+export function validateCommitInput(
+    rules: CommitRules,
+    toMessage: (value: string) => string = (value) => value
+): (value: string) => vscode.InputBoxValidationMessage | undefined {
+    return (value) => {
+        const [problem] = lintCommitMessage(toMessage(value), rules);
+        if (!problem) {
+            return undefined;
+        }
+        return {
+            message: problem.message,
+            severity:
+                problem.severity === "error"
+                    ? vscode.InputBoxValidationSeverity.Error
+                    : vscode.InputBoxValidationSeverity.Warning,
+        };
+    };
+}
+
+// =============================================================
+// Asking for a Message
+// =============================================================
+
+/** What the message box says (the defaults suit a plain `git commit`) */
+export interface CommitMessageOptions {
+    prompt?: string;
+    placeHolder?: string;
+}
+
+/**
+ * Asks for a commit message, checking it against the rules as the user
+ * types. With the "guided" setting on, builds it step by step instead
+ * (see askGuided()).
+ *
+ * @returns The message, or undefined if the user cancelled
+ */
+export async function askForCommitMessage(options: CommitMessageOptions = {}): Promise<string | undefined> {
+    const rules = getCommitRules();
+    if (rules.guided) {
+        return askGuided(rules);
+    }
+
+    const conventional = rules.conventionalCommits !== "off";
+    const message = await vscode.window.showInputBox({
+        title: "Commit Message",
+        prompt: options.prompt ?? "Enter your commit message",
+        placeHolder: options.placeHolder ?? (conventional ? "e.g., feat: add login page" : "e.g., Fix login button alignment"),
+        validateInput: validateCommitInput(rules),
+    });
+    return message?.trim() || undefined;
+}
+
+/**
+ * Builds a message one piece at a time:
+ *   1. the type (feat, fix...) — if Conventional Commits is on
+ *   2. the scope, e.g. "login" — optional
+ *   3. the subject
+ *   4. the body, one line per input box — optional
+ *
+ * Escape cancels the commit on the required steps (type and subject). On
+ * the optional ones it just skips them, so the subject isn't thrown away.
+ */
+async function askGuided(rules: CommitRules): Promise<string | undefined> {
+    const conventional = rules.conventionalCommits !== "off";
+    const total = conventional ? 4 : 2;
+    let stepNumber = 0;
+    const title = (what: string) => `Commit Message (${++stepNumber}/${total}): ${what}`;
+
+    // --- 1. Type ---
+    let prefix = "";
+    if (conventional) {
+        const items: (vscode.QuickPickItem & { type: string })[] = rules.types.map((type) => ({
+            label: type,
+            description: TYPE_DESCRIPTIONS[type],
+            type,
+        }));
+        if (rules.conventionalCommits === "suggest") {
+            items.push({ label: "No type", description: "Just write a plain subject", type: "" });
+        }
+        const picked = await vscode.window.showQuickPick(items, {
+            title: title("Type"),
+            placeHolder: "What kind of change is this?",
+        });
+        if (!picked) {
+            return undefined;
+        }
+
+        // --- 2. Scope (Escape means no scope) ---
+        let scope: string | undefined = "";
+        if (picked.type && rules.scopes.length > 0) {
+            const scopePick = await vscode.window.showQuickPick(
+                [{ label: "No scope", scope: "" }, ...rules.scopes.map((s) => ({ label: s, scope: s }))],
+                { title: title("Scope"), placeHolder: "Which part of the project does it touch?" }
+            );
+            scope = scopePick?.scope;
+        } else if (picked.type) {
+            scope = await vscode.window.showInputBox({
+                title: title("Scope"),
+                prompt: "Which part of the project does it touch? (optional — press Enter to skip)",
+                placeHolder: "e.g., login",
+                validateInput: (value) => (/[()\s:]/.test(value.trim()) ? "No spaces, brackets or colons." : undefined),
+            });
+        } else {
+            stepNumber++;
+        }
+        scope = scope?.trim() ?? "";
+        prefix = picked.type ? `${picked.type}${scope ? `(${scope})` : ""}: ` : "";
+    }
+
+    // --- 3. Subject ---
+    const subject = await vscode.window.showInputBox({
+        title: title("Subject"),
+        prompt: (prefix ? `${prefix}... — ` : "") + `Say what the commit does, as a command ("Add", not "Added")`,
+        placeHolder: conventional ? "e.g., add password reset link" : "e.g., Add password reset link",
+        validateInput: validateCommitInput(rules, (value) => prefix + value.trim()),
+    });
+    if (!subject?.trim()) {
+        return undefined;
+    }
+    const header = prefix + subject.trim();
+
+    // --- 4. Body, one line at a time (Escape finishes it, like an empty line) ---
+    const body: string[] = [];
+    const bodyTitle = title("Body (optional)");
+    for (;;) {
+        const line = await vscode.window.showInputBox({
+            title: bodyTitle,
+            prompt:
+                body.length === 0
+                    ? "Explain WHY you made this change. Press Enter on an empty line to finish (or skip the body)."
+                    : `Line ${body.length + 1} — press Enter on an empty line to finish.`,
+            placeHolder: body.length === 0 ? "e.g., Users couldn't find a way to reset their password." : "",
+        });
+        if (line === undefined || line.trim() === "") {
+            break;
+        }
+        body.push(line.trimEnd());
+    }
+
+    return body.length > 0 ? `${header}\n\n${body.join("\n")}` : header;
+}
@@ -0,0 +1,305 @@
+/**
+ * conflicts.ts — Guides the learner through resolving a merge conflict.
+ *
+ * WHAT IS A MERGE CONFLICT?
+ *   When two branches change the same lines of a file, Git can't know
+ *   which version is right, so it stops halfway through the merge and
+ *   writes BOTH versions into the file between conflict markers:
+ *
+ *     <<<<<<< HEAD
+ *     the line as it is on your branch
+ *     =======
+ *     the line as it is on the branch being merged in
+ *     >>>>>>> feature
+ *
+ *   Resolving it means: edit the file so it says what it should (and
+ *   delete the three marker lines), stage it with `git add` to tell Git
+ *   "this one's fixed", and when every file is fixed, commit to finish
+ *   the merge. Or give up with `git merge --abort`.
+ *
+ * WHAT THIS MODULE DOES:
+ *   - Works out whether a merge (or rebase, cherry-pick, revert) is in
+ *     progress, and which files still have conflicts
+ *   - Counts the conflict markers left in each file, so the panel can say
+ *     "2 conflicts left" and only mark a file resolved once they're gone
+ *   - Finishes or aborts the operation with the right command
+ *
+ * The walkthrough panel shows all of this in its "Merge Conflicts" section,
+ * which only appears while there's something to resolve. The sandbox can
+ * set up a practice conflict (see Sandbox.practiceConflict()).
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { queryGit, runGitCommand } from "./gitCommands";
+import { RepoStatus } from "./gitStatus";
+import { showGitError } from "./errorExplainer";
+
+// =============================================================
+// Types
+// =============================================================
+
+/** An operation that can stop halfway because of conflicts */
+export type ConflictOperation = "merge" | "rebase" | "cherryPick" | "revert";
+
+/** How to recognize, finish and abort each operation */
+interface OperationInfo {
+    /** For messages: "You're in the middle of a merge" */
+    label: string;
+
+    /** Files inside .git that exist only while the operation is in progress */
+    markers: string[];
+
+    /** Finishes the operation once every conflict is resolved */
+    finishArgs: string[];
+
+    /** Puts everything back the way it was before the operation started */
+    abortArgs: string[];
+}
+
+/**
+ * `-c core.editor=true` makes "continue" keep Git's ready-made commit
+ * message instead of opening an editor we can't show.
+ */
+const OPERATIONS: Record<ConflictOperation, OperationInfo> = {
+    merge: {
+        label: "a merge",
+        markers: ["MERGE_HEAD"],
+        finishArgs: ["commit", "--no-edit"],
+        abortArgs: ["merge", "--abort"],
+    },
+    rebase: {
+        label: "a rebase",
+        markers: ["rebase-merge", "rebase-apply"],
+        finishArgs: ["-c", "core.editor=true", "rebase", "--continue"],
+        abortArgs: ["rebase", "--abort"],
+    },
+    cherryPick: {
+        label: "a cherry-pick",
+        markers: ["CHERRY_PICK_HEAD"],
+        finishArgs: ["-c", "core.editor=true", "cherry-pick", "--continue"],
+        abortArgs: ["cherry-pick", "--abort"],
+    },
+    revert: {
+        label: "a revert",
+        markers: ["REVERT_HEAD"],
+        finishArgs: ["-c", "core.editor=true", "revert", "--continue"],
+        abortArgs: ["revert", "--abort"],
+    },
+};
+
+/**
+ * One file with a conflict.
+ */
+export interface ConflictFile {
+    /** Path relative to the repository root */
+    path: string;
+
+    /** What each side did, e.g. "both modified" or "deleted by them" */
+    conflict: string;
+
+    /** How many conflicts (<<<<<<< markers) are left in the file */
+    markers: number;
+
+    /**
+     * True if both sides changed the file's contents — then the markers
+     * are in the file and the merge editor can help. False for conflicts
+     * like "deleted by them", where the choice is keep or delete.
+     */
+    contentConflict: boolean;
+}
+
+/**
+ * Everything the "Merge Conflicts" section needs to know.
+ */
+export interface ConflictState {
+    /** The operation in progress (undefined for conflicts without one, e.g. after `git stash pop`) */
+    operation?: ConflictOperation;
+
+    /** Files that still have conflicts (empty once they're all resolved) */
+    files: ConflictFile[];
+}
+
+// =============================================================
+// Detecting Conflicts
+// =============================================================
+
+/** Matches a line that starts a conflict: "<<<<<<< HEAD" */
+const START_MARKER = /^<{7}(?: |$)/gm;
+
+/** Matches any of the three marker lines */
+const ANY_MARKER = /^(?:<{7}(?: |$)|={7}$|>{7}(?: |$))/m;
+
+/** Counts the conflicts left in some text (0 if every marker is gone) */
+export function countConflictMarkers(text: string): number {
+    const starts = text.match(START_MARKER)?.length ?? 0;
+    // A stray ======= or >>>>>>> still means the file isn't clean yet
+    return starts > 0 ? starts : ANY_MARKER.test(text) ? 1 : 0;
+}
+
+/** Which operation is in progress, if any */
+export async function findOperation(cwd: string): Promise<ConflictOperation | undefined> {
+    for (const [operation, info] of Object.entries(OPERATIONS) as [ConflictOperation, OperationInfo][]) {
+        for (const marker of info.markers) {
+            // --git-path finds the file wherever .git really is (worktrees, submodules...)
+            const result = await queryGit(["rev-parse", "--git-path", marker], cwd);
+            if (result.success && fs.existsSync(path.resolve(cwd, result.output))) {
+                return operation;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Reads the conflict state from the repository.
+ *
+ * @param cwd - The repository
+ * @param status - Its current status (see gitStatus.ts)
+ * @returns The state, or undefined if there's nothing to resolve
+ */
+export async function getConflictState(cwd: string, status: RepoStatus): Promise<ConflictState | undefined> {
+    const operation = await findOperation(cwd);
+    if (!operation && status.conflicted.length === 0) {
+        return undefined;
+    }
+
+    const files: ConflictFile[] = [];
+    for (const file of status.conflicted) {
+        const contentConflict = file.conflict === "both modified" || file.conflict === "both added";
+        let markers = 0;
+        if (contentConflict) {
+            const text = await fs.promises.readFile(path.join(cwd, file.path), "utf8").catch(() => "");
+            markers = countConflictMarkers(text);
+        }
+        files.push({ path: file.path, conflict: file.conflict ?? "conflict", markers, contentConflict });
+    }
+    return { operation, files };
+}
+
+/** Describes an operation for display, e.g. "a merge" */
+export function describeOperation(operation: ConflictOperation | undefined): string {
+    return operation ? OPERATIONS[operation].label : "resolving conflicts";
+}
+
+/** The command that finishes or aborts an operation, for display */
+export function getOperationCommands(operation: ConflictOperation): { finish: string; abort: string } {
+    const info = OPERATIONS[operation];
+    return { finish: `git ${info.finishArgs.join(" ")}`, abort: `git ${info.abortArgs.join(" ")}` };
+}
+
+/** A button that aborts an operation, e.g. "Abort the rebase" with `git rebase --abort` */
+export function getAbortAction(operation: ConflictOperation): { label: string; args: string[] } {
+    const info = OPERATIONS[operation];
+    return { label: `Abort ${info.label.replace(/^an? /, "the ")}`, args: info.abortArgs };
+}
+
+// =============================================================
+// Resolving
+// =============================================================
+
+/**
+ * Marks a conflicted file as resolved with `git add`. If it still has
+ * conflict markers, asks first — Git itself would happily stage (and
+ * later commit) the markers, which is a classic beginner mistake.
+ *
+ * @returns true if the file was marked resolved
+ */
+export async function markResolved(
+    cwd: string,
+    filePath: string,
+    outputChannel: vscode.OutputChannel
+): Promise<boolean> {
+    const text = await fs.promises.readFile(path.join(cwd, filePath), "utf8").catch(() => "");
+    const markers = countConflictMarkers(text);
+    if (markers > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `${filePath} still has ${markers === 1 ? "a conflict" : `${markers} conflicts`} in it.`,
+            {
+                modal: true,
+                detail:
+                    "The <<<<<<<, ======= and >>>>>>> lines are still there. If you mark it resolved now, " +
+                    "they'll end up in your commit. Edit the file first, keep the text you want, and delete the marker lines.",
+            },
+            "Mark Resolved Anyway"
+        );
+        if (choice !== "Mark Resolved Anyway") {
+            return false;
+        }
+    }
+
+    const result = await runGitCommand(["add", "--", filePath], outputChannel, cwd);
+    if (!result.success) {
+        await showGitError(result, outputChannel);
+    }
+    return result.success;
+}
+
+/**
+ * Resolves a "deleted by us/them" conflict by agreeing to the deletion
+ * (`git rm`). Keeping the file instead is just "Mark Resolved".
+ */
+export async function resolveByDeleting(
+    cwd: string,
+    filePath: string,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    const result = await runGitCommand(["rm", "--quiet", "--", filePath], outputChannel, cwd);
+    if (!result.success) {
+        await showGitError(result, outputChannel);
+    }
+}
+
+/**
+ * Finishes the operation in progress (e.g. `git commit --no-edit` for a
+ * merge), once every conflict is resolved.
+ */
+export async function finishOperation(cwd: string, outputChannel: vscode.OutputChannel): Promise<void> {
+    const operation = await findOperation(cwd);
+    if (!operation) {
+        vscode.window.showInformationMessage("There's nothing to finish — no merge is in progress.");
+        return;
+    }
+
+    const result = await runGitCommand(OPERATIONS[operation].finishArgs, outputChannel, cwd);
+    if (result.success) {
+        vscode.window.showInformationMessage(`Finished ${OPERATIONS[operation].label} — all conflicts resolved!`);
+    } else {
+        await showGitError(result, outputChannel);
+    }
+}
+
+/**
+ * Aborts the operation in progress, after asking — it throws away any
+ * conflicts that were already fixed.
+ */
+export async function abortOperation(cwd: string, outputChannel: vscode.OutputChannel): Promise<void> {
+    const operation = await findOperation(cwd);
+    if (!operation) {
+        vscode.window.showInformationMessage("There's nothing to abort — no merge is in progress.");
+        return;
+    }
+
+    const info = OPERATIONS[operation];
+    const choice = await vscode.window.showWarningMessage(
+        `Abort ${info.label}?`,
+        {
+            modal: true,
+            detail:
+                "Everything goes back to how it was before it started — including any conflicts you've " +
+                "already fixed. You can always try again later.",
+        },
+        "Abort"
+    );
+    if (choice !== "Abort") {
+        return;
+    }
+
+    const result = await runGitCommand(info.abortArgs, outputChannel, cwd);
+    if (result.success) {
+        vscode.window.showInformationMessage(`Aborted ${info.label}. Your files are back to how they were.`);
+    } else {
+        await showGitError(result, outputChannel);
+    }
+}
@@ -0,0 +1,283 @@
+/**
+ * conflictsView.ts — The walkthrough panel's "Merge Conflicts" section.
+ *
+ * While a merge (or rebase...) is stuck on conflicts, this section appears
+ * above everything else and walks the learner through resolving them:
+ * what conflict markers look like, each conflicted file with how many
+ * conflicts it has left, and the commands that finish or abort the
+ * operation. The Git side of it is in conflicts.ts.
+ */
+
+import * as vscode from "vscode";
+import { getTargetRepo } from "./gitCommands";
+import { RepoStatus } from "./gitStatus";
+import { openMergeEditor } from "./diffView";
+import {
+    abortOperation,
+    ConflictFile,
+    describeOperation,
+    finishOperation,
+    getConflictState,
+    getOperationCommands,
+    markResolved,
+    resolveByDeleting,
+} from "./conflicts";
+import { MessageHandler, PostMessage, WalkthroughSection } from "./walkthroughSection";
+
+/**
+ * Fills in the "Merge Conflicts" section and handles its buttons.
+ */
+export class ConflictsView implements WalkthroughSection {
+    public readonly styles = STYLES;
+    public readonly script = SCRIPT;
+    public readonly html = HTML;
+
+    /** The conflicted files shown in the section */
+    private _files: ConflictFile[] = [];
+
+    public readonly handlers: Record<string, MessageHandler> = {
+        openConflict: async ({ path }) => {
+            const cwd = getTargetRepo();
+            const file = this._files.find((f) => f.path === path);
+            if (cwd && file) {
+                await openMergeEditor(cwd, file.path, file.contentConflict);
+            }
+        },
+        resolveFile: async ({ path }) => {
+            const cwd = getTargetRepo();
+            const file = this._files.find((f) => f.path === path);
+            if (cwd && file) {
+                await markResolved(cwd, file.path, this._outputChannel);
+                await this._refresh();
+            }
+        },
+        deleteConflictFile: async ({ path }) => {
+            const cwd = getTargetRepo();
+            const file = this._files.find((f) => f.path === path);
+            if (cwd && file) {
+                await resolveByDeleting(cwd, file.path, this._outputChannel);
+                await this._refresh();
+            }
+        },
+        finishConflict: async () => {
+            const cwd = getTargetRepo();
+            if (cwd) {
+                await finishOperation(cwd, this._outputChannel);
+                await this._refresh();
+            }
+        },
+        abortConflict: async () => {
+            const cwd = getTargetRepo();
+            if (cwd) {
+                await abortOperation(cwd, this._outputChannel);
+                await this._refresh();
+            }
+        },
+    };
+
+    /**
+     * @param _post - Sends messages to the panel's webview
+     * @param _outputChannel - Where the resolving commands are logged
+     * @param _refresh - Reads the repo again and redraws the panel's sections
+     */
+    constructor(
+        private readonly _post: PostMessage,
+        private readonly _outputChannel: vscode.OutputChannel,
+        private readonly _refresh: () => Promise<void>
+    ) {}
+
+    /**
+     * Sends the section's contents: which operation is in progress, each
+     * conflicted file and how many conflicts it has left, and the commands
+     * that finish or abort it. Sends undefined (which hides the section)
+     * when there's nothing to resolve.
+     */
+    public async update(cwd: string | undefined, status: RepoStatus | undefined): Promise<void> {
+        const state = cwd && status ? await getConflictState(cwd, status) : undefined;
+        const commands = state?.operation ? getOperationCommands(state.operation) : undefined;
+        this._files = state?.files ?? [];
+        this._post({
+            type: "conflicts",
+            conflicts: state && {
+                title: state.operation
+                    ? `You're in the middle of ${describeOperation(state.operation)}`
+                    : "Some files have conflicts",
+                files: state.files,
+                finish: commands?.finish,
+                abort: commands?.abort,
+            },
+        });
+    }
+}
+
+// =============================================================
+// HTML, CSS and JavaScript
+// =============================================================
+
+const HTML = /*html*/ `
+    <!-- Merge Conflicts: only shown while there's a conflict (filled in by showConflicts()) -->
+    <div class="conflict-guide" id="conflict-guide" style="display: none;">
+        <p class="conflict-title" id="conflict-title"></p>
+        <p>
+            Two branches changed the same lines, so Git wrote both versions into the file
+            and left it to you to decide. In the file, a conflict looks like this:
+        </p>
+        <div class="conflict-markers">&lt;&lt;&lt;&lt;&lt;&lt;&lt; HEAD        ← your version starts
+the line as it is on your branch
+=======              ← their version starts
+the line from the other branch
+&gt;&gt;&gt;&gt;&gt;&gt;&gt; teammate    ← end of the conflict</div>
+        <p>
+            For each file: open it, keep the text you want (yours, theirs, or a mix),
+            and delete the three marker lines. The merge editor has buttons for this.
+            Then mark the file resolved. When every file is done, finish the merge.
+        </p>
+        <div id="conflict-files"></div>
+        <div class="conflict-actions" id="conflict-actions"></div>
+    </div>`;
+
+const STYLES = `
+        /* ========================================
+           MERGE CONFLICTS
+           Only shown while there's a conflict.
+           ======================================== */
+        .conflict-guide {
+            margin-bottom: 12px;
+            padding: 8px;
+            border: 1px solid var(--vscode-charts-orange);
+            border-radius: 6px;
+        }
+
+        .conflict-title {
+            margin: 0 0 6px 0;
+            font-weight: bold;
+            color: var(--vscode-charts-orange);
+        }
+
+        .conflict-guide p {
+            margin: 0 0 6px 0;
+            font-size: 0.9em;
+            line-height: 1.4;
+        }
+
+        .conflict-markers {
+            margin: 0 0 8px 0;
+            padding: 6px 8px;
+            background: var(--vscode-textCodeBlock-background);
+            font-family: var(--vscode-editor-font-family);
+            font-size: 0.85em;
+            white-space: pre;
+            overflow-x: auto;
+        }
+
+        .conflict-file {
+            padding: 6px 0;
+            border-top: 1px solid var(--vscode-panel-border);
+        }
+
+        .conflict-file-state {
+            font-size: 0.85em;
+            opacity: 0.8;
+        }
+
+        .conflict-file-state.conflict-ready {
+            color: var(--vscode-charts-green);
+            opacity: 1;
+        }
+
+        .conflict-actions {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 10px;
+            margin-top: 8px;
+        }`;
+
+const SCRIPT = `
+        /**
+         * Shows (or hides) the "Merge Conflicts" section: one entry per
+         * conflicted file with what's left to do, then Finish and Abort.
+         *
+         * @param {object | undefined} conflicts - From conflicts.ts, or
+         *   undefined if there's nothing to resolve
+         */
+        function showConflicts(conflicts) {
+            const guideEl = document.getElementById('conflict-guide');
+            const filesEl = document.getElementById('conflict-files');
+            const actionsEl = document.getElementById('conflict-actions');
+            filesEl.replaceChildren();
+            actionsEl.replaceChildren();
+
+            guideEl.style.display = conflicts ? 'block' : 'none';
+            if (!conflicts) {
+                return;
+            }
+            document.getElementById('conflict-title').textContent = conflicts.title;
+
+            const button = (className, text, message) => {
+                const el = document.createElement('button');
+                el.className = className;
+                el.textContent = text;
+                el.onclick = () => vscode.postMessage(message);
+                return el;
+            };
+
+            for (const file of conflicts.files) {
+                const row = document.createElement('div');
+                row.className = 'conflict-file';
+
+                const name = document.createElement('div');
+                name.className = 'status-file-name';
+                name.textContent = file.path;
+                name.title = file.path;
+
+                // What's left to do for this file
+                const state = document.createElement('div');
+                state.className = 'conflict-file-state';
+                if (!file.contentConflict) {
+                    state.textContent = file.conflict + ' — decide whether to keep the file or delete it.';
+                } else if (file.markers > 0) {
+                    state.textContent = file.conflict + ' — ' + file.markers +
+                        (file.markers === 1 ? ' conflict' : ' conflicts') + ' left to fix.';
+                } else {
+                    state.textContent = '✓ No conflict markers left — ready to mark resolved.';
+                    state.classList.add('conflict-ready');
+                }
+
+                const actions = document.createElement('div');
+                actions.className = 'conflict-actions';
+                if (file.contentConflict) {
+                    actions.append(
+                        button('fix-button', 'Open in Merge Editor', { type: 'openConflict', path: file.path }),
+                        button('fix-button', 'Mark Resolved', { type: 'resolveFile', path: file.path })
+                    );
+                } else {
+                    actions.append(
+                        button('fix-button', 'Open', { type: 'openConflict', path: file.path }),
+                        button('fix-button', 'Keep File', { type: 'resolveFile', path: file.path }),
+                        button('fix-button', 'Delete File', { type: 'deleteConflictFile', path: file.path })
+                    );
+                }
+
+                row.append(name, state, actions);
+                filesEl.append(row);
+            }
+
+            // Finish once every file is resolved — or give up at any time
+            if (conflicts.finish) {
+                const finish = button('run-button', 'Finish: ' + conflicts.finish, { type: 'finishConflict' });
+                finish.disabled = conflicts.files.length > 0;
+                finish.title = finish.disabled ? 'Mark every file resolved first' : '';
+                actionsEl.append(finish);
+            }
+            if (conflicts.abort) {
+                actionsEl.append(button('link-button', 'Abort (' + conflicts.abort + ')', { type: 'abortConflict' }));
+            }
+        }
+
+        // A conflict started, changed, or was resolved
+        window.addEventListener('message', (event) => {
+            if (event.data.type === 'conflicts') {
+                showConflicts(event.data.conflicts);
+            }
+        });`;
@@ -0,0 +1,151 @@
+/**
+ * curriculum.ts — Works out where the learner is in a lesson pack.
+ *
+ * steps.ts describes WHAT there is to learn (packs → lessons → steps).
+ * This file answers questions about a learner's progress through it:
+ *   - Which lessons are finished?
+ *   - Which lessons are unlocked (all prerequisites finished — and, for
+ *     lessons with `requireQuizzes`, their quizzes passed)?
+ *   - Which step should they do next?
+ *
+ * Everything here is a plain function of (pack, completed step IDs,
+ * passed quiz step IDs), so it's easy to reason about and doesn't need
+ * VS Code at all.
+ */
+
+import { Lesson, LessonPack, WalkthroughStep } from "./steps";
+
+// =============================================================
+// Types
+// =============================================================
+
+/**
+ * A snapshot of one lesson's progress, used to draw the lesson index.
+ */
+export interface LessonState {
+    lesson: Lesson;
+    /** How many of the lesson's steps are done */
+    done: number;
+    /** How many steps the lesson has */
+    total: number;
+    /** True when every step is done */
+    complete: boolean;
+    /** How many of the lesson's steps have a quiz */
+    quizzes: number;
+    /** How many of those quizzes are passed */
+    quizzesPassed: number;
+    /** True when every prerequisite lesson is complete (and its quizzes passed, if it requires that) */
+    unlocked: boolean;
+    /** Titles of prerequisite lessons that still need finishing */
+    waitingFor: string[];
+    /** Titles of prerequisite lessons whose steps are done, but whose quizzes still need passing */
+    waitingForQuizzes: string[];
+}
+
+// =============================================================
+// Helpers
+// =============================================================
+
+/** Returns every step in a pack, lesson by lesson, in order */
+export function getPackSteps(pack: LessonPack): WalkthroughStep[] {
+    return pack.lessons.flatMap((lesson) => lesson.steps);
+}
+
+/** Finds a step (and the lesson it belongs to) by step ID */
+export function findStep(
+    pack: LessonPack,
+    stepId: string
+): { lesson: Lesson; step: WalkthroughStep } | undefined {
+    for (const lesson of pack.lessons) {
+        const step = lesson.steps.find((s) => s.id === stepId);
+        if (step) {
+            return { lesson, step };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Works out the progress and lock state of every lesson in a pack.
+ *
+ * @param pack - The lesson pack
+ * @param completed - IDs of completed steps (from ProgressStore)
+ * @param passedQuizzes - IDs of steps whose quiz is passed (from ProgressStore)
+ */
+export function getLessonStates(pack: LessonPack, completed: Set<string>, passedQuizzes: Set<string>): LessonState[] {
+    // First pass: which lessons are complete, and which have their quizzes passed?
+    const completeLessons = new Set(
+        pack.lessons
+            .filter((lesson) => lesson.steps.every((step) => completed.has(step.id)))
+            .map((lesson) => lesson.id)
+    );
+    const quizzes = (lesson: Lesson) => lesson.steps.filter((step) => step.quiz?.length);
+    const quizzesPassed = (lesson: Lesson) => quizzes(lesson).filter((step) => passedQuizzes.has(step.id));
+
+    // Second pass: a lesson is unlocked once all its prerequisites are complete
+    // (and their quizzes passed, for lessons that require it)
+    const titleOf = (id: string) => pack.lessons.find((l) => l.id === id)?.title ?? id;
+    return pack.lessons.map((lesson) => {
+        const done = lesson.steps.filter((step) => completed.has(step.id)).length;
+        const prerequisites = lesson.prerequisites ?? [];
+        const waitingFor = prerequisites.filter((id) => !completeLessons.has(id)).map(titleOf);
+        const waitingForQuizzes = prerequisites
+            .filter((id) => {
+                const prerequisite = pack.lessons.find((l) => l.id === id);
+                return (
+                    completeLessons.has(id) &&
+                    prerequisite?.requireQuizzes &&
+                    quizzesPassed(prerequisite).length < quizzes(prerequisite).length
+                );
+            })
+            .map(titleOf);
+
+        return {
+            lesson,
+            done,
+            total: lesson.steps.length,
+            complete: completeLessons.has(lesson.id),
+            quizzes: quizzes(lesson).length,
+            quizzesPassed: quizzesPassed(lesson).length,
+            unlocked: waitingFor.length === 0 && waitingForQuizzes.length === 0,
+            waitingFor,
+            waitingForQuizzes,
+        };
+    });
+}
+
+/**
+ * Says what a locked lesson is waiting for, e.g.
+ * `Finish "Basics" and pass the quizzes in "Branching"` (callers add
+ * " first." or " to unlock this lesson.").
+ */
+export function describeLock(state: LessonState): string {
+    const quote = (titles: string[]) => `"${titles.join('", "')}"`;
+    const parts = [
+        state.waitingFor.length > 0 ? `finish ${quote(state.waitingFor)}` : undefined,
+        state.waitingForQuizzes.length > 0 ? `pass the quizzes in ${quote(state.waitingForQuizzes)}` : undefined,
+    ].filter(Boolean);
+    const text = parts.join(" and ");
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Returns the step the learner should do next: the first unfinished step
+ * in an unlocked lesson. Returns undefined when there's nothing left to do.
+ */
+export function getNextStep(
+    pack: LessonPack,
+    completed: Set<string>,
+    passedQuizzes: Set<string>
+): WalkthroughStep | undefined {
+    for (const state of getLessonStates(pack, completed, passedQuizzes)) {
+        if (!state.unlocked) {
+            continue;
+        }
+        const step = state.lesson.steps.find((s) => !completed.has(s.id));
+        if (step) {
+            return step;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,162 @@
+/**
+ * diffView.ts — Opens VS Code's side-by-side diff editor for a changed file.
+ *
+ * HOW DO WE SHOW AN OLD VERSION OF A FILE?
+ *   The diff editor compares two documents, but the "before" version of a
+ *   file isn't on disk — it lives inside Git. `git show <ref>:<path>`
+ *   prints it for us:
+ *
+ *     git show HEAD:index.html   ← the file as of the last commit
+ *     git show :index.html       ← the file as it is in the staging area
+ *
+ *   A TextDocumentContentProvider lets us serve that text as a read-only
+ *   document with a custom URI scheme ("git-helper:"), which VS Code can
+ *   then open in the diff editor like any other file.
+ *
+ * WHICH TWO VERSIONS?
+ *   - Unstaged changes: staging area  ↔  the file on disk
+ *   - Staged changes:   last commit   ↔  staging area
+ *   - A past commit:    its parent    ↔  the commit
+ *   That's exactly what `git diff`, `git diff --staged` and `git show` compare.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { queryGit } from "./gitCommands";
+import { StatusFile } from "./gitStatus";
+
+/** The URI scheme our read-only Git documents use */
+export const GIT_CONTENT_SCHEME = "git-helper";
+
+/** What a "git-helper:" URI's query holds */
+interface GitContentQuery {
+    /** The repository the file belongs to */
+    repo: string;
+    /**
+     * "HEAD" for the last commit, "" for the staging area, ":1"/":2"/":3"
+     * for the versions of a conflicted file, a commit's hash for that
+     * commit, null for "no file"
+     */
+    ref: string | null;
+    /** The file's path relative to the repository */
+    path: string;
+}
+
+/**
+ * Serves "git-helper:" documents by asking Git for a file's contents at a
+ * given ref. Register it once with registerTextDocumentContentProvider().
+ */
+export class GitContentProvider implements vscode.TextDocumentContentProvider {
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = JSON.parse(uri.query) as GitContentQuery;
+        if (query.ref === null) {
+            return "";
+        }
+        const result = await queryGit(["show", `${query.ref}:${query.path}`], query.repo, { raw: true });
+
+        // A file that didn't exist in that version (e.g. a newly added file,
+        // or anything before the first commit) is shown as empty.
+        return result.success ? result.output : "";
+    }
+}
+
+/** Builds the URI of a file's contents at `ref` (see GitContentQuery) */
+function gitUri(repo: string, ref: string | null, filePath: string): vscode.Uri {
+    const query: GitContentQuery = { repo, ref, path: filePath };
+    return vscode.Uri.from({
+        scheme: GIT_CONTENT_SCHEME,
+        path: "/" + filePath,
+        query: JSON.stringify(query),
+    });
+}
+
+/**
+ * Opens a diff of a changed file — or the file itself, if there's nothing
+ * to compare it with (untracked and conflicted files).
+ *
+ * @param repo - The repository root
+ * @param file - The file from the status model (see gitStatus.ts)
+ * @param staged - true for the staged change, false for the unstaged one
+ */
+export async function openFileDiff(repo: string, file: StatusFile, staged: boolean): Promise<void> {
+    const onDisk = vscode.Uri.file(path.join(repo, file.path));
+    const name = path.basename(file.path);
+
+    if (file.kind === "untracked" || file.kind === "conflicted") {
+        // Conflicted files are resolved by editing the file itself, where
+        // VS Code highlights the conflict markers.
+        await vscode.window.showTextDocument(onDisk);
+        return;
+    }
+
+    if (staged) {
+        const before = gitUri(repo, "HEAD", file.origPath ?? file.path);
+        const after = gitUri(repo, "", file.path);
+        await vscode.commands.executeCommand("vscode.diff", before, after, `${name} (Staged)`);
+    } else {
+        const before = gitUri(repo, "", file.path);
+        // A deleted file isn't on disk any more, so compare with an empty document
+        const after = file.kind === "deleted" ? gitUri(repo, null, file.path) : onDisk;
+        await vscode.commands.executeCommand("vscode.diff", before, after, `${name} (Changes)`);
+    }
+}
+
+/**
+ * Opens a diff of one file changed by a past commit (see history.ts):
+ * the file as it was in the commit's first parent ↔ the file in the commit.
+ *
+ * @param repo - The repository root
+ * @param commit - The commit's hash, short hash and parents
+ * @param file - One of the files the commit changed
+ */
+export async function openCommitFileDiff(
+    repo: string,
+    commit: { hash: string; shortHash: string; parents: string[] },
+    file: StatusFile
+): Promise<void> {
+    // The first commit has no parent, and an added file has nothing before it
+    const parent = file.kind === "added" ? null : (commit.parents[0] ?? null);
+    const before = gitUri(repo, parent, file.origPath ?? file.path);
+    const after = gitUri(repo, file.kind === "deleted" ? null : commit.hash, file.path);
+    const title = `${path.basename(file.path)} (${commit.shortHash})`;
+    await vscode.commands.executeCommand("vscode.diff", before, after, title);
+}
+
+/**
+ * Opens a conflicted file in VS Code's merge editor: your version and the
+ * incoming version side by side on top, the result underneath.
+ *
+ * During a conflict, the staging area holds all three versions of the
+ * file as numbered "stages", which `git show` can read:
+ *
+ *   :1:file   ← the common ancestor (what both sides started from)
+ *   :2:file   ← "ours" — your branch
+ *   :3:file   ← "theirs" — the branch being merged in
+ *
+ * If the merge editor can't be opened (older VS Code, or a conflict where
+ * one side deleted the file), the file opens in the normal editor, where
+ * VS Code still highlights the conflict markers.
+ *
+ * @param repo - The repository root
+ * @param filePath - The conflicted file, relative to the repository
+ * @param contentConflict - true if both sides changed the file's contents
+ */
+export async function openMergeEditor(repo: string, filePath: string, contentConflict: boolean): Promise<void> {
+    const onDisk = vscode.Uri.file(path.join(repo, filePath));
+    if (contentConflict) {
+        try {
+            // Not part of the public API, but it's what VS Code's own Git
+            // extension uses to open the merge editor
+            await vscode.commands.executeCommand("_open.mergeEditor", {
+                base: gitUri(repo, ":1", filePath),
+                input1: { uri: gitUri(repo, ":2", filePath), title: "Current", description: "your branch" },
+                input2: { uri: gitUri(repo, ":3", filePath), title: "Incoming", description: "the branch being merged in" },
+                output: onDisk,
+            });
+            return;
+        } catch {
+            // Fall through to the plain editor
+        }
+    }
+    await vscode.window.showTextDocument(onDisk);
+}
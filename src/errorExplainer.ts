@@ -0,0 +1,455 @@
+/**
+ * errorExplainer.ts — Turns scary Git error messages into plain English.
+ *
+ * WHY?
+ *   Git's error messages are written for people who already know Git.
+ *   "src refspec main does not match any" means nothing to a beginner,
+ *   even though the fix is usually one command away. So when a command
+ *   fails, we compare its output against a list of well-known failures.
+ *   If one matches, we show:
+ *     - a short title ("You haven't told Git who you are")
+ *     - an explanation of what went wrong and why
+ *     - one or more "fix" buttons that run the usual follow-up command
+ *
+ * The explanations are shown both in the walkthrough step cards and in
+ * the error notifications of the Command Palette quick actions.
+ *
+ * ADDING A NEW ERROR:
+ *   Add an entry to KNOWN_ERRORS below. The first entry whose `pattern`
+ *   matches the output wins, so put more specific patterns first.
+ *   If the fix depends on a name in the message or on the repository
+ *   (which remote? merge or rebase?), give it a `tailor` function too.
+ */
+
+import * as vscode from "vscode";
+import { runGitCommand, GitCommandResult, RunOptions, getTargetRepo } from "./gitCommands";
+import { findOperation, getAbortAction } from "./conflicts";
+import { getPlaceholderValues } from "./placeholders";
+
+// =============================================================
+// Types
+// =============================================================
+
+/**
+ * A follow-up command that usually fixes the problem.
+ */
+export interface FixAction {
+    /** Button label, e.g. "Set your name" */
+    label: string;
+
+    /** The arguments passed to `git` when the fix runs */
+    args: string[];
+
+    /**
+     * If set, ask the user for a value first and append it to `args`
+     * (same idea as `requiresInput` on a walkthrough step).
+     */
+    input?: {
+        prompt: string;
+        placeholder: string;
+    };
+}
+
+/**
+ * A beginner-friendly explanation of a Git failure.
+ */
+export interface ErrorExplanation {
+    /** Unique identifier (used to find the fix again when a button is clicked) */
+    id: string;
+
+    /** One-line summary, e.g. "You haven't told Git who you are" */
+    title: string;
+
+    /** What went wrong and why, in plain English */
+    explanation: string;
+
+    /** Suggested fixes (may be empty if the user has to do something by hand) */
+    fixes: FixAction[];
+}
+
+/** An explanation plus the pattern that recognizes it */
+interface KnownError extends ErrorExplanation {
+    pattern: RegExp;
+
+    /**
+     * Fits the explanation to this particular failure, e.g. to the remote
+     * named in the message, or to the operation in progress in the repo.
+     *
+     * @param match - What `pattern` matched, with its groups
+     * @param cwd - The repository the command ran in, if known
+     */
+    tailor?: (
+        explanation: ErrorExplanation,
+        match: RegExpExecArray,
+        cwd: string | undefined
+    ) => Promise<ErrorExplanation> | ErrorExplanation;
+}
+
+// =============================================================
+// Known Errors
+// =============================================================
+
+const KNOWN_ERRORS: KnownError[] = [
+    {
+        id: "merge-conflict",
+        pattern: /CONFLICT \(|Automatic merge failed|you need to resolve your current index first|unmerged files/i,
+        title: "There's a merge conflict",
+        explanation:
+            "Two sets of changes edited the same lines, and Git can't decide which to keep. " +
+            "Git has marked the conflicting spots in the files with <<<<<<<, ======= and >>>>>>>. " +
+            "Edit each file to keep what you want, stage it with 'git add', then finish the merge, rebase " +
+            "or cherry-pick. Or abort it to put everything back the way it was. " +
+            "The Merge Conflicts section in the Git Walkthrough panel walks you through each file.",
+        fixes: [{ label: "Show conflicted files", args: ["status"] }],
+        // Each operation has its own abort (`git merge --abort` fails in a rebase), and
+        // conflicts without one (after `git stash pop`) have nothing to abort
+        tailor: async (explanation, _match, cwd) => {
+            const operation = cwd ? await findOperation(cwd) : undefined;
+            if (!operation) {
+                return explanation;
+            }
+            return { ...explanation, fixes: [...explanation.fixes, getAbortAction(operation)] };
+        },
+    },
+    {
+        id: "author-identity-unknown",
+        pattern: /Author identity unknown|Please tell me who you are|unable to auto-detect email address/i,
+        title: "You haven't told Git who you are",
+        explanation:
+            "Every commit is stamped with the author's name and email, and Git doesn't know yours yet. " +
+            "You only need to set them once per computer. Use the same email as your GitHub account " +
+            "so your commits are linked to your profile. (The \"Set Up Git\" lesson walks you through it.)",
+        fixes: [
+            {
+                label: "Set your name",
+                args: ["config", "--global", "user.name"],
+                input: { prompt: "Your name (shown on your commits)", placeholder: "e.g., Ada Lovelace" },
+            },
+            {
+                label: "Set your email",
+                args: ["config", "--global", "user.email"],
+                input: { prompt: "Your email address", placeholder: "e.g., ada@example.com" },
+            },
+        ],
+    },
+    {
+        id: "not-a-repository",
+        pattern: /not a git repository/i,
+        title: "This folder isn't a Git repository yet",
+        explanation:
+            "Git only works inside a repository — a folder with a hidden .git folder in it. " +
+            "Run 'git init' once to turn this folder into one.",
+        fixes: [{ label: "Initialize a repository here", args: ["init"] }],
+    },
+    {
+        id: "remote-already-exists",
+        pattern: /remote (\S+) already exists/i,
+        title: "A remote with that name already exists",
+        explanation:
+            "This repo is already linked to a remote with that name, so it can't be added again. " +
+            "If it points to the wrong place (for example, a typo in the URL), change its URL instead.",
+        fixes: [{ label: "Show current remotes", args: ["remote", "-v"] }],
+        tailor: (explanation, [, remote]) => ({
+            ...explanation,
+            title: `A remote called "${remote}" already exists`,
+            fixes: [
+                ...explanation.fixes,
+                {
+                    label: `Change ${remote}'s URL`,
+                    args: ["remote", "set-url", remote],
+                    input: {
+                        prompt: "Enter the correct repository URL",
+                        placeholder: "https://github.com/username/my-repo.git",
+                    },
+                },
+            ],
+        }),
+    },
+    {
+        id: "src-refspec-no-match",
+        pattern: /src refspec (\S+) does not match any/i,
+        title: "That branch doesn't exist (yet)",
+        explanation:
+            "You tried to push a branch that doesn't exist in this repo. Usually that's because there " +
+            "are no commits yet (a branch only really exists once it has a commit), or because your " +
+            "branch has a different name — older Git versions call it 'master' instead of 'main'.",
+        fixes: [
+            { label: "Rename this branch to main", args: ["branch", "-M", "main"] },
+            { label: "Push the branch I'm on", args: ["push", "-u", "origin", "HEAD"] },
+        ],
+    },
+    {
+        id: "divergent-branches",
+        pattern: /divergent branches|Need to specify how to reconcile/i,
+        title: "Your branch and the remote have both changed",
+        explanation:
+            "You have commits the remote doesn't, and the remote has commits you don't. Git needs to " +
+            "know how to combine them: 'merge' ties them together with a merge commit, while " +
+            "'rebase' replays your commits on top of the remote's. If unsure, merge is the safer choice.",
+        fixes: [
+            { label: "Pull with merge", args: ["pull", "--no-rebase"] },
+            { label: "Pull with rebase", args: ["pull", "--rebase"] },
+            { label: "Always merge when pulling", args: ["config", "--global", "pull.rebase", "false"] },
+        ],
+    },
+    {
+        id: "push-rejected",
+        pattern: /\[rejected\]|Updates were rejected|non-fast-forward|fetch first/i,
+        title: "The remote has commits you don't have",
+        explanation:
+            "Someone (maybe you, from another computer) pushed new commits since you last pulled. " +
+            "Git won't let you push until you've pulled those commits in, so nobody's work gets overwritten.",
+        fixes: [
+            { label: "Pull first (merge)", args: ["pull", "--no-rebase"] },
+            { label: "Pull first (rebase)", args: ["pull", "--rebase"] },
+        ],
+    },
+    {
+        id: "no-upstream",
+        pattern: /has no upstream branch|no tracking information for the current branch/i,
+        title: "This branch isn't connected to the remote yet",
+        explanation:
+            "Git doesn't know which remote branch this branch goes with. Pushing once with '-u' " +
+            "(short for --set-upstream) connects them, and plain 'git push' and 'git pull' work after that.",
+        fixes: [{ label: "Push and connect this branch", args: ["push", "-u", "origin", "HEAD"] }],
+    },
+
+    {
+        id: "local-changes-in-the-way",
+        pattern: /Your local changes to the following files would be overwritten by (checkout|switch)/i,
+        title: "Your uncommitted changes are in the way",
+        explanation:
+            "The branch you're switching to has different versions of files you've changed but not committed. " +
+            "Switching would overwrite your changes, so Git stopped. Commit them, or stash them " +
+            "(put them aside) and switch — 'git stash pop' brings them back later.",
+        fixes: [{ label: "Stash my changes", args: ["stash", "push", "--include-untracked"] }],
+    },
+    {
+        id: "untracked-files-in-the-way",
+        pattern: /untracked working tree files would be (overwritten|removed)/i,
+        title: "New files you haven't committed are in the way",
+        explanation:
+            "The commits coming in add files with the same names as new files of yours that Git isn't tracking " +
+            "yet. Git won't overwrite them, so it stopped. Rename or move them, or stash them with " +
+            "--include-untracked and try again.",
+        fixes: [{ label: "Stash my changes", args: ["stash", "push", "--include-untracked"] }],
+    },
+    {
+        id: "branch-not-merged",
+        pattern: /branch '(\S+)' is not fully merged/i,
+        title: "That branch has commits that aren't merged anywhere",
+        explanation:
+            "Deleting it would throw those commits away, so 'git branch -d' refused. Merge it first if you " +
+            "want to keep its work, or use \"Git Helper: Force Delete Branch\" if you really don't need it.",
+        fixes: [],
+    },
+    {
+        id: "branch-already-exists",
+        pattern: /a branch named '(\S+)' already exists/i,
+        title: "A branch with that name already exists",
+        explanation:
+            "Branch names must be unique. Pick another name, or switch to the existing branch instead.",
+        fixes: [],
+    },
+
+    // --- Signing in ---
+    // Git asks for usernames and passwords through VS Code (see askpass.ts).
+    // These are the ways that can go wrong.
+    {
+        id: "password-auth-removed",
+        pattern: /Support for password authentication was removed|Password authentication is not (supported|available)/i,
+        title: "The server won't accept your account password",
+        explanation:
+            "GitHub (and many other hosts) stopped accepting your normal account password for Git. " +
+            "Instead, create a personal access token in your account settings (on GitHub: Settings → " +
+            "Developer settings → Personal access tokens), give it permission to read and write " +
+            "repositories, and paste the token when Git asks for your password. " +
+            "Your username stays the same.",
+        fixes: [],
+    },
+    {
+        id: "repository-permission-denied",
+        pattern: /Permission to \S+ denied to|The requested URL returned error: 403/i,
+        title: "You don't have permission to push to this repository",
+        explanation:
+            "You signed in, but the account (or token) you used isn't allowed to change this repository. " +
+            "Check the remote URL points to your own repository or one you've been added to. " +
+            "If you're using a token, make sure it was given write access to repositories.",
+        fixes: [{ label: "Show remote URLs", args: ["remote", "-v"] }],
+    },
+    {
+        id: "authentication-failed",
+        pattern: /Authentication failed for|Invalid username or password|HTTP Basic: Access denied|The requested URL returned error: 401/i,
+        title: "The server didn't accept your sign-in",
+        explanation:
+            "The username or password Git sent was wrong. Most hosts (GitHub, GitLab, Bitbucket) want " +
+            "a personal access token in the password box, not the password you log in to the website with — " +
+            "you can create one in your account settings. If Git failed without asking you anything, it " +
+            "used a saved password that's out of date: remove the old one from your system's credential " +
+            "store (Keychain Access on macOS, Credential Manager on Windows) and try again.",
+        fixes: [],
+    },
+    {
+        id: "sign-in-cancelled",
+        pattern: /could not read (Username|Password) for|terminal prompts disabled/i,
+        title: "Git needed you to sign in, but got no answer",
+        explanation:
+            "This remote needs a username and password (or token), and the sign-in box was closed " +
+            "before they were filled in. Run the command again and fill in both boxes.",
+        fixes: [],
+    },
+    {
+        id: "ssh-key-rejected",
+        pattern: /Permission denied \(publickey/i,
+        title: "The server didn't recognize your SSH key",
+        explanation:
+            "This remote uses an SSH address (git@...), which signs you in with an SSH key instead of a " +
+            "password. Either you don't have a key yet, or its public half (the .pub file in ~/.ssh) " +
+            "hasn't been added to your account on the server. Add the key in your account's SSH settings, " +
+            "or switch the remote to its https:// address to sign in with a token instead.",
+        fixes: [{ label: "Show remote URLs", args: ["remote", "-v"] }],
+        // SSH's message doesn't name the remote, so offer to switch the one this branch pushes to
+        tailor: async (explanation, _match, cwd) => {
+            const remote = cwd ? (await getPlaceholderValues(cwd)).defaultRemote : undefined;
+            if (!remote) {
+                return explanation;
+            }
+            const fix: FixAction = {
+                label: `Switch ${remote} to HTTPS`,
+                args: ["remote", "set-url", remote],
+                input: {
+                    prompt: `Enter the https:// URL of the repository ${remote} points to`,
+                    placeholder: "https://github.com/username/my-repo.git",
+                },
+            };
+            return { ...explanation, fixes: [...explanation.fixes, fix] };
+        },
+    },
+    {
+        id: "host-key-verification-failed",
+        pattern: /Host key verification failed/i,
+        title: "SSH couldn't confirm it's talking to the right server",
+        explanation:
+            "The first time you connect to a server over SSH, you're asked to confirm it's the right one. " +
+            "That wasn't confirmed, so SSH stopped. Run the command again and choose \"Trust This Server\" " +
+            "if the address is correct. (If you've connected before and see this, the server's identity " +
+            "changed — check with whoever runs it before trusting it.)",
+        fixes: [],
+    },
+];
+
+// =============================================================
+// Looking Up Explanations
+// =============================================================
+
+/**
+ * Finds a beginner-friendly explanation for a failed command's output.
+ *
+ * @param output - The failed command's output (stdout + stderr)
+ * @param cwd - The repository the command ran in (some fixes depend on its state)
+ * @returns The explanation, or undefined if we don't recognize the error
+ */
+export async function explainGitError(
+    output: string,
+    cwd: string | undefined = getTargetRepo()
+): Promise<ErrorExplanation | undefined> {
+    for (const known of KNOWN_ERRORS) {
+        const match = known.pattern.exec(output);
+        if (match) {
+            // Leave the regex out — callers (and the webview) only need the text
+            const { id, title, explanation: text, fixes } = known;
+            const explanation = { id, title, explanation: text, fixes };
+            return known.tailor ? known.tailor(explanation, match, cwd) : explanation;
+        }
+    }
+    return undefined;
+}
+
+// =============================================================
+// Running Fixes
+// =============================================================
+
+/**
+ * Runs a fix action, asking for input first if it needs any.
+ *
+ * @param options - Streaming and cancellation options for runGitCommand() (optional)
+ * @returns The command result, or undefined if the user cancelled the input
+ */
+export async function runFix(
+    fix: FixAction,
+    outputChannel: vscode.OutputChannel,
+    options?: RunOptions
+): Promise<GitCommandResult | undefined> {
+    const args = [...fix.args];
+
+    if (fix.input) {
+        const value = await vscode.window.showInputBox({
+            prompt: fix.input.prompt,
+            placeHolder: fix.input.placeholder,
+        });
+        if (value === undefined || value.trim() === "") {
+            return undefined;
+        }
+        args.push(value);
+    }
+
+    return runGitCommand(args, outputChannel, undefined, options);
+}
+
+/**
+ * Shows an error notification for a failed quick action.
+ *
+ * If we recognize the error, the notification explains it and offers the
+ * fixes as buttons. Otherwise we stay quiet — runGitCommand() has already
+ * opened the Output panel with Git's own message. Commands that timed out
+ * get a note about the time limit; cancelled ones get nothing (the user
+ * knows — they clicked Cancel).
+ *
+ * @param result - The failed command's result
+ * @param outputChannel - Where fix commands are logged
+ */
+export async function showGitError(
+    result: GitCommandResult,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    // A stopped command didn't fail on its own — there's no Git error to explain
+    if (result.stopped === "timedOut") {
+        const choice = await vscode.window.showWarningMessage(
+            "The command took too long and was stopped. If it was waiting for a password, " +
+                "check your credentials; if it's just slow, raise the time limit.",
+            "Change Time Limit"
+        );
+        if (choice) {
+            vscode.commands.executeCommand("workbench.action.openSettings", "gitHelper.commandTimeouts");
+        }
+        return;
+    }
+    if (result.stopped) {
+        return;
+    }
+
+    const explanation = await explainGitError(result.output);
+    if (!explanation) {
+        return;
+    }
+
+    const choice = await vscode.window.showErrorMessage(
+        `${explanation.title}. ${explanation.explanation}`,
+        ...explanation.fixes.map((fix) => fix.label)
+    );
+    const fix = explanation.fixes.find((f) => f.label === choice);
+    if (!fix) {
+        return;
+    }
+
+    const fixResult = await runFix(fix, outputChannel);
+    if (!fixResult) {
+        return;
+    }
+    if (fixResult.success) {
+        vscode.window.showInformationMessage(`Done: ${fix.label}. Try your command again.`);
+    } else {
+        // The fix itself can fail with a different known error — explain that too
+        await showGitError(fixResult, outputChannel);
+    }
+}
@@ -8,12 +8,23 @@
  *   1. Create an Output Channel for displaying Git command results
  *   2. Register the sidebar Walkthrough panel
  *   3. Register the Quick Action commands (for the Command Palette)
+ *   4. Register the sandbox commands (practice without touching your project)
+ *   5. Register the Undo command (take back common mistakes, safely)
+ *   6. Show the status bar item (branch, changes and your next lesson step)
+ *   7. Register the branch commands (create, switch, rename, delete, publish)
+ *   8. Register the repository picker (for workspaces with several repos)
+ *   9. Register the command log commands (show, search, export, re-run)
+ *  10. Register the command explainer (what does this pasted command do?)
  *
  * WHAT IS AN OUTPUT CHANNEL?
  *   It's a read-only text panel in the "Output" tab at the bottom of VS Code.
  *   You've probably seen it when running build tasks. We use it to log
  *   every Git command and its output, so users can always review details.
  *
+ * WHEN A COMMAND FAILS:
+ *   showGitError() (errorExplainer.ts) recognizes common Git errors and
+ *   explains them in plain English, with buttons for the usual fixes.
+ *
  * WHAT IS THE COMMAND PALETTE?
  *   Press Ctrl+Shift+P (or Cmd+Shift+P on Mac) to open it. It's the
  *   searchable list of all available commands. Our quick actions show up
@@ -22,7 +33,28 @@
 
 import * as vscode from "vscode";
 import { WalkthroughProvider } from "./walkthroughProvider";
-import { runGitCommand } from "./gitCommands";
+import { runGitCommand, getTargetRepo } from "./gitCommands";
+import { showGitError } from "./errorExplainer";
+import { ProgressStore } from "./progress";
+import { LessonLibrary } from "./lessonLibrary";
+import { Sandbox } from "./sandbox";
+import { getRepoStatus, summarizeStatus } from "./gitStatus";
+import { GIT_CONTENT_SCHEME, GitContentProvider } from "./diffView";
+import { pickFilesToStage } from "./stagingPicker";
+import { configureIdentity, offerRecommendedDefaults } from "./gitConfig";
+import { AskpassBridge } from "./askpass";
+import { RecoveryStore } from "./recovery";
+import { showUndoMenu } from "./undo";
+import { askForCommitMessage } from "./commitMessage";
+import { runWithPreflight } from "./preflight";
+import { syncWithRemote } from "./sync";
+import { NEXT_ACTIONS_COMMAND, StatusBar } from "./statusBar";
+import { createBranch, deleteBranch, publishBranch, renameBranch, switchBranch } from "./branches";
+import { RepositoryManager } from "./repositories";
+import { CommandLog, exportCommandLog } from "./commandLog";
+import { CommandLogView } from "./commandLogView";
+import { TerminalPractice } from "./terminalPractice";
+import { CommandExplainerView } from "./commandExplainerView";
 
 /**
  * Called by VS Code when the extension is activated (loaded).
@@ -41,6 +73,15 @@ export function activate(context: vscode.ExtensionContext): void {
     outputChannel.appendLine("Git Helper extension activated!");
     outputChannel.appendLine("================================\n");
 
+    // The Output Channel is emptied on every reload, so every command is
+    // also recorded in the command log (see commandLog.ts).
+    const commandLog = new CommandLog(context.workspaceState);
+    context.subscriptions.push(commandLog);
+
+    // Git has no terminal to ask for passwords in, so it asks through
+    // VS Code input boxes instead (see askpass.ts).
+    context.subscriptions.push(new AskpassBridge(context.extensionPath, outputChannel));
+
     // =========================================================
     // 2. REGISTER THE WALKTHROUGH SIDEBAR PANEL
     // =========================================================
@@ -48,7 +89,49 @@ export function activate(context: vscode.ExtensionContext): void {
     // defined in package.json. When the user clicks the Git Helper
     // icon in the Activity Bar, VS Code calls our provider to
     // generate the sidebar content.
-    const walkthroughProvider = new WalkthroughProvider(outputChannel);
+    //
+    // Progress is saved in workspaceState, so each project folder
+    // remembers which steps you've finished — even after a reload.
+    const progressStore = new ProgressStore(context.workspaceState);
+    context.subscriptions.push(progressStore);
+
+    // Lesson packs come from steps.ts, the extension's lessons/ folder,
+    // and the workspace's .githelper/lessons.json file (if there is one).
+    const lessonLibrary = new LessonLibrary(context.extensionUri, context.workspaceState, outputChannel);
+    context.subscriptions.push(lessonLibrary);
+    void lessonLibrary.load();
+
+    // The sandbox is a throwaway practice repo in the extension's storage
+    // folder. While it's on, every command targets it instead of your project.
+    const sandbox = new Sandbox(context.workspaceState, context.globalStorageUri.fsPath, outputChannel);
+    context.subscriptions.push(sandbox);
+
+    // Before the Undo section changes anything, it saves a recovery point
+    // (see recovery.ts), so undos can be undone too.
+    const recoveryStore = new RecoveryStore(context.workspaceState, outputChannel);
+    context.subscriptions.push(recoveryStore);
+
+    // The workspace may hold several repositories (see repositories.ts).
+    // Commands run in the active one: the repo of the file you're editing,
+    // or the one you picked.
+    const repositories = new RepositoryManager(context.workspaceState, outputChannel);
+    context.subscriptions.push(repositories);
+    void repositories.discover();
+
+    // "Type it yourself" opens a practice terminal and watches what's typed
+    // there (see terminalPractice.ts), so steps can be done by hand too.
+    const terminalPractice = new TerminalPractice();
+    context.subscriptions.push(terminalPractice);
+
+    const walkthroughProvider = new WalkthroughProvider(
+        outputChannel,
+        progressStore,
+        lessonLibrary,
+        sandbox,
+        recoveryStore,
+        repositories,
+        terminalPractice
+    );
 
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -57,6 +140,12 @@ export function activate(context: vscode.ExtensionContext): void {
         )
     );
 
+    // The panel's "Diff" buttons show old versions of files straight from
+    // Git, using "git-helper:" documents (see diffView.ts).
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(GIT_CONTENT_SCHEME, new GitContentProvider())
+    );
+
     // =========================================================
     // 3. REGISTER QUICK ACTION COMMANDS
     // =========================================================
@@ -68,71 +157,120 @@ export function activate(context: vscode.ExtensionContext): void {
 
     // --- Git Helper: Status ---
     // Shows which files are modified, staged, or untracked.
+    // The full report goes to the Output panel; the notification sums it up
+    // (e.g. "On main: 1 staged, 2 changed.") using the model in gitStatus.ts.
     context.subscriptions.push(
         vscode.commands.registerCommand("gitHelper.status", async () => {
             const result = await runGitCommand(["status"], outputChannel);
-            if (result.success) {
+            const cwd = getTargetRepo();
+            const status = result.success && cwd ? await getRepoStatus(cwd) : undefined;
+            if (status) {
+                vscode.window.showInformationMessage(summarizeStatus(status));
+            } else if (result.success) {
                 vscode.window.showInformationMessage(
                     "Git status — check the Output panel for details."
                 );
+            } else {
+                await showGitError(result, outputChannel);
             }
         })
     );
 
-    // --- Git Helper: Add All ---
-    // Stages all changed files for the next commit.
+    // --- Git Helper: Add Files ---
+    // Asks which changed files to stage ("Stage all" is one of the choices),
+    // and warns about files that look like secrets or don't belong in Git.
+    // The walkthrough's "Stage Your Files" step uses the same picker.
     context.subscriptions.push(
         vscode.commands.registerCommand("gitHelper.add", async () => {
-            const result = await runGitCommand(["add", "."], outputChannel);
+            const cwd = getTargetRepo();
+            if (!cwd) {
+                vscode.window.showErrorMessage("No folder is open in VS Code. Please open a folder first (File > Open Folder).");
+                return;
+            }
+
+            const args = await pickFilesToStage(cwd);
+            if (!args) {
+                return;
+            }
+
+            const result = await runGitCommand(args, outputChannel);
             if (result.success) {
                 vscode.window.showInformationMessage(
-                    "All files staged successfully!"
+                    args.includes(".")
+                        ? "All changes staged successfully!"
+                        : `Staged ${args.length - 2} file(s) successfully!`
                 );
+            } else {
+                await showGitError(result, outputChannel);
             }
         })
     );
 
     // --- Git Helper: Commit ---
     // Creates a commit with a user-provided message.
+    // Commit, Push and Pull check the repo first and offer safe fixes for
+    // anything that would make them fail (see preflight.ts).
     context.subscriptions.push(
         vscode.commands.registerCommand("gitHelper.commit", async () => {
-            // Ask the user to type a commit message
-            const message = await vscode.window.showInputBox({
-                prompt: "Enter your commit message",
-                placeHolder: "e.g., Fix login button alignment",
-            });
-
-            // User pressed Escape or left it empty
-            if (!message) {
-                vscode.window.showWarningMessage(
-                    "Commit cancelled — no message provided."
-                );
-                return;
-            }
+            let message: string | undefined;
+            const result = await runWithPreflight(
+                "commit",
+                async () => {
+                    // Ask the user to type a commit message, checked against the
+                    // team's rules as they type (see commitMessage.ts)
+                    message = await askForCommitMessage();
 
-            // The message is passed as a separate arg (safe from injection)
-            const result = await runGitCommand(
-                ["commit", "-m", message],
+                    // User pressed Escape or left it empty
+                    if (!message) {
+                        vscode.window.showWarningMessage(
+                            "Commit cancelled — no message provided."
+                        );
+                        return undefined;
+                    }
+
+                    // The message is passed as a separate arg (safe from injection)
+                    return ["commit", "-m", message];
+                },
                 outputChannel
             );
 
+            if (!result || !message) {
+                return;
+            }
             if (result.success) {
                 vscode.window.showInformationMessage(
-                    `Committed: "${message}"`
+                    `Committed: "${message.split("\n")[0]}"`
                 );
+            } else {
+                await showGitError(result, outputChannel);
             }
         })
     );
 
+    // --- Git Helper: Sync ---
+    // The everyday way to push and pull: fetches, explains who has commits
+    // the other doesn't ("you have 2 commits GitHub doesn't..."), then offers
+    // to push, or to pull with merge or rebase (see sync.ts).
+    context.subscriptions.push(
+        vscode.commands.registerCommand("gitHelper.sync", () =>
+            syncWithRemote(outputChannel, () => walkthroughProvider.showSyncDiagram())
+        )
+    );
+
     // --- Git Helper: Push ---
     // Pushes local commits to the remote repository.
     context.subscriptions.push(
         vscode.commands.registerCommand("gitHelper.push", async () => {
-            const result = await runGitCommand(["push"], outputChannel);
+            const result = await runWithPreflight("push", ["push"], outputChannel);
+            if (!result) {
+                return;
+            }
             if (result.success) {
                 vscode.window.showInformationMessage(
                     "Pushed to remote successfully!"
                 );
+            } else {
+                await showGitError(result, outputChannel);
             }
         })
     );
@@ -141,12 +279,136 @@ export function activate(context: vscode.ExtensionContext): void {
     // Pulls the latest changes from the remote repository.
     context.subscriptions.push(
         vscode.commands.registerCommand("gitHelper.pull", async () => {
-            const result = await runGitCommand(["pull"], outputChannel);
+            const result = await runWithPreflight("pull", ["pull"], outputChannel);
+            if (!result) {
+                return;
+            }
             if (result.success) {
                 vscode.window.showInformationMessage(
                     "Pulled latest changes!"
                 );
+            } else {
+                await showGitError(result, outputChannel);
+            }
+        })
+    );
+
+    // --- Git Helper: Set Up Your Name and Email ---
+    // Git won't commit until it knows who you are. This asks for your
+    // name and email (global or just this repo), then offers a few
+    // beginner-friendly defaults like init.defaultBranch = main.
+    context.subscriptions.push(
+        vscode.commands.registerCommand("gitHelper.configureIdentity", async () => {
+            const result = await configureIdentity(getTargetRepo(), outputChannel);
+            if (!result) {
+                return;
             }
+            if (!result.success) {
+                await showGitError(result, outputChannel);
+                return;
+            }
+            vscode.window.showInformationMessage(result.output);
+            await offerRecommendedDefaults(outputChannel);
+        })
+    );
+
+    // =========================================================
+    // 4. REGISTER SANDBOX COMMANDS
+    // =========================================================
+    // These are also wired to the buttons at the top of the
+    // walkthrough panel.
+    context.subscriptions.push(
+        vscode.commands.registerCommand("gitHelper.sandbox.start", () => sandbox.start()),
+        vscode.commands.registerCommand("gitHelper.sandbox.stop", () => sandbox.stop()),
+        vscode.commands.registerCommand("gitHelper.sandbox.reset", () => sandbox.reset()),
+        vscode.commands.registerCommand("gitHelper.sandbox.open", () => sandbox.openInNewWindow()),
+        vscode.commands.registerCommand("gitHelper.sandbox.addFile", () => sandbox.addPracticeFile()),
+        vscode.commands.registerCommand("gitHelper.sandbox.conflict", () => sandbox.practiceConflict())
+    );
+
+    // =========================================================
+    // 5. REGISTER THE UNDO COMMAND
+    // =========================================================
+    // Lists what can be undone right now (unstage, undo the last commit,
+    // fix its message, discard a file's changes...) plus the recovery
+    // points saved before earlier undos. The walkthrough panel's "Undo"
+    // section shows the same options.
+    context.subscriptions.push(
+        vscode.commands.registerCommand("gitHelper.undo", async () => {
+            const cwd = getTargetRepo();
+            if (!cwd) {
+                vscode.window.showErrorMessage("No folder is open in VS Code. Please open a folder first (File > Open Folder).");
+                return;
+            }
+            await showUndoMenu(cwd, outputChannel, recoveryStore);
+        })
+    );
+
+    // =========================================================
+    // 6. SHOW THE STATUS BAR ITEM
+    // =========================================================
+    // Always visible, even when the walkthrough panel is closed:
+    // the branch, commits to push/pull, staged and changed files,
+    // and the next lesson step. Clicking it lists what to do next.
+    const statusBar = new StatusBar(progressStore, lessonLibrary, sandbox, repositories);
+    context.subscriptions.push(
+        statusBar,
+        vscode.commands.registerCommand(NEXT_ACTIONS_COMMAND, () => statusBar.showNextActions())
+    );
+
+    // =========================================================
+    // 7. REGISTER THE BRANCH COMMANDS
+    // =========================================================
+    // Branch work without the terminal. Each picker lists local and
+    // remote branches with their newest commit (see branches.ts).
+    context.subscriptions.push(
+        vscode.commands.registerCommand("gitHelper.branch.create", () => createBranch(outputChannel)),
+        vscode.commands.registerCommand("gitHelper.branch.switch", () => switchBranch(outputChannel)),
+        vscode.commands.registerCommand("gitHelper.branch.rename", () => renameBranch(outputChannel)),
+        vscode.commands.registerCommand("gitHelper.branch.delete", () => deleteBranch(outputChannel)),
+        vscode.commands.registerCommand("gitHelper.branch.forceDelete", () => deleteBranch(outputChannel, true)),
+        vscode.commands.registerCommand("gitHelper.branch.publish", () => publishBranch(outputChannel))
+    );
+
+    // =========================================================
+    // 8. REGISTER THE REPOSITORY PICKER
+    // =========================================================
+    // Opening a file switches to its repository by itself; this lets
+    // you choose one by hand (the walkthrough panel's header has a
+    // button for it when there's more than one).
+    context.subscriptions.push(
+        vscode.commands.registerCommand("gitHelper.selectRepository", () => repositories.pickRepository())
+    );
+
+    // =========================================================
+    // 9. REGISTER THE COMMAND LOG COMMANDS
+    // =========================================================
+    // Every command the extension has run in this workspace, kept across
+    // reloads: searchable in a panel, exportable for a teacher or a bug
+    // report, and each one can be run again.
+    const commandLogView = new CommandLogView(commandLog, outputChannel, recoveryStore);
+    context.subscriptions.push(
+        commandLogView,
+        vscode.commands.registerCommand("gitHelper.showCommandLog", () => commandLogView.show()),
+        vscode.commands.registerCommand("gitHelper.exportCommandLog", () =>
+            exportCommandLog(commandLog.getEntries())
+        )
+    );
+
+    // =========================================================
+    // 10. REGISTER THE COMMAND EXPLAINER
+    // =========================================================
+    // Explains a command line word by word, from a built-in list (see
+    // commandExplainer.ts) — handy before running something copied from
+    // the web. A command selected in the editor is explained straight away.
+    const commandExplainerView = new CommandExplainerView();
+    context.subscriptions.push(
+        commandExplainerView,
+        vscode.commands.registerCommand("gitHelper.explainCommand", (line?: unknown) => {
+            const editor = vscode.window.activeTextEditor;
+            const selected =
+                editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : undefined;
+            commandExplainerView.show(typeof line === "string" ? line : selected);
         })
     );
 }
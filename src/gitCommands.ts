@@ -1,14 +1,25 @@
 /**
  * gitCommands.ts — Handles running Git commands and capturing output.
  *
- * This module provides a single function that:
- *   1. Runs a Git command in the current workspace folder
- *   2. Captures the output (stdout and stderr)
+ * This module provides a function that:
+ *   1. Runs a Git command in the target repository (normally the
+ *      workspace folder, or the practice sandbox — see sandbox.ts)
+ *   2. Captures the output (stdout and stderr) as it arrives
  *   3. Writes the output to VS Code's Output Channel
- *   4. Returns the result so the UI can show success/failure
+ *   4. Lets the user cancel it, and stops it if it takes too long
+ *   5. Returns the result so the UI can show success/failure
+ *   6. Tells the command log about it (see commandLog.ts)
+ *
+ * Git never gets a terminal to type into. When it needs a username,
+ * password or SSH passphrase, it asks through VS Code instead (see
+ * askpass.ts) — otherwise a push to a private repo would just hang.
+ *
+ * It also provides a quiet "query" variant for read-only questions the
+ * extension asks behind the scenes (like "does this repo have a remote?").
+ * Those don't belong in the Output Channel — the user didn't run them.
  *
  * SECURITY NOTE:
- *   We use `execFile` instead of `exec` here. The difference:
+ *   We use `spawn` and `execFile` instead of `exec` here. The difference:
  *   - exec("git commit -m " + userInput)  ← DANGEROUS! If userInput contains
  *     shell characters like ; or &&, they could run arbitrary commands.
  *   - execFile("git", ["commit", "-m", userInput])  ← SAFE! User input is
@@ -17,12 +28,20 @@
  */
 
 import * as vscode from "vscode";
-import { execFile } from "child_process";
+import * as path from "path";
+import { execFile, spawn } from "child_process";
 
 // =============================================================
 // Types
 // =============================================================
 
+/**
+ * Why a command was stopped before it finished:
+ *   - "cancelled" → the user clicked Cancel
+ *   - "timedOut"  → it ran longer than its timeout (see getTimeoutSeconds())
+ */
+export type StopReason = "cancelled" | "timedOut";
+
 /**
  * The result of running a Git command.
  */
@@ -31,6 +50,137 @@ export interface GitCommandResult {
     success: boolean;
     /** The command's output text (stdout + stderr combined) */
     output: string;
+    /** Set if the command was stopped early (success is then false) */
+    stopped?: StopReason;
+}
+
+// =============================================================
+// Workspace Helpers
+// =============================================================
+
+/**
+ * When set, Git commands run in this folder instead of the workspace.
+ * sandbox.ts sets it while "Practice in sandbox" mode is on, so a
+ * beginner's `git add .` can never touch their real project.
+ */
+let repoOverride: string | undefined;
+
+/**
+ * Makes Git commands run in a different folder (or pass undefined to go
+ * back to the workspace folder).
+ */
+export function setRepoOverride(folder: string | undefined): void {
+    repoOverride = folder;
+}
+
+/**
+ * The repository the user is working in, when the workspace has more than
+ * one (or the repo isn't the workspace folder itself). repositories.ts
+ * sets it from the active editor's file or the repository picker.
+ */
+let activeRepo: string | undefined;
+
+/**
+ * Makes Git commands run in a particular repository (or pass undefined to
+ * go back to the first workspace folder).
+ */
+export function setActiveRepo(folder: string | undefined): void {
+    activeRepo = folder;
+}
+
+/**
+ * Returns the first workspace folder — the one the user opened with
+ * File > Open Folder — or undefined if no folder is open.
+ *
+ * Workspace-wide files (like .githelper/lessons.json) live here. Git
+ * commands use getTargetRepo() instead.
+ */
+export function getWorkspaceRoot(): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+        return undefined;
+    }
+    return workspaceFolders[0].uri.fsPath;
+}
+
+/**
+ * Returns the folder Git commands should run in right now: the sandbox
+ * if sandbox mode is on, otherwise the chosen repository (or, before one
+ * is chosen, the workspace folder).
+ */
+export function getTargetRepo(): string | undefined {
+    return repoOverride ?? activeRepo ?? getWorkspaceRoot();
+}
+
+// =============================================================
+// Environment
+// =============================================================
+
+/**
+ * Extra environment variables that point Git at the askpass helper.
+ * askpass.ts sets them once its helper is ready to answer.
+ */
+let askpassEnv: Record<string, string> = {};
+
+/**
+ * Sets the variables that send Git's username/password questions to
+ * VS Code (or pass undefined to stop sending them).
+ */
+export function setAskpassEnvironment(env: Record<string, string> | undefined): void {
+    askpassEnv = env ?? {};
+}
+
+/**
+ * The environment Git runs with.
+ *
+ * GIT_TERMINAL_PROMPT=0 tells Git never to wait for someone to type into
+ * a terminal — there isn't one. Without it, a push that needs a password
+ * would sit there until the timeout. With it, Git asks the askpass helper
+ * instead, or fails straight away with "terminal prompts disabled".
+ *
+ * @param interactive - Include the askpass helper (false for quiet queries,
+ *                      which should never pop up a password box)
+ */
+function gitEnvironment(interactive: boolean): NodeJS.ProcessEnv {
+    return { ...process.env, GIT_TERMINAL_PROMPT: "0", ...(interactive ? askpassEnv : {}) };
+}
+
+// =============================================================
+// Recording Commands
+// =============================================================
+
+/**
+ * A finished runGitCommand(): what ran, where, for how long, and how it went.
+ */
+export interface CommandRun {
+    args: string[];
+
+    /** The folder it ran in */
+    cwd: string;
+
+    /** When it started (milliseconds since 1970, like Date.now()) */
+    startedAt: number;
+
+    durationMs: number;
+
+    /** Git's exit code (null if it was stopped, or couldn't be started) */
+    exitCode: number | null;
+
+    result: GitCommandResult;
+}
+
+/**
+ * Told about every command runGitCommand() finishes. commandLog.ts sets
+ * it, so the record survives a reload (the Output Channel doesn't).
+ */
+let commandListener: ((run: CommandRun) => void) | undefined;
+
+/**
+ * Sets the function told about every finished command (or pass undefined
+ * to stop telling it).
+ */
+export function setCommandListener(listener: ((run: CommandRun) => void) | undefined): void {
+    commandListener = listener;
 }
 
 // =============================================================
@@ -38,10 +188,73 @@ export interface GitCommandResult {
 // =============================================================
 
 /**
- * Runs a Git command in the current workspace folder.
+ * Extra options for runGitCommand().
+ */
+export interface RunOptions {
+    /** Called with each piece of output as it arrives (stdout and stderr) */
+    onOutput?: (text: string) => void;
+
+    /** Stops the command when cancelled (e.g. by a "Cancel" button) */
+    token?: vscode.CancellationToken;
+}
+
+/**
+ * Formats a command nicely for display, quoting arguments that contain
+ * spaces: ["commit", "-m", "First commit"] → git commit -m "First commit"
+ */
+export function formatGitCommand(args: string[]): string {
+    return "git " + args.map((a) => (a.includes(" ") ? `"${a}"` : a)).join(" ");
+}
+
+/**
+ * The Git subcommand in a list of arguments, skipping options that come
+ * before it: ["-c", "user.name=Sam", "commit", ...] → "commit"
+ */
+export function getSubcommand(args: string[]): string {
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "-c" || args[i] === "-C") {
+            i++; // (skip the option's value too)
+        } else if (!args[i].startsWith("-")) {
+            return args[i];
+        }
+    }
+    return "";
+}
+
+/** Slow commands get a progress notification after this long (milliseconds) */
+const PROGRESS_DELAY_MS = 1500;
+
+/**
+ * How long a command may run before we stop it (in seconds, 0 = no limit).
+ *
+ * Set per Git subcommand with the gitHelper.commandTimeouts setting, e.g.
+ * { "default": 120, "push": 300 }. Network commands get longer by default.
+ */
+function getTimeoutSeconds(args: string[]): number {
+    const timeouts = vscode.workspace
+        .getConfiguration("gitHelper")
+        .get<Record<string, number>>("commandTimeouts", {});
+    const subcommand = getSubcommand(args);
+    const seconds = Object.prototype.hasOwnProperty.call(timeouts, subcommand)
+        ? timeouts[subcommand]
+        : timeouts.default;
+    return typeof seconds === "number" && seconds > 0 ? seconds : 0;
+}
+
+/**
+ * Runs a Git command in the target repository (see getTargetRepo()).
+ *
+ * Output is streamed into the Output Channel line by line while the
+ * command runs, so a long push shows its progress instead of nothing.
+ * If the command is still running after a moment, a notification with
+ * a Cancel button appears. Commands that run longer than their timeout
+ * (see getTimeoutSeconds()) are stopped — for example, one that's stuck
+ * waiting for a password nobody can type.
  *
  * @param args - The arguments to pass to `git` (e.g., ["status"] runs `git status`)
  * @param outputChannel - VS Code OutputChannel to log results to
+ * @param cwd - Run in this folder instead of the target repository (optional)
+ * @param options - Streaming and cancellation options (optional)
  * @returns A promise that resolves with the command result
  *
  * Examples:
@@ -51,15 +264,16 @@ export interface GitCommandResult {
  */
 export function runGitCommand(
     args: string[],
-    outputChannel: vscode.OutputChannel
+    outputChannel: vscode.OutputChannel,
+    cwd: string | undefined = getTargetRepo(),
+    options: RunOptions = {}
 ): Promise<GitCommandResult> {
     return new Promise((resolve) => {
-        // --- Step 1: Get the workspace folder ---
-        // This is the folder the user has open in VS Code.
+        // --- Step 1: Check we have a folder to run in ---
+        // This is normally the folder the user has open in VS Code.
         // Git commands need to run inside the project folder to work correctly.
-        const workspaceFolders = vscode.workspace.workspaceFolders;
 
-        if (!workspaceFolders || workspaceFolders.length === 0) {
+        if (!cwd) {
             const errorMsg =
                 "No folder is open in VS Code. Please open a folder first " +
                 "(File > Open Folder).";
@@ -70,41 +284,154 @@ export function runGitCommand(
             return;
         }
 
-        const cwd = workspaceFolders[0].uri.fsPath;
-
         // --- Step 2: Log what we're about to run ---
-        // Format the command nicely for display (quote args that contain spaces)
-        const displayCmd =
-            "git " +
-            args
-                .map((a) => (a.includes(" ") ? `"${a}"` : a))
-                .join(" ");
+        const displayCmd = formatGitCommand(args);
+        // (and which repository — in a multi-root workspace it matters)
         outputChannel.appendLine(`> ${displayCmd}`);
-        outputChannel.appendLine(`  (in: ${cwd})`);
+        outputChannel.appendLine(`  (in: ${path.basename(cwd)} — ${cwd})`);
         outputChannel.appendLine("---");
+        outputChannel.show(); // Make the Output panel visible
+
+        // --- Step 3: Start the command ---
+        // spawn runs the "git" binary directly with the given arguments.
+        // Like execFile(), it does NOT pass through a shell, which makes it
+        // safe even if args contain special characters. Unlike execFile(),
+        // it hands us the output bit by bit while the command is running.
+        // stdin is closed ("ignore"), so nothing can sit waiting for typing.
+        const startedAt = Date.now();
+        const child = spawn("git", args, { cwd, env: gitEnvironment(true), stdio: ["ignore", "pipe", "pipe"] });
+        child.stdout.setEncoding("utf8"); // decodes characters split across chunks
+        child.stderr.setEncoding("utf8");
+        let output = "";
+        let stopped: StopReason | undefined;
+        let finished = false;
+        let reportProgress: ((message: string) => void) | undefined;
+
+        const onData = (text: string) => {
+            output += text;
+            outputChannel.append(text);
+            options.onOutput?.(text);
+
+            // Show the latest line in the progress notification.
+            // (Git redraws progress lines with \r, so split on that too.)
+            const lines = text.split(/[\r\n]+/).filter((line) => line.trim() !== "");
+            if (lines.length > 0) {
+                reportProgress?.(lines[lines.length - 1]);
+            }
+        };
+        child.stdout.on("data", onData);
+        child.stderr.on("data", onData);
+
+        // --- Step 4: Cancellation and timeouts ---
+        const stop = (reason: StopReason) => {
+            if (!finished && !stopped) {
+                stopped = reason;
+                child.kill();
+            }
+        };
+        const cancelListener = options.token?.onCancellationRequested(() => stop("cancelled"));
+        const timeoutSeconds = getTimeoutSeconds(args);
+        const timeoutTimer =
+            timeoutSeconds > 0 ? setTimeout(() => stop("timedOut"), timeoutSeconds * 1000) : undefined;
+
+        // --- Step 5: A progress notification, but only for slow commands ---
+        // (A notification flashing up for every `git status` would be noise.)
+        let markDone = () => {};
+        const done = new Promise<void>((r) => (markDone = r));
+        const progressTimer = setTimeout(() => {
+            vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running ${displayCmd}`, cancellable: true },
+                (progress, token) => {
+                    token.onCancellationRequested(() => stop("cancelled"));
+                    reportProgress = (message) => progress.report({ message });
+                    return done;
+                }
+            );
+        }, PROGRESS_DELAY_MS);
+
+        // --- Step 6: Report the result ---
+        const finish = (exitCode: number | null, error?: Error) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            clearTimeout(progressTimer);
+            clearTimeout(timeoutTimer);
+            cancelListener?.dispose();
+            markDone();
 
-        // --- Step 3: Execute the command ---
-        // execFile runs the "git" binary directly with the given arguments.
-        // Unlike exec(), it does NOT pass through a shell, which makes it
-        // safe even if args contain special characters.
-        execFile("git", args, { cwd }, (error, stdout, stderr) => {
-            // Combine stdout and stderr so the user sees everything
-            const output = (stdout + stderr).trim();
-
-            if (error) {
-                // Command failed (non-zero exit code)
-                outputChannel.appendLine(`ERROR:\n${output || error.message}`);
-                outputChannel.show(); // Make the Output panel visible
-                resolve({ success: false, output: output || error.message });
+            const text = output.trim() || error?.message || "";
+            if (output && !output.endsWith("\n")) {
+                outputChannel.appendLine("");
+            }
+
+            let result: GitCommandResult;
+            if (stopped === "cancelled") {
+                outputChannel.appendLine("CANCELLED: the command was stopped.");
+                result = { success: false, output: text || "Cancelled.", stopped };
+            } else if (stopped === "timedOut") {
+                const note =
+                    `TIMED OUT: no result after ${timeoutSeconds} seconds, so the command was stopped. ` +
+                    "(Change the limit with the gitHelper.commandTimeouts setting.)";
+                outputChannel.appendLine(note);
+                result = { success: false, output: text ? `${text}\n\n${note}` : note, stopped };
+            } else if (error || exitCode !== 0) {
+                // Command failed (non-zero exit code, or git couldn't be started at all)
+                outputChannel.appendLine(error ? `ERROR: ${error.message}` : `ERROR: git exited with code ${exitCode}.`);
+                result = { success: false, output: text || `git exited with code ${exitCode}` };
             } else {
                 // Command succeeded
-                outputChannel.appendLine(output || "(no output)");
-                outputChannel.show();
-                resolve({ success: true, output: output || "(no output)" });
+                if (!text) {
+                    outputChannel.appendLine("(no output)");
+                }
+                result = { success: true, output: text || "(no output)" };
             }
 
+            // Keep a record that outlives the Output Channel (see commandLog.ts)
+            commandListener?.({ args, cwd, startedAt, durationMs: Date.now() - startedAt, exitCode, result });
+            resolve(result);
+
             // Blank line for readability between commands
             outputChannel.appendLine("");
+        };
+
+        // "error" means git couldn't be started (e.g. it isn't installed)
+        child.on("error", (error) => finish(null, error));
+        child.on("close", (code) => finish(code));
+    });
+}
+
+// =============================================================
+// Quiet Queries
+// =============================================================
+
+/**
+ * Runs a read-only Git command WITHOUT logging it to the Output Channel.
+ *
+ * Use this for questions the extension asks on its own, like
+ * `git rev-parse --verify HEAD` ("is there at least one commit?").
+ * The exit code is usually the answer, so failures are expected and
+ * are never shown to the user.
+ *
+ * @param args - The arguments to pass to `git`
+ * @param cwd - The folder to run the query in
+ * @param options.raw - Return stdout exactly as Git printed it, without
+ *                      trimming whitespace (needed for file contents)
+ * @returns A promise that resolves with the command result (never rejects)
+ */
+export function queryGit(
+    args: string[],
+    cwd: string,
+    options: { raw?: boolean } = {}
+): Promise<GitCommandResult> {
+    return new Promise((resolve) => {
+        // File contents can be large, so allow more than the default 1 MB
+        const execOptions = { cwd, env: gitEnvironment(false), maxBuffer: 20 * 1024 * 1024 };
+        execFile("git", args, execOptions, (error, stdout, stderr) => {
+            resolve({
+                success: !error,
+                output: error ? (stdout + stderr).trim() : options.raw ? stdout : stdout.trim(),
+            });
         });
     });
 }
@@ -0,0 +1,239 @@
+/**
+ * gitConfig.ts — Guided setup for Git's name, email and a few defaults.
+ *
+ * WHY?
+ *   Every commit records who made it, so Git refuses to commit until it
+ *   knows your name and email ("Author identity unknown"). On a fresh
+ *   install neither is set — which makes the very first commit fail.
+ *
+ * WHERE DOES GIT KEEP SETTINGS?
+ *   Git settings live at two levels (called "scopes"):
+ *     - global → ~/.gitconfig, used by every repository on this computer
+ *     - local  → .git/config, used only by this repository, and wins
+ *                over the global value (handy for a work email)
+ *
+ * This module reads the current values from both scopes, asks for a name
+ * and email (checking they look right), lets the user pick the scope, and
+ * then offers a few beginner-friendly defaults. Every change is made with
+ * a real `git config` command, logged in the Output Channel like any other.
+ */
+
+import * as vscode from "vscode";
+import * as os from "os";
+import { queryGit, runGitCommand, GitCommandResult } from "./gitCommands";
+
+// =============================================================
+// Reading Settings
+// =============================================================
+
+/** A setting's value in each scope (undefined if it isn't set there) */
+export interface ConfigValue {
+    global?: string;
+    local?: string;
+}
+
+/**
+ * Reads one setting from the global and local scopes.
+ *
+ * @param key - e.g. "user.name"
+ * @param cwd - The repository (for the local scope), or undefined if there isn't one
+ */
+export async function readConfig(key: string, cwd: string | undefined): Promise<ConfigValue> {
+    const read = async (scope: "--global" | "--local") => {
+        const result = await queryGit(["config", scope, "--get", key], cwd ?? os.homedir());
+        return result.success && result.output ? result.output : undefined;
+    };
+    // --local only makes sense inside a repository
+    return { global: await read("--global"), local: cwd ? await read("--local") : undefined };
+}
+
+/** Formats a name and email like a commit author: "Ada <ada@example.com>" */
+function formatIdentity(name: string | undefined, email: string | undefined): string {
+    if (!name && !email) {
+        return "not set";
+    }
+    return `${name ?? "(no name)"} <${email ?? "no email"}>`;
+}
+
+// =============================================================
+// Name & Email
+// =============================================================
+
+/** Loose check — we only want to catch typos like a missing @ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** A scope choice in the picker */
+interface ScopeItem extends vscode.QuickPickItem {
+    flag: "--global" | "--local";
+}
+
+/**
+ * Asks for a name and email and saves them with `git config`.
+ *
+ * @param cwd - The repository (undefined if no folder is open — then only
+ *              the global scope is offered)
+ * @param outputChannel - Where the `git config` commands are logged
+ * @returns The combined command result, or undefined if the user cancelled
+ */
+export async function configureIdentity(
+    cwd: string | undefined,
+    outputChannel: vscode.OutputChannel
+): Promise<GitCommandResult | undefined> {
+    const isRepo = cwd ? (await queryGit(["rev-parse", "--git-dir"], cwd)).success : false;
+    const repo = isRepo ? cwd : undefined;
+    const name = await readConfig("user.name", repo);
+    const email = await readConfig("user.email", repo);
+
+    // --- Step 1: Which scope? ---
+    const scopes: ScopeItem[] = [
+        {
+            label: "$(globe) Everywhere on this computer",
+            description: "--global",
+            detail: `Currently: ${formatIdentity(name.global, email.global)}`,
+            flag: "--global",
+        },
+    ];
+    if (repo) {
+        scopes.push({
+            label: "$(repo) Only this repository",
+            description: "--local",
+            detail: `Currently: ${formatIdentity(name.local, email.local)} — overrides the global setting here`,
+            flag: "--local",
+        });
+    }
+    const scope = await vscode.window.showQuickPick(scopes, {
+        title: "Set Up Your Name and Email (1/3)",
+        placeHolder: "Where should Git use this name and email?",
+    });
+    if (!scope) {
+        return undefined;
+    }
+    const current = (value: ConfigValue) =>
+        scope.flag === "--local" ? value.local ?? value.global : value.global;
+
+    // --- Step 2: Name ---
+    const newName = await vscode.window.showInputBox({
+        title: "Set Up Your Name and Email (2/3)",
+        prompt: "Your name, as it should appear on your commits",
+        placeHolder: "e.g., Ada Lovelace",
+        value: current(name),
+        validateInput: (value) => {
+            if (value.trim() === "") {
+                return "Please enter a name.";
+            }
+            if (EMAIL_PATTERN.test(value.trim())) {
+                return "That looks like an email address — your email comes next. Enter your name here.";
+            }
+            return undefined;
+        },
+    });
+    if (newName === undefined) {
+        return undefined;
+    }
+
+    // --- Step 3: Email ---
+    const newEmail = await vscode.window.showInputBox({
+        title: "Set Up Your Name and Email (3/3)",
+        prompt: "Your email — use the one from your GitHub account so commits link to your profile",
+        placeHolder: "e.g., ada@example.com",
+        value: current(email),
+        validateInput: (value) =>
+            EMAIL_PATTERN.test(value.trim()) ? undefined : "That doesn't look like an email address (name@example.com).",
+    });
+    if (newEmail === undefined) {
+        return undefined;
+    }
+
+    // --- Save them ---
+    // Global settings don't belong to any repository, so they can be set
+    // even when no folder is open.
+    const where = repo ?? os.homedir();
+    const nameResult = await runGitCommand(["config", scope.flag, "user.name", newName.trim()], outputChannel, where);
+    if (!nameResult.success) {
+        return nameResult;
+    }
+    const emailResult = await runGitCommand(["config", scope.flag, "user.email", newEmail.trim()], outputChannel, where);
+    return {
+        success: emailResult.success,
+        output: emailResult.success
+            ? `Commits ${scope.flag === "--global" ? "on this computer" : "in this repository"} ` +
+              `will be signed as ${formatIdentity(newName.trim(), newEmail.trim())}.`
+            : emailResult.output,
+    };
+}
+
+// =============================================================
+// Recommended Defaults
+// =============================================================
+
+/**
+ * Settings that make Git friendlier for beginners, with the reason for each.
+ * The walkthrough's "Set Up Git" lesson (steps.ts) explains them in more depth.
+ */
+const RECOMMENDED_SETTINGS = [
+    {
+        key: "init.defaultBranch",
+        value: "main",
+        why: "New repositories start on a branch called 'main' (what GitHub uses) instead of 'master'.",
+    },
+    {
+        key: "pull.rebase",
+        value: "false",
+        why: "'git pull' merges the remote's changes into yours, instead of stopping to ask how.",
+    },
+    {
+        key: "core.editor",
+        value: "code --wait",
+        why: "When Git needs you to write a message, it opens VS Code instead of a terminal editor like Vim.",
+    },
+];
+
+/** A recommended setting in the picker */
+interface SettingItem extends vscode.QuickPickItem {
+    key: string;
+    value: string;
+}
+
+/**
+ * Offers the recommended global settings that aren't set yet (or are set
+ * to something else), and saves the ones the user picks.
+ *
+ * @param outputChannel - Where the `git config` commands are logged
+ */
+export async function offerRecommendedDefaults(outputChannel: vscode.OutputChannel): Promise<void> {
+    const items: SettingItem[] = [];
+    for (const setting of RECOMMENDED_SETTINGS) {
+        const { global } = await readConfig(setting.key, undefined);
+        if (global === setting.value) {
+            continue;
+        }
+        items.push({
+            label: `${setting.key} = ${setting.value}`,
+            description: global === undefined ? "not set yet" : `currently "${global}"`,
+            detail: setting.why,
+            // Don't pre-tick anything that would replace the user's own choice
+            picked: global === undefined,
+            key: setting.key,
+            value: setting.value,
+        });
+    }
+    if (items.length === 0) {
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: "Recommended Git Settings",
+        placeHolder: "Tick the settings to apply to every repository on this computer (Esc to skip)",
+    });
+    for (const item of picked ?? []) {
+        const result = await runGitCommand(["config", "--global", item.key, item.value], outputChannel, os.homedir());
+        if (!result.success) {
+            vscode.window.showErrorMessage(`Couldn't set ${item.key}. See the Output panel for details.`);
+            return;
+        }
+    }
+    if (picked && picked.length > 0) {
+        vscode.window.showInformationMessage(`Saved ${picked.length} setting(s) to your global Git config.`);
+    }
+}
@@ -0,0 +1,302 @@
+/**
+ * gitStatus.ts — Reads `git status` into a typed model.
+ *
+ * WHY NOT JUST SHOW THE TEXT?
+ *   `git status` prints a friendly report for humans, but its wording
+ *   changes between Git versions and languages, so code can't rely on it.
+ *   Git also has a "porcelain" format meant for programs:
+ *
+ *     git status --porcelain=v2 --branch -z
+ *
+ *   Every line has a fixed shape, for example:
+ *
+ *     # branch.head main                  ← the current branch
+ *     # branch.upstream origin/main       ← the branch it pushes to / pulls from
+ *     # branch.ab +2 -0                   ← 2 commits ahead, 0 behind
+ *     1 M. N... 100644 100644 100644 <hash> <hash> index.html
+ *       ^^ X = staged change, Y = unstaged change ("." means none)
+ *     ? notes.txt                         ← untracked file
+ *
+ *   (-z separates entries with a NUL character instead of a newline, so
+ *   file names with spaces or unusual characters come through untouched.)
+ *
+ * We turn that into a RepoStatus object. The walkthrough panel uses it
+ * for its live file list, and commands use it for short summaries like
+ * "On main: 1 staged, 2 changed".
+ */
+
+import { queryGit } from "./gitCommands";
+
+// =============================================================
+// Types
+// =============================================================
+
+/** What happened to a file */
+export type ChangeKind =
+    | "modified"
+    | "typeChanged"
+    | "added"
+    | "deleted"
+    | "renamed"
+    | "copied"
+    | "untracked"
+    | "conflicted";
+
+/**
+ * One file in one of the status groups.
+ */
+export interface StatusFile {
+    /** Path relative to the repository root, always with forward slashes */
+    path: string;
+
+    kind: ChangeKind;
+
+    /** For renamed or copied files: where the file came from */
+    origPath?: string;
+
+    /** For conflicted files: what each side did, e.g. "both modified" */
+    conflict?: string;
+}
+
+/**
+ * A snapshot of the repository, parsed from `git status`.
+ */
+export interface RepoStatus {
+    /** The current branch, or undefined if HEAD is detached */
+    branch?: string;
+
+    /** The commit HEAD points to, or undefined before the first commit */
+    commit?: string;
+
+    /** The upstream branch, e.g. "origin/main" (set by `git push -u`) */
+    upstream?: string;
+
+    /** Commits on this branch that the upstream doesn't have yet */
+    ahead: number;
+
+    /** Commits on the upstream that this branch doesn't have yet */
+    behind: number;
+
+    /** Changes in the staging area — these go into the next commit */
+    staged: StatusFile[];
+
+    /** Changes in tracked files that aren't staged yet */
+    unstaged: StatusFile[];
+
+    /** New files Git isn't tracking yet */
+    untracked: StatusFile[];
+
+    /** Files with merge conflicts to resolve */
+    conflicted: StatusFile[];
+}
+
+// =============================================================
+// Parsing
+// =============================================================
+
+/** The letters Git uses in the XY column, and what they mean */
+export const CHANGE_CODES: Record<string, ChangeKind> = {
+    M: "modified",
+    T: "typeChanged",
+    A: "added",
+    D: "deleted",
+    R: "renamed",
+    C: "copied",
+};
+
+/** What each conflict code means ("us" is your branch, "them" the one being merged) */
+const CONFLICT_CODES: Record<string, string> = {
+    DD: "both deleted",
+    AU: "added by us",
+    UD: "deleted by them",
+    UA: "added by them",
+    DU: "deleted by us",
+    AA: "both added",
+    UU: "both modified",
+};
+
+/**
+ * Parses the output of `git status --porcelain=v2 --branch -z`.
+ *
+ * @param output - The raw output (NUL-separated entries)
+ */
+export function parseStatus(output: string): RepoStatus {
+    const status: RepoStatus = {
+        ahead: 0,
+        behind: 0,
+        staged: [],
+        unstaged: [],
+        untracked: [],
+        conflicted: [],
+    };
+
+    const entries = output.split("\0");
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+
+        // --- Branch headers: "# branch.<name> <value>" ---
+        if (entry.startsWith("# ")) {
+            const [key, ...rest] = entry.slice(2).split(" ");
+            const value = rest.join(" ");
+            if (key === "branch.oid" && value !== "(initial)") {
+                status.commit = value;
+            } else if (key === "branch.head" && value !== "(detached)") {
+                status.branch = value;
+            } else if (key === "branch.upstream") {
+                status.upstream = value;
+            } else if (key === "branch.ab") {
+                const match = /^\+(\d+) -(\d+)$/.exec(value);
+                if (match) {
+                    status.ahead = Number(match[1]);
+                    status.behind = Number(match[2]);
+                }
+            }
+            continue;
+        }
+
+        const type = entry[0];
+        const fields = entry.split(" ");
+
+        if (type === "1" || type === "2") {
+            // 1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <path>
+            // 2 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <score> <path>, then <origPath> as the next entry
+            const fieldCount = type === "1" ? 8 : 9;
+            const path = fields.slice(fieldCount).join(" ");
+            const origPath = type === "2" ? entries[++i] : undefined;
+            const [x, y] = fields[1];
+
+            if (CHANGE_CODES[x]) {
+                status.staged.push({ path, kind: CHANGE_CODES[x], origPath });
+            }
+            if (CHANGE_CODES[y]) {
+                // A rename is only ever staged — in the working tree it's just a modified file
+                status.unstaged.push({ path, kind: CHANGE_CODES[y] });
+            }
+        } else if (type === "u") {
+            // u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+            status.conflicted.push({
+                path: fields.slice(10).join(" "),
+                kind: "conflicted",
+                conflict: CONFLICT_CODES[fields[1]] ?? "conflict",
+            });
+        } else if (type === "?") {
+            status.untracked.push({ path: entry.slice(2), kind: "untracked" });
+        }
+    }
+
+    return status;
+}
+
+// =============================================================
+// Reading the Status
+// =============================================================
+
+/**
+ * Asks Git for the status of the repository in `cwd`.
+ *
+ * `--no-optional-locks` stops `git status` from quietly refreshing the
+ * index file. Without it, the panel's file watcher would see the index
+ * change after every refresh and refresh again, forever.
+ *
+ * @param allUntracked - List every file inside a new folder, instead of
+ *                       just the folder (`--untracked-files=all`)
+ * @returns The status, or undefined if `cwd` isn't a Git repository
+ */
+export async function getRepoStatus(cwd: string, allUntracked = false): Promise<RepoStatus | undefined> {
+    const result = await queryGit(
+        [
+            "--no-optional-locks",
+            "status",
+            "--porcelain=v2",
+            "--branch",
+            "-z",
+            ...(allUntracked ? ["--untracked-files=all"] : []),
+        ],
+        cwd
+    );
+    return result.success ? parseStatus(result.output) : undefined;
+}
+
+/**
+ * Returns the remote the branch's upstream is on, e.g. "origin" for
+ * "origin/main".
+ *
+ * Why not just take the part before the "/"? Remote names can contain
+ * slashes too ("team/main" could be branch "main" on remote "team", or a
+ * branch on remote "team/main"), so we ask Git which remote it set up.
+ *
+ * @returns The remote's name, or undefined if the branch has no upstream
+ */
+export async function getUpstreamRemote(cwd: string, status: RepoStatus): Promise<string | undefined> {
+    if (!status.branch || !status.upstream) {
+        return undefined;
+    }
+    const result = await queryGit(["config", "--get", `branch.${status.branch}.remote`], cwd);
+    return result.success && result.output ? result.output : undefined;
+}
+
+// =============================================================
+// Describing the Status
+// =============================================================
+
+/** Returns every changed file once, whichever group(s) it's in */
+export function getChangedPaths(status: RepoStatus): string[] {
+    const all = [...status.conflicted, ...status.staged, ...status.unstaged, ...status.untracked];
+    return [...new Set(all.map((file) => file.path))];
+}
+
+/** True if there's nothing to commit and nothing to resolve */
+export function isClean(status: RepoStatus): boolean {
+    return getChangedPaths(status).length === 0;
+}
+
+/**
+ * Describes one file's change in a few words, e.g. "renamed from old.txt"
+ * or "both modified".
+ */
+export function describeChange(file: StatusFile): string {
+    switch (file.kind) {
+        case "typeChanged":
+            return "type changed";
+        case "renamed":
+        case "copied":
+            return `${file.kind} from ${file.origPath}`;
+        case "conflicted":
+            return file.conflict ?? "conflict";
+        default:
+            return file.kind;
+    }
+}
+
+/**
+ * Sums up the status in one sentence, e.g.
+ * "On main: 1 staged, 2 changed, 1 untracked. 2 commits ahead of origin/main."
+ */
+export function summarizeStatus(status: RepoStatus): string {
+    const where = status.branch ? `On ${status.branch}` : "HEAD is detached (not on a branch)";
+
+    const counts = [
+        [status.conflicted.length, "conflicted"],
+        [status.staged.length, "staged"],
+        [status.unstaged.length, "changed"],
+        [status.untracked.length, "untracked"],
+    ] as const;
+    const files = counts.filter(([n]) => n > 0).map(([n, label]) => `${n} ${label}`);
+    const changes = files.length > 0 ? files.join(", ") : "nothing to commit";
+
+    let sync = "";
+    if (status.upstream) {
+        const plural = (n: number) => `${n} commit${n === 1 ? "" : "s"}`;
+        if (status.ahead > 0 && status.behind > 0) {
+            sync = ` ${plural(status.ahead)} ahead of and ${plural(status.behind)} behind ${status.upstream}.`;
+        } else if (status.ahead > 0) {
+            sync = ` ${plural(status.ahead)} ahead of ${status.upstream}.`;
+        } else if (status.behind > 0) {
+            sync = ` ${plural(status.behind)} behind ${status.upstream}.`;
+        } else {
+            sync = ` Up to date with ${status.upstream}.`;
+        }
+    }
+
+    return `${where}: ${changes}.${sync}`;
+}
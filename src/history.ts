@@ -0,0 +1,360 @@
+/**
+ * history.ts — Reads the commit history and lays it out as a branch graph.
+ *
+ * WHAT IS A COMMIT, REALLY?
+ *   A commit is a snapshot of your files plus a few facts about it: who
+ *   made it, when, a message, and its "parents" — the commit(s) it was
+ *   built on. Following the parents backwards gives you the history.
+ *   Most commits have one parent; a merge commit has two (one from each
+ *   branch it joined), and the very first commit has none.
+ *
+ * WHERE DOES THE DATA COME FROM?
+ *   `git log` can print exactly the fields we ask for. We separate them
+ *   with NUL characters (%x00) so messages with odd characters can't
+ *   confuse the parser:
+ *
+ *     %H   the commit's hash           %P   its parents' hashes
+ *     %an  the author's name           %ae  the author's email
+ *     %aI  when it was made (ISO date) %D   the refs pointing at it
+ *     %s   the first line of the message
+ *
+ * THE GRAPH:
+ *   The panel draws each branch as a vertical line ("lane") of dots, like
+ *   `git log --graph`. layoutGraph() works out which lane each commit
+ *   goes in and which lines join it to its parents; the webview just
+ *   draws them.
+ */
+
+import { queryGit } from "./gitCommands";
+import { CHANGE_CODES, StatusFile } from "./gitStatus";
+
+/** How many commits the History section shows */
+export const HISTORY_LIMIT = 100;
+
+// =============================================================
+// Types
+// =============================================================
+
+/** What a ref (a name pointing at a commit) is */
+export type RefKind = "head" | "branch" | "remote" | "tag";
+
+/**
+ * A name pointing at a commit, e.g. the branch "main" or "origin/main".
+ */
+export interface CommitRef {
+    /** The short name, e.g. "main", "origin/main" or "v1.0" */
+    name: string;
+
+    kind: RefKind;
+
+    /** For kind "head": true if HEAD points at this branch (`HEAD -> main`) */
+    current?: boolean;
+}
+
+/**
+ * One commit, parsed from `git log`.
+ */
+export interface HistoryCommit {
+    hash: string;
+
+    /** The first 7 characters — enough to tell commits apart in a small repo */
+    shortHash: string;
+
+    /** The commits this one was built on (two or more for a merge) */
+    parents: string[];
+
+    author: string;
+
+    email: string;
+
+    /** When the commit was made, as an ISO 8601 date */
+    date: string;
+
+    /** The first line of the commit message */
+    subject: string;
+
+    /** Branches, remote branches and tags pointing at this commit */
+    refs: CommitRef[];
+}
+
+/**
+ * A line in one row of the graph. Positions are in lanes (0 is the
+ * leftmost) and rows (0 is the top of the row, 1 the bottom, 0.5 the
+ * middle where the commit's dot is).
+ */
+export interface GraphLine {
+    fromLane: number;
+    fromY: number;
+    toLane: number;
+    toY: number;
+    /** Which lane's color to draw it in */
+    color: number;
+}
+
+/**
+ * How to draw one commit's row of the graph.
+ */
+export interface GraphRow {
+    /** The lane the commit's dot sits in */
+    lane: number;
+
+    lines: GraphLine[];
+
+    /** How many lanes this row uses (so the webview knows how wide to draw it) */
+    width: number;
+}
+
+/**
+ * Everything about one commit that the History section shows when it's
+ * clicked.
+ */
+export interface CommitDetails {
+    hash: string;
+
+    /** The whole commit message, not just the first line */
+    message: string;
+
+    /** The files it changed, compared with its first parent */
+    files: StatusFile[];
+}
+
+// =============================================================
+// Reading the Log
+// =============================================================
+
+/** The fields we ask `git log` for (see the top of this file) */
+const LOG_FORMAT = ["%H", "%P", "%an", "%ae", "%aI", "%D", "%s"].join("%x00");
+
+/**
+ * Parses one decoration from %D (with --decorate=full), e.g.
+ * "HEAD -> refs/heads/main", "refs/remotes/origin/main" or "tag: refs/tags/v1.0".
+ */
+function parseRefs(decorations: string): CommitRef[] {
+    const refs: CommitRef[] = [];
+    for (const decoration of decorations.split(", ").filter(Boolean)) {
+        if (decoration === "HEAD") {
+            // Detached HEAD: not on any branch
+            refs.push({ name: "HEAD", kind: "head" });
+        } else if (decoration.startsWith("HEAD -> ")) {
+            refs.push({ name: decoration.slice(8).replace(/^refs\/heads\//, ""), kind: "head", current: true });
+        } else if (decoration.startsWith("tag: ")) {
+            refs.push({ name: decoration.slice(5).replace(/^refs\/tags\//, ""), kind: "tag" });
+        } else if (decoration.startsWith("refs/heads/")) {
+            refs.push({ name: decoration.slice(11), kind: "branch" });
+        } else if (decoration.startsWith("refs/remotes/") && !decoration.endsWith("/HEAD")) {
+            // (origin/HEAD just says which branch is the remote's default — skip it)
+            refs.push({ name: decoration.slice(13), kind: "remote" });
+        }
+    }
+    return refs;
+}
+
+/**
+ * Parses the output of `git log -z --format=<LOG_FORMAT>`.
+ *
+ * @param output - The raw output (commits separated by NUL, like their fields)
+ */
+export function parseLog(output: string): HistoryCommit[] {
+    const fields = output.split("\0");
+    const commits: HistoryCommit[] = [];
+    for (let i = 0; i + 6 < fields.length; i += 7) {
+        const [hash, parents, author, email, date, decorations, subject] = fields.slice(i, i + 7);
+        commits.push({
+            hash: hash.trim(),
+            shortHash: hash.trim().slice(0, 7),
+            parents: parents.split(" ").filter(Boolean),
+            author,
+            email,
+            date,
+            subject,
+            refs: parseRefs(decorations),
+        });
+    }
+    return commits;
+}
+
+/**
+ * Reads the latest commits on every local branch, remote branch and tag
+ * (but not stashes), newest first, with each commit after its children.
+ *
+ * @returns The commits, or an empty list if there are none yet
+ */
+export async function getHistory(cwd: string, limit = HISTORY_LIMIT): Promise<HistoryCommit[]> {
+    const result = await queryGit(
+        [
+            "log",
+            "--branches",
+            "--remotes",
+            "--tags",
+            "HEAD",
+            "--topo-order",
+            "--decorate=full",
+            `--max-count=${limit}`,
+            "-z",
+            `--format=${LOG_FORMAT}`,
+            "--",
+        ],
+        cwd,
+        { raw: true }
+    );
+    return result.success ? parseLog(result.output) : [];
+}
+
+/**
+ * Reads a commit's full message and the files it changed.
+ *
+ * A merge commit is compared with its FIRST parent — the branch that was
+ * merged into — so you see everything the merge brought in.
+ *
+ * @returns The details, or undefined if the commit can't be read
+ */
+export async function getCommitDetails(cwd: string, commit: HistoryCommit): Promise<CommitDetails | undefined> {
+    const message = await queryGit(["show", "--no-patch", "--format=%B", commit.hash], cwd);
+    if (!message.success) {
+        return undefined;
+    }
+
+    // The very first commit has no parent: --root compares it with nothing
+    const range = commit.parents.length > 0 ? [commit.parents[0], commit.hash] : ["--root", commit.hash];
+    const diff = await queryGit(["diff-tree", "--no-commit-id", "-r", "-M", "--name-status", "-z", ...range], cwd, { raw: true });
+
+    // Entries are "M\0path\0", or "R100\0old path\0new path\0" for renames and copies
+    const files: StatusFile[] = [];
+    const entries = diff.output.split("\0");
+    for (let i = 0; i + 1 < entries.length; i += 2) {
+        const kind = CHANGE_CODES[entries[i][0]] ?? "modified";
+        if (kind === "renamed" || kind === "copied") {
+            files.push({ kind, origPath: entries[i + 1], path: entries[i + 2] });
+            i++;
+        } else {
+            files.push({ kind, path: entries[i + 1] });
+        }
+    }
+    return { hash: commit.hash, message: message.output, files };
+}
+
+// =============================================================
+// Laying Out the Graph
+// =============================================================
+
+/**
+ * Works out where to draw each commit and the lines between them.
+ *
+ * We walk down the list keeping track of "lanes": each lane is waiting
+ * for one particular commit (the parent of the commit above it). When
+ * that commit's row comes, its dot goes in that lane. Then the lane
+ * waits for the commit's first parent, and any other parents (of a
+ * merge) get a lane of their own — that's where a branch splits off
+ * the graph. When several lanes wait for the same commit, they all
+ * join it — that's where a branch started.
+ *
+ * @param commits - Children before parents (as `git log --topo-order` prints them)
+ */
+export function layoutGraph(commits: HistoryCommit[]): GraphRow[] {
+    // lanes[i] is the hash lane i is waiting for (undefined = free)
+    const lanes: (string | undefined)[] = [];
+    const rows: GraphRow[] = [];
+
+    for (const commit of commits) {
+        // Which lane is this commit in? (A branch tip nobody's waiting for gets a free one.)
+        let lane = lanes.indexOf(commit.hash);
+        const isTip = lane === -1;
+        if (isTip) {
+            lane = lanes.indexOf(undefined);
+            lane = lane === -1 ? lanes.length : lane;
+            lanes[lane] = commit.hash;
+        }
+
+        const lines: GraphLine[] = [];
+
+        // Top half: lines coming down into this row
+        lanes.forEach((waitingFor, i) => {
+            if (waitingFor === commit.hash) {
+                // This lane joins the commit (from straight above, or from the side)
+                if (!isTip) {
+                    lines.push({ fromLane: i, fromY: 0, toLane: lane, toY: 0.5, color: i });
+                }
+            } else if (waitingFor !== undefined) {
+                // Another branch passing by
+                lines.push({ fromLane: i, fromY: 0, toLane: i, toY: 1, color: i });
+            }
+        });
+
+        // Whoever was waiting for this commit has found it
+        for (let i = 0; i < lanes.length; i++) {
+            if (lanes[i] === commit.hash) {
+                lanes[i] = undefined;
+            }
+        }
+
+        // Bottom half: lines going down to the parents
+        commit.parents.forEach((parent, n) => {
+            // The first parent always continues this lane (if another lane is
+            // waiting for it too, the two join up at the parent's row).
+            // Other parents join a lane that's waiting for them, or start a new one.
+            let parentLane = n === 0 ? lane : lanes.indexOf(parent);
+            if (parentLane === -1) {
+                parentLane = lanes.indexOf(undefined);
+                parentLane = parentLane === -1 ? lanes.length : parentLane;
+            }
+            lanes[parentLane] = parent;
+            lines.push({
+                fromLane: lane,
+                fromY: 0.5,
+                toLane: parentLane,
+                toY: 1,
+                color: n === 0 ? lane : parentLane,
+            });
+        });
+
+        // Free lanes on the right don't need drawing
+        while (lanes.length > 0 && lanes[lanes.length - 1] === undefined) {
+            lanes.pop();
+        }
+
+        const used = lines.flatMap((line) => [line.fromLane, line.toLane]);
+        rows.push({ lane, lines, width: Math.max(lane, ...used) + 1 });
+    }
+
+    return rows;
+}
+
+// =============================================================
+// Explaining the Refs
+// =============================================================
+
+/**
+ * Explains, in a sentence or two, where HEAD is and what the remote
+ * branches in the history mean — e.g. "HEAD → main: you're on the branch
+ * main, at a1b2c3d. Your next commit will go on top of it."
+ *
+ * @returns One explanation per line, or none if there are no commits yet
+ */
+export function explainRefs(commits: HistoryCommit[]): string[] {
+    const lines: string[] = [];
+
+    const headCommit = commits.find((commit) => commit.refs.some((ref) => ref.kind === "head"));
+    const head = headCommit?.refs.find((ref) => ref.kind === "head");
+    if (headCommit && head?.current) {
+        lines.push(
+            `HEAD → ${head.name}: you're on the branch "${head.name}", at ${headCommit.shortHash}. ` +
+                `HEAD means "where you are now" — your next commit will go on top of it, and "${head.name}" will move along with it.`
+        );
+    } else if (headCommit) {
+        lines.push(
+            `HEAD is "detached" at ${headCommit.shortHash}: you're looking at an old commit, not on a branch. ` +
+                "Commits made here aren't on any branch — switch back to a branch (e.g. git switch main) before you keep working."
+        );
+    }
+
+    const remote = commits.flatMap((commit) => commit.refs).find((ref) => ref.kind === "remote");
+    if (remote) {
+        const [remoteName, ...branch] = remote.name.split("/");
+        lines.push(
+            `${remote.name}: where the branch "${branch.join("/")}" was on the remote "${remoteName}" (e.g. GitHub) ` +
+                "the last time Git talked to it. It doesn't move by itself — it updates when you fetch, pull or push."
+        );
+    }
+
+    return lines;
+}
@@ -0,0 +1,460 @@
+/**
+ * historyView.ts — The walkthrough panel's "History" section: the commits
+ * as a branch graph (see history.ts for the layout), with badges for
+ * HEAD, branches and tags. Click a commit to see the files it changed,
+ * and a file to see its diff.
+ *
+ * WHY SVG?
+ *   Each row of the graph is a small SVG drawn by the webview: straight
+ *   lines where a branch carries on, curves where it forks or merges.
+ *   The rows are all the same height, so the lines meet up.
+ */
+
+import { getTargetRepo } from "./gitCommands";
+import { describeChange } from "./gitStatus";
+import { openCommitFileDiff } from "./diffView";
+import {
+    CommitDetails,
+    explainRefs,
+    getCommitDetails,
+    getHistory,
+    HistoryCommit,
+    HISTORY_LIMIT,
+    layoutGraph,
+} from "./history";
+import { MessageHandler, PostMessage, WalkthroughSection } from "./walkthroughSection";
+
+/**
+ * Fills in the "History" section and handles clicks on its commits.
+ */
+export class HistoryView implements WalkthroughSection {
+    public readonly styles = STYLES;
+    public readonly script = SCRIPT;
+    public readonly html = HTML;
+
+    /** The commits shown in the section, newest first */
+    private _history: HistoryCommit[] = [];
+
+    /** The commit whose files are shown */
+    private _commitDetails?: CommitDetails;
+
+    public readonly handlers: Record<string, MessageHandler> = {
+        showCommit: async ({ hash }) => {
+            const cwd = getTargetRepo();
+            const commit = this._history.find((c) => c.hash === hash);
+            if (!cwd || !commit) {
+                return;
+            }
+            this._commitDetails = await getCommitDetails(cwd, commit);
+            this._post({
+                type: "commitDetails",
+                hash: commit.hash,
+                message: this._commitDetails?.message ?? "",
+                files: (this._commitDetails?.files ?? []).map((file) => ({
+                    path: file.path,
+                    label: describeChange(file),
+                })),
+            });
+        },
+        openCommitDiff: async ({ hash, path }) => {
+            const cwd = getTargetRepo();
+            const commit = this._history.find((c) => c.hash === hash);
+            const file = this._commitDetails?.files.find((f) => f.path === path);
+            if (cwd && commit && file && this._commitDetails?.hash === commit.hash) {
+                await openCommitFileDiff(cwd, commit, file);
+            }
+        },
+    };
+
+    /**
+     * @param _post - Sends messages to the panel's webview
+     */
+    constructor(private readonly _post: PostMessage) {}
+
+    /**
+     * Sends the commits and graph — but only when they changed, since the
+     * panel's file watcher refreshes on every edit.
+     */
+    public async update(cwd: string | undefined): Promise<void> {
+        const history = cwd ? await getHistory(cwd) : [];
+        const key = (commits: HistoryCommit[]) => JSON.stringify(commits.map((c) => [c.hash, c.refs]));
+        if (history.length > 0 && key(history) === key(this._history)) {
+            return;
+        }
+        this._history = history;
+
+        const rows = layoutGraph(history);
+        this._post({
+            type: "history",
+            commits: history.map((commit, i) => ({
+                ...commit,
+                when: new Date(commit.date).toLocaleString(),
+                graph: rows[i],
+            })),
+            graphWidth: Math.max(1, ...rows.map((row) => row.width)),
+            explanations: explainRefs(history),
+            limited: history.length === HISTORY_LIMIT,
+        });
+    }
+
+    /** Forgets the commits sent so far, so the next update() sends them again (to a new page) */
+    public clear(): void {
+        this._history = [];
+    }
+}
+
+// =============================================================
+// HTML, CSS and JavaScript
+// =============================================================
+
+const HTML = /*html*/ `
+    <!-- History: the commits as a branch graph (filled in by showHistory()) -->
+    <details class="history">
+        <summary>History</summary>
+        <p class="history-explanation">
+            Each dot is a commit — a saved snapshot of your files — with the newest at the top.
+            The lines join each commit to its parent, the commit it was built on. Where two lines
+            meet in one dot, two branches were merged. Click a commit to see what it changed.
+        </p>
+        <div id="history-refs"></div>
+        <div id="history-commits"></div>
+    </details>`;
+
+const STYLES = `
+        /* ========================================
+           HISTORY
+           The commits as a branch graph. Each row
+           is a fixed height so the graph's lines
+           meet up from one row to the next.
+           ======================================== */
+        .history {
+            margin-bottom: 12px;
+        }
+
+        .history > summary {
+            cursor: pointer;
+            font-weight: bold;
+            padding: 4px 0;
+        }
+
+        .history-row {
+            display: flex;
+            align-items: center;
+            height: 36px;
+            cursor: pointer;
+        }
+
+        .history-row:hover,
+        .history-row.selected {
+            background: var(--vscode-list-hoverBackground);
+        }
+
+        .history-graph {
+            flex-shrink: 0;
+            height: 36px;
+        }
+
+        .history-text {
+            flex: 1;
+            min-width: 0;
+            font-size: 0.9em;
+        }
+
+        .history-subject,
+        .history-meta {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .history-meta {
+            font-size: 0.85em;
+            opacity: 0.7;
+        }
+
+        .history-hash {
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        .ref-badge {
+            display: inline-block;
+            margin-right: 4px;
+            padding: 0 4px;
+            border-radius: 3px;
+            font-size: 0.85em;
+            border: 1px solid var(--vscode-panel-border);
+        }
+
+        .ref-badge.ref-head {
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            font-weight: bold;
+        }
+
+        .ref-badge.ref-remote {
+            border-style: dashed;
+        }
+
+        .ref-badge.ref-tag {
+            border-color: var(--vscode-charts-yellow);
+        }
+
+        .history-details {
+            margin: 2px 0 6px 0;
+            padding: 6px 8px;
+            border-left: 3px solid var(--vscode-charts-blue);
+            background: var(--vscode-textBlockQuote-background);
+            font-size: 0.9em;
+        }
+
+        .history-details p {
+            margin: 0 0 4px 0;
+            line-height: 1.4;
+        }
+
+        .history-message {
+            white-space: pre-wrap;
+            font-family: var(--vscode-editor-font-family);
+        }`;
+
+const SCRIPT = `
+        /** Graph sizes, in pixels (rows match .history-row's height) */
+        const LANE_WIDTH = 14;
+        const ROW_HEIGHT = 36;
+
+        /** One color per lane, repeating if there are more lanes than colors */
+        const LANE_COLORS = [
+            'var(--vscode-charts-blue)',
+            'var(--vscode-charts-green)',
+            'var(--vscode-charts-orange)',
+            'var(--vscode-charts-purple)',
+            'var(--vscode-charts-red)',
+            'var(--vscode-charts-yellow)',
+        ];
+
+        /** What each kind of ref badge means, shown when you hover over it */
+        const REF_TOOLTIPS = {
+            head: 'HEAD: where you are now. Your next commit goes on top of this one.',
+            branch: 'A branch: a name that points at its newest commit, and moves forward with each new commit.',
+            remote: "A remote branch: where this branch was on the remote the last time you fetched, pulled or pushed.",
+            tag: 'A tag: a name that stays on this commit forever, often used to mark releases.',
+        };
+
+        /** The commit whose details are open, so a refresh can keep it open */
+        let selectedCommit = null;
+
+        /**
+         * Redraws the "History" section: the explanations of HEAD and the
+         * remote branches, then one row per commit with its part of the graph.
+         *
+         * @param {object} history - commits (each with its graph row), graphWidth,
+         *   explanations and limited (true if older commits were left out)
+         */
+        function showHistory(history) {
+            const refsEl = document.getElementById('history-refs');
+            const listEl = document.getElementById('history-commits');
+            refsEl.replaceChildren();
+            listEl.replaceChildren();
+
+            for (const text of history.explanations) {
+                const p = document.createElement('p');
+                p.className = 'history-explanation';
+                p.textContent = text;
+                refsEl.append(p);
+            }
+
+            if (history.commits.length === 0) {
+                const none = document.createElement('p');
+                none.className = 'status-summary';
+                none.textContent = 'No commits yet — make your first commit and it will show up here.';
+                listEl.append(none);
+                return;
+            }
+
+            for (const commit of history.commits) {
+                const row = document.createElement('div');
+                row.className = 'history-row';
+                row.dataset.hash = commit.hash;
+                row.title = commit.subject;
+                row.onclick = () => {
+                    selectedCommit = selectedCommit === commit ? null : commit;
+                    showSelectedCommit();
+                };
+
+                const text = document.createElement('div');
+                text.className = 'history-text';
+
+                const subject = document.createElement('div');
+                subject.className = 'history-subject';
+                for (const ref of commit.refs) {
+                    const badge = document.createElement('span');
+                    badge.className = 'ref-badge ref-' + ref.kind;
+                    badge.textContent = ref.kind === 'head' && ref.current ? 'HEAD → ' + ref.name : ref.name;
+                    badge.title = REF_TOOLTIPS[ref.kind];
+                    subject.append(badge);
+                }
+                subject.append(commit.subject);
+
+                const meta = document.createElement('div');
+                meta.className = 'history-meta';
+                const hash = document.createElement('span');
+                hash.className = 'history-hash';
+                hash.textContent = commit.shortHash;
+                meta.append(hash, ' · ' + commit.author + ' · ' + commit.when);
+
+                text.append(subject, meta);
+                row.append(drawGraphRow(commit.graph, history.graphWidth), text);
+                listEl.append(row);
+            }
+
+            if (history.limited) {
+                const more = document.createElement('p');
+                more.className = 'status-summary';
+                more.textContent = 'Showing the latest ' + history.commits.length +
+                    ' commits. Run "git log" to see them all.';
+                listEl.append(more);
+            }
+
+            // Keep the open commit open, if it's still there
+            selectedCommit = history.commits.find((c) => selectedCommit && c.hash === selectedCommit.hash) || null;
+            showSelectedCommit();
+        }
+
+        /**
+         * Draws one row of the graph as an SVG: the lines passing through
+         * the row, and the commit's dot on top.
+         */
+        function drawGraphRow(graph, graphWidth) {
+            const SVG = 'http://www.w3.org/2000/svg';
+            const x = (lane) => LANE_WIDTH / 2 + lane * LANE_WIDTH;
+            const color = (lane) => LANE_COLORS[lane % LANE_COLORS.length];
+
+            const svg = document.createElementNS(SVG, 'svg');
+            svg.setAttribute('class', 'history-graph');
+            svg.setAttribute('width', String(graphWidth * LANE_WIDTH));
+            svg.setAttribute('height', String(ROW_HEIGHT));
+
+            for (const line of graph.lines) {
+                // Straight down, or a gentle curve when the line changes lanes
+                const x1 = x(line.fromLane), y1 = line.fromY * ROW_HEIGHT;
+                const x2 = x(line.toLane), y2 = line.toY * ROW_HEIGHT;
+                const middle = (y1 + y2) / 2;
+                const path = document.createElementNS(SVG, 'path');
+                path.setAttribute('d', 'M ' + x1 + ' ' + y1 + ' C ' + x1 + ' ' + middle + ', ' +
+                    x2 + ' ' + middle + ', ' + x2 + ' ' + y2);
+                path.setAttribute('fill', 'none');
+                path.setAttribute('stroke-width', '2');
+                path.style.stroke = color(line.color);
+                svg.append(path);
+            }
+
+            const dot = document.createElementNS(SVG, 'circle');
+            dot.setAttribute('cx', String(x(graph.lane)));
+            dot.setAttribute('cy', String(ROW_HEIGHT / 2));
+            dot.setAttribute('r', '4');
+            dot.style.fill = color(graph.lane);
+            svg.append(dot);
+            return svg;
+        }
+
+        /**
+         * Highlights the selected commit and shows what we know about it
+         * straight away, then asks the extension for its files.
+         */
+        function showSelectedCommit() {
+            document.querySelectorAll('.history-details').forEach((el) => el.remove());
+            document.querySelectorAll('.history-row').forEach((row) => {
+                row.classList.toggle('selected', !!selectedCommit && row.dataset.hash === selectedCommit.hash);
+            });
+            if (!selectedCommit) {
+                return;
+            }
+            const commit = selectedCommit;
+            const row = document.querySelector('.history-row.selected');
+
+            const details = document.createElement('div');
+            details.className = 'history-details';
+            details.id = 'history-details';
+
+            const info = [
+                'Commit ' + commit.hash,
+                'Author: ' + commit.author + ' <' + commit.email + '>',
+                'Date: ' + commit.when,
+            ];
+            if (commit.parents.length === 0) {
+                info.push('Parent: none — this is the very first commit.');
+            } else if (commit.parents.length === 1) {
+                info.push('Parent: ' + commit.parents[0].slice(0, 7) + ' (the commit it was built on)');
+            } else {
+                info.push('Parents: ' + commit.parents.map((p) => p.slice(0, 7)).join(', ') +
+                    ' — a merge commit joins two branches. Changes are shown against the first parent.');
+            }
+            for (const text of info) {
+                const p = document.createElement('p');
+                p.textContent = text;
+                details.append(p);
+            }
+
+            const message = document.createElement('p');
+            message.className = 'history-message';
+            message.id = 'history-message';
+            message.textContent = commit.subject;
+
+            const files = document.createElement('div');
+            files.id = 'history-files';
+            files.textContent = 'Loading the changed files...';
+
+            details.append(message, files);
+            row.after(details);
+            vscode.postMessage({ type: 'showCommit', hash: commit.hash });
+        }
+
+        /**
+         * Fills in the selected commit's full message and changed files.
+         * Clicking a file opens its diff.
+         */
+        function showCommitDetails(details) {
+            if (!selectedCommit || selectedCommit.hash !== details.hash) {
+                return;
+            }
+            document.getElementById('history-message').textContent = details.message.trim();
+
+            const filesEl = document.getElementById('history-files');
+            filesEl.replaceChildren();
+
+            const title = document.createElement('p');
+            title.className = 'status-group-title';
+            title.textContent = details.files.length + (details.files.length === 1 ? ' file changed' : ' files changed');
+            filesEl.append(title);
+
+            for (const file of details.files) {
+                const row = document.createElement('div');
+                row.className = 'status-file';
+
+                const name = document.createElement('span');
+                name.className = 'status-file-name';
+                name.textContent = file.path;
+                name.title = file.path;
+
+                const label = document.createElement('span');
+                label.className = 'status-file-label';
+                label.textContent = file.label;
+
+                const button = document.createElement('button');
+                button.className = 'link-button';
+                button.textContent = 'Diff';
+                button.onclick = () => vscode.postMessage({ type: 'openCommitDiff', hash: details.hash, path: file.path });
+
+                row.append(name, label, button);
+                filesEl.append(row);
+            }
+        }
+
+        // The commits changed, or a clicked commit's files arrived
+        window.addEventListener('message', (event) => {
+            if (event.data.type === 'history') {
+                showHistory(event.data);
+            } else if (event.data.type === 'commitDetails') {
+                showCommitDetails(event.data);
+            }
+        });`;
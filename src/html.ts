@@ -0,0 +1,24 @@
+/**
+ * html.ts — Small helpers for building webview HTML safely.
+ *
+ * WHY ESCAPE?
+ *   Webview content is built from strings. If a string that came from
+ *   outside the extension (a lesson file, a file name, Git output)
+ *   contains characters like < or ", the browser would treat it as HTML.
+ *   Escaping turns those characters into harmless text, e.g. < → &lt;.
+ */
+
+/**
+ * Escapes text so it can be placed inside HTML (including attribute values).
+ *
+ * @param text - Any text, e.g. a step title from a JSON lesson file
+ * @returns The same text with &, <, >, " and ' replaced by HTML entities
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
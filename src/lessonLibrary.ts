@@ -0,0 +1,267 @@
+/**
+ * lessonLibrary.ts — Finds, loads and validates lesson packs.
+ *
+ * WHERE DO LESSON PACKS COME FROM?
+ *   1. The built-in "Getting Started" pack (steps.ts) — always available
+ *   2. JSON files bundled with the extension, in its `lessons/` folder
+ *   3. A workspace file at `.githelper/lessons.json`, so a team can
+ *      teach its own workflow without forking the extension
+ *
+ * Every JSON file is checked with validateLessonPack(). Problems are
+ * reported in VS Code's Problems panel (View > Problems), and a broken
+ * file is simply skipped — the other packs keep working.
+ *
+ * The library also remembers which pack the user picked in the panel
+ * (per workspace, like progress.ts).
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { BUILT_IN_PACK, LessonPack } from "./steps";
+import { getWorkspaceRoot } from "./gitCommands";
+import { validateLessonPack, ValidationProblem } from "./lessonValidation";
+
+/** The workspace lesson file, relative to the workspace folder */
+export const WORKSPACE_LESSON_FILE = ".githelper/lessons.json";
+
+/** The key the selected pack ID is saved under in workspaceState */
+const SELECTED_PACK_KEY = "gitHelper.selectedPack";
+
+/**
+ * Loads lesson packs and keeps track of which one is selected.
+ */
+export class LessonLibrary implements vscode.Disposable {
+    /** All packs that loaded successfully (the built-in pack is always first) */
+    private _packs: LessonPack[] = [BUILT_IN_PACK];
+
+    /** Shows lesson file problems in the Problems panel */
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection("Git Helper Lessons");
+
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Fires when packs are reloaded or a different pack is selected */
+    public readonly onDidChange = this._onDidChange.event;
+
+    private readonly _disposables: vscode.Disposable[] = [this._diagnostics, this._onDidChange];
+
+    /**
+     * @param _extensionUri - Where the extension is installed (for the bundled `lessons/` folder)
+     * @param _state - Where to remember the selected pack (normally context.workspaceState)
+     * @param _outputChannel - Where to log lesson file problems
+     */
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _state: vscode.Memento,
+        private readonly _outputChannel: vscode.OutputChannel
+    ) {
+        // Reload whenever the workspace lesson file is created, edited or deleted
+        const root = getWorkspaceRoot();
+        if (root) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(root, WORKSPACE_LESSON_FILE)
+            );
+            watcher.onDidCreate(() => this.load());
+            watcher.onDidChange(() => this.load());
+            watcher.onDidDelete(() => this.load());
+            this._disposables.push(watcher);
+        }
+    }
+
+    // =============================================================
+    // Public API
+    // =============================================================
+
+    /** Returns every pack that loaded successfully */
+    public getPacks(): LessonPack[] {
+        return this._packs;
+    }
+
+    /**
+     * Returns the pack the user picked, or the built-in pack if they
+     * haven't picked one (or their pick no longer exists).
+     */
+    public getActivePack(): LessonPack {
+        const selectedId = this._state.get<string>(SELECTED_PACK_KEY);
+        return this._packs.find((p) => p.id === selectedId) ?? BUILT_IN_PACK;
+    }
+
+    /** Switches to a different pack and remembers the choice */
+    public async selectPack(packId: string): Promise<void> {
+        await this._state.update(SELECTED_PACK_KEY, packId);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * (Re)loads all lesson packs from disk.
+     * Safe to call any time — it never throws.
+     */
+    public async load(): Promise<void> {
+        this._diagnostics.clear();
+        const packs: LessonPack[] = [BUILT_IN_PACK];
+
+        // --- Bundled packs: every .json file in the extension's lessons/ folder ---
+        const bundledDir = path.join(this._extensionUri.fsPath, "lessons");
+        const bundledFiles = await fs.promises.readdir(bundledDir).catch(() => [] as string[]);
+        for (const name of bundledFiles.filter((n) => n.endsWith(".json")).sort()) {
+            await this._loadFile(path.join(bundledDir, name), packs, false);
+        }
+
+        // --- Workspace pack: .githelper/lessons.json (optional) ---
+        const root = getWorkspaceRoot();
+        if (root) {
+            const workspaceFile = path.join(root, WORKSPACE_LESSON_FILE);
+            if (fs.existsSync(workspaceFile)) {
+                await this._loadFile(workspaceFile, packs, true);
+            }
+        }
+
+        this._packs = packs;
+        this._onDidChange.fire();
+    }
+
+    public dispose(): void {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    // =============================================================
+    // Loading a Single File
+    // =============================================================
+
+    /**
+     * Reads, parses and validates one lesson file. If it's valid, the
+     * pack is added to `packs`; if not, the problems are reported.
+     *
+     * @param fromWorkspace - True for the workspace file, which came with the
+     *                        repository rather than the extension (checked more strictly)
+     */
+    private async _loadFile(filePath: string, packs: LessonPack[], fromWorkspace: boolean): Promise<void> {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(filePath, "utf8");
+        } catch (error) {
+            this._report(filePath, "", [{ path: "", message: `could not read the file (${error})` }]);
+            return;
+        }
+
+        // --- Step 1: Is it valid JSON at all? ---
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this._report(filePath, text, [{ path: "", message: `is not valid JSON: ${message}` }], message);
+            return;
+        }
+
+        // --- Step 2: Does it have the shape of a lesson pack? ---
+        const problems = validateLessonPack(data, fromWorkspace);
+
+        // Two packs can't share an ID, or their progress would get mixed up
+        const pack = data as LessonPack;
+        if (problems.length === 0 && packs.some((p) => p.id === pack.id)) {
+            problems.push({ path: "id", message: `"${pack.id}" is already used by another lesson pack` });
+        }
+
+        if (problems.length > 0) {
+            this._report(filePath, text, problems, undefined, data);
+            return;
+        }
+
+        packs.push(pack);
+    }
+
+    /**
+     * Shows lesson file problems in the Problems panel and the Output Channel.
+     *
+     * @param parseError - The JSON.parse() error message, if the file isn't valid JSON
+     * @param data - The parsed file, used to point each problem at the right step
+     */
+    private _report(
+        filePath: string,
+        text: string,
+        problems: ValidationProblem[],
+        parseError?: string,
+        data?: unknown
+    ): void {
+        const diagnostics = problems.map((problem) => {
+            const range = parseError
+                ? rangeForParseError(text, parseError)
+                : rangeForPath(text, problem.path, data);
+            const where = problem.path ? `${problem.path} ` : "The file ";
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `${where}${problem.message}`,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = "Git Helper";
+            return diagnostic;
+        });
+        this._diagnostics.set(vscode.Uri.file(filePath), diagnostics);
+
+        this._outputChannel.appendLine(`Lesson file skipped: ${filePath}`);
+        diagnostics.forEach((d) => this._outputChannel.appendLine(`  - ${d.message}`));
+        this._outputChannel.appendLine("");
+
+        vscode.window
+            .showWarningMessage(
+                `Git Helper couldn't load the lessons in ${path.basename(filePath)} ` +
+                    `(${problems.length} problem${problems.length === 1 ? "" : "s"}).`,
+                "Show Problems"
+            )
+            .then((choice) => {
+                if (choice === "Show Problems") {
+                    vscode.commands.executeCommand("workbench.actions.view.problems");
+                }
+            });
+    }
+}
+
+// =============================================================
+// Finding Where a Problem Is
+// =============================================================
+
+/** Converts a character offset in `text` into a one-character range */
+function rangeAtOffset(text: string, offset: number): vscode.Range {
+    const before = text.slice(0, offset);
+    const line = before.split("\n").length - 1;
+    const character = offset - (before.lastIndexOf("\n") + 1);
+    return new vscode.Range(line, character, line, character + 1);
+}
+
+/**
+ * JSON.parse() errors mention where they happened, e.g.
+ * "Unexpected token } in JSON at position 120". Point at that spot.
+ */
+function rangeForParseError(text: string, message: string): vscode.Range {
+    const match = /position (\d+)/.exec(message);
+    return match ? rangeAtOffset(text, Number(match[1])) : new vscode.Range(0, 0, 0, 1);
+}
+
+/**
+ * Points a validation problem at the lesson or step it belongs to, by
+ * finding that lesson's or step's ID in the file text. Falls back to the
+ * top of the file.
+ * (VS Code's own JSON schema checking gives exact squiggles while editing.)
+ */
+function rangeForPath(text: string, problemPath: string, data: unknown): vscode.Range {
+    type WithId = { id?: unknown; steps?: WithId[] };
+    const match = /^lessons\[(\d+)\](?:\.steps\[(\d+)\])?/.exec(problemPath);
+    const lessons = (data as { lessons?: WithId[] } | undefined)?.lessons;
+
+    if (match && Array.isArray(lessons)) {
+        const lesson = lessons[Number(match[1])];
+        const step =
+            match[2] !== undefined && Array.isArray(lesson?.steps) ? lesson.steps[Number(match[2])] : undefined;
+        const id = (step ?? lesson)?.id;
+
+        if (typeof id === "string") {
+            const escapedId = JSON.stringify(id).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            const found = new RegExp(`"id"\\s*:\\s*${escapedId}`).exec(text);
+            if (found) {
+                return rangeAtOffset(text, found.index);
+            }
+        }
+    }
+    return new vscode.Range(0, 0, 0, 1);
+}
@@ -0,0 +1,502 @@
+/**
+ * lessonValidation.ts — Checks that a JSON lesson pack has the right shape.
+ *
+ * The rules here mirror schemas/lesson-pack.schema.json (which VS Code uses
+ * to show squiggles while you edit the file). We check again at load time
+ * because a broken lesson file shouldn't be able to break the panel —
+ * for example, a step with no `args` would crash "Run Step".
+ *
+ * If you change the schema, change this file too (and vice versa)!
+ *
+ * WHY NOT A SCHEMA LIBRARY?
+ *   The schema is small, and hand-written checks let us produce friendly
+ *   messages like `lessons[0].steps[2].args must be a list of strings` instead of
+ *   a generic "data/steps/2/args must be array".
+ *
+ * WHAT YOU SEE IS WHAT RUNS:
+ *   A step card shows `command`, but "Run Step" runs `args`. So `command`
+ *   must be exactly what the args run — otherwise a pack could show
+ *   `git status` and run something else entirely.
+ *
+ *   A workspace file (.githelper/lessons.json) comes with whatever
+ *   repository was cloned, not from the user, so its steps also may not
+ *   set options for Git itself (`-c`, `-C`...) or use options that run
+ *   other programs (`--upload-pack`...). A step is one click away from
+ *   running, and those would run code the card doesn't show.
+ */
+
+import { QuizQuestion, RepoCondition, StepFlow, StepPlaceholder, StepVerification } from "./steps";
+import { findUnknownPlaceholders } from "./placeholders";
+import { formatGitCommand } from "./gitCommands";
+
+// =============================================================
+// Types
+// =============================================================
+
+/**
+ * One thing that's wrong with a lesson file.
+ */
+export interface ValidationProblem {
+    /** Where the problem is, e.g. "lessons[0].steps[2].args" ("" means the whole file) */
+    path: string;
+    /** What's wrong, in plain English */
+    message: string;
+}
+
+// =============================================================
+// Allowed Values
+// =============================================================
+
+// Written as Records so TypeScript complains if a new condition,
+// verification or flow is added to steps.ts but forgotten here.
+const REPO_CONDITIONS: Record<RepoCondition, true> = {
+    gitInstalled: true,
+    repoInitialized: true,
+    hasCommits: true,
+    originConfigured: true,
+    hasUpstream: true,
+    identityConfigured: true,
+};
+
+const VERIFICATIONS: Record<StepVerification, true> = {
+    repoCreated: true,
+    workingTreeChanged: true,
+    filesStaged: true,
+    newCommit: true,
+    remoteAdded: true,
+    pushed: true,
+    pulled: true,
+    merged: true,
+    identitySet: true,
+};
+
+const FLOWS: Record<StepFlow, true> = {
+    stageFiles: true,
+    configureIdentity: true,
+    commitMessage: true,
+};
+
+const PLACEHOLDERS: Record<StepPlaceholder, true> = {
+    currentBranch: true,
+    defaultRemote: true,
+    defaultBranch: true,
+};
+
+const QUESTION_TYPES: Record<QuizQuestion["type"], true> = {
+    choice: true,
+    output: true,
+    order: true,
+};
+
+/** IDs end up in HTML element IDs, so keep them simple */
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const PACK_KEYS = ["$schema", "id", "name", "description", "lessons"];
+const LESSON_KEYS = ["id", "title", "description", "prerequisites", "requireQuizzes", "steps"];
+const STEP_KEYS = [
+    "id",
+    "title",
+    "description",
+    "command",
+    "args",
+    "requiresInput",
+    "notes",
+    "flow",
+    "completedWhen",
+    "verify",
+    "quiz",
+];
+/**
+ * Options that make Git run another program (given on the command line),
+ * or read settings that can — not allowed in workspace lesson files.
+ * Long options count with or without "=value".
+ */
+const PROGRAM_OPTIONS = ["--upload-pack", "--receive-pack", "--exec", "--extcmd", "--template", "--config"];
+
+/** Short forms of those, for the commands where they mean the same thing */
+const PROGRAM_SHORT_OPTIONS: Record<string, string[]> = {
+    clone: ["-c", "-u"],
+    rebase: ["-x"],
+};
+
+const CHOICE_QUESTION_KEYS = ["type", "question", "command", "choices", "answer", "explanation"];
+const ORDER_QUESTION_KEYS = ["type", "question", "items", "explanation"];
+
+// =============================================================
+// Small Checks
+// =============================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === "string" && value.trim() !== "";
+}
+
+/** Returns true if `value` is one of the keys of `allowed` */
+function isOneOf(value: unknown, allowed: Record<string, true>): boolean {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(allowed, value);
+}
+
+/** Reports any keys that aren't in the allowed list (usually a typo) */
+function checkUnknownKeys(
+    obj: Record<string, unknown>,
+    allowed: string[],
+    path: string,
+    problems: ValidationProblem[]
+): void {
+    for (const key of Object.keys(obj)) {
+        if (!allowed.includes(key)) {
+            problems.push({ path: join(path, key), message: `unknown property "${key}" (is it misspelled?)` });
+        }
+    }
+}
+
+/** Builds a path like "lessons[0].steps[2].args" */
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+// =============================================================
+// Validation
+// =============================================================
+
+/** Returns true if `value` is a list of at least two non-empty strings */
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.length >= 2 && value.every(isNonEmptyString);
+}
+
+/**
+ * Checks one of a step's quiz questions.
+ */
+function validateQuestion(question: unknown, path: string, problems: ValidationProblem[]): void {
+    if (!isObject(question)) {
+        problems.push({ path, message: "each question must be an object" });
+        return;
+    }
+
+    if (!isOneOf(question.type, QUESTION_TYPES)) {
+        problems.push({
+            path: join(path, "type"),
+            message: `is required and must be one of: ${Object.keys(QUESTION_TYPES).join(", ")}`,
+        });
+        return;
+    }
+
+    const isOrder = question.type === "order";
+    checkUnknownKeys(question, isOrder ? ORDER_QUESTION_KEYS : CHOICE_QUESTION_KEYS, path, problems);
+
+    for (const key of ["question", "explanation"]) {
+        if (!isNonEmptyString(question[key])) {
+            problems.push({ path: join(path, key), message: "is required and must be a non-empty string" });
+        }
+    }
+
+    if (isOrder) {
+        if (!isStringList(question.items)) {
+            problems.push({
+                path: join(path, "items"),
+                message: "must be a list of at least two strings, in the right order",
+            });
+        }
+        return;
+    }
+
+    if (question.type === "output" && !isNonEmptyString(question.command)) {
+        problems.push({
+            path: join(path, "command"),
+            message: 'is required for "output" questions: the command whose output is being predicted',
+        });
+    } else if (question.type === "choice" && question.command !== undefined) {
+        problems.push({ path: join(path, "command"), message: 'is only used by "output" questions' });
+    }
+
+    if (!isStringList(question.choices)) {
+        problems.push({ path: join(path, "choices"), message: "must be a list of at least two strings" });
+    } else if (
+        typeof question.answer !== "number" ||
+        !Number.isInteger(question.answer) ||
+        question.answer < 0 ||
+        question.answer >= question.choices.length
+    ) {
+        problems.push({
+            path: join(path, "answer"),
+            message: `must be the number of the right choice, from 0 to ${question.choices.length - 1}`,
+        });
+    }
+}
+
+/**
+ * Checks that a workspace step's args only run the Git command they
+ * name (see the top of this file).
+ */
+function validateWorkspaceArgs(args: string[], path: string, problems: ValidationProblem[]): void {
+    if (args.length > 0 && args[0].startsWith("-")) {
+        problems.push({
+            path,
+            message:
+                `must start with the Git command, e.g. ["status"] — a workspace lesson file can't set ` +
+                `options for Git itself like "${args[0]}"`,
+        });
+        return;
+    }
+    const shortOptions = PROGRAM_SHORT_OPTIONS[args[0]] ?? [];
+    for (const arg of args.slice(1)) {
+        const name = arg.split("=")[0];
+        if (PROGRAM_OPTIONS.includes(name) || shortOptions.includes(arg)) {
+            problems.push({
+                path,
+                message: `uses "${name}", which can run other programs — a workspace lesson file can't use it`,
+            });
+        }
+    }
+}
+
+/**
+ * Checks a single step object.
+ *
+ * @param fromWorkspace - True for a workspace lesson file (see the top of this file)
+ */
+function validateStep(step: unknown, path: string, fromWorkspace: boolean, problems: ValidationProblem[]): void {
+    if (!isObject(step)) {
+        problems.push({ path, message: "each step must be an object" });
+        return;
+    }
+
+    checkUnknownKeys(step, STEP_KEYS, path, problems);
+
+    if (typeof step.id !== "string" || !ID_PATTERN.test(step.id)) {
+        problems.push({
+            path: join(path, "id"),
+            message: "is required and may only contain lowercase letters, digits and dashes",
+        });
+    }
+
+    for (const key of ["title", "description", "command"]) {
+        if (!isNonEmptyString(step[key])) {
+            problems.push({ path: join(path, key), message: "is required and must be a non-empty string" });
+        }
+    }
+
+    if (!Array.isArray(step.args) || !step.args.every((a) => typeof a === "string")) {
+        problems.push({ path: join(path, "args"), message: 'must be a list of strings, e.g. ["status"]' });
+    } else {
+        if (fromWorkspace) {
+            validateWorkspaceArgs(step.args, join(path, "args"), problems);
+        }
+
+        // Steps that ask for a value (or build it in a flow) add it to the args when they
+        // run, so their command may end with a stand-in for it, like "git add <file>"
+        const runs = formatGitCommand(step.args);
+        const asksForMore = step.requiresInput !== undefined || step.flow !== undefined;
+        if (
+            typeof step.command === "string" &&
+            step.command !== runs &&
+            !(asksForMore && step.command.startsWith(`${runs} `))
+        ) {
+            problems.push({
+                path: join(path, "command"),
+                message: `must show what the step runs: "${runs}"${asksForMore ? ", then what the user enters" : ""}`,
+            });
+        }
+    }
+
+    // Catch typos like {curentBranch}, which would otherwise be passed to Git as-is
+    const known = Object.keys(PLACEHOLDERS);
+    for (const key of ["command", "args"]) {
+        const value = step[key];
+        const texts = Array.isArray(value) ? value : [value];
+        const unknown = texts.flatMap((text) => (typeof text === "string" ? findUnknownPlaceholders(text, known) : []));
+        for (const name of new Set(unknown)) {
+            problems.push({
+                path: join(path, key),
+                message: `uses an unknown placeholder {${name}} (known: ${known.map((k) => `{${k}}`).join(", ")})`,
+            });
+        }
+    }
+
+    if (step.requiresInput !== undefined) {
+        const input = step.requiresInput;
+        const inputPath = join(path, "requiresInput");
+        if (!isObject(input)) {
+            problems.push({ path: inputPath, message: "must be an object with prompt and placeholder" });
+        } else {
+            checkUnknownKeys(input, ["prompt", "placeholder", "sandboxValue"], inputPath, problems);
+            for (const key of ["prompt", "placeholder"]) {
+                if (typeof input[key] !== "string") {
+                    problems.push({ path: join(inputPath, key), message: "is required and must be a string" });
+                }
+            }
+            if (input.sandboxValue !== undefined && input.sandboxValue !== "originUrl") {
+                problems.push({ path: join(inputPath, "sandboxValue"), message: 'must be "originUrl"' });
+            }
+        }
+    }
+
+    if (step.notes !== undefined && typeof step.notes !== "string") {
+        problems.push({ path: join(path, "notes"), message: "must be a string" });
+    }
+
+    if (step.flow !== undefined && !isOneOf(step.flow, FLOWS)) {
+        problems.push({
+            path: join(path, "flow"),
+            message: `must be one of: ${Object.keys(FLOWS).join(", ")}`,
+        });
+    }
+
+    if (step.completedWhen !== undefined && !isOneOf(step.completedWhen, REPO_CONDITIONS)) {
+        problems.push({
+            path: join(path, "completedWhen"),
+            message: `must be one of: ${Object.keys(REPO_CONDITIONS).join(", ")}`,
+        });
+    }
+
+    if (step.verify !== undefined && !isOneOf(step.verify, VERIFICATIONS)) {
+        problems.push({
+            path: join(path, "verify"),
+            message: `must be one of: ${Object.keys(VERIFICATIONS).join(", ")}`,
+        });
+    }
+
+    if (step.quiz !== undefined) {
+        if (!Array.isArray(step.quiz) || step.quiz.length === 0) {
+            problems.push({ path: join(path, "quiz"), message: "must be a list of at least one question" });
+        } else {
+            step.quiz.forEach((question, index) => {
+                validateQuestion(question, `${join(path, "quiz")}[${index}]`, problems);
+            });
+        }
+    }
+}
+
+/**
+ * Checks a single lesson object and its steps.
+ *
+ * @param earlierLessonIds - IDs of the lessons that come before this one
+ *                           (prerequisites may only point at these)
+ * @param seenStepIds - Step IDs used so far anywhere in the pack
+ * @param fromWorkspace - True for a workspace lesson file
+ */
+function validateLesson(
+    lesson: unknown,
+    path: string,
+    earlierLessonIds: Set<string>,
+    seenStepIds: Set<string>,
+    fromWorkspace: boolean,
+    problems: ValidationProblem[]
+): void {
+    if (!isObject(lesson)) {
+        problems.push({ path, message: "each lesson must be an object" });
+        return;
+    }
+
+    checkUnknownKeys(lesson, LESSON_KEYS, path, problems);
+
+    if (typeof lesson.id !== "string" || !ID_PATTERN.test(lesson.id)) {
+        problems.push({
+            path: join(path, "id"),
+            message: "is required and may only contain lowercase letters, digits and dashes",
+        });
+    }
+
+    if (!isNonEmptyString(lesson.title)) {
+        problems.push({ path: join(path, "title"), message: "is required and must be a non-empty string" });
+    }
+
+    if (lesson.description !== undefined && typeof lesson.description !== "string") {
+        problems.push({ path: join(path, "description"), message: "must be a string" });
+    }
+
+    if (lesson.prerequisites !== undefined) {
+        if (!Array.isArray(lesson.prerequisites)) {
+            problems.push({ path: join(path, "prerequisites"), message: "must be a list of lesson IDs" });
+        } else {
+            lesson.prerequisites.forEach((id, index) => {
+                if (typeof id !== "string" || !earlierLessonIds.has(id)) {
+                    problems.push({
+                        path: `${join(path, "prerequisites")}[${index}]`,
+                        message: `"${id}" must be the ID of a lesson that comes earlier in the pack`,
+                    });
+                }
+            });
+        }
+    }
+
+    if (lesson.requireQuizzes !== undefined && typeof lesson.requireQuizzes !== "boolean") {
+        problems.push({ path: join(path, "requireQuizzes"), message: "must be true or false" });
+    }
+
+    if (!Array.isArray(lesson.steps) || lesson.steps.length === 0) {
+        problems.push({ path: join(path, "steps"), message: "is required and must contain at least one step" });
+        return;
+    }
+
+    // Step IDs must be unique across the whole pack, because progress is saved by step ID
+    lesson.steps.forEach((step, index) => {
+        const stepPath = `${join(path, "steps")}[${index}]`;
+        validateStep(step, stepPath, fromWorkspace, problems);
+
+        if (isObject(step) && typeof step.id === "string") {
+            if (seenStepIds.has(step.id)) {
+                problems.push({ path: join(stepPath, "id"), message: `"${step.id}" is used by more than one step` });
+            }
+            seenStepIds.add(step.id);
+        }
+    });
+}
+
+/**
+ * Checks that parsed JSON is a valid lesson pack.
+ *
+ * @param data - The result of JSON.parse() on a lesson file
+ * @param fromWorkspace - True for .githelper/lessons.json, whose steps get
+ *                        stricter checks (see the top of this file)
+ * @returns A list of problems (empty if the pack is valid)
+ */
+export function validateLessonPack(data: unknown, fromWorkspace = false): ValidationProblem[] {
+    const problems: ValidationProblem[] = [];
+
+    if (!isObject(data)) {
+        problems.push({ path: "", message: "a lesson pack must be a JSON object" });
+        return problems;
+    }
+
+    checkUnknownKeys(data, PACK_KEYS, "", problems);
+
+    if (typeof data.id !== "string" || !ID_PATTERN.test(data.id)) {
+        problems.push({
+            path: "id",
+            message: "is required and may only contain lowercase letters, digits and dashes",
+        });
+    }
+
+    if (!isNonEmptyString(data.name)) {
+        problems.push({ path: "name", message: "is required and must be a non-empty string" });
+    }
+
+    if (data.description !== undefined && typeof data.description !== "string") {
+        problems.push({ path: "description", message: "must be a string" });
+    }
+
+    if (!Array.isArray(data.lessons) || data.lessons.length === 0) {
+        problems.push({ path: "lessons", message: "is required and must contain at least one lesson" });
+        return problems;
+    }
+
+    const lessonIds = new Set<string>();
+    const stepIds = new Set<string>();
+    data.lessons.forEach((lesson, index) => {
+        const path = `lessons[${index}]`;
+        validateLesson(lesson, path, lessonIds, stepIds, fromWorkspace, problems);
+
+        if (isObject(lesson) && typeof lesson.id === "string") {
+            if (lessonIds.has(lesson.id)) {
+                problems.push({ path: join(path, "id"), message: `"${lesson.id}" is used by more than one lesson` });
+            }
+            lessonIds.add(lesson.id);
+        }
+    });
+
+    return problems;
+}
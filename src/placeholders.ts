@@ -0,0 +1,172 @@
+/**
+ * placeholders.ts — Fills in repo-specific names in step commands.
+ *
+ * WHY?
+ *   A step like "Push to GitHub" needs the name of your branch and your
+ *   remote. Hard-coding `git push -u origin main` breaks for everyone
+ *   whose branch is called "master" (older Git versions) or whose remote
+ *   isn't called "origin". So steps can use placeholders instead:
+ *
+ *     args: ["push", "-u", "{defaultRemote}", "{currentBranch}"]
+ *
+ *   Right before the step runs, we ask Git for the real values and swap
+ *   them in. The panel also shows the filled-in command on the step card,
+ *   so the learner sees exactly what will run.
+ *
+ * The placeholder names are listed in steps.ts (StepPlaceholder).
+ * Like repoState.ts, every question here uses queryGit(), so none of it
+ * shows up in the Output Channel.
+ */
+
+import { queryGit } from "./gitCommands";
+import { StepPlaceholder, WalkthroughStep } from "./steps";
+
+/** The placeholders that can have no value — {defaultBranch} always falls back to one */
+type OptionalPlaceholder = Exclude<StepPlaceholder, "defaultBranch">;
+
+/** The value of each placeholder (undefined if it can't be worked out right now) */
+export type PlaceholderValues = Record<OptionalPlaceholder, string | undefined> & { defaultBranch: string };
+
+/**
+ * What to tell the learner when a placeholder has no value, e.g. the
+ * push step runs before any remote has been added.
+ */
+const MISSING_HELP: Record<OptionalPlaceholder, string> = {
+    currentBranch:
+        "You're not on a branch right now (HEAD is detached, or there's no repository yet). " +
+        "Switch to a branch first.",
+    defaultRemote: "This repository has no remote yet. Add one first (see \"Add a Remote\").",
+};
+
+/** Matches {name} — but not Git's own @{u} or stash@{0} syntax */
+const PLACEHOLDER_PATTERN = /(?<!@)\{([A-Za-z]+)\}/g;
+
+// =============================================================
+// Working Out the Values
+// =============================================================
+
+/** Returns a Git config value, or undefined if it isn't set */
+async function getConfig(key: string, cwd: string): Promise<string | undefined> {
+    const result = await queryGit(["config", "--get", key], cwd);
+    return result.success && result.output ? result.output : undefined;
+}
+
+/** True if a local branch with this name exists */
+async function branchExists(name: string, cwd: string): Promise<boolean> {
+    return (await queryGit(["show-ref", "--verify", "--quiet", `refs/heads/${name}`], cwd)).success;
+}
+
+/**
+ * Asks Git for the current value of every placeholder.
+ *
+ *   - currentBranch → the branch you're on (works even before the first commit)
+ *   - defaultRemote → the remote this branch pushes to: `remote.pushDefault`,
+ *                     then the branch's own remote, then "origin", then the
+ *                     only remote there is
+ *   - defaultBranch → the remote's main branch if Git knows it, otherwise
+ *                     `init.defaultBranch` or whichever of main/master exists
+ *                     (in a brand new repo, the branch `git init` created)
+ *
+ * @param cwd - The repository to ask
+ */
+export async function getPlaceholderValues(cwd: string): Promise<PlaceholderValues> {
+    const branchResult = await queryGit(["symbolic-ref", "--quiet", "--short", "HEAD"], cwd);
+    const currentBranch = branchResult.success && branchResult.output ? branchResult.output : undefined;
+
+    // --- Default remote ---
+    const remotesResult = await queryGit(["remote"], cwd);
+    const remotes = remotesResult.success ? remotesResult.output.split("\n").filter((r) => r !== "") : [];
+    const preferred = [
+        await getConfig("remote.pushDefault", cwd),
+        currentBranch ? await getConfig(`branch.${currentBranch}.remote`, cwd) : undefined,
+        "origin",
+    ];
+    const defaultRemote =
+        preferred.find((name) => name !== undefined && remotes.includes(name)) ??
+        (remotes.length === 1 ? remotes[0] : undefined);
+
+    // --- Default branch ---
+    // After a clone, refs/remotes/origin/HEAD points at the remote's default branch
+    let defaultBranch: string | undefined;
+    if (defaultRemote) {
+        const remoteHead = await queryGit(
+            ["symbolic-ref", "--quiet", "--short", `refs/remotes/${defaultRemote}/HEAD`],
+            cwd
+        );
+        if (remoteHead.success && remoteHead.output.startsWith(`${defaultRemote}/`)) {
+            defaultBranch = remoteHead.output.slice(defaultRemote.length + 1);
+        }
+    }
+    if (!defaultBranch) {
+        const configured = await getConfig("init.defaultBranch", cwd);
+        for (const candidate of [configured, "main", "master"]) {
+            if (candidate && (await branchExists(candidate, cwd))) {
+                defaultBranch = candidate;
+                break;
+            }
+        }
+        // None of those exist yet (e.g. a brand new repo with no commits):
+        // the branch you're on is the one `git init` created
+        defaultBranch ??= configured ?? currentBranch ?? "master";
+    }
+
+    return { currentBranch, defaultRemote, defaultBranch };
+}
+
+// =============================================================
+// Filling Them In
+// =============================================================
+
+/** True if `name` is one of our placeholders (and not, say, "toString") */
+function isPlaceholder(name: string, values: PlaceholderValues): name is StepPlaceholder {
+    return Object.prototype.hasOwnProperty.call(values, name);
+}
+
+/** True if `name` is one of our placeholders, and it has no value right now */
+function isMissing(name: string, values: PlaceholderValues): name is OptionalPlaceholder {
+    return isPlaceholder(name, values) && values[name] === undefined;
+}
+
+/**
+ * Replaces every placeholder in `text` that has a value.
+ * Unknown placeholders and ones without a value are left as they are.
+ */
+export function fillPlaceholders(text: string, values: PlaceholderValues): string {
+    return text.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+        isPlaceholder(name, values) ? values[name] ?? match : match
+    );
+}
+
+/** True if the step's command or args use any placeholders */
+export function usesPlaceholders(step: WalkthroughStep): boolean {
+    return [step.command, ...step.args].some((text) => new RegExp(PLACEHOLDER_PATTERN.source).test(text));
+}
+
+/**
+ * Fills in a step's args, ready to run.
+ *
+ * @returns The args, or a message explaining which value is missing
+ */
+export function resolveStepArgs(
+    step: WalkthroughStep,
+    values: PlaceholderValues
+): { args: string[] } | { missing: string } {
+    for (const arg of step.args) {
+        for (const [, name] of arg.matchAll(PLACEHOLDER_PATTERN)) {
+            if (isMissing(name, values)) {
+                return { missing: MISSING_HELP[name] };
+            }
+        }
+    }
+    return { args: step.args.map((arg) => fillPlaceholders(arg, values)) };
+}
+
+/**
+ * Lists the {names} in `text` that aren't placeholders we know about
+ * (used by lessonValidation.ts to catch typos like "{curentBranch}").
+ *
+ * @param known - The valid placeholder names
+ */
+export function findUnknownPlaceholders(text: string, known: string[]): string[] {
+    return [...text.matchAll(PLACEHOLDER_PATTERN)].map(([, name]) => name).filter((name) => !known.includes(name));
+}
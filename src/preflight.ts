@@ -0,0 +1,585 @@
+/**
+ * preflight.ts — Checks the repository before commit, push and pull.
+ *
+ * WHY?
+ *   Lots of Git's most confusing errors come from running a command at
+ *   the wrong moment: pushing a branch that has no upstream yet, pulling
+ *   with unsaved edits to a file the pull would change, committing with
+ *   nothing staged. Git only tells you afterwards, in its own words.
+ *
+ *   So before the Commit, Push and Pull quick actions run, we look at the
+ *   repository first (like a pilot's pre-flight checklist). If something
+ *   would go wrong, we say what and offer safe ways to fix it — "stash my
+ *   changes first", "pull first", "stage everything" — in a QuickPick.
+ *   Nothing is ever forced or thrown away.
+ *
+ * HOW IT WORKS:
+ *   Each action has a list of checks. A check looks at the repo and
+ *   returns an Issue (with its possible resolutions), or nothing if all
+ *   is well. Resolutions can run commands straight away (stage, stash,
+ *   pull), change the command that will run (`push` → `push -u origin
+ *   main`), or add a command to run afterwards (bring stashed changes
+ *   back). After each fix, the repo is read again and the checks go on.
+ */
+
+import * as vscode from "vscode";
+import { getTargetRepo, GitCommandResult, queryGit, runGitCommand } from "./gitCommands";
+import { getRepoStatus, getUpstreamRemote, RepoStatus } from "./gitStatus";
+import { getPlaceholderValues } from "./placeholders";
+import { abortOperation, describeOperation, finishOperation, getConflictState } from "./conflicts";
+import { pickFilesToStage } from "./stagingPicker";
+import { showGitError } from "./errorExplainer";
+
+// =============================================================
+// Types
+// =============================================================
+
+/** The quick actions that get a pre-flight check */
+export type PreflightAction = "commit" | "push" | "pull";
+
+/**
+ * What will run once the checks pass. Resolutions can change it.
+ */
+interface Plan {
+    /** The command itself (e.g. ["push"], or ["push", "-u", "origin", "main"] after a fix) */
+    args: string[];
+
+    /** Commands to run after the command succeeds (e.g. ["stash", "pop"]) */
+    after: string[][];
+}
+
+/** Everything a check can look at */
+interface CheckContext {
+    cwd: string;
+    status: RepoStatus;
+    outputChannel: vscode.OutputChannel;
+    plan: Plan;
+
+    /** True once we've fetched (there's no need to ask the remote twice) */
+    fetched?: boolean;
+}
+
+/**
+ * One safe way to fix an issue.
+ */
+interface Resolution {
+    label: string;
+
+    /** What it does, in a sentence */
+    detail: string;
+
+    /**
+     * Does the fix. Returns false if it failed or the user backed out —
+     * then the original command doesn't run either.
+     */
+    apply: () => Promise<boolean>;
+}
+
+/**
+ * Something that would make the command fail (or go wrong).
+ */
+interface Issue {
+    /** What's wrong, e.g. "Nothing is staged" */
+    title: string;
+
+    /** Why it matters, shown under the title */
+    detail: string;
+
+    /** Ways to fix it (may be empty — then we just explain and stop) */
+    resolutions: Resolution[];
+}
+
+/** A check: returns an Issue, or undefined if all is well */
+type Check = (context: CheckContext) => Promise<Issue | undefined>;
+
+// =============================================================
+// Helpers
+// =============================================================
+
+/** Runs a command as part of a fix, explaining the error if it fails */
+async function runStep(args: string[], context: CheckContext): Promise<boolean> {
+    const result = await runGitCommand(args, context.outputChannel, context.cwd);
+    if (!result.success) {
+        await showGitError(result, context.outputChannel);
+    }
+    return result.success;
+}
+
+/** The names of the remotes, e.g. ["origin"] */
+async function getRemotes(cwd: string): Promise<string[]> {
+    const result = await queryGit(["remote"], cwd);
+    return result.success ? result.output.split("\n").filter(Boolean) : [];
+}
+
+/**
+ * Asks the remote what's new, so "behind" is up to date. A failure (no
+ * network, say) isn't fatal — we just go on with what we knew.
+ */
+async function fetchUpstream(context: CheckContext): Promise<void> {
+    if (context.fetched) {
+        return;
+    }
+    const remote = await getUpstreamRemote(context.cwd, context.status);
+    if (!remote) {
+        return;
+    }
+    context.fetched = true;
+    context.outputChannel.appendLine("Pre-flight: checking the remote for new commits...");
+    await runGitCommand(["fetch", "--quiet", remote], context.outputChannel, context.cwd);
+    context.status = (await getRepoStatus(context.cwd)) ?? context.status;
+}
+
+/**
+ * How to pull: plain `git pull` if the user has told Git whether to merge
+ * or rebase (pull.rebase or pull.ff), otherwise merge — the safer choice,
+ * and what older versions of Git always did.
+ */
+async function getPullArgs(cwd: string): Promise<string[]> {
+    const rebase = await queryGit(["config", "--get", "pull.rebase"], cwd);
+    const ff = await queryGit(["config", "--get", "pull.ff"], cwd);
+    return rebase.success || ff.success ? ["pull"] : ["pull", "--no-rebase"];
+}
+
+/**
+ * Whether a pull will rebase. A `--rebase` or `--no-rebase` in the command
+ * wins (the last one, as in Git); otherwise the pull.rebase setting decides.
+ */
+async function willRebase(args: string[], cwd: string): Promise<boolean> {
+    for (const arg of [...args].reverse()) {
+        if (arg === "--no-rebase" || arg === "--ff-only" || arg === "--rebase=false") {
+            return false;
+        }
+        if (arg === "--rebase" || arg === "-r" || arg.startsWith("--rebase=")) {
+            return true;
+        }
+    }
+    const rebase = await queryGit(["config", "--get", "pull.rebase"], cwd);
+    return rebase.success && rebase.output !== "false";
+}
+
+/** Stashes all uncommitted work, and brings it back after the command */
+function stashFirst(context: CheckContext, why: string): Resolution {
+    return {
+        label: "$(archive) Stash my changes first, then bring them back",
+        detail: `Puts your changes aside (git stash), runs the ${why}, then restores them (git stash pop).`,
+        apply: async () => {
+            const stash = ["stash", "push", "--include-untracked", "-m", `Git Helper: before ${why}`];
+            const ok = await runStep(stash, context);
+            if (ok) {
+                context.plan.after.push(["stash", "pop"]);
+            }
+            return ok;
+        },
+    };
+}
+
+/**
+ * Offers to finish or abort a merge (or rebase...) that's in progress, or
+ * to resolve conflicts left behind without one (e.g. by `git stash pop`)
+ */
+async function checkOperationInProgress(context: CheckContext, action: string): Promise<Issue | undefined> {
+    const state = await getConflictState(context.cwd, context.status);
+    if (!state) {
+        return undefined;
+    }
+    // Committing is how a merge finishes, once its conflicts are resolved
+    if (action === "commit" && state.operation === "merge" && state.files.length === 0) {
+        return undefined;
+    }
+
+    const what = describeOperation(state.operation);
+    const openGuide: Resolution = {
+        label: "$(git-merge) Show me how to resolve the conflicts",
+        detail: "Opens the Merge Conflicts section of the Git Walkthrough panel.",
+        apply: async () => {
+            await vscode.commands.executeCommand("gitWalkthrough.focus");
+            return false;
+        },
+    };
+    const finish: Resolution = {
+        label: `$(check) Finish ${what} first`,
+        detail: "Every conflict is resolved, so this completes it.",
+        apply: async () => {
+            await finishOperation(context.cwd, context.outputChannel);
+            return !(await getConflictState(context.cwd, context.status))?.operation;
+        },
+    };
+    const abort: Resolution = {
+        label: `$(discard) Abort ${what}`,
+        detail: "Puts everything back the way it was before it started.",
+        apply: async () => {
+            await abortOperation(context.cwd, context.outputChannel);
+            return !(await getConflictState(context.cwd, context.status))?.operation;
+        },
+    };
+
+    const conflicts = state.files.length;
+    const left = conflicts === 1 ? "1 file still has conflicts" : `${conflicts} files still have conflicts`;
+    if (!state.operation) {
+        return {
+            title: "Some files still have conflicts",
+            detail: `${left}. Resolve them before you ${action}.`,
+            resolutions: [openGuide],
+        };
+    }
+    return {
+        title: `You're in the middle of ${what}`,
+        detail:
+            conflicts > 0
+                ? `${left}. Resolve them (or abort) before you ${action}.`
+                : `It's waiting to be finished. Finish it (or abort) before you ${action}.`,
+        resolutions: conflicts > 0 ? [openGuide, abort] : [finish, abort],
+    };
+}
+
+// =============================================================
+// The Checks
+// =============================================================
+
+/** Before commit: no half-finished rebase (etc.), and something staged */
+const COMMIT_CHECKS: Check[] = [
+    (context) => checkOperationInProgress(context, "commit"),
+
+    async (context) => {
+        const { status } = context;
+        if (status.staged.length > 0 || (await getConflictState(context.cwd, status))?.operation === "merge") {
+            return undefined;
+        }
+        const changed = status.unstaged.length + status.untracked.length;
+        if (changed === 0) {
+            return {
+                title: "There's nothing to commit",
+                detail: "No files have changed since the last commit. Edit something first.",
+                resolutions: [],
+            };
+        }
+        return {
+            title: "Nothing is staged yet",
+            detail:
+                "A commit only saves staged changes, and " +
+                (changed === 1 ? "1 changed file isn't staged." : `${changed} changed files aren't staged.`),
+            resolutions: [
+                {
+                    label: "$(add) Stage all changes, then commit",
+                    detail: "Runs git add --all, so every changed and new file goes into the commit.",
+                    apply: () => runStep(["add", "--all"], context),
+                },
+                {
+                    label: "$(checklist) Choose which files to stage...",
+                    detail: "Pick the files that belong in this commit.",
+                    apply: async () => {
+                        const args = await pickFilesToStage(context.cwd);
+                        return args ? runStep(args, context) : false;
+                    },
+                },
+            ],
+        };
+    },
+];
+
+/** Before push: on a branch, a remote to push to, an upstream, and not behind it */
+const PUSH_CHECKS: Check[] = [
+    async (context) => {
+        if (context.status.branch) {
+            return undefined;
+        }
+        return {
+            title: "You're not on a branch (detached HEAD)",
+            detail: "Git pushes branches, and HEAD isn't on one. Put your commits on a branch first.",
+            resolutions: [
+                {
+                    label: "$(git-branch) Create a branch for these commits...",
+                    detail: "Runs git switch -c <name>, then pushes the new branch.",
+                    apply: async () => {
+                        const name = await vscode.window.showInputBox({
+                            prompt: "Name the new branch",
+                            placeHolder: "e.g., feature/about-page",
+                            validateInput: (value) =>
+                                /^\S+$/.test(value) ? undefined : "Branch names can't contain spaces.",
+                        });
+                        return name ? runStep(["switch", "-c", name], context) : false;
+                    },
+                },
+            ],
+        };
+    },
+
+    async (context) => {
+        if ((await getRemotes(context.cwd)).length > 0) {
+            return undefined;
+        }
+        return {
+            title: "There's no remote to push to",
+            detail: "A remote is the copy of your repo on a server like GitHub. Add one first.",
+            resolutions: [
+                {
+                    label: "$(cloud) Add a remote called origin...",
+                    detail: "Runs git remote add origin <url>, with the URL of your empty repo on GitHub (or similar).",
+                    apply: async () => {
+                        const url = await vscode.window.showInputBox({
+                            prompt: "Paste the repository's URL",
+                            placeHolder: "e.g., https://github.com/you/your-repo.git",
+                        });
+                        return url?.trim() ? runStep(["remote", "add", "origin", url.trim()], context) : false;
+                    },
+                },
+            ],
+        };
+    },
+
+    async (context) => {
+        const { status, plan } = context;
+        if (status.upstream || !status.branch || plan.args.includes("-u")) {
+            return undefined;
+        }
+        const branch = status.branch;
+        const remotes = await getRemotes(context.cwd);
+        const preferred = (await getPlaceholderValues(context.cwd)).defaultRemote;
+        const ordered = preferred ? [preferred, ...remotes.filter((r) => r !== preferred)] : remotes;
+        return {
+            title: `"${branch}" isn't connected to a remote branch yet`,
+            detail: "The first push of a new branch needs -u, which also remembers where to push from now on.",
+            resolutions: ordered.map((remote) => ({
+                label: `$(cloud-upload) Push with git push -u ${remote} ${branch}`,
+                detail: `Creates "${branch}" on ${remote} and sets it as this branch's upstream.`,
+                apply: async () => {
+                    plan.args = ["push", "-u", remote, branch];
+                    return true;
+                },
+            })),
+        };
+    },
+
+    async (context) => {
+        await fetchUpstream(context);
+        const { status } = context;
+        if (!status.upstream || status.behind === 0) {
+            return undefined;
+        }
+        return {
+            title: `${status.upstream} has ${status.behind} commit${status.behind === 1 ? "" : "s"} you don't have`,
+            detail: "Git would reject the push so you don't overwrite someone else's work. Pull their commits first.",
+            resolutions: [
+                {
+                    label: "$(cloud-download) Pull first, then push",
+                    detail: "Runs git pull to combine their commits with yours, then pushes.",
+                    apply: async () => runStep(await getPullArgs(context.cwd), context),
+                },
+            ],
+        };
+    },
+
+    async (context) => {
+        const { status, plan } = context;
+        if (!status.upstream || status.ahead > 0 || plan.args.includes("-u")) {
+            return undefined;
+        }
+        return {
+            title: "There's nothing to push",
+            detail: `${status.upstream} already has all your commits. Commit something new first.`,
+            resolutions: [],
+        };
+    },
+];
+
+/**
+ * Before pull: on a branch with an upstream, no merge in progress, no
+ * edits in the way, and we know how to combine diverged branches
+ */
+const PULL_CHECKS: Check[] = [
+    (context) => checkOperationInProgress(context, "pull"),
+
+    async (context) => {
+        if (context.status.branch && context.status.upstream) {
+            return undefined;
+        }
+        return {
+            title: context.status.branch
+                ? `"${context.status.branch}" isn't connected to a remote branch yet`
+                : "You're not on a branch (detached HEAD)",
+            detail: context.status.branch
+                ? "Git doesn't know where to pull from. Push it with -u first (the Push quick action offers this)."
+                : "Switch to a branch first (e.g. git switch main), then pull.",
+            resolutions: [],
+        };
+    },
+
+    async (context) => {
+        const { status, cwd, plan } = context;
+        const dirty = [...status.staged, ...status.unstaged].map((file) => file.path);
+        if (dirty.length === 0 && status.untracked.length === 0) {
+            return undefined;
+        }
+        await fetchUpstream(context);
+        if (context.status.behind === 0) {
+            return undefined;
+        }
+
+        // When rebasing, ANY uncommitted change stops the pull.
+        // Otherwise only changes to files the pull would update do — and
+        // new files where the pull brings a file of the same name (Git
+        // won't overwrite those either). The status only lists a new
+        // folder, so ask for every file in it.
+        const rebasing = (await willRebase(plan.args, cwd)) && dirty.length > 0;
+        const incoming = (await queryGit(["diff", "--name-only", "HEAD...@{upstream}"], cwd)).output.split("\n");
+        const untracked = await queryGit(["ls-files", "--others", "--exclude-standard"], cwd);
+        const clashing = [...dirty, ...untracked.output.split("\n")].filter((file) => file && incoming.includes(file));
+        if (!rebasing && clashing.length === 0) {
+            return undefined;
+        }
+
+        const files = rebasing ? [...new Set([...dirty, ...clashing])] : clashing;
+        const list = files.slice(0, 3).join(", ") + (files.length > 3 ? `, and ${files.length - 3} more` : "");
+        return {
+            title: rebasing
+                ? "You have uncommitted changes, and the pull will rebase"
+                : `The pull would overwrite files you haven't committed: ${list}`,
+            detail: rebasing
+                ? "A rebase needs a clean working folder, so Git would refuse to pull."
+                : "Git would refuse to pull, so it doesn't overwrite your unsaved work.",
+            resolutions: [
+                stashFirst(context, "pull"),
+                {
+                    label: "$(git-commit) Commit my changes first",
+                    detail: "Cancels the pull. Commit your work (Git Helper: Commit), then pull again.",
+                    apply: async () => {
+                        void vscode.commands.executeCommand("gitHelper.commit");
+                        return false;
+                    },
+                },
+            ],
+        };
+    },
+
+    // Both sides have new commits, and the user hasn't told Git how to
+    // combine them: Git would stop and ask, so we ask first
+    async (context) => {
+        await fetchUpstream(context);
+        const { status, cwd, plan } = context;
+        const configured = (await getPullArgs(cwd)).length === 1;
+        if (status.ahead === 0 || status.behind === 0 || configured || plan.args.length > 1) {
+            return undefined;
+        }
+        return {
+            title: `Both you and ${status.upstream} have new commits`,
+            detail:
+                `You have ${status.ahead} the remote doesn't, and it has ${status.behind} you don't. ` +
+                "How should they be combined?",
+            resolutions: [
+                {
+                    label: "$(git-merge) Merge (recommended)",
+                    detail: "Runs git pull --no-rebase: ties both histories together with a merge commit.",
+                    apply: async () => {
+                        plan.args = ["pull", "--no-rebase"];
+                        return true;
+                    },
+                },
+                {
+                    label: "$(git-commit) Rebase",
+                    detail: "Runs git pull --rebase: replays your commits on top of the remote's, for a straight history.",
+                    apply: async () => {
+                        plan.args = ["pull", "--rebase"];
+                        return true;
+                    },
+                },
+            ],
+        };
+    },
+];
+
+const CHECKS: Record<PreflightAction, Check[]> = {
+    commit: COMMIT_CHECKS,
+    push: PUSH_CHECKS,
+    pull: PULL_CHECKS,
+};
+
+// =============================================================
+// Running a Command With Its Checks
+// =============================================================
+
+/**
+ * Checks the repository, lets the user fix anything that would go wrong,
+ * then runs the command (and anything a fix asked to run afterwards).
+ *
+ * @param action - Which checks to run
+ * @param args - The command, or a function that asks for it once the
+ *               checks have passed (e.g. commit asks for its message)
+ * @param fetched - True if the caller has just fetched, so the checks
+ *                  don't ask the remote (and for a password) again
+ * @returns The command's result, or undefined if it didn't run
+ *          (cancelled, or there was nothing to do)
+ */
+export async function runWithPreflight(
+    action: PreflightAction,
+    args: string[] | (() => Promise<string[] | undefined>),
+    outputChannel: vscode.OutputChannel,
+    cwd = getTargetRepo(),
+    fetched = false
+): Promise<GitCommandResult | undefined> {
+    const status = cwd ? await getRepoStatus(cwd) : undefined;
+    if (!cwd || !status) {
+        // Not a repo (or no folder): let Git say so, in plain English
+        return runGitCommand(typeof args === "function" ? [action] : args, outputChannel, cwd);
+    }
+
+    const context: CheckContext = {
+        cwd,
+        status,
+        outputChannel,
+        plan: { args: typeof args === "function" ? [] : args, after: [] },
+        fetched,
+    };
+
+    const checks = CHECKS[action];
+    for (let i = 0; i < checks.length; i++) {
+        const issue = await checks[i](context);
+        if (!issue) {
+            continue;
+        }
+        outputChannel.appendLine(`Pre-flight (${action}): ${issue.title}`);
+        if (issue.resolutions.length === 0) {
+            vscode.window.showInformationMessage(`${issue.title}. ${issue.detail}`);
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            [
+                ...issue.resolutions,
+                { label: "$(close) Cancel", detail: `Don't ${action} now.`, apply: async () => false },
+            ],
+            { title: issue.title, placeHolder: issue.detail, ignoreFocusOut: true }
+        );
+        const command = context.plan.args.join(" ");
+        if (!picked || !(await picked.apply())) {
+            return undefined;
+        }
+        context.status = (await getRepoStatus(cwd)) ?? context.status;
+
+        // A fix that changed the command (e.g. to `git pull --rebase`) can
+        // change what the earlier checks think, so run them all again
+        if (context.plan.args.join(" ") !== command) {
+            i = -1;
+        }
+    }
+
+    if (typeof args === "function") {
+        const asked = await args();
+        if (!asked) {
+            return undefined;
+        }
+        context.plan.args = asked;
+    }
+
+    const result = await runGitCommand(context.plan.args, outputChannel, cwd);
+    if (!result.success && context.plan.after.length > 0) {
+        outputChannel.appendLine("Your changes are still safe in the stash — `git stash pop` brings them back.");
+    }
+    for (const after of result.success ? context.plan.after : []) {
+        const followUp = await runGitCommand(after, outputChannel, cwd);
+        if (!followUp.success) {
+            await showGitError(followUp, outputChannel);
+            break;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,159 @@
+/**
+ * progress.ts — Remembers which walkthrough steps the user has finished.
+ *
+ * WHERE IS PROGRESS STORED?
+ *   VS Code gives every extension a small key-value store called a
+ *   "Memento". We use `context.workspaceState`, which is saved per
+ *   workspace (per project folder). That way each project has its own
+ *   progress, and it survives reloads and restarts.
+ *
+ *   Progress is kept separately for each repository in the workspace
+ *   (see repositories.ts) and each lesson pack, so finishing "commit" in
+ *   one repo doesn't tick it off in another, and two packs can both have
+ *   a step called "commit" without getting mixed up. Quiz scores (see
+ *   quiz.ts) are kept the same way, next to the steps.
+ *
+ * WHY A CLASS?
+ *   Other parts of the extension want to know when progress changes
+ *   (for example, to redraw the progress bar). The class wraps the
+ *   Memento and fires an event every time something is saved.
+ */
+
+import * as vscode from "vscode";
+
+/** The key our data is saved under in workspaceState */
+const STORAGE_KEY = "gitHelper.progress";
+
+/** The best result of a step's quiz */
+export interface QuizScore {
+    /** Questions answered right, in the best attempt */
+    correct: number;
+
+    /** How many questions the quiz has */
+    total: number;
+
+    /** How many times the quiz was finished */
+    attempts: number;
+}
+
+/**
+ * The shape of the data we save. Kept as plain JSON (arrays, not Sets)
+ * because Mementos can only store JSON-serializable values.
+ */
+interface StoredProgress {
+    /** For each lesson pack ID, the IDs of its steps that are done */
+    packs: Record<string, string[]>;
+
+    /** For each lesson pack ID, the quiz scores of its steps, by step ID */
+    quizzes: Record<string, Record<string, QuizScore>>;
+}
+
+/**
+ * Returns the key a lesson pack's progress is saved under. Practice in
+ * the sandbox is tracked separately, so it doesn't tick off steps in the
+ * real project.
+ *
+ * @param repo - The repository the steps run in (undefined if no folder is open)
+ */
+export function getProgressKey(packId: string, repo: string | undefined, inSandbox: boolean): string {
+    if (inSandbox) {
+        return `sandbox:${packId}`;
+    }
+    return repo ? `${packId}:${repo}` : packId;
+}
+
+/**
+ * Reads and writes walkthrough progress for the current workspace.
+ */
+export class ProgressStore {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Fires whenever progress is saved */
+    public readonly onDidChange = this._onDidChange.event;
+
+    /**
+     * @param _state - Where to save progress (normally context.workspaceState)
+     */
+    constructor(private readonly _state: vscode.Memento) {}
+
+    /** Returns the IDs of all completed steps in a lesson pack */
+    public getCompleted(packId: string): Set<string> {
+        return new Set(this._read().packs[packId] ?? []);
+    }
+
+    /** Returns true if the given step is done */
+    public isComplete(packId: string, stepId: string): boolean {
+        return this.getCompleted(packId).has(stepId);
+    }
+
+    /** Returns the quiz scores in a lesson pack, by step ID */
+    public getQuizScores(packId: string): Record<string, QuizScore> {
+        return this._read().quizzes[packId] ?? {};
+    }
+
+    /** Returns the IDs of the steps whose quiz is passed (every answer right) */
+    public getPassedQuizzes(packId: string): Set<string> {
+        const scores = this.getQuizScores(packId);
+        return new Set(Object.keys(scores).filter((stepId) => scores[stepId].correct === scores[stepId].total));
+    }
+
+    /**
+     * Saves the result of finishing a step's quiz. Only the best score is
+     * kept, but every attempt is counted.
+     *
+     * @param correct - How many questions were answered right
+     * @param total - How many questions there were
+     */
+    public async recordQuizScore(packId: string, stepId: string, correct: number, total: number): Promise<void> {
+        const stored = this._read();
+        const scores = stored.quizzes[packId] ?? {};
+        const previous = scores[stepId];
+        // A changed quiz (more or fewer questions) starts afresh
+        const best = previous && previous.total === total && previous.correct > correct ? previous.correct : correct;
+        const score: QuizScore = { correct: best, total, attempts: (previous?.attempts ?? 0) + 1 };
+        await this._write({ ...stored, quizzes: { ...stored.quizzes, [packId]: { ...scores, [stepId]: score } } });
+    }
+
+    /**
+     * Marks one or more steps in a lesson pack as done.
+     * Steps that were already done are ignored, and nothing is saved
+     * (or announced) if no new steps were added.
+     */
+    public async markComplete(packId: string, ...stepIds: string[]): Promise<void> {
+        const completed = this.getCompleted(packId);
+        const sizeBefore = completed.size;
+        stepIds.forEach((id) => completed.add(id));
+
+        if (completed.size === sizeBefore) {
+            return;
+        }
+
+        const stored = this._read();
+        await this._write({ ...stored, packs: { ...stored.packs, [packId]: [...completed] } });
+    }
+
+    /** Forgets all progress in a lesson pack, quiz scores included */
+    public async reset(packId: string): Promise<void> {
+        const stored = this._read();
+        await this._write({ packs: { ...stored.packs, [packId]: [] }, quizzes: { ...stored.quizzes, [packId]: {} } });
+    }
+
+    /** Cleans up the event emitter */
+    public dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    // =============================================================
+    // Storage Helpers
+    // =============================================================
+
+    private _read(): StoredProgress {
+        const stored = this._state.get<Partial<StoredProgress>>(STORAGE_KEY, {});
+        return { packs: stored.packs ?? {}, quizzes: stored.quizzes ?? {} };
+    }
+
+    private async _write(progress: StoredProgress): Promise<void> {
+        await this._state.update(STORAGE_KEY, progress);
+        this._onDidChange.fire();
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * quiz.ts — Checks answers to the knowledge-check questions in step cards.
+ *
+ * WHY QUIZZES?
+ *   A step that ran successfully proves the command worked — not that
+ *   the learner knows what it did. A question or two afterwards ("what
+ *   goes into the next commit?") makes them stop and think, and the
+ *   explanation clears up the misunderstanding on the spot.
+ *
+ * HOW A QUIZ WORKS:
+ *   The questions (see QuizQuestion in steps.ts) appear in the card once
+ *   the step has succeeded. Each one is answered once: the card says
+ *   right or wrong and explains why. When they're all answered, the score
+ *   is saved with the step's progress (ProgressStore keeps the best one).
+ *   "Try again" starts over. A quiz is passed when every answer is right —
+ *   and lessons with `requireQuizzes` only unlock the next lesson then.
+ *
+ * The answers are checked here, in the extension, not in the webview.
+ */
+
+import { QuizQuestion } from "./steps";
+
+/**
+ * An answer from the webview: the index of the chosen choice, or — for
+ * "order" questions — the items' indices (in `items`) in the order the
+ * learner put them.
+ */
+export type QuizAnswer = number | number[];
+
+/** True if the answer is right */
+export function checkAnswer(question: QuizQuestion, answer: QuizAnswer): boolean {
+    if (question.type === "order") {
+        // Compared by text, so two identical items can be swapped
+        return (
+            Array.isArray(answer) &&
+            answer.length === question.items.length &&
+            answer.every((index, position) => question.items[index] === question.items[position])
+        );
+    }
+    return answer === question.answer;
+}
+
+/** The right answer, as text: the right choice, or the items in order */
+export function describeAnswer(question: QuizQuestion): string {
+    return question.type === "order" ? question.items.join(" → ") : question.choices[question.answer] ?? "";
+}
+
+/**
+ * A random order to show an "order" question's items in — never the
+ * right order already, or there'd be nothing to do.
+ *
+ * @returns Indices into the question's `items`
+ */
+export function shuffleItems(count: number): number[] {
+    const order = [...Array(count).keys()];
+    for (let i = count - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    if (count > 1 && order.every((index, position) => index === position)) {
+        order.push(order.shift() as number);
+    }
+    return order;
+}
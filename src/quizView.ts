@@ -0,0 +1,390 @@
+/**
+ * quizView.ts — The "Check your understanding" quizzes in the walkthrough
+ * panel's step cards.
+ *
+ * A step's quiz is drawn inside its card (see stepCardView.ts) and shown
+ * once the step is done. The webview sends each answer here; it's checked
+ * with quiz.ts, and when every question is answered the score is saved
+ * with the step's progress (see `requireQuizzes` — passing a quiz can
+ * unlock the next lesson).
+ */
+
+import { QuizQuestion, WalkthroughStep } from "./steps";
+import { findStep } from "./curriculum";
+import { getTargetRepo } from "./gitCommands";
+import { getProgressKey, ProgressStore, QuizScore } from "./progress";
+import { LessonLibrary } from "./lessonLibrary";
+import { Sandbox } from "./sandbox";
+import { escapeHtml } from "./html";
+import { checkAnswer, describeAnswer, QuizAnswer, shuffleItems } from "./quiz";
+import { MessageHandler, PostMessage, WalkthroughSection } from "./walkthroughSection";
+
+/**
+ * Checks the answers to the step cards' quizzes and saves the scores.
+ */
+export class QuizView implements WalkthroughSection {
+    public readonly styles = STYLES;
+    public readonly script = SCRIPT;
+
+    /** The quiz being answered in each card, by step ID: whether each answer so far was right */
+    private readonly _answers = new Map<string, boolean[]>();
+
+    public readonly handlers: Record<string, MessageHandler> = {
+        quizAnswer: async ({ stepId, questionIndex, answer }) => {
+            if (stepId && questionIndex !== undefined) {
+                await this._answer(stepId, questionIndex, answer);
+            }
+        },
+        retryQuiz: ({ stepId }) => {
+            if (stepId) {
+                this._retry(stepId);
+            }
+        },
+    };
+
+    /**
+     * @param _post - Sends messages to the panel's webview
+     * @param _progress - Where quiz scores are saved, next to the steps
+     * @param _lessons - Provides the lesson pack the quizzes are in
+     * @param _sandbox - Whether the learner is practicing in the sandbox (tracked separately)
+     */
+    constructor(
+        private readonly _post: PostMessage,
+        private readonly _progress: ProgressStore,
+        private readonly _lessons: LessonLibrary,
+        private readonly _sandbox: Sandbox
+    ) {}
+
+    /** Forgets the answers so far (the panel was drawn again, so every quiz starts over) */
+    public clear(): void {
+        this._answers.clear();
+    }
+
+    /**
+     * Checks one quiz answer and tells the card whether it was right.
+     * Once every question is answered, the score is saved with the step's
+     * progress — which can unlock the next lesson (see `requireQuizzes`).
+     */
+    private async _answer(stepId: string, questionIndex: number, answer: QuizAnswer | undefined): Promise<void> {
+        const pack = this._lessons.getActivePack();
+        const progressKey = getProgressKey(pack.id, getTargetRepo(), this._sandbox.isActive);
+        const quiz = findStep(pack, stepId)?.step.quiz;
+        const question = quiz?.[questionIndex];
+        // Quizzes are for steps that have been done
+        if (!quiz || !question || answer === undefined || !this._progress.isComplete(progressKey, stepId)) {
+            return;
+        }
+
+        const answers = this._answers.get(stepId) ?? [];
+        answers[questionIndex] = checkAnswer(question, answer);
+        this._answers.set(stepId, answers);
+        this._post({
+            type: "quizFeedback",
+            stepId,
+            questionIndex,
+            correct: answers[questionIndex],
+            rightAnswer: describeAnswer(question),
+            explanation: question.explanation,
+        });
+
+        // filter() skips the questions that haven't been answered yet
+        if (answers.filter(() => true).length < quiz.length) {
+            return;
+        }
+        this._answers.delete(stepId);
+        const correct = answers.filter(Boolean).length;
+        this._post({ type: "quizScore", stepId, correct, total: quiz.length });
+        await this._progress.recordQuizScore(progressKey, stepId, correct, quiz.length);
+    }
+
+    /** Starts a step's quiz over, with the "order" questions shuffled again */
+    private _retry(stepId: string): void {
+        const quiz = findStep(this._lessons.getActivePack(), stepId)?.step.quiz ?? [];
+        this._answers.delete(stepId);
+        this._post({
+            type: "quizReset",
+            stepId,
+            orders: quiz.map((question) => (question.type === "order" ? shuffleItems(question.items.length) : null)),
+        });
+    }
+}
+
+// =============================================================
+// HTML, CSS and JavaScript
+// =============================================================
+
+/**
+ * Generates a step's "Check your understanding" quiz, which appears
+ * once the step is done. Choices are buttons; "order" questions start
+ * shuffled, with ↑ and ↓ buttons to move the items around.
+ *
+ * @param done - Whether the step is done (the quiz is hidden until it is)
+ * @param score - The best score so far, if the quiz has been taken
+ */
+export function getQuizHtml(step: WalkthroughStep, done: boolean, score: QuizScore | undefined): string {
+    if (!step.quiz?.length) {
+        return "";
+    }
+
+    const questionsHtml = step.quiz.map((question, index) => {
+        const id = `${step.id}-${index}`;
+        const commandHtml =
+            question.type === "output" && question.command
+                ? `<div class="step-command quiz-command">${escapeHtml(question.command)}</div>`
+                : "";
+        return /*html*/ `
+            <div class="quiz-question" id="quiz-question-${id}">
+                <p class="quiz-prompt">${escapeHtml(question.question)}</p>
+                ${commandHtml}
+                ${getAnswerHtml(step.id, index, question)}
+                <p class="quiz-feedback" id="quiz-feedback-${id}"></p>
+            </div>`;
+    });
+
+    return /*html*/ `
+            <div class="step-quiz" id="quiz-${step.id}"${done ? "" : ' style="display: none;"'}>
+                <p class="step-quiz-title">
+                    Check your understanding
+                    <span class="step-quiz-best" id="quiz-best-${step.id}">${getBestLabel(score)}</span>
+                </p>
+                ${questionsHtml.join("")}
+                <div class="step-quiz-result" id="quiz-result-${step.id}"></div>
+            </div>`;
+}
+
+/** The buttons for answering one quiz question */
+function getAnswerHtml(stepId: string, index: number, question: QuizQuestion): string {
+    if (question.type !== "order") {
+        return question.choices
+            .map(
+                (choice, c) => /*html*/ `
+                <button class="quiz-choice" onclick="answerQuiz('${stepId}', ${index}, ${c})">
+                    ${escapeHtml(choice)}
+                </button>`
+            )
+            .join("");
+    }
+
+    const items = shuffleItems(question.items.length).map(
+        (item) => /*html*/ `
+                <li data-item="${item}">
+                    <span>${escapeHtml(question.items[item])}</span>
+                    <button class="quiz-move" onclick="moveQuizItem(this, -1)" title="Move up">↑</button>
+                    <button class="quiz-move" onclick="moveQuizItem(this, 1)" title="Move down">↓</button>
+                </li>`
+    );
+    return /*html*/ `
+                <ol class="quiz-order" id="quiz-order-${stepId}-${index}">${items.join("")}</ol>
+                <button class="quiz-choice quiz-check" onclick="answerOrder('${stepId}', ${index})">
+                    Check the order
+                </button>`;
+}
+
+/** Returns a label like "Best: 2/3", or "" if the quiz hasn't been taken */
+function getBestLabel(score: QuizScore | undefined): string {
+    return score ? `Best: ${score.correct}/${score.total}` : "";
+}
+
+const STYLES = `
+        /* ========================================
+           QUIZZES
+           "Check your understanding", under a finished step.
+           ======================================== */
+        .step-quiz {
+            margin-top: 10px;
+            padding-top: 8px;
+            border-top: 1px solid var(--vscode-panel-border);
+        }
+
+        .step-quiz-title {
+            display: flex;
+            justify-content: space-between;
+            margin: 0 0 6px 0;
+            font-weight: bold;
+        }
+
+        .step-quiz-best {
+            font-weight: normal;
+            opacity: 0.75;
+        }
+
+        .quiz-question {
+            margin-bottom: 10px;
+        }
+
+        .quiz-prompt {
+            margin: 0 0 6px 0;
+        }
+
+        .quiz-command {
+            margin-bottom: 6px;
+        }
+
+        .quiz-choice {
+            display: block;
+            width: 100%;
+            text-align: left;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: 1px solid transparent;
+            border-radius: 4px;
+            padding: 4px 10px;
+            margin-bottom: 4px;
+            cursor: pointer;
+        }
+
+        .quiz-choice:hover:not(:disabled) {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+
+        .quiz-choice:disabled {
+            cursor: default;
+            opacity: 0.6;
+        }
+
+        /* The learner's pick stays readable after the buttons are disabled */
+        .quiz-choice.quiz-chosen {
+            opacity: 1;
+            border-color: var(--vscode-focusBorder);
+        }
+
+        .quiz-check {
+            width: auto;
+        }
+
+        .quiz-order {
+            margin: 0 0 6px 0;
+            padding-left: 20px;
+        }
+
+        .quiz-order li {
+            margin-bottom: 2px;
+        }
+
+        .quiz-move {
+            background: none;
+            border: none;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            padding: 0 4px;
+        }
+
+        .quiz-move:disabled {
+            visibility: hidden;
+        }
+
+        .quiz-feedback, .step-quiz-result {
+            margin: 4px 0 0 0;
+            font-size: 0.9em;
+            white-space: pre-wrap;
+        }`;
+
+const SCRIPT = `
+        /**
+         * Called when a quiz answer is clicked. The extension checks it
+         * and replies with "quizFeedback". Each question is answered once
+         * per attempt, so its buttons are disabled until "Try again".
+         *
+         * @param {string} stepId - The step's unique ID
+         * @param {number} questionIndex - Which of the step's questions
+         * @param {number | number[]} answer - The choice's index, or the
+         *     items' indices in the order the learner put them
+         */
+        function answerQuiz(stepId, questionIndex, answer) {
+            const question = document.getElementById('quiz-question-' + stepId + '-' + questionIndex);
+            question.querySelectorAll('button').forEach((button) => {
+                button.disabled = true;
+            });
+            if (typeof answer === 'number') {
+                question.querySelectorAll('.quiz-choice')[answer].classList.add('quiz-chosen');
+            }
+            vscode.postMessage({ type: 'quizAnswer', stepId: stepId, questionIndex: questionIndex, answer: answer });
+        }
+
+        /** Called by "Check the order": answers with the items as they're arranged now */
+        function answerOrder(stepId, questionIndex) {
+            const items = document.querySelectorAll('#quiz-order-' + stepId + '-' + questionIndex + ' li');
+            answerQuiz(stepId, questionIndex, Array.from(items, (item) => Number(item.dataset.item)));
+        }
+
+        /**
+         * Moves an "order" question's item up or down one place.
+         *
+         * @param {HTMLElement} button - The clicked ↑ or ↓ button
+         * @param {number} direction - -1 for up, 1 for down
+         */
+        function moveQuizItem(button, direction) {
+            const item = button.closest('li');
+            if (direction < 0 && item.previousElementSibling) {
+                item.previousElementSibling.before(item);
+            } else if (direction > 0 && item.nextElementSibling) {
+                item.nextElementSibling.after(item);
+            }
+        }
+
+        /** Shows how an attempt at a quiz went, with a "Try again" button */
+        function showQuizScore(stepId, correct, total) {
+            const result = document.getElementById('quiz-result-' + stepId);
+            const passed = correct === total;
+            result.className = 'step-quiz-result ' + (passed ? 'status-success' : 'status-attention');
+            result.textContent = passed
+                ? 'All ' + total + ' right — quiz passed! '
+                : 'You got ' + correct + ' of ' + total + ' right. ';
+
+            const retry = document.createElement('button');
+            retry.className = 'link-button';
+            retry.textContent = 'Try again';
+            retry.onclick = () => vscode.postMessage({ type: 'retryQuiz', stepId: stepId });
+            result.append(retry);
+        }
+
+        /**
+         * Clears a quiz's answers for another attempt.
+         *
+         * @param {string} stepId - The step's unique ID
+         * @param {Array} orders - A fresh shuffle for each "order" question (null for the others)
+         */
+        function resetQuiz(stepId, orders) {
+            const quiz = document.getElementById('quiz-' + stepId);
+            quiz.querySelectorAll('button').forEach((button) => {
+                button.disabled = false;
+                button.classList.remove('quiz-chosen');
+            });
+            quiz.querySelectorAll('.quiz-feedback').forEach((feedback) => {
+                feedback.className = 'quiz-feedback';
+                feedback.textContent = '';
+            });
+            document.getElementById('quiz-result-' + stepId).textContent = '';
+
+            orders.forEach((order, index) => {
+                const list = document.getElementById('quiz-order-' + stepId + '-' + index);
+                if (order && list) {
+                    const items = Array.from(list.children);
+                    list.replaceChildren(...order.map((item) => items.find((li) => li.dataset.item === String(item))));
+                }
+            });
+        }
+
+        // A step's quiz: an answer was checked, an attempt finished, or a new one started
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+
+            // --- Handle quizzes ---
+            if (message.type === 'quizFeedback') {
+                const id = message.stepId + '-' + message.questionIndex;
+                const feedback = document.getElementById('quiz-feedback-' + id);
+                feedback.className = 'quiz-feedback ' + (message.correct ? 'status-success' : 'status-error');
+                feedback.textContent = message.correct
+                    ? 'Right! ' + message.explanation
+                    : 'Not quite. The answer: ' + message.rightAnswer + '\\n' + message.explanation;
+                return;
+            }
+            if (message.type === 'quizScore') {
+                showQuizScore(message.stepId, message.correct, message.total);
+                return;
+            }
+            if (message.type === 'quizReset') {
+                resetQuiz(message.stepId, message.orders);
+                return;
+            }
+        });`;
@@ -0,0 +1,270 @@
+/**
+ * recovery.ts — Saves "recovery points" before the Undo center changes anything.
+ *
+ * WHY?
+ *   Undoing is itself a change, and some undos throw work away ("discard
+ *   my changes to this file"). If the learner picks the wrong one, they
+ *   need a way back. So before any undo that moves a branch or touches
+ *   files, we write down how things were — a recovery point — and the
+ *   Undo section offers to restore it.
+ *
+ * TWO KINDS OF RECOVERY POINT:
+ *   - "commit" → where the branch pointed before it was moved (undoing a
+ *                commit, rewording a message). Git never deletes a commit
+ *                straight away: the reflog (`git reflog`) remembers every
+ *                place HEAD has been for about 90 days. We just remember
+ *                the commit's hash, and restoring moves the branch back
+ *                with `git reset --soft` (which never touches your files).
+ *   - "files"  → a snapshot of your changed files, taken with
+ *                `git stash create` and saved with `git stash store` — so
+ *                it also shows up in `git stash list`. Your files are
+ *                left exactly as they were while the snapshot is taken.
+ *
+ * Restoring a point saves a new recovery point first, so a restore can be
+ * undone too.
+ *
+ * The list is kept in workspaceState (like progress.ts), per repository.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { queryGit, runGitCommand, GitCommandResult } from "./gitCommands";
+
+/** The key recovery points are saved under in workspaceState */
+const STORAGE_KEY = "gitHelper.recoveryPoints";
+
+/** How many recovery points to keep per repository (oldest are dropped) */
+const MAX_POINTS_PER_REPO = 20;
+
+// =============================================================
+// Types
+// =============================================================
+
+/** What a recovery point can bring back (see the top of this file) */
+export type RecoveryKind = "commit" | "files";
+
+/**
+ * How things were before an undo. Saved as plain JSON in workspaceState.
+ */
+export interface RecoveryPoint {
+    /** Unique identifier (used by the webview's "Restore" buttons) */
+    id: string;
+
+    /** The repository it belongs to */
+    repo: string;
+
+    kind: RecoveryKind;
+
+    /** What was about to happen, e.g. "Before undoing commit a1b2c3d (Add login page)" */
+    description: string;
+
+    /** When it was saved (milliseconds since 1970, like Date.now()) */
+    createdAt: number;
+
+    /** "commit": the commit HEAD was on. "files": the stash commit with the snapshot. */
+    sha: string;
+
+    /** "commit": the branch that was moved (undefined if HEAD was detached) */
+    branch?: string;
+
+    /** "files": the files whose changes were saved */
+    paths?: string[];
+}
+
+// =============================================================
+// The Store
+// =============================================================
+
+/**
+ * Creates, lists and restores recovery points.
+ */
+export class RecoveryStore implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Fires when a recovery point is saved or forgotten */
+    public readonly onDidChange = this._onDidChange.event;
+
+    /**
+     * @param _state - Where to keep the list (normally context.workspaceState)
+     * @param _outputChannel - Where to log what was saved and restored
+     */
+    constructor(
+        private readonly _state: vscode.Memento,
+        private readonly _outputChannel: vscode.OutputChannel
+    ) {}
+
+    /** Returns a repository's recovery points, newest first */
+    public getPoints(repo: string): RecoveryPoint[] {
+        return this._read().filter((point) => point.repo === repo);
+    }
+
+    /** Finds a recovery point by its ID */
+    public getPoint(id: string): RecoveryPoint | undefined {
+        return this._read().find((point) => point.id === id);
+    }
+
+    /**
+     * Remembers where HEAD is, before a branch is moved.
+     *
+     * @returns The new point, or undefined if there's no commit to remember
+     */
+    public async saveHead(repo: string, description: string): Promise<RecoveryPoint | undefined> {
+        const head = await queryGit(["rev-parse", "--verify", "--quiet", "HEAD"], repo);
+        if (!head.success) {
+            return undefined;
+        }
+        const branch = await queryGit(["symbolic-ref", "--quiet", "--short", "HEAD"], repo);
+
+        this._outputChannel.appendLine(
+            `Recovery point saved: HEAD was at ${head.output.slice(0, 7)}` +
+                (branch.success ? ` on ${branch.output}` : "") +
+                ". (`git reflog` remembers it too.)"
+        );
+        return this._add({
+            repo,
+            kind: "commit",
+            description,
+            sha: head.output,
+            branch: branch.success ? branch.output : undefined,
+        });
+    }
+
+    /**
+     * Saves a snapshot of the changed files as a stash entry, without
+     * changing anything in the working folder.
+     *
+     * @param paths - The files the caller is about to change
+     * @returns The new point, or a failed result if no snapshot could be
+     *          taken (callers should then NOT go ahead with the change)
+     */
+    public async saveFiles(
+        repo: string,
+        description: string,
+        paths: string[]
+    ): Promise<RecoveryPoint | GitCommandResult> {
+        // `git stash create` makes the stash commit but doesn't touch
+        // your files or the stash list — it just prints the commit's hash
+        const snapshot = await queryGit(["stash", "create", description], repo);
+        if (!snapshot.success || !snapshot.output) {
+            return {
+                success: false,
+                output: snapshot.output || "There were no changes to save, so nothing was changed.",
+            };
+        }
+
+        // Add it to `git stash list`, so it's easy to find from the terminal too
+        const stored = await runGitCommand(
+            ["stash", "store", "--message", `Git Helper recovery point: ${description}`, snapshot.output],
+            this._outputChannel,
+            repo
+        );
+        if (!stored.success) {
+            return stored;
+        }
+        return this._add({ repo, kind: "files", description, sha: snapshot.output, paths });
+    }
+
+    /**
+     * Puts things back the way they were when the point was saved.
+     * Saves a new recovery point of the current state first.
+     *
+     * @returns The result of the restore commands
+     */
+    public async restore(point: RecoveryPoint): Promise<GitCommandResult> {
+        return point.kind === "commit" ? this._restoreHead(point) : this._restoreFiles(point);
+    }
+
+    /** Forgets a recovery point (the commit or stash entry stays in Git) */
+    public async forget(id: string): Promise<void> {
+        await this._write(this._read().filter((point) => point.id !== id));
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    // =============================================================
+    // Restoring
+    // =============================================================
+
+    /** Moves the branch back to the saved commit, keeping your files as they are */
+    private async _restoreHead(point: RecoveryPoint): Promise<GitCommandResult> {
+        // Moving a different branch to this commit would make a real mess
+        const branch = await queryGit(["symbolic-ref", "--quiet", "--short", "HEAD"], point.repo);
+        const current = branch.success ? branch.output : undefined;
+        if (current !== point.branch) {
+            return {
+                success: false,
+                output: point.branch
+                    ? `This recovery point is for the branch "${point.branch}". Switch to it first ` +
+                      `(git switch ${point.branch}), then restore again.`
+                    : "This recovery point was saved while HEAD was detached (not on a branch), " +
+                      "so it can't be restored onto a branch.",
+            };
+        }
+
+        await this.saveHead(point.repo, `Before restoring: ${point.description}`);
+        return runGitCommand(["reset", "--soft", point.sha], this._outputChannel, point.repo);
+    }
+
+    /** Copies the saved files back out of the snapshot */
+    private async _restoreFiles(point: RecoveryPoint): Promise<GitCommandResult> {
+        const paths = point.paths ?? [];
+
+        // Keep whatever is in those files now, in case this restore was a mistake too.
+        // (No changes at all is fine — then there's nothing to lose.)
+        const status = await queryGit(["status", "--porcelain", "--", ...paths], point.repo);
+        if (status.output !== "") {
+            const saved = await this.saveFiles(point.repo, `Before restoring: ${point.description}`, paths);
+            if ("success" in saved) {
+                return saved;
+            }
+        }
+
+        let result: GitCommandResult = { success: true, output: "" };
+        for (const file of paths) {
+            // A file that was deleted when the snapshot was taken isn't in it —
+            // "restoring" it means deleting it again
+            const inSnapshot = await queryGit(["cat-file", "-e", `${point.sha}:${file}`], point.repo);
+            if (inSnapshot.success) {
+                result = await runGitCommand(
+                    ["restore", `--source=${point.sha}`, "--worktree", "--", file],
+                    this._outputChannel,
+                    point.repo
+                );
+            } else {
+                await fs.promises.rm(path.join(point.repo, file), { force: true });
+                this._outputChannel.appendLine(`Deleted ${file} (it was deleted when the recovery point was saved).`);
+            }
+            if (!result.success) {
+                return result;
+            }
+        }
+        return result;
+    }
+
+    // =============================================================
+    // Storage Helpers
+    // =============================================================
+
+    private async _add(point: Omit<RecoveryPoint, "id" | "createdAt">): Promise<RecoveryPoint> {
+        const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const saved: RecoveryPoint = { ...point, id, createdAt: Date.now() };
+
+        // Keep the newest few per repository
+        let count = 0;
+        const kept = [saved, ...this._read()].filter((p) => p.repo !== point.repo || ++count <= MAX_POINTS_PER_REPO);
+        await this._write(kept);
+        return saved;
+    }
+
+    private _read(): RecoveryPoint[] {
+        return this._state.get<RecoveryPoint[]>(STORAGE_KEY, []);
+    }
+
+    private async _write(points: RecoveryPoint[]): Promise<void> {
+        await this._state.update(STORAGE_KEY, points);
+        this._onDidChange.fire();
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * repoState.ts — Figures out which walkthrough steps are already done
+ * by looking at the repository itself.
+ *
+ * WHY DETECT STEPS?
+ *   Many people open the walkthrough in a project that already has a
+ *   repo, commits, and a GitHub remote. Asking them to click through
+ *   "git init" again is confusing. Instead we ask Git a few quick,
+ *   read-only questions and tick off the steps that are clearly done.
+ *
+ * All the questions here use queryGit(), so nothing shows up in the
+ * Output Channel — the user didn't ask for these commands.
+ */
+
+import { queryGit } from "./gitCommands";
+import { RepoCondition, WalkthroughStep } from "./steps";
+
+// =============================================================
+// Condition Checks
+// =============================================================
+
+/**
+ * Checks whether a single condition is true for the repo in `cwd`.
+ *
+ * @param condition - Which fact to check (see RepoCondition in steps.ts)
+ * @param cwd - The folder to inspect
+ */
+export async function isConditionMet(
+    condition: RepoCondition,
+    cwd: string
+): Promise<boolean> {
+    switch (condition) {
+        case "gitInstalled":
+            return (await queryGit(["--version"], cwd)).success;
+
+        case "repoInitialized":
+            // Asks Git rather than looking for a .git folder in `cwd`, so a
+            // folder inside a repo (not just its top folder) counts too.
+            return (await queryGit(["rev-parse", "--is-inside-work-tree"], cwd)).output === "true";
+
+        case "hasCommits":
+            // HEAD only resolves to a commit once the first commit exists.
+            return (await queryGit(["rev-parse", "--verify", "HEAD"], cwd)).success;
+
+        case "originConfigured":
+            return (await queryGit(["remote", "get-url", "origin"], cwd)).success;
+
+        case "hasUpstream":
+            // "@{u}" is Git shorthand for "the upstream of this branch".
+            // It only resolves after `git push -u` (or `git branch -u`).
+            return (
+                await queryGit(
+                    ["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"],
+                    cwd
+                )
+            ).success;
+
+        case "identityConfigured":
+            // Without a scope flag, `git config` reads the value Git will actually use
+            // (the repo's own setting if there is one, otherwise the global one).
+            return (
+                (await queryGit(["config", "user.name"], cwd)).success &&
+                (await queryGit(["config", "user.email"], cwd)).success
+            );
+    }
+}
+
+// =============================================================
+// Step Detection
+// =============================================================
+
+/**
+ * Returns the IDs of steps whose `completedWhen` condition is already true.
+ *
+ * Steps without a `completedWhen` condition are never detected — they
+ * only count as done once the user runs them.
+ *
+ * @param steps - The steps to check
+ * @param cwd - The folder to inspect
+ */
+export async function detectCompletedSteps(
+    steps: WalkthroughStep[],
+    cwd: string
+): Promise<string[]> {
+    const checks = steps.map(async (step) => {
+        if (!step.completedWhen) {
+            return undefined;
+        }
+        return (await isConditionMet(step.completedWhen, cwd)) ? step.id : undefined;
+    });
+
+    const results = await Promise.all(checks);
+    return results.filter((id): id is string => id !== undefined);
+}
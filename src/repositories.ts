@@ -0,0 +1,272 @@
+/**
+ * repositories.ts — Finds the Git repositories in the workspace and keeps
+ * track of which one Git Helper is working in.
+ *
+ * WHY?
+ *   "The folder you opened" and "the repository" aren't always the same:
+ *
+ *     - A multi-root workspace has several folders, each maybe its own repo.
+ *     - A folder can hold repos inside it (e.g. projects/website and
+ *       projects/api, each with its own .git).
+ *     - The folder you opened can be INSIDE a repo (you opened
+ *       my-app/docs, but .git is in my-app).
+ *
+ *   Running every command in the first workspace folder gets all three
+ *   wrong — sometimes without anyone noticing which repo a commit went to.
+ *
+ * WHICH REPO IS ACTIVE?
+ *   - When you switch to a file in the editor, the repo that file is in
+ *     becomes active (the innermost one, if repos are nested).
+ *   - "Git Helper: Choose Repository..." lets you pick one yourself.
+ *   The choice is remembered per workspace (in workspaceState). The
+ *   walkthrough panel's header and every Output Channel entry say which
+ *   repo a command ran in.
+ *
+ * HOW ARE REPOS FOUND?
+ *   For each workspace folder:
+ *     1. `git rev-parse --show-toplevel` — the repo the folder is in
+ *        (which may be the folder itself, or one above it)
+ *     2. A look a few folders down for anything containing ".git" — nested
+ *        repos. (A ".git" can be a folder, or a file for worktrees and
+ *        submodules.) node_modules and hidden folders are skipped.
+ *   A folder with no repo in or around it is still listed, so the first
+ *   lesson (`git init`) has somewhere to run.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { queryGit, setActiveRepo } from "./gitCommands";
+
+/** The key the chosen repository's path is saved under in workspaceState */
+const STORAGE_KEY = "gitHelper.activeRepository";
+
+/** How many folders down to look for nested repositories */
+const SCAN_DEPTH = 3;
+
+/** Folders never worth looking inside (they're big, and never hold your repos) */
+const SKIPPED_FOLDERS = new Set(["node_modules", "bower_components", "vendor", "out", "dist", "build"]);
+
+/**
+ * A place Git commands can run: a repository, or a workspace folder that
+ * isn't one yet.
+ */
+export interface Repository {
+    /** The repository's top folder (or the workspace folder, if it isn't a repo) */
+    root: string;
+
+    /** The folder's name, e.g. "my-app" */
+    name: string;
+
+    /** False for a workspace folder that has no repository yet */
+    isRepo: boolean;
+
+    /** The workspace folder it was found in */
+    workspaceFolder: vscode.WorkspaceFolder;
+}
+
+/**
+ * Discovers the workspace's repositories and remembers the active one.
+ * Created once in extension.ts.
+ */
+export class RepositoryManager implements vscode.Disposable {
+    private _repositories: Repository[] = [];
+
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Fires when the active repository changes, or the list of them does */
+    public readonly onDidChange = this._onDidChange.event;
+
+    private readonly _disposables: vscode.Disposable[] = [this._onDidChange];
+
+    /**
+     * @param _state - Where to remember the chosen repository (normally context.workspaceState)
+     * @param _outputChannel - Where to log when the active repository changes
+     */
+    constructor(
+        private readonly _state: vscode.Memento,
+        private readonly _outputChannel: vscode.OutputChannel
+    ) {
+        // Use the remembered repo straight away, before the scan finishes,
+        // so nothing runs in the wrong place in the meantime.
+        const saved = this._state.get<string>(STORAGE_KEY);
+        if (saved && fs.existsSync(saved)) {
+            setActiveRepo(saved);
+        }
+
+        this._disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => void this.discover()),
+            vscode.window.onDidChangeActiveTextEditor((editor) => void this._followEditor(editor))
+        );
+    }
+
+    public dispose(): void {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    /** Everything found by the last scan */
+    public getRepositories(): Repository[] {
+        return this._repositories;
+    }
+
+    /** The repository commands run in (outside sandbox mode) */
+    public get active(): Repository | undefined {
+        const saved = this._state.get<string>(STORAGE_KEY);
+        return this._repositories.find((repo) => repo.root === saved) ?? this._repositories[0];
+    }
+
+    // =============================================================
+    // Finding Repositories
+    // =============================================================
+
+    /**
+     * Scans every workspace folder for repositories, then makes sure the
+     * active one is still among them.
+     */
+    public async discover(): Promise<void> {
+        const found = new Map<string, Repository>();
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const add = (root: string, isRepo: boolean) => {
+                if (!found.has(root)) {
+                    found.set(root, { root, name: path.basename(root), isRepo, workspaceFolder: folder });
+                }
+            };
+
+            // 1. The repo the folder is in (the folder itself, or a parent)
+            const toplevel = await queryGit(["rev-parse", "--show-toplevel"], folder.uri.fsPath);
+            if (toplevel.success) {
+                add(path.normalize(toplevel.output), true);
+            }
+
+            // 2. Repos further down
+            const nested = await findNestedRepos(folder.uri.fsPath, SCAN_DEPTH);
+            nested.forEach((root) => add(root, true));
+
+            // 3. No repo at all — keep the folder, so `git init` can run there
+            if (!toplevel.success && nested.length === 0) {
+                add(folder.uri.fsPath, false);
+            }
+        }
+        this._repositories = [...found.values()];
+
+        // A file may already be open — it decides, unless a choice was
+        // remembered from last time
+        const saved = this._state.get<string>(STORAGE_KEY);
+        if (!this._repositories.some((repo) => repo.root === saved)) {
+            const fromEditor = this._findRepoFor(vscode.window.activeTextEditor);
+            const first = this._repositories.find((repo) => repo.isRepo) ?? this._repositories[0];
+            await this._state.update(STORAGE_KEY, (fromEditor ?? first)?.root);
+        }
+        setActiveRepo(this.active?.root);
+        this._onDidChange.fire();
+    }
+
+    // =============================================================
+    // Choosing the Active Repository
+    // =============================================================
+
+    /**
+     * Makes a repository the active one, and remembers the choice.
+     */
+    public async select(repo: Repository): Promise<void> {
+        if (repo.root === this.active?.root) {
+            return;
+        }
+        await this._state.update(STORAGE_KEY, repo.root);
+        setActiveRepo(repo.root);
+        this._outputChannel.appendLine(`Now working in ${repo.name} (${repo.root}).\n`);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Lets the user pick the repository to work in from a QuickPick.
+     * Scans again first, in case a repo was created or cloned since.
+     */
+    public async pickRepository(): Promise<void> {
+        await this.discover();
+        if (this._repositories.length === 0) {
+            vscode.window.showErrorMessage("No folder is open in VS Code. Please open a folder first (File > Open Folder).");
+            return;
+        }
+
+        const active = this.active;
+        const items = this._repositories.map((repo) => ({
+            label: `$(${repo.isRepo ? "repo" : "folder"}) ${repo.name}`,
+            description: [
+                repo.root === active?.root ? "active" : undefined,
+                repo.isRepo ? undefined : "not a repository yet",
+            ]
+                .filter(Boolean)
+                .join(" · "),
+            detail: repo.root,
+            repo,
+        }));
+        const picked = await vscode.window.showQuickPick(items, {
+            title: "Choose Repository",
+            placeHolder: "Which repository should Git Helper work in?",
+            matchOnDetail: true,
+        });
+        if (picked) {
+            await this.select(picked.repo);
+        }
+    }
+
+    /** Makes the repo of the file just opened in the editor the active one */
+    private async _followEditor(editor: vscode.TextEditor | undefined): Promise<void> {
+        const repo = this._findRepoFor(editor);
+        if (repo) {
+            await this.select(repo);
+        }
+    }
+
+    /**
+     * Finds the repository an editor's file belongs to — the innermost
+     * one, if repos are nested. Undefined for files outside them all (and
+     * for things that aren't files on disk, like the Output panel).
+     */
+    private _findRepoFor(editor: vscode.TextEditor | undefined): Repository | undefined {
+        if (editor?.document.uri.scheme !== "file") {
+            return undefined;
+        }
+        const file = editor.document.uri.fsPath;
+        return this._repositories
+            .filter((repo) => repo.isRepo && isInside(file, repo.root))
+            .sort((a, b) => b.root.length - a.root.length)[0];
+    }
+}
+
+/** True if `file` is `folder` or somewhere inside it */
+function isInside(file: string, folder: string): boolean {
+    const relative = path.relative(folder, file);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Looks up to `depth` folders below `folder` (not `folder` itself) for
+ * folders that contain a ".git" — i.e. repository roots.
+ */
+async function findNestedRepos(folder: string, depth: number): Promise<string[]> {
+    if (depth === 0) {
+        return [];
+    }
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(folder, { withFileTypes: true });
+    } catch {
+        return []; // unreadable — skip it
+    }
+
+    const repos: string[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_FOLDERS.has(entry.name)) {
+            continue;
+        }
+        const child = path.join(folder, entry.name);
+        if (fs.existsSync(path.join(child, ".git"))) {
+            repos.push(child);
+        }
+        // Keep going — repos can be nested inside repos
+        repos.push(...(await findNestedRepos(child, depth - 1)));
+    }
+    return repos;
+}
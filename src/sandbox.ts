@@ -0,0 +1,377 @@
+/**
+ * sandbox.ts — A throwaway practice repository for trying Git safely.
+ *
+ * WHY A SANDBOX?
+ *   The walkthrough runs real commands. Clicking "Run Step" on
+ *   "Stage Your Files" in your actual project really runs `git add .`,
+ *   and "Commit" really commits it. While learning, it's much nicer to
+ *   practice somewhere that doesn't matter.
+ *
+ * WHAT'S IN THE SANDBOX?
+ *   Two folders inside the extension's own storage folder (one sandbox
+ *   per workspace, so resetting it in one window can't wipe another's):
+ *
+ *     sandboxes/<id>/
+ *     ├── practice/     ← an empty folder — the walkthrough runs here
+ *     └── origin.git/   ← a "bare" repository that plays the part of GitHub
+ *
+ *   A bare repo has no working files, only Git's history — exactly what
+ *   GitHub stores on its servers. Because it's just a folder, you can
+ *   add it as a remote, push to it and pull from it completely offline.
+ *
+ * While sandbox mode is on, every Git command the extension runs (the
+ * walkthrough AND the quick actions) targets the practice folder.
+ *
+ * The sandbox can also set up a merge conflict on purpose (see
+ * practiceConflict()), since waiting for a real one to happen is no way
+ * to learn how to fix it.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { queryGit, runGitCommand, setRepoOverride } from "./gitCommands";
+import { getRepoStatus } from "./gitStatus";
+
+/** The key "is sandbox mode on?" is saved under in workspaceState */
+const ACTIVE_KEY = "gitHelper.sandboxActive";
+
+/** The key this workspace's sandbox folder name is saved under in workspaceState */
+const ID_KEY = "gitHelper.sandboxId";
+
+/**
+ * A file we put in every sandbox folder we create. A folder without it
+ * wasn't made by us, so we never use it.
+ */
+const MARKER_FILE = ".git-helper-sandbox";
+
+/** The file the practice conflict happens in */
+const CONFLICT_FILE = "recipe.txt";
+
+/** The practice conflict's file: line 4 is the one both branches change */
+const RECIPE_LINES = ["Pancakes", "", "- 1 cup of flour", "- 1 cup of milk", "- 1 egg", "- a pinch of salt"];
+
+/**
+ * Who the practice conflict's commits are made by. Setting it with -c
+ * means the scenario works even before the learner has set up their own
+ * name and email — and makes it clear these commits aren't theirs.
+ */
+const TEAMMATE = ["-c", "user.name=Sam (practice teammate)", "-c", "user.email=sam@sandbox.invalid"];
+const YOU_EARLIER = ["-c", "user.name=You (practice setup)", "-c", "user.email=you@sandbox.invalid"];
+
+/**
+ * Creates, resets and switches to/from the practice sandbox.
+ */
+export class Sandbox implements vscode.Disposable {
+    /** The folder that holds everything the sandbox creates */
+    public readonly rootDir: string;
+
+    /** The practice repository — commands run here in sandbox mode */
+    public readonly practiceDir: string;
+
+    /** The bare repository that acts as "origin" */
+    public readonly originDir: string;
+
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Fires when sandbox mode is turned on or off */
+    public readonly onDidChange = this._onDidChange.event;
+
+    private readonly _onDidReset = new vscode.EventEmitter<void>();
+
+    /** Fires after the sandbox is wiped and recreated (so progress can be cleared) */
+    public readonly onDidReset = this._onDidReset.event;
+
+    /**
+     * @param _state - Where to remember whether sandbox mode is on (and
+     *                 which sandbox folder is this workspace's)
+     * @param storageDir - The extension's storage folder (context.globalStorageUri),
+     *                     which only the user can write to
+     * @param _outputChannel - Where to log the setup commands
+     */
+    constructor(
+        private readonly _state: vscode.Memento,
+        storageDir: string,
+        private readonly _outputChannel: vscode.OutputChannel
+    ) {
+        // Each workspace gets a sandbox of its own, named by a random ID
+        let id = this._state.get<string>(ID_KEY);
+        if (!id) {
+            id = randomBytes(8).toString("hex");
+            void this._state.update(ID_KEY, id);
+        }
+        this.rootDir = path.join(storageDir, "sandboxes", id);
+        this.practiceDir = path.join(this.rootDir, "practice");
+        this.originDir = path.join(this.rootDir, "origin.git");
+
+        // Sandbox mode survives a reload, as long as the folder is still there
+        if (this.isActive && fs.existsSync(this.practiceDir)) {
+            setRepoOverride(this.practiceDir);
+        } else if (this.isActive) {
+            void this._state.update(ACTIVE_KEY, false);
+        }
+    }
+
+    /** True while commands are being sent to the sandbox */
+    public get isActive(): boolean {
+        return this._state.get<boolean>(ACTIVE_KEY, false);
+    }
+
+    // =============================================================
+    // Turning Sandbox Mode On and Off
+    // =============================================================
+
+    /**
+     * Turns sandbox mode on, creating the sandbox first if needed.
+     */
+    public async start(): Promise<void> {
+        if (!(await this._create())) {
+            return;
+        }
+
+        setRepoOverride(this.practiceDir);
+        await this._state.update(ACTIVE_KEY, true);
+        this._onDidChange.fire();
+
+        vscode.window.showInformationMessage(
+            "Sandbox mode is on. Git Helper commands now run in a practice repository, " +
+                "not your project."
+        );
+    }
+
+    /** Turns sandbox mode off — commands go back to the workspace folder */
+    public async stop(): Promise<void> {
+        setRepoOverride(undefined);
+        await this._state.update(ACTIVE_KEY, false);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Deletes everything in the sandbox and starts again from an empty folder.
+     * Asks for confirmation first, because practice commits are lost.
+     */
+    public async reset(): Promise<void> {
+        const choice = await vscode.window.showWarningMessage(
+            "Reset the sandbox? Your practice repository and its commits will be deleted " +
+                "and replaced with an empty folder.",
+            { modal: true },
+            "Reset Sandbox"
+        );
+        if (choice !== "Reset Sandbox") {
+            return;
+        }
+
+        await fs.promises.rm(this.rootDir, { recursive: true, force: true });
+        if (!(await this._create())) {
+            return;
+        }
+
+        this._onDidReset.fire();
+        vscode.window.showInformationMessage("The sandbox has been reset.");
+    }
+
+    /**
+     * Opens the practice folder in a new VS Code window, so the learner
+     * can see and edit its files with the full editor.
+     */
+    public async openInNewWindow(): Promise<void> {
+        if (!(await this._create())) {
+            return;
+        }
+        await vscode.commands.executeCommand(
+            "vscode.openFolder",
+            vscode.Uri.file(this.practiceDir),
+            { forceNewWindow: true }
+        );
+    }
+
+    /**
+     * Creates a small text file in the practice folder and opens it, so
+     * there's something to stage and commit without leaving this window.
+     */
+    public async addPracticeFile(): Promise<void> {
+        if (!(await this._create())) {
+            return;
+        }
+
+        // Pick a name that doesn't exist yet: hello.txt, hello-2.txt, ...
+        let name = "hello.txt";
+        for (let n = 2; fs.existsSync(path.join(this.practiceDir, name)); n++) {
+            name = `hello-${n}.txt`;
+        }
+
+        const filePath = path.join(this.practiceDir, name);
+        await fs.promises.writeFile(
+            filePath,
+            "Hello, Git!\nThis file lives in the Git Helper sandbox — edit it as much as you like.\n"
+        );
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+    }
+
+    /**
+     * Sets up a merge conflict in the practice repo, so the learner can
+     * practice resolving one. It plays out a typical story:
+     *
+     *   1. recipe.txt is committed on your branch
+     *   2. Your teammate changes the milk line on a branch called "teammate"
+     *   3. Meanwhile, you change the SAME line differently on your branch
+     *   4. You merge "teammate" into your branch → CONFLICT
+     *
+     * Every command is logged in the Output panel, so the learner can see
+     * how the conflict came about. Sandbox mode is switched on at the end,
+     * and the panel's "Merge Conflicts" section takes it from there.
+     */
+    public async practiceConflict(): Promise<void> {
+        if (!(await this._create())) {
+            return;
+        }
+        const repo = this.practiceDir;
+
+        // The story needs a repository with no unfinished work in it
+        const isRepo = (await queryGit(["rev-parse", "--git-dir"], repo)).success;
+        const status = isRepo ? await getRepoStatus(repo) : undefined;
+        const busy = status && status.staged.length + status.unstaged.length + status.conflicted.length > 0;
+        const merging = isRepo && (await queryGit(["rev-parse", "--verify", "--quiet", "MERGE_HEAD"], repo)).success;
+        if (busy || merging) {
+            const choice = await vscode.window.showWarningMessage(
+                "The sandbox has changes that aren't committed yet (or a merge in progress). " +
+                    "Reset the sandbox to start the conflict practice from scratch?",
+                { modal: true },
+                "Reset and Continue"
+            );
+            if (choice !== "Reset and Continue") {
+                return;
+            }
+            await fs.promises.rm(this.rootDir, { recursive: true, force: true });
+            if (!(await this._create())) {
+                return;
+            }
+            this._onDidReset.fire();
+        }
+
+        const git = (args: string[]) => runGitCommand(args, this._outputChannel, repo);
+        const writeRecipe = (milk: string) =>
+            fs.promises.writeFile(
+                path.join(repo, CONFLICT_FILE),
+                RECIPE_LINES.map((line) => (line === "- 1 cup of milk" ? `- 1 cup of ${milk}` : line)).join("\n") + "\n"
+            );
+
+        // Pick a branch name that isn't taken: teammate, teammate-2, ...
+        const branchExists = async (name: string) =>
+            (await queryGit(["rev-parse", "--verify", "--quiet", `refs/heads/${name}`], repo)).success;
+        let branch = "teammate";
+        for (let n = 2; await branchExists(branch); n++) {
+            branch = `teammate-${n}`;
+        }
+
+        this._outputChannel.appendLine("=== Setting up a practice merge conflict ===");
+        const steps: (() => Promise<{ success: boolean }>)[] = [
+            async () => (isRepo && status ? { success: true } : git(["init"])),
+            // 1. The recipe, as it is before anyone changes it
+            async () => {
+                await writeRecipe("milk");
+                await git(["add", CONFLICT_FILE]);
+                const unchanged = (await queryGit(["diff", "--cached", "--quiet"], repo)).success;
+                return unchanged ? { success: true } : git([...YOU_EARLIER, "commit", "-m", "Add the pancake recipe"]);
+            },
+            // 2. Your teammate's change, on their own branch
+            () => git(["switch", "-c", branch]),
+            async () => {
+                await writeRecipe("oat milk");
+                return git([...TEAMMATE, "commit", "-a", "-m", "Use oat milk"]);
+            },
+            // 3. Your change to the same line, back on your branch
+            () => git(["switch", "-"]),
+            async () => {
+                await writeRecipe("chocolate milk");
+                return git([...YOU_EARLIER, "commit", "-a", "-m", "Make them chocolate pancakes"]);
+            },
+        ];
+        for (const step of steps) {
+            if (!(await step()).success) {
+                vscode.window.showErrorMessage(
+                    "Couldn't set up the practice conflict. See the Output panel for details."
+                );
+                return;
+            }
+        }
+
+        // 4. The merge — this one is SUPPOSED to fail with a conflict.
+        //    (Git wants an identity before it starts a merge, even one that stops halfway.)
+        this._outputChannel.appendLine("(The next command is expected to stop with a conflict.)");
+        await git([...YOU_EARLIER, "merge", branch]);
+        if (!(await queryGit(["rev-parse", "--verify", "--quiet", "MERGE_HEAD"], repo)).success) {
+            vscode.window.showErrorMessage("Couldn't set up the practice conflict. See the Output panel for details.");
+            return;
+        }
+
+        if (!this.isActive) {
+            setRepoOverride(this.practiceDir);
+            await this._state.update(ACTIVE_KEY, true);
+        }
+        this._onDidChange.fire();
+
+        await vscode.window.showTextDocument(vscode.Uri.file(path.join(repo, CONFLICT_FILE)));
+        vscode.window.showInformationMessage(
+            `Practice conflict ready: you and your teammate both changed the milk line in ${CONFLICT_FILE}. ` +
+                "Follow the Merge Conflicts section in the Git Walkthrough panel to resolve it."
+        );
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+        this._onDidReset.dispose();
+    }
+
+    // =============================================================
+    // Setup
+    // =============================================================
+
+    /**
+     * Makes sure the practice folder and the bare "origin" repo exist.
+     *
+     * The practice folder is left EMPTY on purpose — running `git init`
+     * in it is the walkthrough's "Initialize a Repository" step.
+     *
+     * @returns true if the sandbox is ready to use
+     */
+    private async _create(): Promise<boolean> {
+        // Only use a folder we made ourselves (it has our marker file)
+        const marker = path.join(this.rootDir, MARKER_FILE);
+        if (!fs.existsSync(marker)) {
+            try {
+                await fs.promises.mkdir(path.dirname(this.rootDir), { recursive: true });
+                // Not recursive: this fails if the folder is already there
+                await fs.promises.mkdir(this.rootDir);
+                await fs.promises.writeFile(marker, "Created by Git Helper for sandbox practice.\n");
+            } catch (err) {
+                this._outputChannel.appendLine(`Couldn't create the sandbox in ${this.rootDir}: ${err}`);
+                vscode.window.showErrorMessage(
+                    `Couldn't create the sandbox: ${this.rootDir} already exists (and wasn't made by ` +
+                        "Git Helper) or can't be written to. See the Output panel for details."
+                );
+                return false;
+            }
+        }
+        await fs.promises.mkdir(this.practiceDir, { recursive: true });
+
+        if (fs.existsSync(this.originDir)) {
+            return true;
+        }
+
+        // `git init --bare <folder>` creates a repo with no working files,
+        // just like the ones GitHub keeps on its servers.
+        const result = await runGitCommand(
+            ["init", "--bare", this.originDir],
+            this._outputChannel,
+            this.rootDir
+        );
+        if (!result.success) {
+            vscode.window.showErrorMessage(
+                "Couldn't create the sandbox's practice remote. See the Output panel for details."
+            );
+        }
+        return result.success;
+    }
+}
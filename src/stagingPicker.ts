@@ -0,0 +1,183 @@
+/**
+ * stagingPicker.ts — Lets the user choose which files to stage.
+ *
+ * WHY NOT JUST `git add .`?
+ *   `git add .` stages EVERYTHING that changed — including things that
+ *   should never be committed, like a `.env` file full of passwords, a
+ *   private key, a huge video, or the whole `node_modules` folder. Once
+ *   they're committed (and especially once they're pushed), getting them
+ *   out of the history is hard.
+ *
+ *   So instead of staging blindly, we show a list of the changed files
+ *   (from gitStatus.ts) and let the user tick the ones they want. "Stage
+ *   all" is still there, but as a choice the user makes on purpose.
+ *
+ * If anything picked looks risky, we say why and ask before staging it.
+ *
+ * Used by both the "Git Helper: Add Files" command and the walkthrough's
+ * "Stage Your Files" step (any step with `flow: "stageFiles"`).
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { describeChange, getRepoStatus, StatusFile } from "./gitStatus";
+
+// =============================================================
+// Risky Files
+// =============================================================
+
+/**
+ * File name patterns that usually shouldn't be committed, and why.
+ * The first match wins. Patterns are tested against each part of the
+ * path, so `node_modules` matches `node_modules/` and `app/node_modules/x.js`.
+ */
+const RISKY_NAMES: { pattern: RegExp; reason: string }[] = [
+    { pattern: /^\.env(\..+)?$/i, reason: "may contain passwords or API keys" },
+    { pattern: /^id_(rsa|dsa|ecdsa|ed25519)$/, reason: "looks like a private SSH key" },
+    { pattern: /\.(pem|key|p12|pfx|keystore|jks)$/i, reason: "looks like a private key or certificate" },
+    { pattern: /^(credentials|secrets?)(\..+)?$/i, reason: "may contain passwords or API keys" },
+    { pattern: /^node_modules$/, reason: "installed packages — these belong in .gitignore" },
+    { pattern: /^(dist|build|out)$/, reason: "looks like build output — usually listed in .gitignore" },
+    { pattern: /^(\.DS_Store|Thumbs\.db)$/, reason: "a file your operating system creates — not part of the project" },
+];
+
+/** Example files that are MEANT to be committed, e.g. `.env.example` */
+const SAFE_NAMES = /^\.env\.(example|sample|template)$/i;
+
+/** The largest file (in MB) we stage without asking — see the gitHelper.largeFileThresholdMB setting */
+function getSizeThreshold(): number {
+    return vscode.workspace.getConfiguration("gitHelper").get<number>("largeFileThresholdMB", 5);
+}
+
+/**
+ * Returns why a file probably shouldn't be staged, or undefined if it
+ * looks fine.
+ *
+ * @param cwd - The repository root
+ * @param file - The changed file
+ */
+export async function getStagingWarning(cwd: string, file: StatusFile): Promise<string | undefined> {
+    const parts = file.path.split("/").filter((part) => part !== "");
+    for (const part of parts) {
+        if (SAFE_NAMES.test(part)) {
+            continue;
+        }
+        const risky = RISKY_NAMES.find((r) => r.pattern.test(part));
+        if (risky) {
+            return risky.reason;
+        }
+    }
+
+    // Deleted files have no size
+    const stats = await fs.promises.stat(path.join(cwd, file.path)).catch(() => undefined);
+    const thresholdMB = getSizeThreshold();
+    if (stats?.isFile() && stats.size > thresholdMB * 1024 * 1024) {
+        const sizeMB = (stats.size / (1024 * 1024)).toFixed(1);
+        return `is ${sizeMB} MB — large files make the repository slow to clone`;
+    }
+
+    return undefined;
+}
+
+// =============================================================
+// The Picker
+// =============================================================
+
+/** A file in the picker, plus the warning shown next to it (if any) */
+interface FileItem extends vscode.QuickPickItem {
+    file: StatusFile;
+    warning?: string;
+}
+
+/**
+ * Shows the list of changed files and asks which ones to stage.
+ *
+ * @param cwd - The repository root
+ * @returns The arguments for `git` — `["add", "."]` for "stage all", or
+ *          `["add", "--", ...files]` — or undefined if the user cancelled
+ *          or there was nothing to stage
+ */
+export async function pickFilesToStage(cwd: string): Promise<string[] | undefined> {
+    // Every file in a new folder is listed (and checked) on its own, so a
+    // .env or a key file inside it can't slip in unnoticed
+    const status = await getRepoStatus(cwd, true);
+    if (!status) {
+        vscode.window.showWarningMessage("This folder isn't a Git repository yet — run `git init` first.");
+        return undefined;
+    }
+
+    // Everything that has changes not yet in the staging area.
+    // (Staging a conflicted file tells Git the conflict is resolved.)
+    const files = [...status.conflicted, ...status.unstaged, ...status.untracked];
+    if (files.length === 0) {
+        vscode.window.showInformationMessage(
+            status.staged.length > 0
+                ? "Everything that changed is already staged."
+                : "There's nothing to stage — create or edit a file first."
+        );
+        return undefined;
+    }
+
+    const fileItems: FileItem[] = await Promise.all(
+        files.map(async (file) => {
+            const warning = await getStagingWarning(cwd, file);
+            return {
+                label: file.path,
+                description: describeChange(file),
+                detail: warning ? `$(warning) ${warning}` : undefined,
+                file,
+                warning,
+            };
+        })
+    );
+
+    const stageAllItem: vscode.QuickPickItem = {
+        label: "$(check-all) Stage all changes",
+        description: "git add .",
+        detail: `Includes all ${files.length} file(s) below`,
+    };
+
+    const picked = await vscode.window.showQuickPick<vscode.QuickPickItem>(
+        [
+            stageAllItem,
+            { label: "Changed files", kind: vscode.QuickPickItemKind.Separator },
+            ...fileItems,
+        ],
+        {
+            canPickMany: true,
+            title: "Stage Files",
+            placeHolder: "Tick the files to include in your next commit",
+        }
+    );
+    if (!picked || picked.length === 0) {
+        return undefined;
+    }
+
+    const stageAll = picked.includes(stageAllItem);
+    const chosen = stageAll ? fileItems : fileItems.filter((item) => picked.includes(item));
+
+    // --- Double-check anything that looks risky ---
+    const risky = chosen.filter((item) => item.warning);
+    if (risky.length > 0) {
+        const list = risky.map((item) => `• ${item.file.path} — ${item.warning}`).join("\n");
+        const choice = await vscode.window.showWarningMessage(
+            `${risky.length === 1 ? "This file" : "These files"} may not belong in Git:`,
+            { modal: true, detail: `${list}\n\nOnce committed and pushed, they're hard to remove from the history.` },
+            "Leave Them Out",
+            "Stage Anyway"
+        );
+        if (choice === undefined) {
+            return undefined;
+        }
+        if (choice === "Leave Them Out") {
+            const safe = chosen.filter((item) => !item.warning);
+            if (safe.length === 0) {
+                return undefined;
+            }
+            return ["add", "--", ...safe.map((item) => item.file.path)];
+        }
+    }
+
+    return stageAll ? ["add", "."] : ["add", "--", ...chosen.map((item) => item.file.path)];
+}
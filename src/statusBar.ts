@@ -0,0 +1,323 @@
+/**
+ * statusBar.ts — The Git Helper item in VS Code's status bar.
+ *
+ * WHY?
+ *   The walkthrough panel only shows when it's open, so while you're busy
+ *   editing files you can't see which branch you're on or whether there's
+ *   anything to commit. The status bar (the strip along the bottom of the
+ *   window) is always visible. Our item sums things up in a few symbols:
+ *
+ *     ⎇ main ↑2 ↓1 ✓1 ✎3 🎓 Commit
+ *     │      │  │   │  │     └── the next step of your lesson
+ *     │      │  │   │  └── 3 changed files (not staged)
+ *     │      │  │   └── 1 staged file
+ *     │      │  └── 1 commit to pull
+ *     │      └── 2 commits to push
+ *     └── the branch you're on
+ *
+ *   In a workspace with several repositories, the repo's name comes first.
+ *   Hovering over it explains it in words; clicking it lists what you
+ *   might want to do next ("Commit 1 staged file", "Sync"...), each one
+ *   running one of the existing Git Helper commands.
+ *
+ * HOW DOES IT STAY UP TO DATE?
+ *   Instead of asking Git every few seconds (polling), we watch the files
+ *   inside the .git folder that change when something happens:
+ *     - HEAD    → you switched branches (or committed)
+ *     - index   → you staged or unstaged something
+ *     - refs/   → a commit, fetch, pull or push moved a branch
+ *   Saving a file in the editor counts too, since it can change what's
+ *   "changed". Each burst of events only refreshes once.
+ */
+
+import * as vscode from "vscode";
+import { getTargetRepo, queryGit } from "./gitCommands";
+import { getRepoStatus, RepoStatus, summarizeStatus } from "./gitStatus";
+import { getProgressKey, ProgressStore } from "./progress";
+import { LessonLibrary } from "./lessonLibrary";
+import { Sandbox } from "./sandbox";
+import { RepositoryManager } from "./repositories";
+import { findStep, getNextStep, getPackSteps } from "./curriculum";
+import { WalkthroughStep } from "./steps";
+
+/** The files in .git that change when the status does (see the top of this file) */
+const WATCHED_GIT_FILES = "{HEAD,index,refs/**,packed-refs,MERGE_HEAD}";
+
+/** The command that runs when the item is clicked (registered in extension.ts) */
+export const NEXT_ACTIONS_COMMAND = "gitHelper.nextActions";
+
+/**
+ * One entry in the "what next?" QuickPick: a Git Helper command to run.
+ */
+interface NextAction extends vscode.QuickPickItem {
+    command: string;
+}
+
+/**
+ * Shows the branch, ahead/behind, file counts and the next lesson step
+ * in the status bar. Created once in extension.ts.
+ */
+export class StatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+
+    /** Watches the target repo's .git folder */
+    private _watcher?: vscode.FileSystemWatcher;
+
+    /** Pending refresh — many file events in a row only refresh once */
+    private _refreshTimer?: NodeJS.Timeout;
+
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param _progress - Which steps are done (for the next lesson step)
+     * @param _lessons - The lesson pack in use
+     * @param _sandbox - While it's on, the item shows the practice repo
+     * @param _repositories - Which of the workspace's repositories is active
+     */
+    constructor(
+        private readonly _progress: ProgressStore,
+        private readonly _lessons: LessonLibrary,
+        private readonly _sandbox: Sandbox,
+        private readonly _repositories: RepositoryManager
+    ) {
+        this._item = vscode.window.createStatusBarItem("gitHelper.status", vscode.StatusBarAlignment.Left, 50);
+        this._item.name = "Git Helper";
+        this._item.command = NEXT_ACTIONS_COMMAND;
+
+        const refreshSoon = () => this._refreshSoon();
+        this._disposables.push(
+            this._progress.onDidChange(refreshSoon),
+            this._lessons.onDidChange(refreshSoon),
+            // The sandbox is a different repo, with a different .git folder
+            this._sandbox.onDidChange(() => void this._watchRepo()),
+            // ...and so is another repository in the workspace
+            this._repositories.onDidChange(() => void this._watchRepo()),
+            vscode.workspace.onDidSaveTextDocument(refreshSoon),
+            vscode.workspace.onDidCreateFiles(refreshSoon),
+            vscode.workspace.onDidDeleteFiles(refreshSoon),
+            vscode.workspace.onDidRenameFiles(refreshSoon)
+        );
+
+        void this._watchRepo();
+    }
+
+    public dispose(): void {
+        clearTimeout(this._refreshTimer);
+        this._watcher?.dispose();
+        this._disposables.forEach((d) => d.dispose());
+        this._item.dispose();
+    }
+
+    // =============================================================
+    // Watching the Repo
+    // =============================================================
+
+    /**
+     * Watches HEAD, the index and the refs of the target repo's .git
+     * folder (wherever it is — `git rev-parse` knows), then refreshes.
+     */
+    private async _watchRepo(): Promise<void> {
+        this._watcher?.dispose();
+        this._watcher = undefined;
+
+        const cwd = getTargetRepo();
+        const gitDir = cwd ? await queryGit(["rev-parse", "--absolute-git-dir"], cwd) : undefined;
+        if (gitDir?.success) {
+            this._watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(gitDir.output), WATCHED_GIT_FILES)
+            );
+            const refreshSoon = () => this._refreshSoon();
+            this._watcher.onDidCreate(refreshSoon);
+            this._watcher.onDidChange(refreshSoon);
+            this._watcher.onDidDelete(refreshSoon);
+        }
+
+        await this._refresh();
+    }
+
+    private _refreshSoon(): void {
+        clearTimeout(this._refreshTimer);
+        this._refreshTimer = setTimeout(() => void this._refresh(), 300);
+    }
+
+    // =============================================================
+    // Drawing the Item
+    // =============================================================
+
+    /** The step the learner should do next in the lesson pack in use */
+    private _getNextStep(): { step: WalkthroughStep; number: number; total: number } | undefined {
+        const pack = this._lessons.getActivePack();
+        const key = getProgressKey(pack.id, getTargetRepo(), this._sandbox.isActive);
+        const step = getNextStep(pack, this._progress.getCompleted(key), this._progress.getPassedQuizzes(key));
+        const steps = getPackSteps(pack);
+        return step && { step, number: steps.indexOf(step) + 1, total: steps.length };
+    }
+
+    /** Reads the repo and redraws the item */
+    private async _refresh(): Promise<void> {
+        const cwd = getTargetRepo();
+        if (!cwd) {
+            // No folder open: nothing to show
+            this._item.hide();
+            return;
+        }
+        const status = await getRepoStatus(cwd);
+        const next = this._getNextStep();
+
+        const parts: string[] = [];
+        const tooltip: string[] = [];
+        const repo = this._repositories.active;
+        if (!this._sandbox.isActive && repo && this._repositories.getRepositories().length > 1) {
+            parts.push(`$(repo) ${repo.name}`);
+            tooltip.push(`Repository: ${repo.name} (${repo.root})`);
+        }
+        if (!status) {
+            parts.push("$(git-branch) No repository");
+            tooltip.push("This folder isn't a Git repository yet.");
+        } else {
+            const where = status.branch ?? `${status.commit?.slice(0, 7) ?? "HEAD"} (detached)`;
+            parts.push(`$(${status.branch ? "git-branch" : "git-commit"}) ${where}`);
+            if (status.ahead > 0) {
+                parts.push(`$(arrow-up)${status.ahead}`);
+            }
+            if (status.behind > 0) {
+                parts.push(`$(arrow-down)${status.behind}`);
+            }
+            if (status.conflicted.length > 0) {
+                parts.push(`$(warning)${status.conflicted.length}`);
+            }
+            if (status.staged.length > 0) {
+                parts.push(`$(check)${status.staged.length}`);
+            }
+            const changed = status.unstaged.length + status.untracked.length;
+            if (changed > 0) {
+                parts.push(`$(edit)${changed}`);
+            }
+            tooltip.push(summarizeStatus(status));
+        }
+        if (next) {
+            // (without the number in front, e.g. "6. Commit" → "Commit" — space is tight)
+            parts.push(`$(mortar-board) ${next.step.title.replace(/^\d+\.\s*/, "")}`);
+            const lesson = findStep(this._lessons.getActivePack(), next.step.id)?.lesson.title;
+            tooltip.push(`Next lesson step: "${next.step.title}" (${lesson}, step ${next.number} of ${next.total}).`);
+        }
+        tooltip.push("Click for what to do next.");
+
+        this._item.text = parts.join(" ");
+        this._item.tooltip = tooltip.join("\n\n");
+        this._item.backgroundColor =
+            status && status.conflicted.length > 0 ? new vscode.ThemeColor("statusBarItem.warningBackground") : undefined;
+        this._item.show();
+    }
+
+    // =============================================================
+    // What Next?
+    // =============================================================
+
+    /**
+     * Lists what makes sense to do right now, most urgent first, and
+     * runs the command that's picked.
+     */
+    public async showNextActions(): Promise<void> {
+        const cwd = getTargetRepo();
+        const status = cwd ? await getRepoStatus(cwd) : undefined;
+        const actions = getNextActions(status, this._getNextStep()?.step);
+
+        const picked = await vscode.window.showQuickPick(actions, {
+            title: "Git Helper",
+            placeHolder: status ? summarizeStatus(status) : "What would you like to do?",
+        });
+        if (picked) {
+            await vscode.commands.executeCommand(picked.command);
+        }
+    }
+}
+
+/**
+ * Works out the actions for the "what next?" QuickPick from the repo's
+ * status and the next lesson step.
+ *
+ * @param status - The repo's status, or undefined if there isn't a repo
+ * @param nextStep - The next lesson step, if there is one
+ */
+function getNextActions(status: RepoStatus | undefined, nextStep: WalkthroughStep | undefined): NextAction[] {
+    const walkthrough = "gitWalkthrough.focus";
+    const actions: NextAction[] = [];
+    const files = (n: number) => (n === 1 ? "1 file" : `${n} files`);
+
+    if (!status) {
+        actions.push({
+            label: "$(repo) Start the walkthrough",
+            detail: "The first lesson turns this folder into a Git repository, one step at a time.",
+            command: walkthrough,
+        });
+        return actions;
+    }
+
+    if (status.conflicted.length > 0) {
+        actions.push({
+            label: "$(git-merge) Resolve merge conflicts",
+            description: files(status.conflicted.length),
+            detail: "Opens the Merge Conflicts section, which walks you through each file.",
+            command: walkthrough,
+        });
+    }
+    if (nextStep) {
+        actions.push({
+            label: `$(mortar-board) Continue the lesson: ${nextStep.title}`,
+            detail: "Opens the Git Walkthrough panel at your next step.",
+            command: walkthrough,
+        });
+    }
+    if (status.staged.length > 0) {
+        actions.push({
+            label: "$(git-commit) Commit",
+            description: `${files(status.staged.length)} staged`,
+            detail: "Saves the staged changes as a new commit.",
+            command: "gitHelper.commit",
+        });
+    }
+    const changed = status.unstaged.length + status.untracked.length;
+    if (changed > 0) {
+        actions.push({
+            label: "$(add) Stage changes...",
+            description: `${files(changed)} changed`,
+            detail: "Pick which changes go into the next commit.",
+            command: "gitHelper.add",
+        });
+    }
+    if (status.branch && !status.upstream) {
+        actions.push({
+            label: "$(cloud-upload) Publish this branch",
+            description: status.branch,
+            detail: "Pushes it to the remote for the first time, and connects the two.",
+            command: "gitHelper.branch.publish",
+        });
+    } else if (status.upstream) {
+        actions.push({
+            label: "$(sync) Sync with the remote",
+            description: status.ahead || status.behind ? `↑${status.ahead} ↓${status.behind}` : status.upstream,
+            detail: "Checks the remote for new commits, then pushes or pulls — whichever you need.",
+            command: "gitHelper.sync",
+        });
+    }
+    actions.push(
+        {
+            label: "$(git-branch) Switch branch...",
+            description: status.branch,
+            detail: "Lists your branches (and the remote's) with their newest commits.",
+            command: "gitHelper.branch.switch",
+        },
+        {
+            label: "$(discard) Undo...",
+            detail: "Take back a recent change: unstage, undo the last commit, fix its message...",
+            command: "gitHelper.undo",
+        },
+        {
+            label: "$(info) Show status",
+            detail: "Runs git status and sums it up (the full report goes to the Output panel).",
+            command: "gitHelper.status",
+        }
+    );
+    return actions;
+}
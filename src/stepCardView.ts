@@ -0,0 +1,556 @@
+/**
+ * stepCardView.ts — The lessons in the walkthrough panel, and their step
+ * cards.
+ *
+ * Each lesson is a collapsible section, with a line in the lesson index
+ * at the top of the panel. Each step is a card: what the step is for, its
+ * command (explained word by word — see commandExplainer.ts), "Run Step"
+ * and "Type it yourself" (see terminalPractice.ts) buttons, and room for
+ * the command's output. Once the step is done, its quiz appears too (see
+ * quizView.ts).
+ *
+ * Running the steps is the panel's job (walkthroughProvider.ts); this file
+ * draws the cards and shows what the panel sends back: "running", streamed
+ * output, the result, and failed commands explained in plain English.
+ */
+
+import { WalkthroughStep } from "./steps";
+import { describeLock, LessonState } from "./curriculum";
+import { QuizScore } from "./progress";
+import { escapeHtml } from "./html";
+import { explainCommandLine } from "./commandExplainer";
+import { getQuizHtml } from "./quizView";
+
+/**
+ * Generates one line of the lesson index: the lesson title (click to
+ * jump to it) and how many of its steps are done.
+ */
+export function getLessonIndexHtml(state: LessonState): string {
+    const id = state.lesson.id;
+    return /*html*/ `
+        <button class="link-button lesson-link${state.unlocked ? "" : " lesson-locked"}"
+                id="lesson-link-${id}" onclick="openLesson('${id}')">
+            <span>${escapeHtml(state.lesson.title)}</span>
+            <span id="lesson-link-count-${id}">${getLessonCountLabel(state)}</span>
+        </button>`;
+}
+
+/**
+ * Generates a collapsible lesson section containing its step cards.
+ *
+ * @param completed - IDs of completed steps (for the "Done" badges)
+ * @param quizScores - Best quiz scores, by step ID
+ * @param expanded - Whether the section starts open (true for the current lesson)
+ */
+export function getLessonHtml(
+    state: LessonState,
+    completed: Set<string>,
+    quizScores: Record<string, QuizScore>,
+    expanded: boolean
+): string {
+    const { lesson } = state;
+    const stepsHtml = lesson.steps
+        .map((step) => getStepHtml(step, completed.has(step.id), state.unlocked, quizScores[step.id]))
+        .join("\n");
+    const descriptionHtml = lesson.description
+        ? `<p class="lesson-description">${escapeHtml(lesson.description)}</p>`
+        : "";
+
+    return /*html*/ `
+        <details class="lesson${state.unlocked ? "" : " lesson-locked"}" id="lesson-${lesson.id}"${expanded ? " open" : ""}>
+            <summary>
+                ${escapeHtml(lesson.title)}
+                <span class="lesson-count" id="lesson-count-${lesson.id}">${getLessonCountLabel(state)}</span>
+            </summary>
+            ${descriptionHtml}
+            <p class="lesson-lock-note" id="lesson-lock-${lesson.id}">
+                ${state.unlocked ? "" : `${escapeHtml(describeLock(state))} to unlock this lesson.`}
+            </p>
+            ${stepsHtml}
+        </details>`;
+}
+
+/**
+ * Returns a label like "3/5", "✓ 5/5" (complete) or "🔒 0/4" (locked),
+ * plus the quizzes passed if the lesson has any: "✓ 5/5 · quiz 1/2"
+ */
+function getLessonCountLabel(state: LessonState): string {
+    const icon = state.complete ? "✓ " : state.unlocked ? "" : "🔒 ";
+    const quizzes = state.quizzes > 0 ? ` · quiz ${state.quizzesPassed}/${state.quizzes}` : "";
+    return `${icon}${state.done}/${state.total}${quizzes}`;
+}
+
+/**
+ * Generates the HTML for a single walkthrough step card.
+ *
+ * Each card has:
+ *   - Title (e.g., "1. Check Git is Installed")
+ *   - Description (plain English explanation)
+ *   - Command preview (styled like a code block), and what each part of it means
+ *   - Optional tip/notes
+ *   - "Run Step" button, and "Type it yourself" (see terminalPractice.ts)
+ *   - Status text (hidden until the step is run)
+ *   - Output area (hidden until the step is run)
+ *   - Quiz, if the step has one (hidden until the step is done)
+ *
+ * @param done - Whether the step is already completed (shows the "Done" badge)
+ * @param unlocked - Whether the step's lesson is unlocked (locked steps can't be run)
+ * @param quizScore - The best score in the step's quiz so far, if it's been taken
+ */
+function getStepHtml(step: WalkthroughStep, done: boolean, unlocked: boolean, quizScore?: QuizScore): string {
+    // Only show the notes section if this step has notes.
+    // Text is escaped because lesson packs can come from JSON files.
+    const notesHtml = step.notes
+        ? `<p class="step-notes">Tip: ${escapeHtml(step.notes)}</p>`
+        : "";
+
+    return /*html*/ `
+        <div class="step-card${done ? " step-done" : ""}" id="card-${step.id}">
+            <p class="step-title">${escapeHtml(step.title)}<span class="step-badge">✓ Done</span></p>
+            <p class="step-description">${escapeHtml(step.description)}</p>
+            <div class="step-command" id="command-${step.id}">${escapeHtml(step.command)}</div>
+            ${getExplanationHtml(step.command)}
+            ${notesHtml}
+            <button class="run-button" id="btn-${step.id}" onclick="runStep('${step.id}')"${unlocked ? "" : " disabled"}>
+                Run Step
+            </button>
+            <button class="run-button practice-button" id="practice-${step.id}" onclick="practiceStep('${step.id}')"
+                    title="Type the command in a terminal instead"${unlocked ? "" : " disabled"}>
+                Type it yourself
+            </button>
+            <div class="step-status" id="status-${step.id}"></div>
+            <div class="step-help" id="help-${step.id}" style="display: none;"></div>
+            <div class="step-output" id="output-${step.id}" style="display: none;"></div>
+            ${getQuizHtml(step, done, quizScore)}
+        </div>`;
+}
+
+/**
+ * Explains a step's command word by word, in a collapsed "What does
+ * it mean?" section under it (see commandExplainer.ts). Anything risky,
+ * like discarding changes, is mentioned even while it's collapsed.
+ */
+function getExplanationHtml(command: string): string {
+    const commands = explainCommandLine(command);
+    const rows = commands
+        .flatMap((c) => c.parts.filter((part) => part.kind !== "program" && part.explanation))
+        .map((part) => `<dt>${escapeHtml(part.text)}</dt><dd>${escapeHtml(part.explanation)}</dd>`);
+    const warnings = commands
+        .flatMap((c) => c.warnings)
+        .map((w) => `<p class="step-explain-warning">⚠ ${escapeHtml(w.consequence)}</p>`);
+    if (rows.length === 0) {
+        return "";
+    }
+
+    return /*html*/ `
+            <details class="step-explain">
+                <summary>What does it mean?</summary>
+                <dl>${rows.join("")}</dl>
+            </details>
+            ${warnings.join("")}`;
+}
+
+/** The CSS for the lessons and step cards */
+export const STEP_CARD_STYLES = `
+        /* ========================================
+           LESSON INDEX & SECTIONS
+           Lessons are <details> elements, which the
+           browser knows how to expand and collapse.
+           ======================================== */
+        .lesson-index {
+            margin-bottom: 12px;
+        }
+
+        .lesson-index-title {
+            font-weight: bold;
+            margin: 0 0 4px 0;
+        }
+
+        .lesson-link {
+            display: flex;
+            justify-content: space-between;
+            width: 100%;
+            text-align: left;
+            padding: 3px 0;
+        }
+
+        .lesson-link.lesson-locked {
+            opacity: 0.6;
+        }
+
+        .lesson {
+            margin-bottom: 12px;
+        }
+
+        .lesson > summary {
+            cursor: pointer;
+            font-weight: bold;
+            font-size: 1.1em;
+            padding: 6px 0;
+        }
+
+        .lesson-count {
+            font-weight: normal;
+            font-size: 0.85em;
+            opacity: 0.75;
+        }
+
+        .lesson-description {
+            margin: 0 0 8px 0;
+            opacity: 0.85;
+        }
+
+        /* Shown instead of the description while a lesson is locked */
+        .lesson-lock-note {
+            display: none;
+            margin: 0 0 8px 0;
+            color: var(--vscode-charts-orange);
+        }
+
+        .lesson-locked .lesson-lock-note {
+            display: block;
+        }
+
+        /* ========================================
+           STEP CARDS
+           Each step is a "card" with a border.
+           ======================================== */
+        .step-card {
+            background: var(--vscode-editor-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+            padding: 12px;
+            margin-bottom: 12px;
+        }
+
+        .step-title {
+            font-weight: bold;
+            font-size: 1.05em;
+            margin: 0 0 6px 0;
+        }
+
+        /* Finished steps get a green edge and a "Done" badge */
+        .step-card.step-done {
+            border-left: 3px solid var(--vscode-charts-green);
+        }
+
+        .step-badge {
+            display: none;
+            float: right;
+            font-size: 0.8em;
+            font-weight: normal;
+            color: var(--vscode-charts-green);
+        }
+
+        .step-done .step-badge {
+            display: inline;
+        }
+
+        /* The step the user should do next */
+        .step-card.step-next {
+            border-color: var(--vscode-focusBorder);
+        }
+
+        .step-description {
+            margin: 0 0 8px 0;
+            line-height: 1.5;
+            opacity: 0.9;
+        }
+
+        /* The Git command shown in a code-style box */
+        .step-command {
+            background: var(--vscode-textCodeBlock-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 6px 10px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 0.95em;
+            margin-bottom: 8px;
+            word-break: break-all;
+        }
+
+        /* "What does it mean?" — the command explained word by word (commandExplainer.ts) */
+        .step-explain {
+            font-size: 0.9em;
+            margin-bottom: 8px;
+        }
+
+        .step-explain summary {
+            cursor: pointer;
+            opacity: 0.8;
+        }
+
+        .step-explain dl {
+            display: grid;
+            grid-template-columns: max-content 1fr;
+            gap: 2px 10px;
+            margin: 6px 0 0 0;
+        }
+
+        .step-explain dt {
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        .step-explain dd {
+            margin: 0;
+        }
+
+        .step-explain-warning {
+            margin: 6px 0 0 0;
+            color: var(--vscode-errorForeground);
+        }
+
+        /* Tip/note text below the command */
+        .step-notes {
+            font-size: 0.9em;
+            opacity: 0.7;
+            margin-bottom: 8px;
+            font-style: italic;
+        }
+
+        /* ========================================
+           STATUS & OUTPUT
+           Shown after a step is run.
+           ======================================== */
+        .step-status {
+            margin-top: 8px;
+            font-size: 0.9em;
+        }
+
+        .status-running {
+            color: var(--vscode-charts-yellow);
+        }
+
+        .status-success {
+            color: var(--vscode-charts-green);
+        }
+
+        .status-error {
+            color: var(--vscode-charts-red);
+        }
+
+        /* The command worked, but the learner has something left to do */
+        .status-attention {
+            color: var(--vscode-charts-orange);
+        }
+
+        /* Plain-English explanation of a failed command, with fix buttons */
+        .step-help {
+            margin-top: 6px;
+            padding: 8px;
+            border-left: 3px solid var(--vscode-charts-orange);
+            background: var(--vscode-textBlockQuote-background);
+            font-size: 0.9em;
+            line-height: 1.4;
+        }
+
+        .step-help p {
+            margin: 0 0 6px 0;
+        }
+
+        .step-help-title {
+            font-weight: bold;
+        }
+
+        /* Box that shows the command output */
+        .step-output {
+            background: var(--vscode-textCodeBlock-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 8px;
+            margin-top: 6px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 0.85em;
+            white-space: pre-wrap;
+            word-break: break-all;
+            max-height: 150px;
+            overflow-y: auto;
+        }`;
+
+/**
+ * The webview JavaScript for the step cards: the buttons, and the
+ * messages about a step's command. It needs the panel's `vscode`.
+ */
+export const STEP_CARD_SCRIPT = `
+        /**
+         * Called when the user clicks a "Run Step" button.
+         * Sends a message to the extension to run the Git command.
+         * While the command runs, the same button is a "Cancel" button.
+         *
+         * @param {string} stepId - The step's unique ID (matches step.id in steps.ts)
+         */
+        function runStep(stepId) {
+            const button = document.getElementById('btn-' + stepId);
+
+            if (button && button.dataset.running) {
+                button.disabled = true;
+                button.textContent = 'Cancelling...';
+                vscode.postMessage({ type: 'cancelStep', stepId: stepId });
+                return;
+            }
+
+            // Disable the button so the user can't click it again while running
+            if (button) {
+                button.disabled = true;
+                button.textContent = 'Running...';
+            }
+
+            // Send a message to the extension.
+            // walkthroughProvider.ts will receive this in _handleMessage().
+            vscode.postMessage({
+                type: 'runStep',
+                stepId: stepId
+            });
+        }
+
+        /**
+         * Called when the user clicks "Type it yourself". The extension
+         * opens the practice terminal and watches for the step's command.
+         *
+         * @param {string} stepId - The step's unique ID
+         */
+        function practiceStep(stepId) {
+            vscode.postMessage({ type: 'practiceStep', stepId: stepId });
+        }
+
+        /**
+         * Listen for messages FROM the extension about the step cards:
+         *   1. { type: "commands", commands } — step commands with their
+         *      placeholders filled in, by step ID
+         *   2. { type: "status", stepId, status: "running" } — step is in progress
+         *   3. { type: "practicing", stepId } — the practice terminal is
+         *      waiting for the step's command (its result arrives as "result")
+         *   4. { type: "output", stepId, text } — more output from a running step
+         *   5. { type: "result", stepId, state, summary, output, explanation } — step is done
+         */
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+
+            // --- Handle filled-in commands (e.g. {currentBranch} → main) ---
+            if (message.type === 'commands') {
+                for (const [stepId, command] of Object.entries(message.commands)) {
+                    const commandEl = document.getElementById('command-' + stepId);
+                    if (commandEl) {
+                        commandEl.textContent = command;
+                        commandEl.title = 'Filled in from your repository';
+                    }
+                }
+                return;
+            }
+
+            // Get references to the UI elements for this step
+            const statusEl = document.getElementById('status-' + message.stepId);
+            const outputEl = document.getElementById('output-' + message.stepId);
+            const button = document.getElementById('btn-' + message.stepId);
+
+            // --- Handle "running" status ---
+            if (message.type === 'status') {
+                if (statusEl) {
+                    statusEl.className = 'step-status status-running';
+                    statusEl.textContent = 'Running...';
+                }
+                // Clear the last run's output — the new output streams in below
+                if (outputEl) {
+                    outputEl.textContent = '';
+                    outputEl.style.display = 'none';
+                }
+                // Turn the button into a Cancel button until the result arrives
+                if (button) {
+                    button.dataset.running = 'true';
+                    button.disabled = false;
+                    button.textContent = 'Cancel';
+                }
+            }
+
+            // --- Handle "Type it yourself" ---
+            if (message.type === 'practicing' && statusEl) {
+                statusEl.className = 'step-status';
+                statusEl.textContent =
+                    'Your turn! Type the command in the Git Helper Practice terminal — this step is ticked off when it works.';
+            }
+
+            // --- Handle streamed output ---
+            if (message.type === 'output' && outputEl) {
+                outputEl.textContent += message.text;
+                outputEl.style.display = 'block';
+                outputEl.scrollTop = outputEl.scrollHeight;
+            }
+
+            // --- Handle command result ---
+            if (message.type === 'result') {
+                // Re-enable the button so the user can run it again
+                if (button) {
+                    delete button.dataset.running;
+                    button.disabled = false;
+                    button.textContent = 'Run Step';
+                }
+
+                // Show pass, fail, or needs-attention.
+                // "summary" is the step-specific message from verification.ts.
+                if (statusEl) {
+                    if (message.state === 'pass') {
+                        statusEl.className = 'step-status status-success';
+                        statusEl.textContent = ('Success! ' + message.summary).trim();
+                    } else if (message.state === 'attention') {
+                        statusEl.className = 'step-status status-attention';
+                        statusEl.textContent = 'Needs attention: ' + message.summary;
+                    } else {
+                        statusEl.className = 'step-status status-error';
+                        statusEl.textContent = message.summary || 'Error (see output below)';
+                    }
+                }
+
+                // Show the command's output
+                if (outputEl) {
+                    outputEl.textContent = message.output;
+                    outputEl.style.display = 'block';
+                }
+
+                showExplanation(message.stepId, message.explanation);
+            }
+        });
+
+        /**
+         * Shows (or hides) the plain-English explanation of a failed command,
+         * with a button for each suggested fix.
+         *
+         * We build the elements with textContent rather than innerHTML, so
+         * nothing in Git's output can be mistaken for HTML.
+         *
+         * @param {string} stepId - The step's unique ID
+         * @param {object | undefined} explanation - From errorExplainer.ts
+         */
+        function showExplanation(stepId, explanation) {
+            const helpEl = document.getElementById('help-' + stepId);
+            if (!helpEl) {
+                return;
+            }
+
+            helpEl.replaceChildren();
+            helpEl.style.display = explanation ? 'block' : 'none';
+            if (!explanation) {
+                return;
+            }
+
+            const title = document.createElement('p');
+            title.className = 'step-help-title';
+            title.textContent = explanation.title;
+
+            const text = document.createElement('p');
+            text.textContent = explanation.explanation;
+
+            helpEl.append(title, text);
+
+            explanation.fixes.forEach((fix, index) => {
+                const button = document.createElement('button');
+                button.className = 'fix-button';
+                button.textContent = fix.label;
+                button.onclick = () => vscode.postMessage({
+                    type: 'runFix',
+                    stepId: stepId,
+                    errorId: explanation.id,
+                    fixIndex: index
+                });
+                helpEl.append(button);
+            });
+        }`;
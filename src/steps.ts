@@ -2,17 +2,147 @@
  * steps.ts — Defines all the walkthrough steps for the Git Helper.
  *
  * Each step represents one Git concept/command that the user will learn.
- * Steps are displayed in order in the sidebar walkthrough panel.
+ * Steps are grouped into lessons (e.g. "Branching"), and lessons are
+ * grouped into a lesson pack (the curriculum shown in the sidebar).
+ *
+ *   LessonPack  →  Lesson  →  WalkthroughStep
+ *   "Getting Started" → "Branching" → "Create a Branch"
  *
  * WHY A SEPARATE FILE?
  *   Keeping step data separate from the UI logic makes it easy to
  *   add, remove, or reorder steps without touching any other code.
+ *
+ * LESSON PACKS:
+ *   The steps below are the built-in "Getting Started" pack. Teams can
+ *   write their own packs as JSON files (see lessonLibrary.ts and
+ *   schemas/lesson-pack.schema.json) — the JSON has exactly the same
+ *   shape as the interfaces in this file.
  */
 
 // =============================================================
 // Step Interface
 // =============================================================
 
+/**
+ * A fact about the repository that proves a step has already been done.
+ *
+ * These are plain names (not functions) so step data stays "just data".
+ * repoState.ts knows how to check each one by asking Git.
+ *
+ *   - "gitInstalled"     → `git --version` works
+ *   - "repoInitialized"  → the folder contains a .git folder
+ *   - "hasCommits"       → there is at least one commit
+ *   - "originConfigured" → a remote called "origin" exists
+ *   - "hasUpstream"      → the current branch tracks a remote branch
+ *   - "identityConfigured" → Git knows your name and email (user.name and user.email)
+ */
+export type RepoCondition =
+    | "gitInstalled"
+    | "repoInitialized"
+    | "hasCommits"
+    | "originConfigured"
+    | "hasUpstream"
+    | "identityConfigured";
+
+/**
+ * A check that runs AFTER a step's command, to confirm the step really
+ * did what it teaches (a successful exit code isn't always enough).
+ * verification.ts knows how to run each one.
+ *
+ *   - "repoCreated"        → a .git folder now exists
+ *   - "workingTreeChanged" → Git sees at least one new/changed file
+ *   - "filesStaged"        → at least one file is in the staging area
+ *   - "newCommit"          → HEAD moved to a brand new commit
+ *   - "remoteAdded"        → a remote called "origin" exists
+ *   - "pushed"             → the branch and its upstream are on the same commit
+ *   - "pulled"             → reports whether new commits arrived
+ *   - "merged"             → HEAD moved because another branch was merged in
+ *   - "identitySet"        → user.name and user.email are both set
+ */
+export type StepVerification =
+    | "repoCreated"
+    | "workingTreeChanged"
+    | "filesStaged"
+    | "newCommit"
+    | "remoteAdded"
+    | "pushed"
+    | "pulled"
+    | "merged"
+    | "identitySet";
+
+/**
+ * A guided flow that runs INSTEAD of the step's plain `args`, for steps
+ * where running one fixed command would teach a bad habit.
+ *
+ *   - "stageFiles" → let the user pick which changed files to stage, with
+ *                    warnings for secrets and large files (stagingPicker.ts).
+ *                    Picking "Stage all" runs `git add .` — the step's
+ *                    `args` aren't run.
+ *   - "configureIdentity" → ask for a name and email, check they look
+ *                    right, and let the user choose global or repo-only
+ *                    (gitConfig.ts). The step's `args` aren't run.
+ *   - "commitMessage" → ask for a commit message, checked against the
+ *                    commit message rules (commitMessage.ts), and add it
+ *                    to the end of the step's `args` (e.g. after "-m").
+ */
+export type StepFlow = "stageFiles" | "configureIdentity" | "commitMessage";
+
+/**
+ * A name that can appear in a step's `command` or `args` as {name}, and is
+ * replaced with a value from the repo right before the step runs
+ * (see placeholders.ts).
+ *
+ *   - "currentBranch" → the branch you're on, e.g. "main"
+ *   - "defaultRemote" → the remote you push to, usually "origin"
+ *   - "defaultBranch" → the project's main branch ("main" or "master")
+ */
+export type StepPlaceholder = "currentBranch" | "defaultRemote" | "defaultBranch";
+
+/**
+ * A multiple-choice question.
+ *
+ *   - "choice" → a question with a few possible answers
+ *   - "output" → "predict the output": `command` is shown, and the
+ *                choices are things Git might print for it
+ */
+export interface ChoiceQuestion {
+    type: "choice" | "output";
+
+    /** The question, e.g. "Which files end up in the next commit?" */
+    question: string;
+
+    /** For "output" questions: the command whose output is being predicted */
+    command?: string;
+
+    /** The possible answers */
+    choices: string[];
+
+    /** Which of the choices is right (0 is the first) */
+    answer: number;
+
+    /** Why the right answer is right — shown after answering, right or wrong */
+    explanation: string;
+}
+
+/**
+ * A "put these in order" question, e.g. the commands of a workflow.
+ * `items` are written in the RIGHT order; the card shuffles them.
+ */
+export interface OrderQuestion {
+    type: "order";
+    question: string;
+
+    /** The things to put in order, in the right order */
+    items: string[];
+    explanation: string;
+}
+
+/**
+ * A knowledge-check question, asked in a step's card once the step has
+ * worked (see quiz.ts). Running a command doesn't prove you understood it!
+ */
+export type QuizQuestion = ChoiceQuestion | OrderQuestion;
+
 /**
  * Represents a single step in the Git walkthrough.
  */
@@ -29,6 +159,7 @@ export interface WalkthroughStep {
     /**
      * The command shown to the user in the UI (for display only).
      * This is NOT what gets executed — `args` is used for execution.
+     * May contain placeholders like {currentBranch} (see StepPlaceholder).
      */
     command: string;
 
@@ -42,6 +173,9 @@ export interface WalkthroughStep {
      *   user input (like commit messages) can't accidentally be
      *   interpreted as shell commands. (Look up "command injection"
      *   if you want to learn more about this security concept!)
+     *
+     * Args may contain placeholders like {currentBranch}; they're filled
+     * in from the repo just before the command runs.
      */
     args: string[];
 
@@ -54,10 +188,88 @@ export interface WalkthroughStep {
         prompt: string;
         /** Placeholder/example text shown in the input box */
         placeholder: string;
+        /**
+         * In sandbox mode (see sandbox.ts), pre-fill the input box with a
+         * value from the sandbox. "originUrl" is the path of the sandbox's
+         * practice remote, so "Add a Remote" works without GitHub.
+         */
+        sandboxValue?: "originUrl";
     };
 
     /** Extra tips or notes shown below the command (optional) */
     notes?: string;
+
+    /** If set, "Run Step" starts this guided flow instead of running `args` directly */
+    flow?: StepFlow;
+
+    /**
+     * If set, the step is marked as done automatically when the repo
+     * already satisfies this condition — even if the user never clicked
+     * "Run Step" (for example, they ran `git init` in a terminal).
+     */
+    completedWhen?: RepoCondition;
+
+    /**
+     * If set, the extension checks the repo after the command succeeds
+     * and only shows "Success!" if this check passes.
+     */
+    verify?: StepVerification;
+
+    /**
+     * Questions shown in the card after the step succeeds. The best score
+     * is saved with the step's progress; a quiz is passed when every
+     * question in one attempt is answered right (it can be retaken).
+     */
+    quiz?: QuizQuestion[];
+}
+
+/**
+ * A group of steps that teach one topic (e.g. "Branching").
+ * Each lesson is shown as a collapsible section in the panel.
+ */
+export interface Lesson {
+    /** Unique identifier within the pack (used in HTML element IDs) */
+    id: string;
+
+    /** Name shown in the lesson index and section heading */
+    title: string;
+
+    /** One or two sentences about what this lesson teaches (optional) */
+    description?: string;
+
+    /**
+     * IDs of lessons that must be finished before this one unlocks.
+     * They must come EARLIER in the pack's list — that way a lesson
+     * can never (accidentally) depend on itself in a loop.
+     */
+    prerequisites?: string[];
+
+    /**
+     * If true, lessons that list this one as a prerequisite stay locked
+     * until its steps' quizzes are passed too — not just its steps done.
+     */
+    requireQuizzes?: boolean;
+
+    /** The steps, in order */
+    steps: WalkthroughStep[];
+}
+
+/**
+ * A named curriculum of lessons, shown together in the panel.
+ * Users switch between packs with the picker at the top of the panel.
+ */
+export interface LessonPack {
+    /** Unique identifier (used to remember progress and the selected pack) */
+    id: string;
+
+    /** Name shown in the pack picker (e.g., "Getting Started") */
+    name: string;
+
+    /** One or two sentences about what this pack teaches (optional) */
+    description?: string;
+
+    /** The lessons, in the order they should be done */
+    lessons: Lesson[];
 }
 
 // =============================================================
@@ -65,7 +277,71 @@ export interface WalkthroughStep {
 // =============================================================
 
 /**
- * The ordered list of walkthrough steps.
+ * The "Set Up Git" lesson: the one-time settings every new install needs.
+ * Without a name and email, the first commit fails with "Author identity unknown".
+ */
+export const SETUP_STEPS: WalkthroughStep[] = [
+    {
+        id: "setup-identity",
+        title: "1. Tell Git Who You Are",
+        description:
+            "Every commit is stamped with the author's name and email, so Git won't let you commit " +
+            "until it knows yours. Use the email from your GitHub account, so your commits link to " +
+            "your profile. You can set them for every repository on this computer (--global), " +
+            "or just for this one (--local) — handy for a separate work email.",
+        command: 'git config --global user.name "Your Name"',
+        args: ["config", "--global", "user.name"],
+        notes: "Running this step asks for your name, then your email ('git config --global user.email you@example.com').",
+        flow: "configureIdentity",
+        completedWhen: "identityConfigured",
+        verify: "identitySet",
+    },
+    {
+        id: "setup-default-branch",
+        title: "2. Name New Branches 'main'",
+        description:
+            "Every new repository starts with one branch. Older Git versions call it 'master'; " +
+            "GitHub and most projects now use 'main'. This makes 'git init' use 'main' too, " +
+            "so your local branch matches GitHub's.",
+        command: "git config --global init.defaultBranch main",
+        args: ["config", "--global", "init.defaultBranch", "main"],
+        notes: "This only affects repositories you create from now on.",
+    },
+    {
+        id: "setup-pull",
+        title: "3. Choose How Pull Combines Changes",
+        description:
+            "When you and the remote both have new commits, 'git pull' has to combine them. " +
+            "'false' means merge: Git ties both histories together with a merge commit. " +
+            "It's the simplest option to understand, and recent Git versions stop and ask until you choose.",
+        command: "git config --global pull.rebase false",
+        args: ["config", "--global", "pull.rebase", "false"],
+        notes: "The alternative, 'true', replays your commits on top of the remote's for a straight-line history.",
+    },
+    {
+        id: "setup-editor",
+        title: "4. Use VS Code as Git's Editor",
+        description:
+            "Some commands (like a commit without -m, or a merge) open a text editor for you to write " +
+            "a message. Git's default is often Vim, which is confusing if you've never used it. " +
+            "This makes Git open a VS Code tab instead; '--wait' tells Git to wait until you close the tab.",
+        command: 'git config --global core.editor "code --wait"',
+        args: ["config", "--global", "core.editor", "code --wait"],
+        notes: "This needs the 'code' command on your PATH (Command Palette > 'Shell Command: Install code command in PATH' on macOS).",
+    },
+    {
+        id: "setup-review",
+        title: "5. Review Your Settings",
+        description:
+            "This lists every setting Git is using, and which file it comes from: your global " +
+            "~/.gitconfig, or this repository's .git/config. Settings lower in the list win.",
+        command: "git config --list --show-origin",
+        args: ["config", "--list", "--show-origin"],
+    },
+];
+
+/**
+ * The steps of the first lesson, "Your First Repository".
  * These guide a beginner through their first complete Git workflow:
  *   check install → init → status → stage → commit → remote → push → pull
  */
@@ -78,6 +354,7 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
             "This command prints the Git version number. If you see a version, you're good to go!",
         command: "git --version",
         args: ["--version"],
+        completedWhen: "gitInstalled",
     },
     {
         id: "init-repo",
@@ -90,6 +367,8 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
         args: ["init"],
         notes:
             "If your folder is already a Git repo, this is safe to run again — it won't overwrite anything.",
+        completedWhen: "repoInitialized",
+        verify: "repoCreated",
     },
     {
         id: "check-status",
@@ -100,6 +379,7 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
             "Get in the habit of running this often!",
         command: "git status",
         args: ["status"],
+        notes: "The Changes section at the top of this panel shows the same information, and keeps it up to date.",
     },
     {
         id: "make-changes",
@@ -113,6 +393,23 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
         args: ["status"],
         notes:
             "This step runs 'git status' so you can see your new/changed files appear in the output.",
+        verify: "workingTreeChanged",
+        quiz: [
+            {
+                type: "output",
+                question: "You've just created hello.txt, and haven't run any other Git command. What does this print?",
+                command: "git status",
+                choices: [
+                    "Changes to be committed: new file: hello.txt",
+                    "Untracked files: hello.txt",
+                    "nothing to commit, working tree clean",
+                ],
+                answer: 1,
+                explanation:
+                    "A brand new file is 'untracked' — Git can see it, but isn't keeping track of it yet. " +
+                    "It only moves to 'Changes to be committed' once you stage it with git add.",
+            },
+        ],
     },
     {
         id: "stage-files",
@@ -120,10 +417,28 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
         description:
             "Staging tells Git which changes you want to include in your next commit. " +
             "Think of it like putting files into a box before sealing it. " +
-            "The dot (.) means 'stage everything in the current folder'.",
+            "The dot (.) means 'stage everything in the current folder' — but it's " +
+            "safer to look at what changed and pick the files you mean to commit.",
         command: "git add .",
         args: ["add", "."],
-        notes: "You can also stage specific files with 'git add filename.txt'.",
+        notes: "Running this step lets you choose files, which runs 'git add filename.txt' for each one you pick.",
+        flow: "stageFiles",
+        verify: "filesStaged",
+        quiz: [
+            {
+                type: "choice",
+                question: "You staged hello.txt, then edited it again. What goes into the next commit?",
+                choices: [
+                    "hello.txt as it is now, with the new edit",
+                    "hello.txt as it was when you staged it",
+                    "Nothing — editing a file unstages it",
+                ],
+                answer: 1,
+                explanation:
+                    "Staging saves a copy of the file as it is at that moment. Later edits show up as a separate " +
+                    "unstaged change — run git add again to include them.",
+            },
+        ],
     },
     {
         id: "commit",
@@ -136,10 +451,22 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
         // The -m flag is here; the user's message gets appended as the next arg.
         // So it becomes: git commit -m "whatever they type"
         args: ["commit", "-m"],
-        requiresInput: {
-            prompt: "Enter your commit message",
-            placeholder: "e.g., Add initial project files",
-        },
+        flow: "commitMessage",
+        notes:
+            "Open the History section at the top of this panel to see your commit: its hash, author, " +
+            "date and message, and the files it saved.",
+        completedWhen: "hasCommits",
+        verify: "newCommit",
+        quiz: [
+            {
+                type: "order",
+                question: "Put the everyday workflow in order, from editing a file to sharing it:",
+                items: ["Edit a file", "git add", "git commit", "git push"],
+                explanation:
+                    "Changes are staged (git add) before they can be committed, and only commits can be pushed. " +
+                    "Until you push, your commits exist only on your computer.",
+            },
+        ],
     },
     {
         id: "add-remote",
@@ -154,22 +481,42 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
         requiresInput: {
             prompt: "Enter your GitHub repository URL",
             placeholder: "https://github.com/username/my-repo.git",
+            sandboxValue: "originUrl",
         },
         notes:
             "Find the URL on your GitHub repo page — click the green 'Code' button and copy the HTTPS link.",
+        completedWhen: "originConfigured",
+        verify: "remoteAdded",
     },
     {
         id: "push",
         title: "8. Push to GitHub",
         description:
             "Push uploads your commits to the remote repository (GitHub). " +
-            "The '-u' flag sets 'origin main' as the default, so next time " +
+            "The '-u' flag remembers which remote branch goes with yours, so next time " +
             "you can just type 'git push' without the extra arguments.",
-        command: "git push -u origin main",
-        args: ["push", "-u", "origin", "main"],
+        command: "git push -u {defaultRemote} {currentBranch}",
+        args: ["push", "-u", "{defaultRemote}", "{currentBranch}"],
         notes:
-            "If your default branch is called 'master' instead of 'main', " +
-            "change 'main' to 'master'. Newer Git versions use 'main' by default.",
+            "The remote and branch names are filled in from your repo. Your branch may be " +
+            "called 'main' or 'master' — older Git versions use 'master' by default.",
+        completedWhen: "hasUpstream",
+        verify: "pushed",
+        quiz: [
+            {
+                type: "choice",
+                question: "What does -u do in 'git push -u origin main'?",
+                choices: [
+                    "Pushes even if the remote has commits you don't",
+                    "Remembers that your main goes with origin's main, so next time 'git push' is enough",
+                    "Pushes only updated files",
+                ],
+                answer: 1,
+                explanation:
+                    "-u (--set-upstream) connects your branch to the remote branch. After that, plain " +
+                    "'git push' and 'git pull' know where to go. Forcing a push is --force, which is risky.",
+            },
+        ],
     },
     {
         id: "pull",
@@ -181,5 +528,302 @@ export const WALKTHROUGH_STEPS: WalkthroughStep[] = [
         command: "git pull",
         args: ["pull"],
         notes: "Always pull before you start working to avoid merge conflicts!",
+        verify: "pulled",
+    },
+];
+
+/**
+ * The "Branching" lesson: work on a separate line of history, then merge it back.
+ */
+export const BRANCHING_STEPS: WalkthroughStep[] = [
+    {
+        id: "branch-list",
+        title: "1. See Your Branches",
+        description:
+            "A branch is a separate line of work. This lists the branches in your repo — " +
+            "the one with a * next to it is the branch you're on right now.",
+        command: "git branch",
+        args: ["branch"],
+    },
+    {
+        id: "branch-create",
+        title: "2. Create a Branch",
+        description:
+            "Creating a branch is like making a bookmark at your current commit. " +
+            "New commits on the branch won't affect your main branch until you merge them.",
+        command: "git switch -c <branch-name>",
+        args: ["switch", "-c"],
+        requiresInput: {
+            prompt: "Name your new branch",
+            placeholder: "e.g., feature/about-page",
+        },
+        notes: "'switch -c' creates the branch AND moves you onto it. Without -c, 'switch' only moves.",
+        quiz: [
+            {
+                type: "choice",
+                question: "You've just created a branch with 'git switch -c'. Where do your next commits go?",
+                choices: ["Onto the new branch", "Onto main", "Onto both branches"],
+                answer: 0,
+                explanation:
+                    "switch -c moves you onto the new branch, and commits always go onto the branch you're on. " +
+                    "main stays where it was until you merge.",
+            },
+        ],
+    },
+    {
+        id: "branch-commit",
+        title: "3. Commit on Your Branch",
+        description:
+            "Edit a file that's already tracked, then commit it here. " +
+            "The -a flag stages every change to tracked files for you, so you can skip 'git add'.",
+        command: 'git commit -a -m "your message"',
+        args: ["commit", "-a", "-m"],
+        flow: "commitMessage",
+        notes: "-a doesn't pick up brand new files — those still need 'git add' first.",
+        verify: "newCommit",
+    },
+    {
+        id: "branch-switch-back",
+        title: "4. Switch Back",
+        description:
+            "The dash (-) means 'the branch I was on before'. Look at your files after switching: " +
+            "the change you just committed is gone — it lives on your other branch!",
+        command: "git switch -",
+        args: ["switch", "-"],
+    },
+    {
+        id: "branch-merge",
+        title: "5. Merge Your Branch",
+        description:
+            "Merging brings the commits from another branch into the one you're on. " +
+            "Type the name of the branch you created in step 2.",
+        command: "git merge <branch-name>",
+        args: ["merge"],
+        requiresInput: {
+            prompt: "Which branch do you want to merge in?",
+            placeholder: "e.g., feature/about-page",
+        },
+        verify: "merged",
+    },
+];
+
+/**
+ * The "Resolving a Merge Conflict" lesson.
+ */
+export const MERGE_CONFLICT_STEPS: WalkthroughStep[] = [
+    {
+        id: "conflict-status",
+        title: "1. Spot the Conflict",
+        description:
+            "A conflict happens when two branches change the same lines, and Git can't decide which " +
+            "version to keep. 'git status' lists conflicted files under 'Unmerged paths' as 'both modified'.",
+        command: "git status",
+        args: ["status"],
+        notes:
+            "No conflict to look at? Click \"Practice a merge conflict\" at the top of this panel — " +
+            "it sets one up in the sandbox for you.",
+    },
+    {
+        id: "conflict-diff",
+        title: "2. Read the Conflict Markers",
+        description:
+            "Git writes BOTH versions into the file, between markers: <<<<<<< starts your version, " +
+            "======= separates them, and >>>>>>> ends the other branch's version. " +
+            "Open the file, keep the text you want, and delete all three marker lines.",
+        command: "git diff",
+        args: ["diff"],
+        notes:
+            "The Merge Conflicts section at the top of this panel can open each file in VS Code's merge " +
+            "editor, which shows your version and theirs side by side.",
+    },
+    {
+        id: "conflict-add",
+        title: "3. Mark the File as Resolved",
+        description:
+            "Staging a conflicted file tells Git 'I've fixed this one'. " +
+            "Do this for every file that had conflicts.",
+        command: "git add <file>",
+        args: ["add"],
+        requiresInput: {
+            prompt: "Which file did you fix?",
+            placeholder: "e.g., index.html",
+        },
+    },
+    {
+        id: "conflict-commit",
+        title: "4. Finish the Merge",
+        description:
+            "Once every conflict is resolved and staged, commit to complete the merge. " +
+            "--no-edit keeps Git's ready-made message, like \"Merge branch 'feature'\".",
+        command: "git commit --no-edit",
+        args: ["commit", "--no-edit"],
+        notes: "Changed your mind halfway through? 'git merge --abort' puts everything back the way it was.",
+        verify: "newCommit",
     },
 ];
+
+/**
+ * The "Stashing Work in Progress" lesson.
+ */
+export const STASHING_STEPS: WalkthroughStep[] = [
+    {
+        id: "stash-push",
+        title: "1. Stash Your Changes",
+        description:
+            "Stashing puts your unfinished changes on a shelf and gives you a clean working folder — " +
+            "handy when you need to switch branches or pull without committing half-done work. " +
+            "-u includes new (untracked) files too.",
+        command: "git stash push -u",
+        args: ["stash", "push", "-u"],
+        notes: "Make a change to a file first, so there's something to stash.",
+    },
+    {
+        id: "stash-list",
+        title: "2. See What's on the Shelf",
+        description:
+            "Every stash gets a name like stash@{0}. The newest one is always stash@{0}.",
+        command: "git stash list",
+        args: ["stash", "list"],
+    },
+    {
+        id: "stash-pop",
+        title: "3. Bring Your Changes Back",
+        description:
+            "'pop' re-applies the newest stash to your files and removes it from the shelf.",
+        command: "git stash pop",
+        args: ["stash", "pop"],
+        notes: "Use 'git stash apply' instead if you want to keep a copy on the shelf.",
+        verify: "workingTreeChanged",
+    },
+];
+
+/**
+ * The "Undoing Mistakes" lesson.
+ */
+export const UNDO_STEPS: WalkthroughStep[] = [
+    {
+        id: "undo-unstage",
+        title: "1. Unstage a File",
+        description:
+            "Staged something by accident? This takes the file out of the staging area. " +
+            "Your changes to the file are kept — they're just not going into the next commit.",
+        command: "git restore --staged <file>",
+        args: ["restore", "--staged"],
+        requiresInput: {
+            prompt: "Which file do you want to unstage?",
+            placeholder: "e.g., secrets.txt",
+        },
+    },
+    {
+        id: "undo-amend",
+        title: "2. Fix the Last Commit Message",
+        description:
+            "Made a typo in your last commit message? --amend replaces the last commit with a corrected one.",
+        command: 'git commit --amend -m "new message"',
+        args: ["commit", "--amend", "-m"],
+        flow: "commitMessage",
+        notes: "Only amend commits you haven't pushed yet — amending rewrites history.",
+    },
+    {
+        id: "undo-soft-reset",
+        title: "3. Undo the Last Commit (Keep Changes)",
+        description:
+            "This removes the last commit but keeps all its changes staged, so you can fix them and commit again. " +
+            "HEAD~1 means 'one commit before the current one'.",
+        command: "git reset --soft HEAD~1",
+        args: ["reset", "--soft", "HEAD~1"],
+        notes: "Like --amend, only do this for commits you haven't pushed.",
+    },
+    {
+        id: "undo-discard",
+        title: "4. Discard Changes to a File",
+        description:
+            "This throws away your uncommitted changes to one file and puts it back to how it was in the last commit.",
+        command: "git restore <file>",
+        args: ["restore"],
+        requiresInput: {
+            prompt: "Which file's changes do you want to throw away?",
+            placeholder: "e.g., notes.txt",
+        },
+        notes: "Careful — discarded changes can't be brought back with Git!",
+        quiz: [
+            {
+                type: "choice",
+                question: "You discarded your changes to notes.txt by mistake. Can Git get them back?",
+                choices: [
+                    "Yes, with git reflog",
+                    "Yes, with git restore --staged",
+                    "No — they were never committed, so Git never saved them",
+                ],
+                answer: 2,
+                explanation:
+                    "Git can only bring back what it saved: commits (and stashes). Uncommitted changes exist only in " +
+                    "your file, so restoring the file throws them away for good. Your editor's undo may still help.",
+            },
+        ],
+    },
+    {
+        id: "undo-revert",
+        title: "5. Revert a Pushed Commit",
+        description:
+            "For commits other people already have, don't rewrite history — add a NEW commit that undoes the old one. " +
+            "This reverts the most recent commit.",
+        command: "git revert --no-edit HEAD",
+        args: ["revert", "--no-edit", "HEAD"],
+        verify: "newCommit",
+    },
+];
+
+/**
+ * The pack that ships with the extension and is always available,
+ * even if every JSON lesson file fails to load.
+ */
+export const BUILT_IN_PACK: LessonPack = {
+    id: "getting-started",
+    name: "Getting Started",
+    description: "Learn Git one lesson at a time — from your first commit to branches, conflicts and undoing mistakes.",
+    lessons: [
+        {
+            id: "setup",
+            title: "Set Up Git",
+            description:
+                "One-time settings for a new computer: your name and email, plus a few friendlier defaults. " +
+                "These are saved in your Git config, so they apply even while practicing in the sandbox.",
+            steps: SETUP_STEPS,
+        },
+        {
+            id: "first-repo",
+            title: "Your First Repository",
+            description: "Your first complete Git workflow, from installing Git to pushing to GitHub.",
+            steps: WALKTHROUGH_STEPS,
+        },
+        {
+            id: "branching",
+            title: "Branching",
+            description: "Create a branch, switch between branches, and merge your work back.",
+            prerequisites: ["first-repo"],
+            steps: BRANCHING_STEPS,
+        },
+        {
+            id: "merge-conflicts",
+            title: "Resolving a Merge Conflict",
+            description: "What to do when Git can't merge two branches on its own.",
+            prerequisites: ["branching"],
+            steps: MERGE_CONFLICT_STEPS,
+        },
+        {
+            id: "stashing",
+            title: "Stashing Work in Progress",
+            description: "Put unfinished changes aside and bring them back later.",
+            prerequisites: ["first-repo"],
+            steps: STASHING_STEPS,
+        },
+        {
+            id: "undoing",
+            title: "Undoing Mistakes",
+            description: "Unstage files, fix commits, and safely take back changes.",
+            prerequisites: ["first-repo"],
+            steps: UNDO_STEPS,
+        },
+    ],
+};
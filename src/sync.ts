@@ -0,0 +1,281 @@
+/**
+ * sync.ts — Brings a branch and its remote copy back in step.
+ *
+ * WHY?
+ *   "Should I push or pull?" is really the question "who has commits the
+ *   other one doesn't?". Git keeps count — `git status` says "ahead 2,
+ *   behind 3" — but only as of the last time it talked to the remote, and
+ *   "ahead" and "behind" aren't obvious words for it.
+ *
+ *   So Sync fetches first, then says it plainly: "You have 2 commits
+ *   GitHub doesn't, and GitHub has 3 you don't." Then it offers whatever
+ *   makes sense:
+ *     - only you have new commits  → push them
+ *     - only the remote has        → pull them (nothing to combine)
+ *     - both have                  → pull with merge, or pull with rebase
+ *
+ * MERGE OR REBASE?
+ *   When both sides have new commits, they have to be combined. A merge
+ *   keeps both lines of history and joins them with a merge commit. A
+ *   rebase replays your commits on top of theirs, so history is one
+ *   straight line — but your commits are copied, with new hashes. The
+ *   walkthrough panel's "Sync" section draws both, before and after.
+ *
+ * The pull and push themselves go through the pre-flight checks
+ * (preflight.ts), so uncommitted changes in the way are handled safely.
+ */
+
+import * as vscode from "vscode";
+import { getTargetRepo, queryGit, runGitCommand } from "./gitCommands";
+import { getRepoStatus, getUpstreamRemote, RepoStatus } from "./gitStatus";
+import { runWithPreflight } from "./preflight";
+import { showGitError } from "./errorExplainer";
+
+// =============================================================
+// Types
+// =============================================================
+
+/**
+ * Where a branch stands compared with its remote copy.
+ */
+export interface SyncState {
+    /** The branch you're on, or undefined if HEAD is detached */
+    branch?: string;
+
+    /** Its upstream, e.g. "origin/main" (undefined if it was never pushed with -u) */
+    upstream?: string;
+
+    /** What to call the remote: "GitHub", "GitLab"... or its name, e.g. "origin" */
+    remoteLabel?: string;
+
+    /** Commits you have that the remote doesn't */
+    ahead: number;
+
+    /** Commits the remote has that you don't */
+    behind: number;
+}
+
+// =============================================================
+// Describing the Situation
+// =============================================================
+
+/** Well-known hosts, so we can say "GitHub" rather than "origin" */
+const HOST_NAMES: Record<string, string> = {
+    "github.com": "GitHub",
+    "gitlab.com": "GitLab",
+    "bitbucket.org": "Bitbucket",
+};
+
+/** "1 commit" / "3 commits" */
+function commits(count: number): string {
+    return count === 1 ? "1 commit" : `${count} commits`;
+}
+
+/**
+ * Reads where the branch stands, from the status Git already has (so it's
+ * as of the last fetch — syncWithRemote() fetches first).
+ */
+export async function getSyncState(cwd: string, status: RepoStatus): Promise<SyncState> {
+    const state: SyncState = {
+        branch: status.branch,
+        upstream: status.upstream,
+        ahead: status.ahead,
+        behind: status.behind,
+    };
+    const remote = await getUpstreamRemote(cwd, status);
+    if (remote) {
+        const url = await queryGit(["remote", "get-url", remote], cwd);
+        const host = Object.keys(HOST_NAMES).find((name) => url.success && url.output.includes(name));
+        state.remoteLabel = host ? HOST_NAMES[host] : remote;
+    }
+    return state;
+}
+
+/**
+ * Explains the situation in a sentence, e.g. "You have 2 commits GitHub
+ * doesn't, and GitHub has 3 you don't."
+ */
+export function explainSync(state: SyncState): string {
+    const { branch, upstream, remoteLabel, ahead, behind } = state;
+    if (!branch) {
+        return "You're not on a branch (detached HEAD), so there's nothing to sync. Switch to a branch first.";
+    }
+    if (!upstream || !remoteLabel) {
+        return `"${branch}" isn't connected to a remote branch yet. Push it once (with -u) to publish it.`;
+    }
+    if (ahead > 0 && behind > 0) {
+        return `You have ${commits(ahead)} ${remoteLabel} doesn't, and ${remoteLabel} has ${behind} you don't.`;
+    }
+    if (ahead > 0) {
+        return `You have ${commits(ahead)} ${remoteLabel} doesn't have yet.`;
+    }
+    if (behind > 0) {
+        return `${remoteLabel} has ${commits(behind)} you don't have yet.`;
+    }
+    return `"${branch}" is up to date with ${upstream}.`;
+}
+
+// =============================================================
+// Syncing
+// =============================================================
+
+/** A choice in the Sync QuickPick */
+interface SyncChoice extends vscode.QuickPickItem {
+    /** The command to run, or "explain" for the before/after diagram */
+    action: string[] | "explain";
+}
+
+/**
+ * Fetches, explains how the branch and its upstream differ, and offers
+ * to pull (with merge or rebase) or push.
+ *
+ * @param outputChannel - Where commands and their output are logged
+ * @param showDiagram - Shows the merge-vs-rebase diagram in the walkthrough panel
+ * @param cwd - The repository to sync
+ */
+export async function syncWithRemote(
+    outputChannel: vscode.OutputChannel,
+    showDiagram: () => Promise<void>,
+    cwd = getTargetRepo()
+): Promise<void> {
+    if (!cwd) {
+        vscode.window.showErrorMessage("No folder is open in VS Code. Please open a folder first (File > Open Folder).");
+        return;
+    }
+    const before = await getRepoStatus(cwd);
+    if (!before) {
+        vscode.window.showWarningMessage("This folder isn't a Git repository yet — run `git init` first.");
+        return;
+    }
+
+    // No upstream: there's nothing to compare with — but the first push
+    // (whose pre-flight check offers -u) fixes that
+    if (!before.branch || !before.upstream) {
+        const explanation = explainSync(await getSyncState(cwd, before));
+        if (!before.branch) {
+            vscode.window.showInformationMessage(explanation);
+            return;
+        }
+        if ((await vscode.window.showInformationMessage(explanation, "Publish Branch")) === "Publish Branch") {
+            await push(cwd, outputChannel);
+        }
+        return;
+    }
+
+    // Ask the remote what's new, so ahead/behind are up to date
+    const remote = await getUpstreamRemote(cwd, before);
+    const fetch = await runGitCommand(remote ? ["fetch", remote] : ["fetch"], outputChannel, cwd);
+    if (!fetch.success) {
+        await showGitError(fetch, outputChannel);
+        return;
+    }
+
+    const status = (await getRepoStatus(cwd)) ?? before;
+    const state = await getSyncState(cwd, status);
+    const explanation = explainSync(state);
+    outputChannel.appendLine(`Sync: ${explanation}`);
+
+    const choices: SyncChoice[] = [];
+    if (state.ahead > 0 && state.behind > 0) {
+        choices.push(
+            {
+                label: "$(git-merge) Pull with merge (recommended)",
+                detail:
+                    "Runs git pull --no-rebase: keeps both histories as they happened and ties them together " +
+                    "with a merge commit. Then you can push.",
+                action: ["pull", "--no-rebase"],
+            },
+            {
+                label: "$(git-commit) Pull with rebase",
+                detail:
+                    `Runs git pull --rebase: replays your ${commits(state.ahead)} on top of theirs, for a straight ` +
+                    "history. Your commits are copied with new hashes. Then you can push.",
+                action: ["pull", "--rebase"],
+            },
+            {
+                label: "$(question) What's the difference?",
+                detail: "Shows a before/after diagram of both in the Git Walkthrough panel.",
+                action: "explain",
+            }
+        );
+    } else if (state.behind > 0) {
+        choices.push({
+            label: "$(cloud-download) Pull",
+            detail:
+                `Runs git pull --ff-only: moves "${state.branch}" forward to their newest commit. ` +
+                "You have no new commits of your own, so there's nothing to merge or rebase.",
+            action: ["pull", "--ff-only"],
+        });
+    } else if (state.ahead > 0) {
+        choices.push({
+            label: "$(cloud-upload) Push",
+            detail: `Runs git push: uploads your ${commits(state.ahead)} to ${state.remoteLabel}.`,
+            action: ["push"],
+        });
+    } else {
+        vscode.window.showInformationMessage(`${explanation} Nothing to sync.`);
+        return;
+    }
+
+    // "What's the difference?" shows the diagram, then asks again
+    let picked: SyncChoice | undefined;
+    do {
+        picked = await vscode.window.showQuickPick(choices, {
+            title: `Sync "${state.branch}" with ${state.upstream}`,
+            placeHolder: explanation,
+            ignoreFocusOut: true,
+        });
+        if (picked?.action === "explain") {
+            await showDiagram();
+        }
+    } while (picked?.action === "explain");
+
+    if (!picked) {
+        return;
+    }
+    // We've only just fetched, so the pre-flight checks needn't fetch again
+    if (picked.action[0] === "push") {
+        await push(cwd, outputChannel, true);
+        return;
+    }
+
+    const result = await runWithPreflight("pull", picked.action, outputChannel, cwd, true);
+    if (!result) {
+        return;
+    }
+    if (!result.success) {
+        await showGitError(result, outputChannel);
+        return;
+    }
+
+    // After a merge (or rebase), your commits still need pushing
+    const after = await getRepoStatus(cwd);
+    if (after && after.ahead > 0) {
+        const answer = await vscode.window.showInformationMessage(
+            `Pulled! You now have ${commits(after.ahead)} ${state.remoteLabel} doesn't — push now?`,
+            "Push"
+        );
+        if (answer === "Push") {
+            await push(cwd, outputChannel);
+        }
+    } else {
+        vscode.window.showInformationMessage(`Pulled! "${state.branch}" is up to date with ${state.upstream}.`);
+    }
+}
+
+/**
+ * Pushes (with the pre-flight checks) and says how it went.
+ *
+ * @param fetched - True if we've just fetched (see runWithPreflight)
+ */
+async function push(cwd: string, outputChannel: vscode.OutputChannel, fetched = false): Promise<void> {
+    const result = await runWithPreflight("push", ["push"], outputChannel, cwd, fetched);
+    if (!result) {
+        return;
+    }
+    if (result.success) {
+        vscode.window.showInformationMessage("Pushed to remote successfully!");
+    } else {
+        await showGitError(result, outputChannel);
+    }
+}
@@ -0,0 +1,274 @@
+/**
+ * syncView.ts — The walkthrough panel's "Sync" section: how the branch
+ * and its upstream differ, in a sentence (see sync.ts), and a diagram of
+ * what a pull would do with a merge and with a rebase.
+ *
+ * The diagram is drawn with the real numbers of commits when both sides
+ * have new ones — just when the choice matters — and opens by itself then.
+ */
+
+import { RepoStatus } from "./gitStatus";
+import { explainSync, getSyncState } from "./sync";
+import { MessageHandler, PostMessage, WalkthroughSection } from "./walkthroughSection";
+
+/**
+ * Fills in the "Sync" section. Its only button runs the Sync command.
+ */
+export class SyncView implements WalkthroughSection {
+    public readonly styles = STYLES;
+    public readonly script = SCRIPT;
+    public readonly html = HTML;
+    public readonly handlers: Record<string, MessageHandler> = {};
+
+    /**
+     * @param _post - Sends messages to the panel's webview
+     */
+    constructor(private readonly _post: PostMessage) {}
+
+    /**
+     * Sends the section's contents: the explanation, and the counts the
+     * diagram is drawn with.
+     */
+    public async update(cwd: string | undefined, status: RepoStatus | undefined): Promise<void> {
+        const state = cwd && status ? await getSyncState(cwd, status) : undefined;
+        this._post({
+            type: "sync",
+            sync: state && { ...state, explanation: explainSync(state) },
+        });
+    }
+
+    /** Opens the section at the merge-vs-rebase diagram */
+    public showDiagram(): void {
+        this._post({ type: "showSyncDiagram" });
+    }
+}
+
+// =============================================================
+// HTML, CSS and JavaScript
+// =============================================================
+
+const HTML = /*html*/ `
+    <!-- Sync: how this branch compares with its remote copy (filled in by showSync()) -->
+    <details class="sync" id="sync-section">
+        <summary>Sync</summary>
+        <p class="status-summary" id="sync-summary">Checking the repository...</p>
+        <p class="history-explanation">
+            This is as of the last time Git talked to the remote. Sync checks again (git fetch),
+            then offers to pull or push — whichever you need.
+        </p>
+        <button class="fix-button" onclick="runCommand('gitHelper.sync')">Sync Now</button>
+        <details class="sync-diagram" id="sync-diagram">
+            <summary>Merge or rebase?</summary>
+            <p class="history-explanation">
+                When you and the remote both have new commits, a pull has to combine them.
+                There are two ways to do it:
+            </p>
+            <div id="sync-figures"></div>
+        </details>
+    </details>`;
+
+const STYLES = `
+        /* ========================================
+           SYNC
+           Ahead/behind, and the merge-vs-rebase
+           before/after diagram.
+           ======================================== */
+        .sync {
+            margin-bottom: 12px;
+        }
+
+        .sync > summary,
+        .sync-diagram > summary {
+            cursor: pointer;
+            font-weight: bold;
+            padding: 4px 0;
+        }
+
+        .sync-diagram {
+            margin-top: 4px;
+        }
+
+        .sync-figure {
+            margin-bottom: 8px;
+        }
+
+        .sync-figure-title {
+            margin: 0;
+            font-size: 0.9em;
+            font-weight: bold;
+        }
+
+        .sync-figure svg {
+            display: block;
+            margin: 2px 0;
+        }
+
+        .sync-figure text {
+            fill: var(--vscode-foreground);
+            font-size: 10px;
+        }`;
+
+const SCRIPT = `
+        /** True if the last update was diverged, so the diagram only pops open once */
+        let syncDiverged = false;
+
+        /**
+         * Redraws the "Sync" section: the ahead/behind explanation, and the
+         * merge-vs-rebase diagram. When both sides have new commits — just
+         * when the choice matters — the diagram opens by itself.
+         *
+         * @param {object | undefined} sync - From sync.ts (with its explanation),
+         *   or undefined if the folder isn't a Git repository
+         */
+        function showSync(sync) {
+            document.getElementById('sync-summary').textContent = sync
+                ? sync.explanation
+                : "This folder isn't a Git repository yet.";
+
+            const diverged = !!sync && !!sync.upstream && sync.ahead > 0 && sync.behind > 0;
+            if (diverged && !syncDiverged) {
+                openSyncDiagram();
+            }
+            syncDiverged = diverged;
+            drawSyncFigures(diverged ? sync : null);
+        }
+
+        /** Opens the "Sync" section at the diagram, and scrolls to it */
+        function openSyncDiagram() {
+            document.getElementById('sync-section').open = true;
+            const diagram = document.getElementById('sync-diagram');
+            diagram.open = true;
+            diagram.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        }
+
+        /**
+         * Draws the diagram: before, after a merge, and after a rebase.
+         * Grey is the last commit both sides share, blue your commits,
+         * green theirs; hollow dots are new commits the pull makes.
+         *
+         * @param {object | null} sync - Draw with the real numbers of commits
+         *   (up to 3 each), or null for an example with 2 on each side
+         */
+        function drawSyncFigures(sync) {
+            const figuresEl = document.getElementById('sync-figures');
+            figuresEl.replaceChildren();
+
+            const ours = sync ? Math.min(sync.ahead, 3) : 2;
+            const theirs = sync ? Math.min(sync.behind, 3) : 2;
+            const branch = sync ? sync.branch : 'main';
+            const upstream = sync ? sync.upstream : 'origin/main';
+            const BASE = 'var(--vscode-descriptionForeground)';
+            // The same colors as the first two lanes of the History graph
+            const OURS = 'var(--vscode-charts-blue)';
+            const THEIRS = 'var(--vscode-charts-green)';
+            const col = (i) => 8 + i * 24;
+
+            const legend = document.createElement('p');
+            legend.className = 'history-explanation';
+            const key = [[OURS, 'your commits on ' + branch], [THEIRS, 'their commits on ' + upstream]];
+            for (const [color, text] of key) {
+                const dot = document.createElement('span');
+                dot.style.color = color;
+                dot.textContent = '● ';
+                legend.append(dot, text + '   ');
+            }
+            figuresEl.append(legend);
+
+            // Before: two lines of commits, starting from the last one both share
+            figuresEl.append(syncFigure('Before', sync
+                ? 'You and ' + upstream + ' both added commits after the last one you share (grey).'
+                : 'For example: you made 2 commits, and a teammate pushed 2 others.', (draw) => {
+                draw.row(1, theirs, 10, THEIRS, false, 22);
+                draw.row(1, ours, 34, OURS, false, 22);
+                draw.dot(col(0), 22, BASE, false);
+            }));
+
+            // Merge: both lines stay, and a merge commit joins them
+            figuresEl.append(syncFigure('After git pull --no-rebase (merge)',
+                "A new merge commit joins the two lines. Nothing is rewritten, so it's always safe — " +
+                'but the history has a fork in it.', (draw) => {
+                const merge = col(Math.max(ours, theirs) + 1);
+                draw.row(1, theirs, 10, THEIRS, false, 22);
+                draw.row(1, ours, 34, OURS, false, 22);
+                draw.line(col(theirs), 10, merge, 34, THEIRS);
+                draw.line(col(ours), 34, merge, 34, OURS);
+                draw.dot(col(0), 22, BASE, false);
+                draw.dot(merge, 34, OURS, true);
+            }));
+
+            // Rebase: one straight line, with copies of your commits at the end
+            figuresEl.append(syncFigure('After git pull --rebase',
+                'Your commits are replayed on top of theirs as new copies (with new hashes), for one ' +
+                "straight line. Only rebase commits you haven't pushed yet.", (draw) => {
+                draw.row(1, theirs, 22, THEIRS, false);
+                draw.row(theirs + 1, theirs + ours, 22, OURS, true);
+                draw.dot(col(0), 22, BASE, false);
+            }));
+        }
+
+        /**
+         * One figure of the diagram: a title, an SVG and a caption.
+         *
+         * @param {function} paint - Called with drawing helpers (line, dot, row)
+         */
+        function syncFigure(title, caption, paint) {
+            const SVG = 'http://www.w3.org/2000/svg';
+            const col = (i) => 8 + i * 24;
+            const svg = document.createElementNS(SVG, 'svg');
+            svg.setAttribute('height', '44');
+            let width = 0;
+
+            const draw = {
+                line(x1, y1, x2, y2, color) {
+                    const middle = (x1 + x2) / 2;
+                    const path = document.createElementNS(SVG, 'path');
+                    path.setAttribute('d', 'M ' + x1 + ' ' + y1 + ' C ' + middle + ' ' + y1 + ', ' +
+                        middle + ' ' + y2 + ', ' + x2 + ' ' + y2);
+                    path.setAttribute('fill', 'none');
+                    path.setAttribute('stroke-width', '2');
+                    path.style.stroke = color;
+                    svg.prepend(path);
+                },
+                dot(x, y, color, hollow) {
+                    const dot = document.createElementNS(SVG, 'circle');
+                    dot.setAttribute('cx', String(x));
+                    dot.setAttribute('cy', String(y));
+                    dot.setAttribute('r', '5');
+                    dot.setAttribute('stroke-width', '2');
+                    dot.style.stroke = color;
+                    dot.style.fill = hollow ? 'var(--vscode-sideBar-background)' : color;
+                    svg.append(dot);
+                    width = Math.max(width, x + 8);
+                },
+                // Commits in columns first..last of one row, each joined to the one
+                // before it (the first to the commit at fromY in the column before)
+                row(first, last, y, color, hollow, fromY = y) {
+                    for (let i = first; i <= last; i++) {
+                        draw.line(col(i - 1), i === first ? fromY : y, col(i), y, color);
+                        draw.dot(col(i), y, color, hollow);
+                    }
+                },
+            };
+            paint(draw);
+            svg.setAttribute('width', String(width));
+
+            const figure = document.createElement('div');
+            figure.className = 'sync-figure';
+            const titleEl = document.createElement('p');
+            titleEl.className = 'sync-figure-title';
+            titleEl.textContent = title;
+            const captionEl = document.createElement('p');
+            captionEl.className = 'history-explanation';
+            captionEl.textContent = caption;
+            figure.append(titleEl, svg, captionEl);
+            return figure;
+        }
+
+        // The branch or its upstream moved, or the Sync command asked for the diagram
+        window.addEventListener('message', (event) => {
+            if (event.data.type === 'sync') {
+                showSync(event.data.sync);
+            } else if (event.data.type === 'showSyncDiagram') {
+                openSyncDiagram();
+            }
+        });`;
@@ -0,0 +1,490 @@
+/**
+ * terminalPractice.ts — "Type it yourself": practice a step's command in
+ * a real terminal, and have it ticked off when it works.
+ *
+ * WHY?
+ *   "Run Step" runs the command for you. That's a gentle start, but you
+ *   never build the habit of typing `git commit -m "..."` yourself — and
+ *   one day there won't be a button. So every step card also offers
+ *   "Type it yourself": it opens a Git Helper Practice terminal in the
+ *   right repository, and you type the command.
+ *
+ * HOW DOES THE EXTENSION SEE WHAT I TYPED?
+ *   VS Code's "shell integration" marks where each command starts and
+ *   ends in the terminal, and tells extensions the command line and its
+ *   exit code. When a command finishes in the practice terminal, we
+ *   compare it with the step's `args`:
+ *     - it matches and worked      → the step is done (after the step's
+ *                                     usual verification, if it has one)
+ *     - it's close but not quite   → a hint: a missing flag, a typo in
+ *                                     the command, a missing message...
+ *     - it's something else        → nothing happens (looking around
+ *                                     with `git log` is always fine)
+ *   Shell integration works in bash, zsh, fish and PowerShell. If it
+ *   isn't on, we say so, since nothing could be ticked off.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { formatGitCommand, GitCommandResult } from "./gitCommands";
+import { WalkthroughStep } from "./steps";
+import { captureBefore, verifyStep, VerificationOutcome } from "./verification";
+
+/** The practice terminal's name (shown in the terminal tab) */
+const TERMINAL_NAME = "Git Helper Practice";
+
+/** How long to wait for shell integration before warning that it's off (milliseconds) */
+const SHELL_INTEGRATION_WAIT_MS = 5000;
+
+/** The most terminal output we keep for the step card */
+const MAX_OUTPUT_CHARS = 20000;
+
+// =============================================================
+// Reading Command Lines
+// =============================================================
+
+/**
+ * Splits a command line into words the way a shell would, so
+ * `git commit -m "First commit"` → ["git", "commit", "-m", "First commit"].
+ * Operators that start another command (&&, ||, ;, |) become words of
+ * their own.
+ */
+export function splitCommandLine(line: string): string[] {
+    const words: string[] = [];
+    let word: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === "'") {
+            // Single quotes: everything up to the next ' is taken as it is
+            const end = line.indexOf("'", i + 1);
+            word = (word ?? "") + line.slice(i + 1, end === -1 ? line.length : end);
+            i = end === -1 ? line.length : end;
+        } else if (char === '"') {
+            // Double quotes: a backslash only escapes " \ $ and `
+            word = word ?? "";
+            for (i++; i < line.length && line[i] !== '"'; i++) {
+                const escaped = line[i] === "\\" && '"\\$`'.includes(line[i + 1] ?? "");
+                word += escaped ? line[++i] : line[i];
+            }
+        } else if (char === "\\") {
+            word = (word ?? "") + (line[++i] ?? "");
+        } else if (/\s/.test(char)) {
+            if (word !== undefined) {
+                words.push(word);
+            }
+            word = undefined;
+        } else if ("&|;".includes(char)) {
+            if (word !== undefined) {
+                words.push(word);
+            }
+            const double = (char === "&" || char === "|") && line[i + 1] === char;
+            words.push(double ? char + char : char);
+            i += double ? 1 : 0;
+            word = undefined;
+        } else {
+            word = (word ?? "") + char;
+        }
+    }
+    if (word !== undefined) {
+        words.push(word);
+    }
+    return words;
+}
+
+/**
+ * Finds the Git commands in a command line and returns their arguments:
+ * `cd app && git status` → [["status"]]. Options that go before the
+ * subcommand (like `git --no-pager log`) are left out.
+ */
+export function parseGitCommands(line: string): string[][] {
+    const commands: string[][] = [];
+    let current: string[] = [];
+    for (const word of [...splitCommandLine(line), ";"]) {
+        if (!["&&", "||", ";", "|", "&"].includes(word)) {
+            current.push(word);
+            continue;
+        }
+        // Skip variable assignments like GIT_TRACE=1 in front of the command
+        const words = current.filter((w, i) => !current.slice(0, i + 1).every((v) => /^\w+=/.test(v)));
+        const program = path.basename(words[0] ?? "").toLowerCase();
+        if (program === "git" || program === "git.exe") {
+            const args = words.slice(1);
+            while (["--no-pager", "-P", "--paginate", "-p", "-C", "-c"].includes(args[0])) {
+                args.splice(0, args[0] === "-C" || args[0] === "-c" ? 2 : 1);
+            }
+            commands.push(args);
+        }
+        current = [];
+    }
+    return commands;
+}
+
+// =============================================================
+// Comparing With the Step
+// =============================================================
+
+/** How a typed command compares with the step's command */
+export type CommandMatch = { kind: "match" } | { kind: "nearMiss"; hint: string } | { kind: "unrelated" };
+
+/** Long options that mean the same as a short one, by subcommand: `--message` is `-m` */
+const LONG_FLAGS: Record<string, Record<string, string>> = {
+    commit: { "--message": "-m", "--all": "-a" },
+    push: { "--set-upstream": "-u" },
+    switch: { "--create": "-c" },
+    stash: { "--include-untracked": "-u" },
+    add: { "--all": "-A" },
+};
+
+/** What leaving out a flag does, for the flags beginners most often forget */
+const MISSING_FLAG_HINTS: Record<string, string> = {
+    "commit -m": 'Add -m "your message". Without it, Git opens a text editor for the message and waits for you.',
+    "commit -a": "Add -a to include every changed file that Git already tracks, without staging them first.",
+    "push -u": 'Add -u so Git remembers where this branch goes — after that, a plain "git push" is enough.',
+    "switch -c": "Add -c to create the branch. Without it, git switch only goes to branches that already exist.",
+    "stash -u": "Add -u so new (untracked) files are stashed too, not left behind.",
+    "restore --staged": "Careful — without --staged, git restore throws away your changes instead of unstaging them!",
+    "reset --soft": "Add --soft to keep the commit's changes staged. Without it, they're unstaged too.",
+    "config --global": "Add --global so the setting applies to every repository, not just this one.",
+    "commit --no-edit": "Add --no-edit to keep the suggested message instead of opening an editor.",
+    "revert --no-edit": "Add --no-edit to keep the suggested message instead of opening an editor.",
+};
+
+/** A command's flags and other words, with equivalent flags written the same way */
+interface ParsedArgs {
+    subcommand: string;
+    flags: string[];
+    values: string[];
+}
+
+/** Sorts a command's arguments into flags and other words (see ParsedArgs) */
+function parseArgs(args: string[]): ParsedArgs {
+    const [subcommand = "", ...rest] = args;
+    const longFlags = LONG_FLAGS[subcommand] ?? {};
+    const flags: string[] = [];
+    const values: string[] = [];
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        if (arg === "--") {
+            values.push(...rest.slice(i + 1)); // everything after -- is a file name
+            break;
+        }
+        if (/^-[a-zA-Z]{2,}$/.test(arg)) {
+            flags.push(...[...arg.slice(1)].map((letter) => `-${letter}`)); // -am → -a -m
+        } else if (arg.startsWith("--") && arg.includes("=")) {
+            const [flag, value] = [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)];
+            flags.push(longFlags[flag] ?? flag); // --message=hi → -m hi
+            values.push(value);
+        } else if (arg.startsWith("-") && arg !== "-") {
+            flags.push(longFlags[arg] ?? arg);
+        } else {
+            values.push(arg);
+        }
+    }
+    return { subcommand, flags, values };
+}
+
+/** How many single-letter edits turn one word into the other */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i];
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = row;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Compares a command the learner typed with the step's command.
+ *
+ * Steps that ask for something (a commit message, a branch name, a URL)
+ * match when the typed command has the step's `args` plus something
+ * more. "Stage Your Files" steps match any `git add` of some files, not
+ * only `git add .`. The identity step matches setting either user.name
+ * or user.email (its verification says when both are done).
+ *
+ * @param expected - The step's `args`, with placeholders filled in
+ * @param typed - The arguments of the command that was typed (after `git`)
+ */
+export function compareCommand(step: WalkthroughStep, expected: string[], typed: string[]): CommandMatch {
+    const want = parseArgs(expected);
+    const got = parseArgs(typed);
+    const shown = formatGitCommand(expected);
+
+    if (got.subcommand !== want.subcommand) {
+        const typo = got.subcommand.length >= 3 && editDistance(got.subcommand, want.subcommand) <= 2;
+        if (!typo) {
+            return { kind: "unrelated" };
+        }
+        return {
+            kind: "nearMiss",
+            hint: `Check the spelling: it's "git ${want.subcommand}", not "git ${got.subcommand}".`,
+        };
+    }
+
+    if (step.flow === "configureIdentity") {
+        const key = got.values.find((value) => /^user\.(name|email)$/i.test(value));
+        if (!key) {
+            return {
+                kind: "nearMiss",
+                hint: 'Set user.name or user.email, e.g. git config --global user.name "Your Name".',
+            };
+        }
+        if (got.values.length < 2) {
+            return { kind: "nearMiss", hint: `Add the value after ${key}, in quotes if it has spaces.` };
+        }
+        return { kind: "match" };
+    }
+
+    // Flags the step uses that weren't typed
+    const missing = want.flags.filter((flag) => !got.flags.includes(flag));
+    if (missing.length > 0) {
+        const hint = MISSING_FLAG_HINTS[`${want.subcommand} ${missing[0]}`];
+        return {
+            kind: "nearMiss",
+            hint: hint ?? `Almost! The step's command also has ${missing.join(" ")}: ${shown}`,
+        };
+    }
+
+    // Flags that were typed but the step doesn't use (git add -A is fine for "stage everything")
+    const allowed = step.flow === "stageFiles" ? ["-A"] : [];
+    const extra = got.flags.filter((flag) => !want.flags.includes(flag) && !allowed.includes(flag));
+    if (extra.length > 0) {
+        return {
+            kind: "nearMiss",
+            hint: `Close! This step's command doesn't use ${extra.join(" ")}. Try: ${shown}`,
+        };
+    }
+
+    // The rest of the words: exactly the step's, or the step's plus the
+    // learner's own (a message, a branch name, some files...)
+    if (step.flow === "stageFiles") {
+        return got.values.length > 0 || got.flags.includes("-A")
+            ? { kind: "match" }
+            : { kind: "nearMiss", hint: 'Tell git add what to stage: a file name, or "." for everything.' };
+    }
+    const open = step.flow === "commitMessage" || step.requiresInput !== undefined;
+    const sameStart = want.values.every((value, i) => got.values[i] === value);
+    if (open && sameStart && got.values.length > want.values.length) {
+        return { kind: "match" };
+    }
+    if (open && sameStart) {
+        const hint =
+            step.flow === "commitMessage"
+                ? `Nearly there — add your message at the end, in quotes: ${shown} "Add the home page"`
+                : `Nearly there — add ${step.requiresInput?.placeholder ?? "the missing part"} at the end.`;
+        return { kind: "nearMiss", hint };
+    }
+    if (!open && sameStart && got.values.length === want.values.length) {
+        return { kind: "match" };
+    }
+    return { kind: "nearMiss", hint: `Not quite the step's command. Try: ${shown}` };
+}
+
+// =============================================================
+// Watching the Practice Terminal
+// =============================================================
+
+/**
+ * What happened when the learner typed a command for a step: the output
+ * and verdict to show in the step's card.
+ */
+export interface PracticeAttempt {
+    stepId: string;
+    result: GitCommandResult;
+    outcome: VerificationOutcome;
+}
+
+/** The step being practised */
+interface Practice {
+    step: WalkthroughStep;
+
+    /** The step's `args`, with placeholders filled in */
+    expected: string[];
+
+    /** The repository it's for */
+    cwd: string;
+
+    /** The repo before the next command (see captureBefore()), for the step's verification */
+    before: Promise<string>;
+}
+
+/** Removes terminal colour codes and the like from terminal output */
+function stripTerminalCodes(text: string): string {
+    return text.replace(/\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(\x07|\x1b\\)|\r/g, "");
+}
+
+/**
+ * Runs the Git Helper Practice terminal and tells the walkthrough panel
+ * how each command typed for a step went. Created once in extension.ts.
+ */
+export class TerminalPractice implements vscode.Disposable {
+    private _terminal?: vscode.Terminal;
+
+    /** The folder the terminal was opened in */
+    private _terminalCwd?: string;
+
+    private _practice?: Practice;
+
+    /** Output of the commands running right now, collected as it arrives */
+    private readonly _outputs = new Map<vscode.TerminalShellExecution, Promise<string>>();
+
+    /** The pending "is shell integration on?" check */
+    private _integrationTimer?: NodeJS.Timeout;
+
+    private readonly _onDidAttempt = new vscode.EventEmitter<PracticeAttempt>();
+
+    /** Fires when a command typed for the step being practised finishes */
+    public readonly onDidAttempt = this._onDidAttempt.event;
+
+    private readonly _disposables: vscode.Disposable[] = [this._onDidAttempt];
+
+    constructor() {
+        this._disposables.push(
+            vscode.window.onDidStartTerminalShellExecution((event) => this._onStart(event)),
+            vscode.window.onDidEndTerminalShellExecution((event) => void this._onEnd(event)),
+            vscode.window.onDidCloseTerminal((terminal) => {
+                if (terminal === this._terminal) {
+                    this._terminal = undefined;
+                    this._practice = undefined;
+                }
+            })
+        );
+    }
+
+    public dispose(): void {
+        clearTimeout(this._integrationTimer);
+        this._terminal?.dispose();
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    /**
+     * Opens the practice terminal in the step's repository (or brings it
+     * to the front), and watches it for the step's command.
+     *
+     * @param expected - The step's `args`, with placeholders filled in
+     * @param cwd - The repository the step is for
+     */
+    public start(step: WalkthroughStep, expected: string[], cwd: string): void {
+        if (!this._terminal || this._terminalCwd !== cwd) {
+            // (a terminal can't change its folder, so the sandbox or another
+            // repository gets a fresh one)
+            this._terminal?.dispose();
+            this._terminal = vscode.window.createTerminal({
+                name: TERMINAL_NAME,
+                cwd,
+                iconPath: new vscode.ThemeIcon("mortar-board"),
+            });
+            this._terminalCwd = cwd;
+            this._checkShellIntegration(this._terminal);
+        }
+        this._practice = { step, expected, cwd, before: this._captureBefore(step, cwd) };
+        this._terminal.show();
+    }
+
+    /** Notes what the repo looks like now, if the step checks what its command changed */
+    private _captureBefore(step: WalkthroughStep, cwd: string): Promise<string> {
+        return step.verify ? captureBefore(step.verify, cwd) : Promise.resolve("");
+    }
+
+    /**
+     * Warns if VS Code still can't see the commands in the terminal after
+     * a few seconds — then nothing typed there could be ticked off.
+     */
+    private _checkShellIntegration(terminal: vscode.Terminal): void {
+        clearTimeout(this._integrationTimer);
+        this._integrationTimer = setTimeout(async () => {
+            if (terminal !== this._terminal || terminal.shellIntegration || terminal.exitStatus) {
+                return;
+            }
+            const choice = await vscode.window.showWarningMessage(
+                "Git Helper can't see the commands typed in the practice terminal, so it can't tick off steps. " +
+                    "Turn on terminal shell integration, or use bash, zsh, fish or PowerShell in the terminal.",
+                "Open Setting"
+            );
+            if (choice === "Open Setting") {
+                await vscode.commands.executeCommand(
+                    "workbench.action.openSettings",
+                    "terminal.integrated.shellIntegration.enabled"
+                );
+            }
+        }, SHELL_INTEGRATION_WAIT_MS);
+    }
+
+    /** Starts collecting a command's output (it can only be read from the start) */
+    private _onStart(event: vscode.TerminalShellExecutionStartEvent): void {
+        if (event.terminal !== this._terminal || !this._practice) {
+            return;
+        }
+        const read = async () => {
+            let output = "";
+            for await (const data of event.execution.read()) {
+                if (output.length < MAX_OUTPUT_CHARS) {
+                    output += data;
+                }
+            }
+            return stripTerminalCodes(output).trim();
+        };
+        this._outputs.set(event.execution, read());
+    }
+
+    /** Compares a finished command with the step, and says how it went */
+    private async _onEnd(event: vscode.TerminalShellExecutionEndEvent): Promise<void> {
+        const output = this._outputs.get(event.execution);
+        this._outputs.delete(event.execution);
+        const practice = this._practice;
+        if (event.terminal !== this._terminal || !practice) {
+            return;
+        }
+
+        // Of the Git commands on the line, the one closest to the step counts
+        const matches = parseGitCommands(event.execution.commandLine.value).map((typed) =>
+            compareCommand(practice.step, practice.expected, typed)
+        );
+        const match =
+            matches.find((m) => m.kind === "match") ??
+            matches.find((m) => m.kind === "nearMiss") ??
+            ({ kind: "unrelated" } as CommandMatch);
+
+        // Whatever it was, it may have changed the repo: what comes next is
+        // compared with how things are now
+        const before = practice.before;
+        practice.before = this._captureBefore(practice.step, practice.cwd);
+        if (match.kind === "unrelated") {
+            return;
+        }
+
+        // (the output stream ends with the command, but don't wait forever)
+        const text = output
+            ? await Promise.race([output, new Promise<string>((resolve) => setTimeout(() => resolve(""), 1000))])
+            : "";
+        // exitCode is undefined when the shell didn't report it — then the
+        // step's verification (if it has one) decides
+        const worked = event.exitCode === undefined || event.exitCode === 0;
+        const result: GitCommandResult = { success: worked, output: text || "(no output)" };
+
+        let outcome: VerificationOutcome;
+        const where = event.execution.cwd?.fsPath;
+        if (match.kind === "nearMiss") {
+            outcome = { state: "attention", message: match.hint };
+        } else if (where && path.relative(practice.cwd, where).startsWith("..")) {
+            outcome = {
+                state: "attention",
+                message: `Right command, wrong folder: it ran in ${where}. Type cd "${practice.cwd}" first.`,
+            };
+        } else if (!worked) {
+            outcome = { state: "fail", message: "That's the right command, but Git reported a problem (see below)." };
+        } else if (practice.step.verify) {
+            outcome = await verifyStep(practice.step.verify, practice.cwd, await before);
+        } else {
+            outcome = { state: "pass", message: "You typed it yourself!" };
+        }
+
+        if (outcome.state === "pass" && this._practice === practice) {
+            this._practice = undefined;
+        }
+        this._onDidAttempt.fire({ stepId: practice.step.id, result, outcome });
+    }
+}
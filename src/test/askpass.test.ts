@@ -0,0 +1,87 @@
+import * as assert from "assert";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { AskpassBridge } from "../askpass";
+import { runGitCommand } from "../gitCommands";
+import { vscodeStandIn } from "./setup";
+
+/** Swallows the command output */
+const outputChannel = { append() {}, appendLine() {}, show() {} } as unknown as vscode.OutputChannel;
+
+/**
+ * A remote that wants a password, like GitHub over https://. It answers
+ * 401 until a request signs in, and remembers what each one signed in with.
+ */
+async function startRemote(): Promise<{ url: string; logins: string[]; close: () => void }> {
+    const logins: string[] = [];
+    const server = http.createServer((request, response) => {
+        const login = request.headers.authorization;
+        if (!login) {
+            response.writeHead(401, { "WWW-Authenticate": 'Basic realm="test"' });
+        } else {
+            logins.push(Buffer.from(login.replace(/^Basic /, ""), "base64").toString());
+            // Signed in, but there's no repository here — the test only cares about the login
+            response.writeHead(404);
+        }
+        response.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as { port: number };
+    return { url: `http://127.0.0.1:${port}/repo.git`, logins, close: () => server.close() };
+}
+
+describe("AskpassBridge", function () {
+    // Runs real git, which starts the helper program with Node
+    this.timeout(20000);
+
+    let bridge: AskpassBridge;
+    let remote: Awaited<ReturnType<typeof startRemote>>;
+    let prompts: string[];
+
+    beforeEach(async () => {
+        remote = await startRemote();
+        prompts = [];
+        bridge = new AskpassBridge(path.join(__dirname, "..", ".."), outputChannel);
+        // The bridge points Git at itself once it's listening, which Node reports on the next tick
+        await new Promise((resolve) => setImmediate(resolve));
+    });
+
+    afterEach(() => {
+        bridge.dispose();
+        remote.close();
+        delete vscodeStandIn.window.showInputBox;
+    });
+
+    /** Runs a command that has to sign in to the remote (with no saved passwords to fall back on) */
+    const signIn = () =>
+        runGitCommand(["-c", "credential.helper=", "ls-remote", remote.url], outputChannel, os.tmpdir());
+
+    it("passes Git's questions to input boxes, and the answers back to Git", async () => {
+        vscodeStandIn.window.showInputBox = async (options: vscode.InputBoxOptions) => {
+            prompts.push(options.prompt ?? "");
+            return /^Username/.test(options.prompt ?? "") ? "ada" : "s3cret";
+        };
+
+        await signIn();
+
+        assert.strictEqual(prompts.length, 2);
+        assert.match(prompts[0], /^Username for 'http:\/\/127\.0\.0\.1:\d+'$/);
+        assert.match(prompts[1], /^Password for 'http:\/\/ada@127\.0\.0\.1:\d+'$/);
+        assert.deepStrictEqual(remote.logins, ["ada:s3cret"]);
+    });
+
+    it("makes Git give up when the user cancels", async () => {
+        vscodeStandIn.window.showInputBox = async (options: vscode.InputBoxOptions) => {
+            prompts.push(options.prompt ?? "");
+            return undefined;
+        };
+
+        const result = await signIn();
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(prompts.length, 1);
+        assert.deepStrictEqual(remote.logins, []);
+    });
+});
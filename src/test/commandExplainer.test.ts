@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import { ExplainedCommand, explainCommandLine, explainGitArgs } from "../commandExplainer";
+
+/** Each part as "kind:text" */
+const kinds = (line: string) =>
+    explainCommandLine(line).map((command) => command.parts.map((part) => `${part.kind}:${part.text}`));
+
+/** Each warning as "level:title" */
+const levels = (command: ExplainedCommand) => command.warnings.map((warning) => `${warning.level}:${warning.title}`);
+
+describe("explainCommandLine", () => {
+    it("names each part of a command", () => {
+        assert.deepStrictEqual(kinds('git commit -m "Save work"'), [
+            ["program:git", "subcommand:commit", "option:-m", "value:Save work"],
+        ]);
+        assert.deepStrictEqual(kinds("git -C app status"), [
+            ["program:git", "global:-C", "value:app", "subcommand:status"],
+        ]);
+        assert.deepStrictEqual(kinds("git stash pop"), [["program:git", "subcommand:stash", "action:pop"]]);
+    });
+
+    it("splits a command line at && and explains the connector", () => {
+        const [add, commit] = explainCommandLine('$ git add . && git commit -m "Save work"');
+        assert.strictEqual(add.text, "git add .");
+        assert.strictEqual(add.connector, undefined);
+        assert.strictEqual(commit.text, 'git commit -m "Save work"');
+        assert.strictEqual(commit.connector?.text, "&&");
+    });
+
+    it("warns about commands that can lose work, the most serious first", () => {
+        const [reset] = explainCommandLine("git reset --hard HEAD~1");
+        assert.deepStrictEqual(levels(reset), ["danger:reset --hard"]);
+
+        const [checkout] = explainCommandLine("git checkout -B main -f");
+        assert.deepStrictEqual(levels(checkout), ["danger:checkout -f", "caution:checkout -B"]);
+
+        assert.deepStrictEqual(explainCommandLine("git status")[0].warnings, []);
+    });
+
+    it("says when it doesn't know a command", () => {
+        const [typo] = explainCommandLine("git frobnicate");
+        assert.strictEqual(typo.parts[1].known, false);
+        assert.match(typo.summary, /git help frobnicate/);
+
+        const [other] = explainCommandLine("ls -la");
+        assert.match(other.summary, /isn't a Git command/);
+    });
+});
+
+describe("explainGitArgs", () => {
+    it("treats the arguments as one command, whatever they contain", () => {
+        const explained = explainGitArgs(["commit", "-m", "a && b"]);
+        assert.strictEqual(explained.text, 'git commit -m "a && b"');
+        assert.strictEqual(explained.parts.length, 4);
+        assert.strictEqual(explained.connector, undefined);
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from "assert";
+import { CommitRules, lintCommitMessage, validateCommitInput } from "../commitMessage";
+
+/** The default settings */
+const DEFAULT_RULES: CommitRules = {
+    maxSubjectLength: 72,
+    imperativeMood: true,
+    conventionalCommits: "off",
+    types: ["feat", "fix", "docs"],
+    scopes: [],
+    blankLineBeforeBody: true,
+    guided: false,
+};
+
+const rules = (changes: Partial<CommitRules>): CommitRules => ({ ...DEFAULT_RULES, ...changes });
+
+/** Just the severities, to keep the assertions short */
+const severities = (message: string, commitRules = DEFAULT_RULES) =>
+    lintCommitMessage(message, commitRules).map((problem) => problem.severity);
+
+describe("lintCommitMessage", () => {
+    it("accepts a good message", () => {
+        assert.deepStrictEqual(lintCommitMessage("Fix login button alignment", DEFAULT_RULES), []);
+        assert.deepStrictEqual(lintCommitMessage("Fix typo\n\nIt said 'teh'.", DEFAULT_RULES), []);
+    });
+
+    it("rejects an empty subject", () => {
+        assert.deepStrictEqual(severities("   \n\nA body without a subject"), ["error"]);
+    });
+
+    it("rejects a subject that's too long, unless there's no limit", () => {
+        const subject = "Fix " + "a".repeat(80);
+        assert.deepStrictEqual(severities(subject), ["error"]);
+        assert.deepStrictEqual(severities(subject, rules({ maxSubjectLength: 0 })), []);
+    });
+
+    it("suggests the imperative mood, keeping the capital letter", () => {
+        const [added] = lintCommitMessage("Added a login page", DEFAULT_RULES);
+        assert.strictEqual(added.severity, "warning");
+        assert.match(added.message, /"Add", not "Added"/);
+
+        assert.match(lintCommitMessage("modified the readme", DEFAULT_RULES)[0].message, /"modify"/);
+        assert.match(lintCommitMessage("Fixes the build", DEFAULT_RULES)[0].message, /"Fix"/);
+        assert.deepStrictEqual(severities("Added a login page", rules({ imperativeMood: false })), []);
+    });
+
+    it("doesn't mistake other words for verbs", () => {
+        assert.deepStrictEqual(severities("Readme typos"), []);
+        assert.deepStrictEqual(severities("Nothing here"), []);
+    });
+
+    it("needs a blank line before the body", () => {
+        assert.deepStrictEqual(severities("Fix typo\nIt said 'teh'."), ["error"]);
+        assert.deepStrictEqual(severities("Fix typo\nIt said 'teh'.", rules({ blankLineBeforeBody: false })), []);
+    });
+
+    it("checks the type and scope of Conventional Commits", () => {
+        const required = rules({ conventionalCommits: "require", scopes: ["login"] });
+        assert.deepStrictEqual(severities("feat(login): add a password field", required), []);
+        assert.deepStrictEqual(severities("feat!: drop the old login page", required), []);
+        assert.deepStrictEqual(severities("Add a password field", required), ["error"]);
+        assert.deepStrictEqual(severities("feature: add a password field", required), ["error"]);
+        assert.deepStrictEqual(severities("feat(signup): add a password field", required), ["error"]);
+        assert.deepStrictEqual(severities("feat: ", required), ["error"]);
+    });
+
+    it("only warns about Conventional Commits when they're suggested", () => {
+        const suggest = rules({ conventionalCommits: "suggest" });
+        assert.deepStrictEqual(severities("Add a password field", suggest), ["warning"]);
+        assert.deepStrictEqual(severities("feature: add a password field", suggest), ["warning"]);
+    });
+
+    it("checks the mood of the description after the type", () => {
+        const required = rules({ conventionalCommits: "require" });
+        assert.deepStrictEqual(severities("fix: fixed the build", required), ["warning"]);
+        assert.deepStrictEqual(severities("fix: fixed the build"), ["warning"]);
+    });
+
+    it("puts errors before warnings", () => {
+        const problems = lintCommitMessage("Added a login page\nwith a body", DEFAULT_RULES);
+        assert.deepStrictEqual(problems.map((problem) => problem.severity), ["error", "warning"]);
+    });
+});
+
+describe("validateCommitInput", () => {
+    it("returns the most important problem in the input box's format", () => {
+        const validate = validateCommitInput(DEFAULT_RULES);
+        assert.strictEqual(validate("Fix typo"), undefined);
+        assert.strictEqual(validate("Added a page\nbody")?.severity, 3);
+        assert.strictEqual(validate("Added a page")?.severity, 2);
+    });
+
+    it("checks the whole message when the box only asks for part of it", () => {
+        const validate = validateCommitInput(rules({ conventionalCommits: "require" }), (value) => `fix: ${value}`);
+        assert.strictEqual(validate("correct the typo"), undefined);
+    });
+});
@@ -0,0 +1,76 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { explainGitError } from "../errorExplainer";
+
+/** Just the fixes' commands, to keep the assertions short */
+const fixArgs = async (output: string, cwd?: string) =>
+    (await explainGitError(output, cwd))?.fixes.map((fix) => fix.args.join(" "));
+
+describe("explainGitError", () => {
+    let folder: string;
+
+    /** Runs Git in the test repo, as a made-up user */
+    const git = (...args: string[]) =>
+        execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+            cwd: folder,
+            stdio: "pipe",
+        });
+
+    beforeEach(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), "git-helper-test-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it("leaves errors it doesn't know alone", async () => {
+        assert.strictEqual(await explainGitError("fatal: something new went wrong", undefined), undefined);
+    });
+
+    it("explains new files that a pull would overwrite", async () => {
+        const output =
+            "error: The following untracked working tree files would be overwritten by merge:\n\tnotes.txt";
+        assert.strictEqual((await explainGitError(output, undefined))?.id, "untracked-files-in-the-way");
+    });
+
+    it("fixes the remote the message names", async () => {
+        const explanation = await explainGitError("error: remote upstream already exists.", undefined);
+        assert.strictEqual(explanation?.title, 'A remote called "upstream" already exists');
+        assert.deepStrictEqual(
+            explanation?.fixes.map((fix) => fix.args.join(" ")),
+            ["remote -v", "remote set-url upstream"]
+        );
+    });
+
+    it("switches the branch's own remote to HTTPS, and offers nothing to switch without one", async () => {
+        const output = "git@github.com: Permission denied (publickey).";
+        git("init", "--quiet");
+        assert.deepStrictEqual(await fixArgs(output, folder), ["remote -v"]);
+
+        git("remote", "add", "team/main", "git@github.com:team/app.git");
+        assert.deepStrictEqual(await fixArgs(output, folder), ["remote -v", "remote set-url team/main"]);
+    });
+
+    it("aborts the operation that stopped, or nothing if none did", async () => {
+        const output = "CONFLICT (content): Merge conflict in notes.txt";
+        git("init", "--quiet", "--initial-branch=main");
+        fs.writeFileSync(path.join(folder, "notes.txt"), "first\n");
+        git("add", "notes.txt");
+        git("commit", "--quiet", "-m", "Add notes");
+        assert.deepStrictEqual(await fixArgs(output, folder), ["status"]);
+
+        git("switch", "--quiet", "-c", "other");
+        fs.writeFileSync(path.join(folder, "notes.txt"), "theirs\n");
+        git("commit", "--quiet", "-am", "Change notes");
+        git("switch", "--quiet", "main");
+        fs.writeFileSync(path.join(folder, "notes.txt"), "ours\n");
+        git("commit", "--quiet", "-am", "Change notes too");
+        assert.throws(() => git("cherry-pick", "other"));
+
+        assert.deepStrictEqual(await fixArgs(output, folder), ["status", "cherry-pick --abort"]);
+    });
+});
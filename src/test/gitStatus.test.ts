@@ -0,0 +1,114 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getRepoStatus, getUpstreamRemote, parseStatus } from "../gitStatus";
+
+/** Joins entries the way `git status --porcelain=v2 -z` does */
+const porcelain = (...entries: string[]) => entries.join("\0") + "\0";
+
+const HASH = "a1b2c3d4e5f60718293a4b5c6d7e8f9012345678";
+
+describe("parseStatus", () => {
+    it("reads the branch headers", () => {
+        const status = parseStatus(
+            porcelain(
+                `# branch.oid ${HASH}`,
+                "# branch.head main",
+                "# branch.upstream origin/main",
+                "# branch.ab +2 -3"
+            )
+        );
+        assert.strictEqual(status.commit, HASH);
+        assert.strictEqual(status.branch, "main");
+        assert.strictEqual(status.upstream, "origin/main");
+        assert.strictEqual(status.ahead, 2);
+        assert.strictEqual(status.behind, 3);
+    });
+
+    it("leaves out the commit before the first one, and the branch when HEAD is detached", () => {
+        const status = parseStatus(porcelain("# branch.oid (initial)", "# branch.head (detached)"));
+        assert.strictEqual(status.commit, undefined);
+        assert.strictEqual(status.branch, undefined);
+        assert.strictEqual(status.ahead, 0);
+        assert.strictEqual(status.behind, 0);
+    });
+
+    it("sorts ordinary changes into staged and unstaged", () => {
+        const status = parseStatus(
+            porcelain(
+                `1 M. N... 100644 100644 100644 ${HASH} ${HASH} staged.txt`,
+                `1 .M N... 100644 100644 100644 ${HASH} ${HASH} unstaged.txt`,
+                `1 AD N... 000000 100644 000000 ${HASH} ${HASH} both.txt`
+            )
+        );
+        assert.deepStrictEqual(status.staged, [
+            { path: "staged.txt", kind: "modified", origPath: undefined },
+            { path: "both.txt", kind: "added", origPath: undefined },
+        ]);
+        assert.deepStrictEqual(status.unstaged, [
+            { path: "unstaged.txt", kind: "modified" },
+            { path: "both.txt", kind: "deleted" },
+        ]);
+    });
+
+    it("keeps spaces in paths", () => {
+        const status = parseStatus(porcelain(`1 .M N... 100644 100644 100644 ${HASH} ${HASH} my notes.txt`));
+        assert.strictEqual(status.unstaged[0].path, "my notes.txt");
+    });
+
+    it("reads a rename's original path from the next entry", () => {
+        const status = parseStatus(
+            porcelain(`2 R. N... 100644 100644 100644 ${HASH} ${HASH} R100 new name.txt`, "old name.txt", "? after.txt")
+        );
+        assert.deepStrictEqual(status.staged, [{ path: "new name.txt", kind: "renamed", origPath: "old name.txt" }]);
+        assert.deepStrictEqual(status.untracked, [{ path: "after.txt", kind: "untracked" }]);
+    });
+
+    it("explains what each side did to a conflicted file", () => {
+        const status = parseStatus(
+            porcelain(
+                `u UU N... 100644 100644 100644 100644 ${HASH} ${HASH} ${HASH} app.js`,
+                `u DU N... 100644 000000 100644 100644 ${HASH} ${HASH} ${HASH} gone.js`
+            )
+        );
+        assert.deepStrictEqual(status.conflicted, [
+            { path: "app.js", kind: "conflicted", conflict: "both modified" },
+            { path: "gone.js", kind: "conflicted", conflict: "deleted by us" },
+        ]);
+        assert.deepStrictEqual(status.staged, []);
+        assert.deepStrictEqual(status.unstaged, []);
+    });
+
+    it("ignores ignored files", () => {
+        const status = parseStatus(porcelain("! build/", "? new.txt"));
+        assert.deepStrictEqual(status.untracked, [{ path: "new.txt", kind: "untracked" }]);
+    });
+});
+
+describe("getUpstreamRemote", () => {
+    let folder: string;
+
+    beforeEach(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), "git-helper-test-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it("finds the remote even when its name has a slash in it", async () => {
+        const git = (...args: string[]) => execFileSync("git", args, { cwd: folder });
+        git("init", "--quiet", "--initial-branch=main");
+        git("remote", "add", "team/app", "https://example.com/app.git");
+        git("config", "branch.main.remote", "team/app");
+        git("config", "branch.main.merge", "refs/heads/main");
+
+        const status = await getRepoStatus(folder);
+        assert.strictEqual(status?.upstream, "team/app/main");
+        assert.strictEqual(await getUpstreamRemote(folder, status), "team/app");
+
+        assert.strictEqual(await getUpstreamRemote(folder, { ...status, branch: undefined }), undefined);
+    });
+});
@@ -0,0 +1,65 @@
+import * as assert from "assert";
+import { HistoryCommit, layoutGraph, parseLog } from "../history";
+
+/** A commit with just the fields the graph uses */
+const commit = (hash: string, ...parents: string[]): HistoryCommit => ({
+    hash,
+    shortHash: hash,
+    parents,
+    author: "",
+    email: "",
+    date: "",
+    subject: hash,
+    refs: [],
+});
+
+describe("parseLog", () => {
+    it("reads the fields and refs of each commit", () => {
+        const fields = [
+            ["a".repeat(40), "b".repeat(40), "Ada", "ada@example.com", "2024-01-02T03:04:05+00:00"],
+            ["HEAD -> refs/heads/main, refs/remotes/origin/main, refs/remotes/origin/HEAD, tag: refs/tags/v1.0"],
+            ["Fix typo"],
+            ["b".repeat(40), "", "Ada", "ada@example.com", "2024-01-01T00:00:00+00:00", "", "Initial commit"],
+        ].flat();
+        const [first, second] = parseLog(fields.join("\0") + "\0");
+
+        assert.strictEqual(first.shortHash, "aaaaaaa");
+        assert.deepStrictEqual(first.parents, ["b".repeat(40)]);
+        assert.strictEqual(first.subject, "Fix typo");
+        assert.deepStrictEqual(first.refs, [
+            { name: "main", kind: "head", current: true },
+            { name: "origin/main", kind: "remote" },
+            { name: "v1.0", kind: "tag" },
+        ]);
+        assert.deepStrictEqual(second.parents, []);
+        assert.deepStrictEqual(second.refs, []);
+    });
+});
+
+describe("layoutGraph", () => {
+    it("keeps a straight history in one lane", () => {
+        const rows = layoutGraph([commit("c", "b"), commit("b", "a"), commit("a")]);
+        assert.deepStrictEqual(rows.map((row) => [row.lane, row.width]), [[0, 1], [0, 1], [0, 1]]);
+        assert.deepStrictEqual(rows[2].lines, [{ fromLane: 0, fromY: 0, toLane: 0, toY: 0.5, color: 0 }]);
+    });
+
+    it("gives a merge's second parent its own lane until the branches meet", () => {
+        //   m      merge of a and f
+        //   | f    the feature branch
+        //   a |
+        //   |/
+        //   base
+        const rows = layoutGraph([commit("m", "a", "f"), commit("f", "base"), commit("a", "base"), commit("base")]);
+        assert.deepStrictEqual(rows.map((row) => row.lane), [0, 1, 0, 0]);
+        // The merge has a line down to each parent's lane
+        assert.deepStrictEqual(rows[0].lines.map((line) => [line.toLane, line.color]), [[0, 0], [1, 1]]);
+        // Both lanes join at the base commit
+        assert.deepStrictEqual(rows[3].lines.map((line) => line.fromLane), [0, 1]);
+        assert.strictEqual(rows[3].width, 2);
+    });
+
+    it("gives a branch tip nobody is waiting for a new lane", () => {
+        const rows = layoutGraph([commit("main", "base"), commit("topic", "base"), commit("base")]);
+        assert.deepStrictEqual(rows.map((row) => row.lane), [0, 1, 0]);
+    });
+});
@@ -0,0 +1,171 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { formatGitCommand } from "../gitCommands";
+import { validateLessonPack } from "../lessonValidation";
+
+/** A small pack that passes every check */
+function validPack() {
+    return {
+        id: "basics",
+        name: "Basics",
+        lessons: [
+            {
+                id: "first",
+                title: "First Lesson",
+                steps: [
+                    {
+                        id: "status",
+                        title: "1. Check the Status",
+                        description: "See what changed.",
+                        command: "git status",
+                        args: ["status"],
+                    },
+                ],
+            },
+            {
+                id: "second",
+                title: "Second Lesson",
+                prerequisites: ["first"],
+                steps: [
+                    {
+                        id: "switch",
+                        title: "1. Go to the Main Branch",
+                        description: "Switch to it.",
+                        command: "git switch {defaultBranch}",
+                        args: ["switch", "{defaultBranch}"],
+                        verify: "pulled",
+                        quiz: [
+                            {
+                                type: "choice",
+                                question: "Which branch are you on?",
+                                choices: ["main", "a new one"],
+                                answer: 0,
+                                explanation: "Switching moves you onto the branch.",
+                            },
+                            {
+                                type: "order",
+                                question: "Put these in order.",
+                                items: ["add", "commit", "push"],
+                                explanation: "Stage, save, then share.",
+                            },
+                        ],
+                    },
+                ],
+            },
+        ],
+    };
+}
+
+/** Just the paths of the problems */
+const problemPaths = (data: unknown, fromWorkspace = false) =>
+    validateLessonPack(data, fromWorkspace).map((problem) => problem.path);
+
+describe("validateLessonPack", () => {
+    it("accepts a valid pack", () => {
+        assert.deepStrictEqual(validateLessonPack(validPack()), []);
+    });
+
+    it("accepts the packs that ship with the extension", () => {
+        const folder = path.join(__dirname, "..", "..", "lessons");
+        for (const file of fs.readdirSync(folder).filter((name) => name.endsWith(".json"))) {
+            const data = JSON.parse(fs.readFileSync(path.join(folder, file), "utf8"));
+            assert.deepStrictEqual(validateLessonPack(data), [], file);
+        }
+    });
+
+    it("rejects anything that isn't an object", () => {
+        assert.deepStrictEqual(problemPaths([]), [""]);
+        assert.deepStrictEqual(problemPaths(null), [""]);
+    });
+
+    it("needs an ID, a name and at least one lesson", () => {
+        assert.deepStrictEqual(problemPaths({ id: "Not Valid", name: "", lessons: [] }), ["id", "name", "lessons"]);
+    });
+
+    it("points at misspelled properties", () => {
+        const pack = validPack();
+        Object.assign(pack.lessons[0].steps[0], { comand: "git status" });
+        const [problem] = validateLessonPack(pack);
+        assert.strictEqual(problem.path, "lessons[0].steps[0].comand");
+        assert.match(problem.message, /misspelled/);
+    });
+
+    it("checks a step's args, placeholders and verification", () => {
+        const pack = validPack();
+        Object.assign(pack.lessons[0].steps[0], {
+            command: "git switch {curentBranch}",
+            args: "status",
+            verify: "magic",
+        });
+        assert.deepStrictEqual(problemPaths(pack), [
+            "lessons[0].steps[0].args",
+            "lessons[0].steps[0].command",
+            "lessons[0].steps[0].verify",
+        ]);
+        assert.match(validateLessonPack(pack)[1].message, /\{curentBranch\}/);
+    });
+
+    it("only lets prerequisites point at earlier lessons", () => {
+        const pack = validPack();
+        pack.lessons[1].prerequisites = ["second"];
+        assert.deepStrictEqual(problemPaths(pack), ["lessons[1].prerequisites[0]"]);
+    });
+
+    it("rejects IDs used twice", () => {
+        const pack = validPack();
+        pack.lessons[1].id = "first";
+        pack.lessons[1].prerequisites = [];
+        pack.lessons[1].steps[0].id = "status";
+        assert.deepStrictEqual(problemPaths(pack), ["lessons[1].steps[0].id", "lessons[1].id"]);
+    });
+
+    it("checks quiz questions", () => {
+        const pack = validPack();
+        const [choice, order] = (pack.lessons[1].steps[0] as { quiz: object[] }).quiz;
+        Object.assign(choice, { answer: 2 });
+        Object.assign(order, { items: ["add"] });
+        assert.deepStrictEqual(problemPaths(pack), [
+            "lessons[1].steps[0].quiz[0].answer",
+            "lessons[1].steps[0].quiz[1].items",
+        ]);
+    });
+
+    it("needs the command to show what the args run", () => {
+        const pack = validPack();
+        Object.assign(pack.lessons[0].steps[0], { command: "git status", args: ["-c", "alias.x=!rm -rf .", "x"] });
+        assert.deepStrictEqual(problemPaths(pack), ["lessons[0].steps[0].command"]);
+        assert.match(validateLessonPack(pack)[0].message, /"git -c "alias.x=!rm -rf \." x"/);
+    });
+
+    it("lets a step that asks for a value show a stand-in for it", () => {
+        const pack = validPack();
+        Object.assign(pack.lessons[0].steps[0], {
+            command: "git add <file>",
+            args: ["add"],
+            requiresInput: { prompt: "Which file?", placeholder: "notes.txt" },
+        });
+        assert.deepStrictEqual(problemPaths(pack), []);
+
+        delete (pack.lessons[0].steps[0] as { requiresInput?: unknown }).requiresInput;
+        assert.deepStrictEqual(problemPaths(pack), ["lessons[0].steps[0].command"]);
+    });
+
+    it("doesn't let a workspace file set Git's own options or run other programs", () => {
+        const steps = [
+            ["-c", "core.sshCommand=evil", "fetch"],
+            ["-C", "..", "status"],
+            ["fetch", "--upload-pack=evil"],
+            ["push", "--receive-pack", "evil"],
+            ["clone", "-u", "evil", "url"],
+            ["rebase", "-x", "evil"],
+        ];
+        for (const args of steps) {
+            const pack = validPack();
+            Object.assign(pack.lessons[0].steps[0], { command: formatGitCommand(args), args });
+            assert.deepStrictEqual(problemPaths(pack), [], args.join(" "));
+            assert.deepStrictEqual(problemPaths(pack, true), ["lessons[0].steps[0].args"], args.join(" "));
+        }
+        assert.deepStrictEqual(validateLessonPack(validPack(), true), []);
+    });
+});
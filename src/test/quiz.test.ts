@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import { checkAnswer, describeAnswer, shuffleItems } from "../quiz";
+import { ChoiceQuestion, OrderQuestion } from "../steps";
+
+const CHOICE: ChoiceQuestion = {
+    type: "choice",
+    question: "Which files end up in the next commit?",
+    choices: ["All changed files", "Staged files", "Untracked files"],
+    answer: 1,
+    explanation: "Only what's in the staging area.",
+};
+
+const ORDER: OrderQuestion = {
+    type: "order",
+    question: "Put these in order.",
+    items: ["git add", "git commit", "git push"],
+    explanation: "Stage, save, then share.",
+};
+
+describe("checkAnswer", () => {
+    it("checks a choice by its index", () => {
+        assert.strictEqual(checkAnswer(CHOICE, 1), true);
+        assert.strictEqual(checkAnswer(CHOICE, 0), false);
+        assert.strictEqual(checkAnswer(CHOICE, [1]), false);
+    });
+
+    it("checks an order", () => {
+        assert.strictEqual(checkAnswer(ORDER, [0, 1, 2]), true);
+        assert.strictEqual(checkAnswer(ORDER, [1, 0, 2]), false);
+        assert.strictEqual(checkAnswer(ORDER, [0, 1]), false);
+        assert.strictEqual(checkAnswer(ORDER, 0), false);
+    });
+
+    it("lets identical items swap places", () => {
+        const twice: OrderQuestion = { ...ORDER, items: ["git add", "git add", "git commit"] };
+        assert.strictEqual(checkAnswer(twice, [1, 0, 2]), true);
+    });
+});
+
+describe("describeAnswer", () => {
+    it("gives the right choice, or the items in order", () => {
+        assert.strictEqual(describeAnswer(CHOICE), "Staged files");
+        assert.strictEqual(describeAnswer(ORDER), "git add → git commit → git push");
+    });
+});
+
+describe("shuffleItems", () => {
+    it("uses every index once, and never starts in the right order", () => {
+        for (let attempt = 0; attempt < 50; attempt++) {
+            const order = shuffleItems(3);
+            assert.deepStrictEqual([...order].sort(), [0, 1, 2]);
+            assert.notDeepStrictEqual(order, [0, 1, 2]);
+        }
+    });
+
+    it("leaves a single item alone", () => {
+        assert.deepStrictEqual(shuffleItems(1), [0]);
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { isConditionMet } from "../repoState";
+
+describe("isConditionMet", () => {
+    let folder: string;
+
+    beforeEach(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), "git-helper-test-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it("counts a repository as initialized in its subfolders too", async () => {
+        assert.strictEqual(await isConditionMet("repoInitialized", folder), false);
+
+        execFileSync("git", ["init", "--quiet"], { cwd: folder });
+        const subfolder = path.join(folder, "src");
+        fs.mkdirSync(subfolder);
+
+        assert.strictEqual(await isConditionMet("repoInitialized", folder), true);
+        assert.strictEqual(await isConditionMet("repoInitialized", subfolder), true);
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * setup.ts — Lets the unit tests load the extension's modules outside
+ * VS Code. Mocha loads it before any test (see .mocharc.json).
+ *
+ * WHY?
+ *   Most modules import "vscode", which only exists inside a running
+ *   VS Code. The code under test here (parsers, linters, checkers) never
+ *   calls it, though — so instead of starting a whole editor, we hand
+ *   those imports a small stand-in with just the enums and settings
+ *   they read.
+ *
+ * Anything that really talks to VS Code (the panel, notifications) is
+ * tried by hand in the Extension Development Host instead.
+ */
+
+import Module = require("module");
+
+/**
+ * Every setting reads as its default, as if the user changed nothing.
+ * Tests that need a prompt answered put a stand-in for it in `window`.
+ */
+export const vscodeStandIn = {
+    workspace: {
+        workspaceFolders: undefined,
+        getConfiguration: () => ({ get: <T>(_key: string, defaultValue?: T) => defaultValue }),
+    },
+    window: {} as Record<string, (...args: never[]) => unknown>,
+    InputBoxValidationSeverity: { Info: 1, Warning: 2, Error: 3 },
+};
+
+// Module._load isn't in Node's type definitions, but it's what require() calls
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = (request, ...rest) => (request === "vscode" ? vscodeStandIn : load(request, ...rest));
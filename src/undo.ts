@@ -0,0 +1,492 @@
+/**
+ * undo.ts — The Undo center: safe ways to take back common mistakes.
+ *
+ * WHY?
+ *   The questions beginners ask most often are all some form of "how do
+ *   I take that back?":
+ *     - "I ran `git add .` and staged too much"      → unstage everything
+ *     - "I committed too early"                     → undo the last commit, keep the changes
+ *     - "There's a typo in my commit message"       → reword the last commit
+ *     - "I messed up this file, give me the old one" → discard changes to one file
+ *     - "I already pushed a bad commit"             → revert it with a new commit
+ *
+ *   Git can do all of these, but with commands (`reset --soft HEAD~1`,
+ *   `restore --staged`, `commit --amend`) that are easy to mix up — and
+ *   mixing them up can lose work.
+ *
+ * HOW IT WORKS:
+ *   getUndoOptions() looks at the repository and lists only the undos
+ *   that make sense right now (no "unstage" if nothing is staged). Each
+ *   one explains what it does and how risky it is:
+ *     - safe        → nothing can be lost
+ *     - careful     → rewrites a commit you've already pushed
+ *     - destructive → throws changes away (asks first)
+ *
+ *   Before anything that moves a branch or throws changes away, a recovery
+ *   point is saved (see recovery.ts), so the undo can be undone as well.
+ *
+ * The same options appear in the walkthrough panel's "Undo" section and
+ * in the "Git Helper: Undo..." command.
+ */
+
+import * as vscode from "vscode";
+import { queryGit, runGitCommand, GitCommandResult } from "./gitCommands";
+import { describeChange, getRepoStatus, RepoStatus, StatusFile } from "./gitStatus";
+import { RecoveryPoint, RecoveryStore } from "./recovery";
+import { explainGitError, showGitError } from "./errorExplainer";
+import { getCommitRules, validateCommitInput } from "./commitMessage";
+
+// =============================================================
+// Types
+// =============================================================
+
+/** The undo actions we know about */
+export type UndoActionId = "unstageAll" | "undoCommit" | "rewordCommit" | "revertCommit" | "discardFile";
+
+/** How risky an undo is (see the top of this file) */
+export type UndoRisk = "safe" | "careful" | "destructive";
+
+/** Short labels for each risk level */
+export const RISK_LABELS: Record<UndoRisk, string> = {
+    safe: "Safe — nothing is lost",
+    careful: "Careful — changes pushed history",
+    destructive: "Destructive — throws changes away",
+};
+
+/**
+ * One thing that can be undone right now.
+ */
+export interface UndoOption {
+    id: UndoActionId;
+
+    /** e.g. "Undo the last commit (keep the changes)" */
+    title: string;
+
+    /** What it does and why you'd want it, in plain English */
+    explanation: string;
+
+    risk: UndoRisk;
+
+    /** The command it runs, for display */
+    command: string;
+}
+
+/** What we need to know about the repository to decide what can be undone */
+interface UndoContext {
+    status: RepoStatus;
+
+    /** HEAD's short hash and subject, e.g. "a1b2c3d (Add login page)" */
+    lastCommit?: string;
+
+    /** True if HEAD has a parent commit (false for the very first commit) */
+    hasParent: boolean;
+
+    /** True if HEAD is a merge commit */
+    isMerge: boolean;
+
+    /** True if HEAD is already on a remote branch (it's been pushed) */
+    pushed: boolean;
+}
+
+// =============================================================
+// What Can Be Undone?
+// =============================================================
+
+/** Reads everything getUndoOptions() and performUndo() need to know */
+async function readUndoContext(cwd: string): Promise<UndoContext | undefined> {
+    const status = await getRepoStatus(cwd);
+    if (!status) {
+        return undefined;
+    }
+    if (!status.commit) {
+        return { status, hasParent: false, isMerge: false, pushed: false };
+    }
+
+    const last = await queryGit(["log", "-1", "--format=%h (%s)"], cwd);
+    const parent = await queryGit(["rev-parse", "--verify", "--quiet", "HEAD^"], cwd);
+    const secondParent = await queryGit(["rev-parse", "--verify", "--quiet", "HEAD^2"], cwd);
+    const remoteBranches = await queryGit(["branch", "--remotes", "--contains", "HEAD"], cwd);
+    return {
+        status,
+        lastCommit: last.success ? last.output : undefined,
+        hasParent: parent.success,
+        isMerge: secondParent.success,
+        pushed: remoteBranches.success && remoteBranches.output !== "",
+    };
+}
+
+/** Tracked files with changes that can be discarded */
+function discardableFiles(status: RepoStatus): StatusFile[] {
+    return status.unstaged.filter((file) => file.kind !== "conflicted");
+}
+
+/** `git restore --staged` needs a commit to restore from */
+function unstageAllArgs(status: RepoStatus): string[] {
+    return status.commit ? ["restore", "--staged", "."] : ["rm", "--cached", "-r", "--quiet", "."];
+}
+
+/**
+ * Lists the undos that make sense for the repository right now.
+ *
+ * @param cwd - The repository
+ * @returns The options (empty if there's nothing to undo, or no repository)
+ */
+export async function getUndoOptions(cwd: string): Promise<UndoOption[]> {
+    const context = await readUndoContext(cwd);
+    if (!context) {
+        return [];
+    }
+    const { status, lastCommit, pushed } = context;
+    const options: UndoOption[] = [];
+    const pushedNote = pushed
+        ? " This commit is already pushed, so changing it means rewriting shared history — " +
+          "you'd have to force-push, and anyone who pulled it gets a mess. Reverting is the safer choice."
+        : "";
+
+    if (status.staged.length > 0) {
+        options.push({
+            id: "unstageAll",
+            title: "Unstage everything",
+            explanation:
+                `Takes all ${status.staged.length} staged file(s) out of the staging area — the undo for ` +
+                "'git add .'. Your changes stay in your files; they just won't be in the next commit.",
+            risk: "safe",
+            command: `git ${unstageAllArgs(status).join(" ")}`,
+        });
+    }
+
+    if (status.commit && !context.isMerge) {
+        options.push({
+            id: "undoCommit",
+            title: "Undo the last commit (keep the changes)",
+            explanation:
+                `Removes commit ${lastCommit} from the branch, but keeps everything it changed — ` +
+                "staged and ready to commit again. Handy when you committed too early or forgot a file." +
+                pushedNote,
+            risk: pushed ? "careful" : "safe",
+            command: context.hasParent ? "git reset --soft HEAD~1" : "git update-ref -d HEAD",
+        });
+    }
+
+    if (status.commit) {
+        options.push({
+            id: "rewordCommit",
+            title: "Fix the last commit message",
+            explanation:
+                `Replaces the message of ${lastCommit} with a new one. Nothing else about the commit ` +
+                "changes — even if you have staged changes, they stay staged." +
+                pushedNote,
+            risk: pushed ? "careful" : "safe",
+            command: 'git commit --amend --only -m "new message"',
+        });
+    }
+
+    if (pushed && !context.isMerge) {
+        options.push({
+            id: "revertCommit",
+            title: "Revert the last commit",
+            explanation:
+                `Makes a new commit that does the opposite of ${lastCommit}. History isn't rewritten, ` +
+                "so it's the safe way to take back a commit that's already been pushed.",
+            risk: "safe",
+            command: "git revert --no-edit HEAD",
+        });
+    }
+
+    const files = discardableFiles(status);
+    if (files.length > 0) {
+        options.push({
+            id: "discardFile",
+            title: "Discard changes to a file",
+            explanation:
+                "Puts a file back the way it was when you last staged or committed it. Your unstaged " +
+                "edits to that file are thrown away — but a recovery point is saved first.",
+            risk: "destructive",
+            command: "git restore -- <file>",
+        });
+    }
+
+    return options;
+}
+
+// =============================================================
+// Doing the Undo
+// =============================================================
+
+/** The result of an undo action (undefined if the user cancelled) */
+type UndoOutcome = { result: GitCommandResult; message: string } | undefined;
+
+/**
+ * Asks before rewriting a commit that's already been pushed.
+ *
+ * @returns True if the user wants to go ahead
+ */
+async function confirmRewritePushed(context: UndoContext, action: string): Promise<boolean> {
+    if (!context.pushed) {
+        return true;
+    }
+    const choice = await vscode.window.showWarningMessage(
+        `${action}? Commit ${context.lastCommit} has already been pushed.`,
+        {
+            modal: true,
+            detail:
+                "Changing a pushed commit rewrites history other people may already have. You'd need " +
+                "to force-push afterwards. If you're not sure, cancel and choose \"Revert the last commit\" instead.",
+        },
+        "Do It Anyway"
+    );
+    return choice === "Do It Anyway";
+}
+
+/** Undoes the last commit with `git reset --soft`, keeping its changes staged */
+async function undoCommit(
+    cwd: string,
+    context: UndoContext,
+    outputChannel: vscode.OutputChannel,
+    recovery: RecoveryStore
+): Promise<UndoOutcome> {
+    if (!(await confirmRewritePushed(context, "Undo the last commit"))) {
+        return undefined;
+    }
+    await recovery.saveHead(cwd, `Before undoing commit ${context.lastCommit}`);
+
+    // The very first commit has no parent to go back to — so instead of
+    // moving the branch, remove it (the files and staging area stay)
+    const args = context.hasParent ? ["reset", "--soft", "HEAD~1"] : ["update-ref", "-d", "HEAD"];
+    return {
+        result: await runGitCommand(args, outputChannel, cwd),
+        message: `Undid commit ${context.lastCommit}. Its changes are staged, ready to commit again.`,
+    };
+}
+
+/** Replaces the last commit's message with `git commit --amend --only` */
+async function rewordCommit(
+    cwd: string,
+    context: UndoContext,
+    outputChannel: vscode.OutputChannel,
+    recovery: RecoveryStore
+): Promise<UndoOutcome> {
+    const current = await queryGit(["log", "-1", "--format=%B"], cwd);
+    const message = await vscode.window.showInputBox({
+        title: "Fix the Last Commit Message",
+        prompt: `New message for commit ${context.lastCommit}`,
+        value: current.output,
+        validateInput: validateCommitInput(getCommitRules()),
+    });
+    if (message === undefined || message.trim() === current.output) {
+        return undefined;
+    }
+    if (!(await confirmRewritePushed(context, "Change the message of the last commit"))) {
+        return undefined;
+    }
+    await recovery.saveHead(cwd, `Before rewording commit ${context.lastCommit}`);
+
+    // --only with no files means "amend the message only" — anything
+    // that's staged stays staged instead of sneaking into the commit
+    return {
+        result: await runGitCommand(["commit", "--amend", "--only", "-m", message.trim()], outputChannel, cwd),
+        message: "Commit message updated.",
+    };
+}
+
+/** Makes a new commit that reverses the last one */
+async function revertCommit(
+    cwd: string,
+    context: UndoContext,
+    outputChannel: vscode.OutputChannel
+): Promise<UndoOutcome> {
+    return {
+        result: await runGitCommand(["revert", "--no-edit", "HEAD"], outputChannel, cwd),
+        message: `Reverted ${context.lastCommit} with a new commit. Push it to share the fix.`,
+    };
+}
+
+/**
+ * Throws away the unstaged changes to one file, after saving them in a
+ * recovery point.
+ *
+ * @param filePath - The file (asks which one if undefined)
+ */
+async function discardFile(
+    cwd: string,
+    context: UndoContext,
+    outputChannel: vscode.OutputChannel,
+    recovery: RecoveryStore,
+    filePath: string | undefined
+): Promise<UndoOutcome> {
+    const files = discardableFiles(context.status);
+    let file = files.find((f) => f.path === filePath);
+    if (!file) {
+        const picked = await vscode.window.showQuickPick(
+            files.map((f) => ({ label: f.path, description: describeChange(f), file: f })),
+            { title: "Discard Changes", placeHolder: "Which file should go back to how it was?" }
+        );
+        file = picked?.file;
+    }
+    if (!file) {
+        return undefined;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+        `Discard your changes to ${file.path}?`,
+        {
+            modal: true,
+            detail:
+                "The file goes back to how it was when you last staged or committed it. A recovery point " +
+                "is saved first, so you can get your changes back from the Undo section.",
+        },
+        "Discard Changes"
+    );
+    if (choice !== "Discard Changes") {
+        return undefined;
+    }
+
+    // Never throw anything away without a way back
+    const saved = await recovery.saveFiles(cwd, `Before discarding changes to ${file.path}`, [file.path]);
+    if ("success" in saved) {
+        const output = `Couldn't save a recovery point, so nothing was discarded.\n${saved.output}`;
+        return { result: { success: false, output }, message: "" };
+    }
+    return {
+        result: await runGitCommand(["restore", "--", file.path], outputChannel, cwd),
+        message: `Discarded your changes to ${file.path}. Changed your mind? Restore it from the Undo section.`,
+    };
+}
+
+/**
+ * Runs an undo action — asking for confirmation or input where needed —
+ * and tells the user how it went.
+ *
+ * @param id - Which undo to run
+ * @param cwd - The repository
+ * @param filePath - For "discardFile": the file (asks if undefined)
+ */
+export async function performUndo(
+    id: UndoActionId,
+    cwd: string,
+    outputChannel: vscode.OutputChannel,
+    recovery: RecoveryStore,
+    filePath?: string
+): Promise<void> {
+    // The repo may have changed since the options were shown
+    const context = await readUndoContext(cwd);
+    if (!context || !(await getUndoOptions(cwd)).some((option) => option.id === id)) {
+        vscode.window.showWarningMessage("There's nothing to undo there any more — the repository has changed.");
+        return;
+    }
+
+    let outcome: UndoOutcome;
+    switch (id) {
+        case "unstageAll":
+            outcome = {
+                result: await runGitCommand(unstageAllArgs(context.status), outputChannel, cwd),
+                message: "Unstaged everything. Your changes are still in your files.",
+            };
+            break;
+        case "undoCommit":
+            outcome = await undoCommit(cwd, context, outputChannel, recovery);
+            break;
+        case "rewordCommit":
+            outcome = await rewordCommit(cwd, context, outputChannel, recovery);
+            break;
+        case "revertCommit":
+            outcome = await revertCommit(cwd, context, outputChannel);
+            break;
+        case "discardFile":
+            outcome = await discardFile(cwd, context, outputChannel, recovery, filePath);
+            break;
+    }
+
+    if (!outcome) {
+        return;
+    }
+    if (outcome.result.success) {
+        vscode.window.showInformationMessage(outcome.message);
+    } else if (await explainGitError(outcome.result.output, cwd)) {
+        await showGitError(outcome.result, outputChannel);
+    } else {
+        vscode.window.showErrorMessage(`That didn't work: ${outcome.result.output.split("\n")[0]}`);
+    }
+}
+
+/**
+ * Restores a recovery point, after asking.
+ *
+ * @param point - The recovery point (from RecoveryStore.getPoints())
+ */
+export async function restoreRecoveryPoint(point: RecoveryPoint, recovery: RecoveryStore): Promise<void> {
+    const what =
+        point.kind === "commit"
+            ? `Move ${point.branch ?? "HEAD"} back to commit ${point.sha.slice(0, 7)}. Your files aren't changed.`
+            : `Put back the saved version of ${point.paths?.join(", ")}.`;
+    const choice = await vscode.window.showWarningMessage(
+        `Restore "${point.description}"?`,
+        { modal: true, detail: `${what} The current state is saved as a new recovery point first.` },
+        "Restore"
+    );
+    if (choice !== "Restore") {
+        return;
+    }
+
+    const result = await recovery.restore(point);
+    if (result.success) {
+        vscode.window.showInformationMessage(`Restored: ${point.description}.`);
+    } else {
+        vscode.window.showErrorMessage(`Couldn't restore: ${result.output}`);
+    }
+}
+
+// =============================================================
+// The "Git Helper: Undo..." Command
+// =============================================================
+
+/** An entry in the Undo picker: an undo option or a recovery point */
+interface UndoItem extends vscode.QuickPickItem {
+    option?: UndoOption;
+    point?: RecoveryPoint;
+}
+
+/**
+ * Shows everything that can be undone (and the recovery points) in a
+ * picker, and runs the one the user chooses.
+ */
+export async function showUndoMenu(
+    cwd: string,
+    outputChannel: vscode.OutputChannel,
+    recovery: RecoveryStore
+): Promise<void> {
+    const options = await getUndoOptions(cwd);
+    const points = recovery.getPoints(cwd);
+
+    const items: UndoItem[] = options.map((option) => ({
+        label: `$(discard) ${option.title}`,
+        description: RISK_LABELS[option.risk],
+        detail: option.explanation,
+        option,
+    }));
+    if (points.length > 0) {
+        items.push({ label: "Recovery points", kind: vscode.QuickPickItemKind.Separator });
+        items.push(
+            ...points.map((point) => ({
+                label: `$(history) Restore: ${point.description}`,
+                description: new Date(point.createdAt).toLocaleString(),
+                point,
+            }))
+        );
+    }
+    if (items.length === 0) {
+        vscode.window.showInformationMessage("There's nothing to undo right now.");
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: "Undo",
+        placeHolder: "What do you want to take back?",
+        matchOnDetail: true,
+    });
+    if (picked?.option) {
+        await performUndo(picked.option.id, cwd, outputChannel, recovery);
+    } else if (picked?.point) {
+        await restoreRecoveryPoint(picked.point, recovery);
+    }
+}
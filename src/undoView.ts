@@ -0,0 +1,236 @@
+/**
+ * undoView.ts — The walkthrough panel's "Undo" section: what can be undone
+ * right now (see undo.ts), each with how risky it is, and the recovery
+ * points saved before anything was changed (recovery.ts), for undoing an
+ * undo.
+ *
+ * The "Discard" buttons in the "Changes" section end up here too, since
+ * discarding a file's changes is one of the undo options.
+ */
+
+import * as vscode from "vscode";
+import { getTargetRepo } from "./gitCommands";
+import { getUndoOptions, performUndo, restoreRecoveryPoint, RISK_LABELS } from "./undo";
+import { RecoveryStore } from "./recovery";
+import { MessageHandler, PostMessage, WalkthroughSection } from "./walkthroughSection";
+
+/**
+ * Fills in the "Undo" section and handles its buttons.
+ */
+export class UndoView implements WalkthroughSection {
+    public readonly styles = STYLES;
+    public readonly script = SCRIPT;
+    public readonly html = HTML;
+
+    public readonly handlers: Record<string, MessageHandler> = {
+        undo: async ({ undoId }) => {
+            const cwd = getTargetRepo();
+            if (cwd && undoId) {
+                await performUndo(undoId, cwd, this._outputChannel, this._recovery);
+                await this._refresh();
+            }
+        },
+        discardFile: async ({ path }) => {
+            const cwd = getTargetRepo();
+            if (cwd && path) {
+                await performUndo("discardFile", cwd, this._outputChannel, this._recovery, path);
+                await this._refresh();
+            }
+        },
+        restorePoint: async ({ pointId }) => {
+            const point = pointId ? this._recovery.getPoint(pointId) : undefined;
+            if (point) {
+                await restoreRecoveryPoint(point, this._recovery);
+                await this._refresh();
+            }
+        },
+    };
+
+    /**
+     * @param _post - Sends messages to the panel's webview
+     * @param _outputChannel - Where the undo commands are logged
+     * @param _recovery - Recovery points, saved before each undo
+     * @param _refresh - Reads the repo again and redraws the panel's sections
+     */
+    constructor(
+        private readonly _post: PostMessage,
+        private readonly _outputChannel: vscode.OutputChannel,
+        private readonly _recovery: RecoveryStore,
+        private readonly _refresh: () => Promise<void>
+    ) {}
+
+    /**
+     * Sends the section's contents: the undo options for the repo's
+     * current state, and its recovery points.
+     */
+    public async update(cwd: string | undefined): Promise<void> {
+        const options = cwd ? await getUndoOptions(cwd) : [];
+        const points = cwd ? this._recovery.getPoints(cwd) : [];
+        this._post({
+            type: "undo",
+            options: options.map((option) => ({ ...option, riskLabel: RISK_LABELS[option.risk] })),
+            points: points.map((point) => ({
+                id: point.id,
+                description: point.description,
+                when: new Date(point.createdAt).toLocaleString(),
+            })),
+        });
+    }
+}
+
+// =============================================================
+// HTML, CSS and JavaScript
+// =============================================================
+
+const HTML = /*html*/ `
+    <!-- Undo: what can be taken back right now (filled in by showUndo()) -->
+    <details class="undo-center">
+        <summary>Undo</summary>
+        <div id="undo-options"></div>
+        <p class="status-group-title" id="undo-points-title" style="display: none;">Recovery Points</p>
+        <div id="undo-points"></div>
+    </details>`;
+
+const STYLES = `
+        /* ========================================
+           UNDO
+           What can be taken back, with how risky
+           each option is, and recovery points.
+           ======================================== */
+        .undo-center {
+            margin-bottom: 12px;
+        }
+
+        .undo-center > summary {
+            cursor: pointer;
+            font-weight: bold;
+            padding: 4px 0;
+        }
+
+        .undo-option {
+            padding: 6px 8px;
+            margin-bottom: 6px;
+            border-left: 3px solid var(--vscode-panel-border);
+            background: var(--vscode-textBlockQuote-background);
+            font-size: 0.9em;
+        }
+
+        .undo-option.risk-safe {
+            border-left-color: var(--vscode-charts-green);
+        }
+
+        .undo-option.risk-careful {
+            border-left-color: var(--vscode-charts-orange);
+        }
+
+        .undo-option.risk-destructive {
+            border-left-color: var(--vscode-charts-red);
+        }
+
+        .undo-option p {
+            margin: 0 0 4px 0;
+            line-height: 1.4;
+        }
+
+        .undo-title {
+            font-weight: bold;
+        }
+
+        .undo-risk {
+            font-size: 0.85em;
+            opacity: 0.8;
+        }
+
+        .undo-command {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 0.9em;
+            opacity: 0.8;
+        }
+
+        .undo-point {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 2px 0;
+            font-size: 0.9em;
+        }
+
+        .undo-point-description {
+            flex: 1;
+        }`;
+
+const SCRIPT = `
+        /**
+         * Redraws the "Undo" section: one box per undo option (its colored
+         * edge shows how risky it is), then the recovery points.
+         *
+         * @param {Array} options - From undo.ts getUndoOptions()
+         * @param {Array} points - Recovery points, newest first
+         */
+        function showUndo(options, points) {
+            const optionsEl = document.getElementById('undo-options');
+            const pointsEl = document.getElementById('undo-points');
+            optionsEl.replaceChildren();
+            pointsEl.replaceChildren();
+
+            if (options.length === 0) {
+                const none = document.createElement('p');
+                none.className = 'status-summary';
+                none.textContent = 'Nothing to undo right now.';
+                optionsEl.append(none);
+            }
+
+            for (const option of options) {
+                const box = document.createElement('div');
+                box.className = 'undo-option risk-' + option.risk;
+
+                const title = document.createElement('p');
+                title.className = 'undo-title';
+                title.textContent = option.title;
+
+                const risk = document.createElement('p');
+                risk.className = 'undo-risk';
+                risk.textContent = option.riskLabel;
+
+                const text = document.createElement('p');
+                text.textContent = option.explanation;
+
+                const command = document.createElement('p');
+                command.className = 'undo-command';
+                command.textContent = option.command;
+
+                const button = document.createElement('button');
+                button.className = 'fix-button';
+                button.textContent = option.id === 'discardFile' ? 'Choose a File...' : 'Undo';
+                button.onclick = () => vscode.postMessage({ type: 'undo', undoId: option.id });
+
+                box.append(title, risk, text, command, button);
+                optionsEl.append(box);
+            }
+
+            document.getElementById('undo-points-title').style.display = points.length > 0 ? 'block' : 'none';
+            for (const point of points) {
+                const row = document.createElement('div');
+                row.className = 'undo-point';
+
+                const description = document.createElement('span');
+                description.className = 'undo-point-description';
+                description.textContent = point.description;
+                description.title = 'Saved ' + point.when;
+
+                const button = document.createElement('button');
+                button.className = 'link-button';
+                button.textContent = 'Restore';
+                button.onclick = () => vscode.postMessage({ type: 'restorePoint', pointId: point.id });
+
+                row.append(description, button);
+                pointsEl.append(row);
+            }
+        }
+
+        // The repo changed, or a recovery point was saved
+        window.addEventListener('message', (event) => {
+            if (event.data.type === 'undo') {
+                showUndo(event.data.options, event.data.points);
+            }
+        });`;
@@ -0,0 +1,193 @@
+/**
+ * verification.ts — Checks that a step actually did what it was meant to do.
+ *
+ * WHY ISN'T "EXIT CODE 0" ENOUGH?
+ *   Git happily exits with 0 in plenty of situations where the learner
+ *   hasn't done the thing yet. `git status` "succeeds" in an empty folder,
+ *   and `git add .` "succeeds" when there is nothing to add. So after a
+ *   step's command runs, we ask Git a few read-only questions to see what
+ *   really changed, and report something specific like
+ *   "New commit abc1234 created" or "No changes detected yet".
+ *
+ * HOW IT WORKS:
+ *   1. Before the command runs, captureBefore() records anything we need
+ *      to compare against later (for example, which commit HEAD was on).
+ *   2. After the command runs, verifyStep() looks at the repo again and
+ *      returns a VerificationOutcome: pass, fail, or needs-attention.
+ *
+ * Like repoState.ts, every question here uses queryGit(), so none of it
+ * shows up in the Output Channel.
+ */
+
+import { queryGit } from "./gitCommands";
+import { StepVerification } from "./steps";
+import { getChangedPaths, getRepoStatus } from "./gitStatus";
+
+// =============================================================
+// Types
+// =============================================================
+
+/**
+ * How a step turned out:
+ *   - "pass"      → the step did what it teaches (counts as done)
+ *   - "fail"      → the command failed, or clearly didn't work
+ *   - "attention" → the command ran, but there's something for the
+ *                   learner to do first (e.g. "create a file first")
+ */
+export type VerificationState = "pass" | "fail" | "attention";
+
+/**
+ * The result of verifying a step, shown under the step's card.
+ */
+export interface VerificationOutcome {
+    state: VerificationState;
+    /** A short, step-specific explanation of what happened */
+    message: string;
+}
+
+// =============================================================
+// Small Git Helpers
+// =============================================================
+
+/** Returns the full hash of HEAD, or "" if there are no commits yet */
+async function getHeadHash(cwd: string): Promise<string> {
+    const result = await queryGit(["rev-parse", "--verify", "HEAD"], cwd);
+    return result.success ? result.output : "";
+}
+
+/** Formats a list of file names, e.g. "a.txt, b.txt and 3 more" */
+function describeFiles(files: string[]): string {
+    const shown = files.slice(0, 3).join(", ");
+    return files.length > 3 ? `${shown} and ${files.length - 3} more` : shown;
+}
+
+// =============================================================
+// Before & After
+// =============================================================
+
+/**
+ * Records what the repo looks like BEFORE a step runs.
+ *
+ * Only a few verifications need this (the ones that check whether HEAD
+ * moved). The return value is passed back into verifyStep() unchanged.
+ *
+ * @param kind - The step's verification (see StepVerification in steps.ts)
+ * @param cwd - The folder the step runs in
+ */
+export async function captureBefore(kind: StepVerification, cwd: string): Promise<string> {
+    switch (kind) {
+        case "newCommit":
+        case "pulled":
+        case "merged":
+            return getHeadHash(cwd);
+        default:
+            return "";
+    }
+}
+
+/**
+ * Looks at the repo AFTER a step's command succeeded and decides whether
+ * the step really did its job.
+ *
+ * @param kind - The step's verification (see StepVerification in steps.ts)
+ * @param cwd - The folder the step ran in
+ * @param before - Whatever captureBefore() returned for this step
+ */
+export async function verifyStep(
+    kind: StepVerification,
+    cwd: string,
+    before: string
+): Promise<VerificationOutcome> {
+    switch (kind) {
+        case "repoCreated": {
+            const result = await queryGit(["rev-parse", "--git-dir"], cwd);
+            return result.success
+                ? { state: "pass", message: "Git is now tracking this folder (a .git folder was created)." }
+                : { state: "fail", message: "This folder still isn't a Git repository." };
+        }
+
+        case "workingTreeChanged": {
+            const status = await getRepoStatus(cwd);
+            const files = status ? getChangedPaths(status) : [];
+            return files.length > 0
+                ? { state: "pass", message: `Git sees ${files.length} changed file(s): ${describeFiles(files)}.` }
+                : {
+                      state: "attention",
+                      message: "No changes detected yet — create or edit a file first, then run this step again.",
+                  };
+        }
+
+        case "filesStaged": {
+            const status = await getRepoStatus(cwd);
+            const staged = status ? status.staged.map((file) => file.path) : [];
+            return staged.length > 0
+                ? { state: "pass", message: `${staged.length} file(s) staged: ${describeFiles(staged)}.` }
+                : {
+                      state: "attention",
+                      message: "Nothing is staged — there were no changes to add. Make a file change first.",
+                  };
+        }
+
+        case "newCommit": {
+            const after = await getHeadHash(cwd);
+            if (!after || after === before) {
+                return { state: "fail", message: "HEAD didn't move, so no new commit was created." };
+            }
+            const subject = await queryGit(["log", "-1", "--format=%s", after], cwd);
+            return {
+                state: "pass",
+                message: `New commit ${after.slice(0, 7)} created: "${subject.output}".`,
+            };
+        }
+
+        case "remoteAdded": {
+            const url = await queryGit(["remote", "get-url", "origin"], cwd);
+            return url.success
+                ? { state: "pass", message: `"origin" now points to ${url.output}.` }
+                : { state: "fail", message: "No remote called \"origin\" is configured." };
+        }
+
+        case "pushed": {
+            // After a successful push, our branch and its upstream point at the same commit
+            const local = await getHeadHash(cwd);
+            const upstream = await queryGit(["rev-parse", "--verify", "@{u}"], cwd);
+            if (!upstream.success) {
+                return {
+                    state: "attention",
+                    message: "The push worked, but this branch has no upstream yet — use 'push -u' to set one.",
+                };
+            }
+            return local === upstream.output
+                ? { state: "pass", message: `The remote now has your latest commit (${local.slice(0, 7)}).` }
+                : { state: "attention", message: "The remote and your branch still point at different commits." };
+        }
+
+        case "pulled": {
+            const after = await getHeadHash(cwd);
+            return after !== before
+                ? {
+                      state: "pass",
+                      message: `Pulled new commits — HEAD moved from ${before.slice(0, 7) || "(nothing)"} to ${after.slice(0, 7)}.`,
+                  }
+                : { state: "pass", message: "Already up to date — the remote had no new commits for you." };
+        }
+
+        case "merged": {
+            const after = await getHeadHash(cwd);
+            return after !== before
+                ? { state: "pass", message: `Merged — your branch now includes the other branch's commits (HEAD is ${after.slice(0, 7)}).` }
+                : {
+                      state: "attention",
+                      message: "Nothing was merged — that branch has no commits your current branch doesn't already have.",
+                  };
+        }
+
+        case "identitySet": {
+            const name = await queryGit(["config", "user.name"], cwd);
+            const email = await queryGit(["config", "user.email"], cwd);
+            return name.success && email.success
+                ? { state: "pass", message: `Your commits will be signed as ${name.output} <${email.output}>.` }
+                : { state: "fail", message: "Git still doesn't know your name and email." };
+        }
+    }
+}
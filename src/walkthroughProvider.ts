@@ -15,10 +15,30 @@
  *
  * HOW IT WORKS:
  *   1. VS Code calls resolveWebviewView() when the user opens the sidebar panel
- *   2. We generate HTML with all the walkthrough steps
+ *   2. We generate HTML for the selected lesson pack: a lesson index, then
+ *      one collapsible section of step cards per lesson
+ *      (see lessonLibrary.ts — packs can come from JSON files too, and
+ *      stepCardView.ts draws the cards)
  *   3. When the user clicks "Run Step", the webview sends a message to the extension
- *   4. The extension runs the Git command and sends the result back
- *   5. The webview updates to show success/failure and command output
+ *   4. The extension runs the Git command, streaming its output into the
+ *      card (the button becomes "Cancel" meanwhile), and sends the result back
+ *      (placeholders like {currentBranch} are filled in first — see
+ *      placeholders.ts — and the card shows the real command)
+ *   5. If the step has a `verify` check, we ask Git whether the step really
+ *      worked (see verification.ts), then the webview shows pass, fail, or
+ *      needs-attention along with the command output
+ *   6. If the command failed with an error we recognize (errorExplainer.ts),
+ *      the card also explains it in plain English with one-click fixes
+ *   7. Successful steps are saved to ProgressStore, so the "done" badges,
+ *      progress bar, and "scroll to next step" survive a reload
+ *   8. If the step has a quiz, its questions appear in the card; each
+ *      answer is checked (see quizView.ts) and the score saved with the
+ *      step's progress
+ *
+ * Above the lessons are the panel's other sections, each in its own file
+ * (see walkthroughSection.ts): "Merge Conflicts" (only while a merge is
+ * stuck), "Changes", "Sync", "Undo" and "History". A file watcher keeps
+ * them live.
  *
  * MESSAGE FLOW:
  *   [Webview HTML/JS]  --postMessage-->  [Extension TypeScript]
@@ -26,8 +46,32 @@
  */
 
 import * as vscode from "vscode";
-import { WALKTHROUGH_STEPS, WalkthroughStep } from "./steps";
-import { runGitCommand, GitCommandResult } from "./gitCommands";
+import { LessonPack, WalkthroughStep } from "./steps";
+import { describeLock, findStep, getLessonStates, getNextStep, getPackSteps } from "./curriculum";
+import { runGitCommand, GitCommandResult, getTargetRepo, RunOptions } from "./gitCommands";
+import { getProgressKey, ProgressStore } from "./progress";
+import { detectCompletedSteps } from "./repoState";
+import { captureBefore, verifyStep, VerificationOutcome } from "./verification";
+import { LessonLibrary } from "./lessonLibrary";
+import { escapeHtml } from "./html";
+import { Sandbox } from "./sandbox";
+import { ErrorExplanation, explainGitError, runFix } from "./errorExplainer";
+import { getRepoStatus } from "./gitStatus";
+import { pickFilesToStage } from "./stagingPicker";
+import { configureIdentity } from "./gitConfig";
+import { fillPlaceholders, getPlaceholderValues, resolveStepArgs, usesPlaceholders } from "./placeholders";
+import { RecoveryStore } from "./recovery";
+import { askForCommitMessage } from "./commitMessage";
+import { RepositoryManager } from "./repositories";
+import { TerminalPractice } from "./terminalPractice";
+import { MessageHandler, PostMessage, WalkthroughMessage, WalkthroughSection } from "./walkthroughSection";
+import { ChangesView } from "./changesView";
+import { ConflictsView } from "./conflictsView";
+import { SyncView } from "./syncView";
+import { UndoView } from "./undoView";
+import { HistoryView } from "./historyView";
+import { QuizView } from "./quizView";
+import { getLessonHtml, getLessonIndexHtml, STEP_CARD_SCRIPT, STEP_CARD_STYLES } from "./stepCardView";
 
 /**
  * Provides the webview content for the Git Walkthrough sidebar panel.
@@ -45,11 +89,115 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
     /** Store a reference to the webview so we can send messages to it later */
     private _view?: vscode.WebviewView;
 
+    /** Watches the target repo's files, so the sections above the lessons stay live */
+    private _watcher?: vscode.FileSystemWatcher;
+
+    /** Pending refresh — many file events in a row only refresh once */
+    private _refreshTimer?: NodeJS.Timeout;
+
+    /** Commands that are running right now, by step ID (so they can be cancelled) */
+    private readonly _running = new Map<string, vscode.CancellationTokenSource>();
+
+    /**
+     * The explanation last shown in each step's card. Its fix buttons only
+     * send back a position, and the fixes were fitted to that failure
+     * (which remote, which operation to abort), so we keep them here.
+     */
+    private readonly _explanations = new Map<string, ErrorExplanation>();
+
+    // The panel's sections (see walkthroughSection.ts)
+    private readonly _changes: ChangesView;
+    private readonly _conflicts: ConflictsView;
+    private readonly _sync: SyncView;
+    private readonly _undo: UndoView;
+    private readonly _history: HistoryView;
+    private readonly _quizzes: QuizView;
+
+    /** What to do with each type of message from the webview (see _handleMessage()) */
+    private readonly _handlers: Map<string, MessageHandler>;
+
     /**
      * @param _outputChannel - The Output Channel where Git command results are logged.
      *                        This is the same channel used by the quick action commands.
+     * @param _progress - Remembers which steps are done in this workspace.
+     * @param _lessons - Provides the lesson packs and remembers which one is selected.
+     * @param _sandbox - The practice sandbox (commands run there while it's on).
+     * @param _recovery - Recovery points saved by the Undo section.
+     * @param _repositories - The workspace's repositories, and which one is active.
+     * @param _practice - The "Type it yourself" terminal, which reports commands typed for a step.
      */
-    constructor(private readonly _outputChannel: vscode.OutputChannel) {}
+    constructor(
+        private readonly _outputChannel: vscode.OutputChannel,
+        private readonly _progress: ProgressStore,
+        private readonly _lessons: LessonLibrary,
+        private readonly _sandbox: Sandbox,
+        private readonly _recovery: RecoveryStore,
+        private readonly _repositories: RepositoryManager,
+        private readonly _practice: TerminalPractice
+    ) {
+        const post: PostMessage = (message) => void this._view?.webview.postMessage(message);
+        const refresh = () => this._refreshStatus();
+        this._changes = new ChangesView(post, _outputChannel, refresh);
+        this._conflicts = new ConflictsView(post, _outputChannel, refresh);
+        this._sync = new SyncView(post);
+        this._undo = new UndoView(post, _outputChannel, _recovery, refresh);
+        this._history = new HistoryView(post);
+        this._quizzes = new QuizView(post, _progress, _lessons, _sandbox);
+        this._handlers = new Map(
+            Object.entries(Object.assign(this._getStepHandlers(), ...this._sections.map((s) => s.handlers)))
+        );
+
+        // Whenever progress changes (a step finished, or was detected),
+        // update the progress bar and badges in the panel.
+        this._progress.onDidChange(() => this._sendProgressToWebview());
+
+        // When lesson packs are reloaded or a different pack is picked,
+        // the cards are different — so rebuild the whole panel.
+        this._lessons.onDidChange(() => this._render());
+
+        // Switching between sandbox and workspace changes which repo the
+        // steps run in (and which progress is shown), so rebuild too.
+        this._sandbox.onDidChange(() => this._render());
+
+        // So does choosing a different repository (or finding new ones)
+        this._repositories.onDidChange(() => this._render());
+
+        // A command typed in the practice terminal is shown in its step's
+        // card, just like a "Run Step" result — and can complete the step
+        this._practice.onDidAttempt(async ({ stepId, result, outcome }) => {
+            await this._sendResultToWebview(stepId, result, outcome);
+            void this._refreshStatus();
+            if (outcome.state === "pass") {
+                await this._progress.markComplete(this._progressKey, stepId);
+            }
+        });
+
+        // A new recovery point (from here or the Undo command) shows up in the panel
+        this._recovery.onDidChange(() => void this._undo.update(getTargetRepo()));
+
+        // A fresh sandbox is an empty folder — forget the practice progress
+        this._sandbox.onDidReset(async () => {
+            for (const pack of this._lessons.getPacks()) {
+                await this._progress.reset(getProgressKey(pack.id, undefined, true));
+            }
+            this._render();
+        });
+    }
+
+    /** The lesson pack currently shown in the panel */
+    private get _pack(): LessonPack {
+        return this._lessons.getActivePack();
+    }
+
+    /** The key progress is saved under (see getProgressKey) */
+    private get _progressKey(): string {
+        return getProgressKey(this._pack.id, getTargetRepo(), this._sandbox.isActive);
+    }
+
+    /** The panel's sections, in the order their CSS goes into the page */
+    private get _sections(): WalkthroughSection[] {
+        return [this._changes, this._conflicts, this._sync, this._undo, this._history, this._quizzes];
+    }
 
     // =============================================================
     // WebviewViewProvider Implementation
@@ -68,56 +216,305 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
             enableScripts: true,
         };
 
-        // Set the HTML content for the walkthrough panel
-        webviewView.webview.html = this._getHtmlContent();
-
         // Listen for messages sent FROM the webview (e.g., button clicks).
         // When the user clicks "Run Step", the webview's JS sends us a message.
         webviewView.webview.onDidReceiveMessage(async (message) => {
             await this._handleMessage(message);
         });
+
+        // Files may have changed while the panel was hidden
+        webviewView.onDidChangeVisibility(() => {
+            if (webviewView.visible) {
+                void this._refreshStatus();
+            }
+        });
+
+        webviewView.onDidDispose(() => {
+            this._watcher?.dispose();
+            clearTimeout(this._refreshTimer);
+        });
+
+        this._render();
+    }
+
+    /**
+     * Opens the panel at the "Sync" section's merge-vs-rebase diagram
+     * (the Sync command's "What's the difference?" choice).
+     */
+    public async showSyncDiagram(): Promise<void> {
+        await vscode.commands.executeCommand(`${WalkthroughProvider.viewId}.focus`);
+        this._sync.showDiagram();
+    }
+
+    /**
+     * Sets the panel's HTML for the selected lesson pack, then checks the
+     * repo for steps that are already done.
+     */
+    private _render(): void {
+        if (!this._view) {
+            return;
+        }
+
+        this._view.webview.html = this._getHtmlContent();
+        this._history.clear();
+        this._quizzes.clear();
+
+        // Look at the repo and tick off any steps that are already done.
+        // This runs in the background — the panel shows saved progress
+        // straight away and updates when detection finishes.
+        void this._detectProgress();
+
+        // The target repo may have changed (sandbox on/off), so watch it again
+        this._watchRepo();
+        void this._refreshStatus();
     }
 
     // =============================================================
-    // Message Handling
+    // Repository Status
     // =============================================================
 
     /**
-     * Handles messages sent from the webview JavaScript.
-     *
-     * The webview sends messages like: { type: "runStep", stepId: "check-git" }
-     * We find the matching step, run its Git command, and send the result back.
+     * Watches every file in the target repo (including .git/index, which
+     * changes when files are staged) and refreshes the sections.
      */
-    private async _handleMessage(message: { type: string; stepId: string }): Promise<void> {
-        // We only handle "runStep" messages right now
-        if (message.type !== "runStep") {
+    private _watchRepo(): void {
+        this._watcher?.dispose();
+        this._watcher = undefined;
+
+        const cwd = getTargetRepo();
+        if (!cwd) {
             return;
         }
 
-        // Find the step definition that matches the clicked button
-        const step = WALKTHROUGH_STEPS.find((s) => s.id === message.stepId);
-        if (!step) {
+        this._watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(cwd), "**/*")
+        );
+        const refreshSoon = () => {
+            clearTimeout(this._refreshTimer);
+            this._refreshTimer = setTimeout(() => void this._refreshStatus(), 300);
+        };
+        this._watcher.onDidCreate(refreshSoon);
+        this._watcher.onDidChange(refreshSoon);
+        this._watcher.onDidDelete(refreshSoon);
+    }
+
+    /**
+     * Reads the repo status and sends each section what it shows.
+     */
+    private async _refreshStatus(): Promise<void> {
+        const cwd = getTargetRepo();
+        const status = cwd ? await getRepoStatus(cwd) : undefined;
+        this._changes.update(status);
+
+        // Ahead/behind come from the status too (as of the last fetch)
+        await this._sync.update(cwd, status);
+
+        // A conflict shows up in the status first — then we guide the learner through it
+        await this._conflicts.update(cwd, status);
+
+        // What can be undone depends on the repo's state too
+        await this._undo.update(cwd);
+
+        // A branch switch or a new remote changes what placeholders mean
+        if (cwd) {
+            await this._sendCommandsToWebview(cwd);
+        }
+
+        await this._history.update(cwd);
+    }
+
+    /**
+     * Fills in the placeholders in step commands (e.g. {currentBranch} →
+     * "main") and sends the results to the webview, so each card shows
+     * the command that will really run.
+     */
+    private async _sendCommandsToWebview(cwd: string): Promise<void> {
+        const steps = getPackSteps(this._pack).filter(usesPlaceholders);
+        if (steps.length === 0) {
             return;
         }
 
-        // Copy the default args so we don't modify the original step data
-        let args = [...step.args];
+        const values = await getPlaceholderValues(cwd);
+        const commands: Record<string, string> = {};
+        for (const step of steps) {
+            commands[step.id] = fillPlaceholders(step.command, values);
+        }
+        this._view?.webview.postMessage({ type: "commands", commands });
+    }
+
+    // =============================================================
+    // Progress
+    // =============================================================
+
+    /**
+     * Asks the repo which steps are already done (e.g. `.git` exists, so
+     * "Initialize a Repository" is done) and saves them as completed.
+     */
+    private async _detectProgress(): Promise<void> {
+        const cwd = getTargetRepo();
+        if (!cwd) {
+            return;
+        }
+
+        const pack = this._pack;
+        const detected = await detectCompletedSteps(getPackSteps(pack), cwd);
+        await this._progress.markComplete(this._progressKey, ...detected);
+    }
+
+    // =============================================================
+    // Message Handling
+    // =============================================================
+
+    /**
+     * Handles messages sent from the webview JavaScript: looks up what to
+     * do with the message's type, and does it. Messages from the sections
+     * are handled there (see their `handlers`); the ones about steps are
+     * handled here (see _getStepHandlers()).
+     */
+    private async _handleMessage(message: WalkthroughMessage): Promise<void> {
+        await this._handlers.get(message.type)?.(message);
+    }
+
+    /**
+     * What to do with the messages about steps and lessons:
+     *
+     *   - { type: "runStep", stepId } runs the step's Git command, and
+     *     { type: "cancelStep", stepId } stops it
+     *   - { type: "practiceStep", stepId } opens the practice terminal instead, so
+     *     the learner can type the command themselves (see terminalPractice.ts)
+     *   - { type: "runFix", stepId, errorId, fixIndex } when a fix button is
+     *     clicked under an explained error
+     *   - { type: "resetProgress" } to start the current pack over
+     *   - { type: "selectPack", packId } when the user picks another lesson pack
+     *   - { type: "command", command } to run one of our own VS Code commands
+     *     (e.g. "gitHelper.sandbox.start" from the sandbox buttons)
+     */
+    private _getStepHandlers(): Record<string, MessageHandler> {
+        return {
+            runStep: async ({ stepId }) => {
+                if (stepId) {
+                    await this._runStep(stepId);
+                }
+            },
+            cancelStep: ({ stepId }) => {
+                if (stepId) {
+                    this._running.get(stepId)?.cancel();
+                }
+            },
+            practiceStep: async ({ stepId }) => {
+                const runnable = stepId ? await this._getRunnableStep(stepId) : undefined;
+                if (runnable && !runnable.cwd) {
+                    vscode.window.showErrorMessage("No folder is open in VS Code. Please open a folder first (File > Open Folder).");
+                } else if (runnable?.cwd) {
+                    this._practice.start(runnable.step, runnable.args, runnable.cwd);
+                    this._view?.webview.postMessage({ type: "practicing", stepId: runnable.step.id });
+                }
+            },
+            runFix: async ({ stepId, errorId, fixIndex }) => {
+                if (stepId && errorId) {
+                    await this._runFix(stepId, errorId, fixIndex ?? 0);
+                }
+            },
+            resetProgress: async () => {
+                await this._progress.reset(this._progressKey);
+                // Steps that are clearly done in the repo get ticked off again
+                await this._detectProgress();
+            },
+            selectPack: async ({ packId }) => {
+                if (packId) {
+                    // LessonLibrary fires onDidChange, which re-renders the panel
+                    await this._lessons.selectPack(packId);
+                }
+            },
+            command: async ({ command }) => {
+                // Only our own commands can be triggered from the webview
+                if (command?.startsWith("gitHelper.")) {
+                    await vscode.commands.executeCommand(command);
+                }
+            },
+        };
+    }
+
+    /**
+     * Runs a step: finds its command, asks for anything it needs (a guided
+     * flow, or the user's input), runs it, checks it worked, and sends the
+     * result to its card.
+     */
+    private async _runStep(stepId: string): Promise<void> {
+        const runnable = await this._getRunnableStep(stepId);
+        if (!runnable) {
+            return;
+        }
+        const { step, cwd } = runnable;
+        let args = runnable.args;
+
+        // --- Handle steps with a guided flow ---
+        // "Stage Your Files" asks which files to stage instead of running
+        // `git add .` blindly (see stagingPicker.ts). "Tell Git Who You Are"
+        // runs its own `git config` commands (see gitConfig.ts). Commit steps
+        // ask for a message that follows the team's rules.
+        let flowResult: GitCommandResult | undefined;
+        if (step.flow === "configureIdentity") {
+            flowResult = await configureIdentity(cwd, this._outputChannel);
+            if (!flowResult) {
+                await this._sendResultToWebview(
+                    step.id,
+                    { success: false, output: "Cancelled — no changes were made." },
+                    { state: "fail", message: "Cancelled." }
+                );
+                return;
+            }
+        }
+        if (step.flow === "stageFiles") {
+            const picked = cwd ? await pickFilesToStage(cwd) : undefined;
+            if (!picked) {
+                await this._sendResultToWebview(
+                    step.id,
+                    { success: false, output: "No files were staged." },
+                    { state: "attention", message: "Nothing was staged — pick at least one file." }
+                );
+                return;
+            }
+            args = picked;
+        }
+        if (step.flow === "commitMessage") {
+            // Checked against the commit message rules as it's typed (see commitMessage.ts)
+            const message = await askForCommitMessage();
+            if (!message) {
+                await this._sendResultToWebview(
+                    step.id,
+                    { success: false, output: "Cancelled — no commit message provided." },
+                    { state: "fail", message: "Cancelled." }
+                );
+                return;
+            }
+            args.push(message);
+        }
 
         // --- Handle steps that need user input ---
         // Some steps (like commit and add-remote) need the user to type something.
         // We show a VS Code input box and append their answer to the args.
         if (step.requiresInput) {
+            // In the sandbox, some inputs have an obvious answer (like the
+            // practice remote's path), so we fill it in for the learner.
+            const sandboxValue =
+                this._sandbox.isActive && step.requiresInput.sandboxValue === "originUrl"
+                    ? this._sandbox.originDir
+                    : undefined;
+
             const userInput = await vscode.window.showInputBox({
                 prompt: step.requiresInput.prompt,
                 placeHolder: step.requiresInput.placeholder,
+                value: sandboxValue,
             });
 
             // If the user pressed Escape or left it empty, cancel the step
             if (userInput === undefined || userInput.trim() === "") {
-                this._sendResultToWebview(step.id, {
-                    success: false,
-                    output: "Cancelled — no input provided.",
-                });
+                await this._sendResultToWebview(
+                    step.id,
+                    { success: false, output: "Cancelled — no input provided." },
+                    { state: "fail", message: "Cancelled." }
+                );
                 return;
             }
 
@@ -128,14 +525,170 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
             args.push(userInput);
         }
 
+        // If this step will be verified, note what the repo looks like first
+        // (e.g. which commit HEAD is on) so we can tell what the command changed.
+        const before = step.verify && cwd ? await captureBefore(step.verify, cwd) : "";
+
         // Tell the webview this step is now running (shows a spinner/status)
         this._sendStatusToWebview(step.id, "running");
 
-        // Actually run the Git command
-        const result = await runGitCommand(args, this._outputChannel);
+        // Actually run the Git command (unless a guided flow already did)
+        const run = this._startRun(step.id);
+        const result = flowResult ?? (await runGitCommand(args, this._outputChannel, cwd, run.options));
+        run.done();
+
+        // Check whether the step really did its job
+        const outcome = await this._verify(step, result, cwd, before);
 
         // Send the result back to the webview to update the UI
-        this._sendResultToWebview(step.id, result);
+        await this._sendResultToWebview(step.id, result, outcome);
+        void this._refreshStatus();
+
+        // Remember that this step is done (this also updates the progress bar).
+        // "Needs attention" doesn't count — the learner still has work to do.
+        if (outcome.state === "pass") {
+            await this._progress.markComplete(this._progressKey, step.id);
+        }
+    }
+
+    /**
+     * Finds the step a card's button belongs to and works out its command,
+     * with placeholders like {currentBranch} filled in. Undefined (with the
+     * reason shown in the card) if it can't run yet.
+     */
+    private async _getRunnableStep(
+        stepId: string
+    ): Promise<{ step: WalkthroughStep; args: string[]; cwd: string | undefined } | undefined> {
+        // Find the step definition that matches the clicked button
+        const pack = this._pack;
+        const found = findStep(pack, stepId);
+        if (!found) {
+            return undefined;
+        }
+        const { lesson, step } = found;
+
+        // Steps in a locked lesson can't be run until its prerequisites are done
+        const completed = this._progress.getCompleted(this._progressKey);
+        const passedQuizzes = this._progress.getPassedQuizzes(this._progressKey);
+        const lessonState = getLessonStates(pack, completed, passedQuizzes).find((l) => l.lesson.id === lesson.id);
+        if (lessonState && !lessonState.unlocked) {
+            await this._sendResultToWebview(
+                step.id,
+                { success: false, output: "" },
+                { state: "attention", message: `${describeLock(lessonState)} first.` }
+            );
+            return undefined;
+        }
+
+        // Copy the default args so we don't modify the original step data
+        let args = [...step.args];
+        const cwd = getTargetRepo();
+
+        // --- Fill in placeholders like {currentBranch} ---
+        // Asked right before running, in case the learner switched branches
+        // or added a remote since the panel was drawn.
+        if (cwd && usesPlaceholders(step)) {
+            const values = await getPlaceholderValues(cwd);
+            const resolved = resolveStepArgs(step, values);
+            if ("missing" in resolved) {
+                await this._sendResultToWebview(
+                    step.id,
+                    { success: false, output: "" },
+                    { state: "attention", message: resolved.missing }
+                );
+                return undefined;
+            }
+            args = resolved.args;
+            this._view?.webview.postMessage({
+                type: "commands",
+                commands: { [step.id]: fillPlaceholders(step.command, values) },
+            });
+        }
+
+        return { step, args, cwd };
+    }
+
+    /**
+     * Runs a fix suggested by errorExplainer.ts and shows its result in the
+     * step's card. Fixes don't complete the step — they clear the way, and
+     * the learner runs the step again.
+     */
+    private async _runFix(stepId: string, errorId: string, fixIndex: number): Promise<void> {
+        const explanation = this._explanations.get(stepId);
+        const fix = explanation?.id === errorId ? explanation.fixes[fixIndex] : undefined;
+        if (!fix) {
+            return;
+        }
+
+        this._sendStatusToWebview(stepId, "running");
+        const run = this._startRun(stepId);
+        const result = await runFix(fix, this._outputChannel, run.options);
+        run.done();
+        void this._refreshStatus();
+
+        if (!result) {
+            await this._sendResultToWebview(
+                stepId,
+                { success: false, output: "Cancelled — no input provided." },
+                { state: "fail", message: "Fix cancelled." }
+            );
+            return;
+        }
+
+        await this._sendResultToWebview(
+            stepId,
+            result,
+            result.success
+                ? { state: "attention", message: `Fix applied (${fix.label}). Now run the step again.` }
+                : { state: "fail", message: result.stopped ? "The fix was stopped before it finished." : "" }
+        );
+    }
+
+    /**
+     * Sets up a command run from a step card: its output is streamed into
+     * the card as it arrives, and the card's "Cancel" button can stop it.
+     * Call done() when the command has finished.
+     */
+    private _startRun(stepId: string): { options: RunOptions; done: () => void } {
+        const cancellation = new vscode.CancellationTokenSource();
+        this._running.set(stepId, cancellation);
+        return {
+            options: {
+                token: cancellation.token,
+                onOutput: (text) => this._view?.webview.postMessage({ type: "output", stepId, text }),
+            },
+            done: () => {
+                this._running.delete(stepId);
+                cancellation.dispose();
+            },
+        };
+    }
+
+    /**
+     * Decides how a step turned out.
+     *
+     * A failed command is always a "fail". A successful command is a "pass"
+     * unless the step has a `verify` check, in which case the check decides.
+     */
+    private async _verify(
+        step: WalkthroughStep,
+        result: GitCommandResult,
+        cwd: string | undefined,
+        before: string
+    ): Promise<VerificationOutcome> {
+        if (result.stopped === "cancelled") {
+            return { state: "fail", message: "Cancelled — the command was stopped." };
+        }
+        if (result.stopped === "timedOut") {
+            return { state: "fail", message: "Timed out — the command took too long, so it was stopped." };
+        }
+        if (!result.success) {
+            return { state: "fail", message: "" };
+        }
+        if (!step.verify || !cwd) {
+            return { state: "pass", message: "" };
+        }
+        return verifyStep(step.verify, cwd, before);
     }
 
     // =============================================================
@@ -155,14 +708,55 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
     }
 
     /**
-     * Sends a command result to the webview (success/fail + output text).
+     * Sends a command result to the webview: the verification state
+     * (pass / fail / attention), its message, and the output text.
+     * Failed results also carry a plain-English explanation, if we have one.
      */
-    private _sendResultToWebview(stepId: string, result: GitCommandResult): void {
+    private async _sendResultToWebview(
+        stepId: string,
+        result: GitCommandResult,
+        outcome: VerificationOutcome
+    ): Promise<void> {
+        const explanation = result.success || result.stopped ? undefined : await explainGitError(result.output);
+        if (explanation) {
+            this._explanations.set(stepId, explanation);
+        } else {
+            this._explanations.delete(stepId);
+        }
         this._view?.webview.postMessage({
             type: "result",
             stepId,
-            success: result.success,
+            state: outcome.state,
+            summary: outcome.message,
             output: result.output,
+            explanation,
+        });
+    }
+
+    /**
+     * Sends the list of completed steps to the webview, so it can update
+     * the progress bar, mark finished cards, unlock lessons, and scroll to
+     * the next step. Quiz scores come along, for the cards' "Best" labels.
+     */
+    private _sendProgressToWebview(): void {
+        const pack = this._pack;
+        const completed = this._progress.getCompleted(this._progressKey);
+        const passedQuizzes = this._progress.getPassedQuizzes(this._progressKey);
+        this._view?.webview.postMessage({
+            type: "progress",
+            completed: [...completed],
+            nextStepId: getNextStep(pack, completed, passedQuizzes)?.id,
+            lessons: getLessonStates(pack, completed, passedQuizzes).map((state) => ({
+                id: state.lesson.id,
+                done: state.done,
+                total: state.total,
+                complete: state.complete,
+                quizzes: state.quizzes,
+                quizzesPassed: state.quizzesPassed,
+                unlocked: state.unlocked,
+                lockMessage: state.unlocked ? "" : `${describeLock(state)} to unlock this lesson.`,
+            })),
+            quizScores: this._progress.getQuizScores(this._progressKey),
         });
     }
 
@@ -175,7 +769,9 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
      *
      * This returns a complete HTML document with:
      *   - CSS styles that match the VS Code theme (using CSS variables)
-     *   - A card for each walkthrough step
+     *   - The sections above the lessons, each with its own CSS and
+     *     JavaScript (see walkthroughSection.ts)
+     *   - A lesson index, and a collapsible section of step cards per lesson
      *   - JavaScript to handle button clicks and display results
      *
      * VS CODE THEME INTEGRATION:
@@ -184,10 +780,40 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
      *   whatever color theme the user has selected (dark, light, etc.)!
      */
     private _getHtmlContent(): string {
-        // Build the HTML for each step card
-        const stepsHtml = WALKTHROUGH_STEPS.map((step) =>
-            this._getStepHtml(step)
-        ).join("\n");
+        const pack = this._pack;
+        const steps = getPackSteps(pack);
+        const completed = this._progress.getCompleted(this._progressKey);
+        const doneCount = steps.filter((s) => completed.has(s.id)).length;
+        const percent = Math.round((doneCount / steps.length) * 100);
+        const passedQuizzes = this._progress.getPassedQuizzes(this._progressKey);
+        const nextStep = getNextStep(pack, completed, passedQuizzes);
+        const nextStepId = nextStep?.id ?? "";
+
+        // Build the lesson index and one section per lesson.
+        // Only the lesson containing the next step starts expanded.
+        const lessonStates = getLessonStates(pack, completed, passedQuizzes);
+        const quizScores = this._progress.getQuizScores(this._progressKey);
+        const currentLessonId = nextStep ? findStep(pack, nextStep.id)?.lesson.id : undefined;
+        const indexHtml = lessonStates.map((state) => getLessonIndexHtml(state)).join("\n");
+        const lessonsHtml = lessonStates
+            .map((state) => getLessonHtml(state, completed, quizScores, state.lesson.id === currentLessonId))
+            .join("\n");
+
+        // The lesson pack picker (only worth showing if there's a choice)
+        const packs = this._lessons.getPacks();
+        const pickerHtml =
+            packs.length > 1
+                ? `<select class="pack-picker" onchange="selectPack(this.value)">
+                    ${packs
+                        .map(
+                            (p) =>
+                                `<option value="${escapeHtml(p.id)}"${p.id === pack.id ? " selected" : ""}>${escapeHtml(p.name)}</option>`
+                        )
+                        .join("")}
+                   </select>`
+                : "";
+        const packDescription = pack.description ? escapeHtml(pack.description) : "";
+        const targetHtml = this._getTargetHtml();
 
         return /*html*/ `
 <!DOCTYPE html>
@@ -232,48 +858,153 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
             font-size: 0.9em;
         }
 
+        /* Lesson pack picker (only shown when there's more than one pack) */
+        .pack-picker {
+            margin-top: 8px;
+            width: 100%;
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 3px;
+        }
+
+        .header .pack-description {
+            margin-top: 6px;
+        }
+
         /* ========================================
-           STEP CARDS
-           Each step is a "card" with a border.
+           TARGET REPO
+           Shows which folder "Run Step" affects.
            ======================================== */
-        .step-card {
-            background: var(--vscode-editor-background);
+        .target {
+            margin-top: 10px;
+            padding: 6px 8px;
+            border-radius: 4px;
             border: 1px solid var(--vscode-panel-border);
-            border-radius: 6px;
-            padding: 12px;
-            margin-bottom: 12px;
+            text-align: left;
+            font-size: 0.9em;
+        }
+
+        .target.target-sandbox {
+            border-color: var(--vscode-charts-green);
         }
 
-        .step-title {
+        .target-badge {
+            display: inline-block;
+            padding: 0 6px;
+            border-radius: 8px;
+            font-size: 0.8em;
             font-weight: bold;
-            font-size: 1.05em;
-            margin: 0 0 6px 0;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
         }
 
-        .step-description {
-            margin: 0 0 8px 0;
-            line-height: 1.5;
-            opacity: 0.9;
+        .target-sandbox .target-badge {
+            background: var(--vscode-charts-green);
         }
 
-        /* The Git command shown in a code-style box */
-        .step-command {
-            background: var(--vscode-textCodeBlock-background);
-            border: 1px solid var(--vscode-panel-border);
-            border-radius: 4px;
-            padding: 6px 10px;
+        .target-repo {
+            margin-top: 2px;
+            font-weight: bold;
+        }
+
+        .target-path {
             font-family: var(--vscode-editor-font-family);
-            font-size: 0.95em;
-            margin-bottom: 8px;
             word-break: break-all;
         }
 
-        /* Tip/note text below the command */
-        .step-notes {
+        .target-actions {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            margin-top: 4px;
+        }
+        /* ========================================
+           LISTS & SMALL PRINT
+           File lists and explanations, used by
+           several of the sections below.
+           ======================================== */
+        .status-summary {
+            margin: 0 0 6px 0;
+            font-size: 0.9em;
+            opacity: 0.85;
+        }
+
+        .status-group-title {
+            margin: 8px 0 2px 0;
+            font-size: 0.8em;
+            font-weight: bold;
+            text-transform: uppercase;
+            opacity: 0.75;
+        }
+
+        .status-file {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 2px 0;
             font-size: 0.9em;
+        }
+
+        .status-file-name {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        .status-file-label {
+            font-size: 0.85em;
             opacity: 0.7;
-            margin-bottom: 8px;
-            font-style: italic;
+        }
+        .history-explanation {
+            margin: 0 0 6px 0;
+            font-size: 0.85em;
+            line-height: 1.4;
+            opacity: 0.85;
+        }
+${STEP_CARD_STYLES}
+${this._sections.map((section) => section.styles).join("\n")}
+
+        /* ========================================
+           PROGRESS BAR
+           Fills up as steps are completed.
+           ======================================== */
+        .progress-wrapper {
+            position: relative;
+            margin-top: 10px;
+        }
+
+        .progress-track {
+            height: 6px;
+            border-radius: 3px;
+            background: var(--vscode-panel-border);
+            overflow: hidden;
+        }
+
+        .progress-fill {
+            height: 100%;
+            background: var(--vscode-charts-green);
+            transition: width 0.3s ease;
+        }
+
+        .progress-text {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-top: 4px;
+            font-size: 0.85em;
+            opacity: 0.75;
+        }
+
+        .link-button {
+            background: none;
+            border: none;
+            padding: 0;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            font-size: inherit;
         }
 
         /* ========================================
@@ -298,41 +1029,31 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
             cursor: not-allowed;
         }
 
-        /* ========================================
-           STATUS & OUTPUT
-           Shown after a step is run.
-           ======================================== */
-        .step-status {
-            margin-top: 8px;
-            font-size: 0.9em;
+        /* "Type it yourself" sits next to "Run Step", less prominent */
+        .practice-button {
+            margin-left: 6px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
         }
 
-        .status-running {
-            color: var(--vscode-charts-yellow);
+        .practice-button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
         }
 
-        .status-success {
-            color: var(--vscode-charts-green);
+        .fix-button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 4px;
+            padding: 4px 10px;
+            margin: 0 6px 4px 0;
+            cursor: pointer;
         }
 
-        .status-error {
-            color: var(--vscode-charts-red);
+        .fix-button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
         }
 
-        /* Box that shows the command output */
-        .step-output {
-            background: var(--vscode-textCodeBlock-background);
-            border: 1px solid var(--vscode-panel-border);
-            border-radius: 4px;
-            padding: 8px;
-            margin-top: 6px;
-            font-family: var(--vscode-editor-font-family);
-            font-size: 0.85em;
-            white-space: pre-wrap;
-            word-break: break-all;
-            max-height: 150px;
-            overflow-y: auto;
-        }
     </style>
 </head>
 <body>
@@ -341,10 +1062,33 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
     <div class="header">
         <h1>Git Walkthrough</h1>
         <p>Follow these steps to learn Git, one at a time!</p>
+        ${pickerHtml}
+        <p class="pack-description">${packDescription}</p>
+        ${targetHtml}
+        <div class="progress-wrapper">
+            <div class="progress-track">
+                <div class="progress-fill" id="progress-fill" style="width: ${percent}%;"></div>
+            </div>
+            <div class="progress-text">
+                <span id="progress-label">${doneCount} of ${steps.length} steps complete</span>
+                <button class="link-button" onclick="resetProgress()">Start over</button>
+            </div>
+        </div>
     </div>
+${this._conflicts.html}
+${this._changes.html}
+${this._sync.html}
+${this._undo.html}
+${this._history.html}
 
-    <!-- Step Cards (generated from the steps array) -->
-    ${stepsHtml}
+    <!-- Lesson Index (one line per lesson, click to jump there) -->
+    <div class="lesson-index">
+        <p class="lesson-index-title">Lessons</p>
+        ${indexHtml}
+    </div>
+
+    <!-- Lesson Sections, each containing its step cards -->
+    ${lessonsHtml}
 
     <script>
         // ========================================
@@ -352,83 +1096,129 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
         // ========================================
         // This code runs INSIDE the webview (the sidebar panel).
         // It handles button clicks and listens for results from
-        // the extension (walkthroughProvider.ts).
+        // the extension (walkthroughProvider.ts). Each section's
+        // own code comes after this part.
 
         // The vscode API lets us send messages to the extension.
         // acquireVsCodeApi() is a special function available in VS Code webviews.
         const vscode = acquireVsCodeApi();
 
+        // All step IDs in order, so we can count progress in the browser
+        const STEP_IDS = ${JSON.stringify(steps.map((s) => s.id))};
+
         /**
-         * Called when the user clicks a "Run Step" button.
-         * Sends a message to the extension to run the Git command.
+         * Updates the progress bar, "Done" badges, lesson locks, and
+         * "next step" highlight.
          *
-         * @param {string} stepId - The step's unique ID (matches step.id in steps.ts)
+         * @param {string[]} completed - IDs of finished steps
+         * @param {string | undefined} nextStepId - The first unfinished step
+         * @param {Array} lessons - Progress and lock state of each lesson
+         * @param {object} quizScores - Best quiz scores, by step ID
+         * @param {boolean} scroll - Whether to scroll the next step into view
          */
-        function runStep(stepId) {
-            // Disable the button so the user can't click it again while running
-            const button = document.getElementById('btn-' + stepId);
-            if (button) {
-                button.disabled = true;
-                button.textContent = 'Running...';
+        function showProgress(completed, nextStepId, lessons, quizScores, scroll) {
+            const done = STEP_IDS.filter((id) => completed.includes(id)).length;
+            document.getElementById('progress-fill').style.width =
+                Math.round((done / STEP_IDS.length) * 100) + '%';
+            document.getElementById('progress-label').textContent =
+                done + ' of ' + STEP_IDS.length + ' steps complete';
+
+            for (const id of STEP_IDS) {
+                const card = document.getElementById('card-' + id);
+                if (card) {
+                    card.classList.toggle('step-done', completed.includes(id));
+                    card.classList.toggle('step-next', id === nextStepId);
+                }
+
+                // A step's quiz appears once it's done (e.g. after a successful run)
+                const quiz = document.getElementById('quiz-' + id);
+                if (quiz && completed.includes(id)) {
+                    quiz.style.display = 'block';
+                }
+                const score = quizScores[id];
+                if (quiz && score) {
+                    document.getElementById('quiz-best-' + id).textContent =
+                        'Best: ' + score.correct + '/' + score.total;
+                }
             }
 
-            // Send a message to the extension.
-            // walkthroughProvider.ts will receive this in _handleMessage().
-            vscode.postMessage({
-                type: 'runStep',
-                stepId: stepId
-            });
+            for (const lesson of lessons) {
+                const section = document.getElementById('lesson-' + lesson.id);
+                const link = document.getElementById('lesson-link-' + lesson.id);
+                const label = (lesson.complete ? '✓ ' : lesson.unlocked ? '' : '🔒 ') +
+                    lesson.done + '/' + lesson.total +
+                    (lesson.quizzes > 0 ? ' · quiz ' + lesson.quizzesPassed + '/' + lesson.quizzes : '');
+
+                document.getElementById('lesson-count-' + lesson.id).textContent = label;
+                document.getElementById('lesson-link-count-' + lesson.id).textContent = label;
+                document.getElementById('lesson-lock-' + lesson.id).textContent = lesson.lockMessage;
+                section.classList.toggle('lesson-locked', !lesson.unlocked);
+                link.classList.toggle('lesson-locked', !lesson.unlocked);
+                section.querySelectorAll('.run-button').forEach((button) => {
+                    button.disabled = !lesson.unlocked;
+                });
+            }
+
+            const nextCard = nextStepId && document.getElementById('card-' + nextStepId);
+            if (scroll && nextCard) {
+                nextCard.closest('details').open = true;
+                nextCard.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            }
         }
 
         /**
-         * Listen for messages FROM the extension (command results).
+         * Expands a lesson section and scrolls to it (used by the lesson index).
          *
-         * The extension sends two types of messages:
-         *   1. { type: "status", stepId, status: "running" }  — step is in progress
-         *   2. { type: "result", stepId, success, output }    — step is done
+         * @param {string} lessonId - The lesson's unique ID
          */
-        window.addEventListener('message', (event) => {
-            const message = event.data;
+        function openLesson(lessonId) {
+            const section = document.getElementById('lesson-' + lessonId);
+            if (section) {
+                section.open = true;
+                section.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            }
+        }
 
-            // Get references to the UI elements for this step
-            const statusEl = document.getElementById('status-' + message.stepId);
-            const outputEl = document.getElementById('output-' + message.stepId);
-            const button = document.getElementById('btn-' + message.stepId);
+        /**
+         * Switches to a different lesson pack. The extension rebuilds
+         * the whole panel for the new pack.
+         *
+         * @param {string} packId - The ID of the chosen pack
+         */
+        function selectPack(packId) {
+            vscode.postMessage({ type: 'selectPack', packId: packId });
+        }
 
-            // --- Handle "running" status ---
-            if (message.type === 'status') {
-                if (statusEl) {
-                    statusEl.className = 'step-status status-running';
-                    statusEl.textContent = 'Running...';
-                }
-            }
+        /**
+         * Runs one of the extension's commands (e.g. the sandbox buttons).
+         *
+         * @param {string} command - A "gitHelper.*" command ID
+         */
+        function runCommand(command) {
+            vscode.postMessage({ type: 'command', command: command });
+        }
 
-            // --- Handle command result ---
-            if (message.type === 'result') {
-                // Re-enable the button so the user can run it again
-                if (button) {
-                    button.disabled = false;
-                    button.textContent = 'Run Step';
-                }
+        /** Asks the extension to forget all progress in this lesson pack. */
+        function resetProgress() {
+            vscode.postMessage({ type: 'resetProgress' });
+        }
 
-                // Show success or error status
-                if (statusEl) {
-                    if (message.success) {
-                        statusEl.className = 'step-status status-success';
-                        statusEl.textContent = 'Success!';
-                    } else {
-                        statusEl.className = 'step-status status-error';
-                        statusEl.textContent = 'Error (see output below)';
-                    }
-                }
+        // When the panel first opens, jump to the step the user should do next
+        const initialNext = document.getElementById('card-${nextStepId}');
+        if (initialNext) {
+            initialNext.classList.add('step-next');
+            initialNext.scrollIntoView({ block: 'start' });
+        }
 
-                // Show the command's output
-                if (outputEl) {
-                    outputEl.textContent = message.output;
-                    outputEl.style.display = 'block';
-                }
+        // Progress changed: a step finished or was detected, or progress was reset
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                showProgress(message.completed, message.nextStepId, message.lessons, message.quizScores, true);
             }
         });
+${STEP_CARD_SCRIPT}
+${this._sections.map((section) => section.script).join("\n")}
     </script>
 
 </body>
@@ -436,34 +1226,47 @@ export class WalkthroughProvider implements vscode.WebviewViewProvider {
     }
 
     /**
-     * Generates the HTML for a single walkthrough step card.
-     *
-     * Each card has:
-     *   - Title (e.g., "1. Check Git is Installed")
-     *   - Description (plain English explanation)
-     *   - Command preview (styled like a code block)
-     *   - Optional tip/notes
-     *   - "Run Step" button
-     *   - Status text (hidden until the step is run)
-     *   - Output area (hidden until the step is run)
+     * Generates the box that says which repository commands will run in,
+     * with the sandbox buttons underneath.
      */
-    private _getStepHtml(step: WalkthroughStep): string {
-        // Only show the notes section if this step has notes
-        const notesHtml = step.notes
-            ? `<p class="step-notes">Tip: ${step.notes}</p>`
-            : "";
+    private _getTargetHtml(): string {
+        const target = getTargetRepo();
+        const button = (command: string, label: string) =>
+            `<button class="link-button" onclick="runCommand('${command}')">${label}</button>`;
+
+        if (this._sandbox.isActive) {
+            return /*html*/ `
+            <div class="target target-sandbox">
+                <span class="target-badge">SANDBOX</span> Commands run in a practice repo:
+                <div class="target-path" title="${escapeHtml(this._sandbox.practiceDir)}">${escapeHtml(this._sandbox.practiceDir)}</div>
+                <div class="target-actions">
+                    ${button("gitHelper.sandbox.addFile", "Add practice file")}
+                    ${button("gitHelper.sandbox.conflict", "Practice a merge conflict")}
+                    ${button("gitHelper.sandbox.open", "Open in new window")}
+                    ${button("gitHelper.sandbox.reset", "Reset")}
+                    ${button("gitHelper.sandbox.stop", "Back to my project")}
+                </div>
+            </div>`;
+        }
 
+        // With several repositories around, say which one — and offer the others
+        const repo = this._repositories.active;
+        const name = repo ? `<div class="target-repo">${escapeHtml(repo.name)}</div>` : "";
+        const where = target
+            ? `${name}<div class="target-path" title="${escapeHtml(target)}">${escapeHtml(target)}</div>`
+            : `<div>No folder is open — open one, or practice in the sandbox.</div>`;
+        const choose =
+            this._repositories.getRepositories().length > 1
+                ? button("gitHelper.selectRepository", "Choose another repository")
+                : "";
         return /*html*/ `
-        <div class="step-card" id="card-${step.id}">
-            <p class="step-title">${step.title}</p>
-            <p class="step-description">${step.description}</p>
-            <div class="step-command">${step.command}</div>
-            ${notesHtml}
-            <button class="run-button" id="btn-${step.id}" onclick="runStep('${step.id}')">
-                Run Step
-            </button>
-            <div class="step-status" id="status-${step.id}"></div>
-            <div class="step-output" id="output-${step.id}" style="display: none;"></div>
+        <div class="target">
+            <span class="target-badge">PROJECT</span> Commands run in your real project:
+            ${where}
+            <div class="target-actions">
+                ${choose}
+                ${button("gitHelper.sandbox.start", "Practice in sandbox instead")}
+            </div>
         </div>`;
     }
 }
@@ -0,0 +1,70 @@
+/**
+ * walkthroughSection.ts — What the sections of the walkthrough panel have
+ * in common.
+ *
+ * The walkthrough panel (walkthroughProvider.ts) is one webview, but most
+ * of what's in it lives in its own file, one per section:
+ *
+ *   changesView.ts    ← "Changes": the repo's files, with Stage/Diff buttons
+ *   conflictsView.ts  ← "Merge Conflicts": resolving a stuck merge
+ *   syncView.ts       ← "Sync": ahead/behind, and merge vs. rebase
+ *   undoView.ts       ← "Undo": what can be taken back, and recovery points
+ *   historyView.ts    ← "History": the commits as a branch graph
+ *   quizView.ts       ← the quizzes in the step cards
+ *   stepCardView.ts   ← the lessons and their step cards
+ *
+ * Each of them holds its section's CSS, the webview JavaScript that draws
+ * it, and the extension code that fills it in and handles its buttons.
+ * The panel puts the pieces together into one page.
+ *
+ * WHY SPLIT IT UP?
+ *   A section's HTML, CSS and JavaScript only make sense together, and
+ *   with everything in one file they were thousands of lines apart.
+ */
+
+import { QuizAnswer } from "./quiz";
+import { UndoActionId } from "./undo";
+
+/**
+ * A message from the panel's webview JavaScript. `type` says what it's
+ * for; the other fields depend on the type (see the section that sends it).
+ */
+export interface WalkthroughMessage {
+    type: string;
+    stepId?: string;
+    packId?: string;
+    command?: string;
+    errorId?: string;
+    fixIndex?: number;
+    path?: string;
+    group?: string;
+    undoId?: UndoActionId;
+    pointId?: string;
+    hash?: string;
+    questionIndex?: number;
+    answer?: QuizAnswer;
+}
+
+/** Handles one type of message from the webview */
+export type MessageHandler = (message: WalkthroughMessage) => Promise<void> | void;
+
+/** Sends a message to the panel's webview (if it's open) */
+export type PostMessage = (message: object) => void;
+
+/**
+ * One section of the walkthrough panel.
+ */
+export interface WalkthroughSection {
+    /** The section's CSS, added to the panel's <style> */
+    readonly styles: string;
+
+    /**
+     * The webview JavaScript that draws the section, added to the panel's
+     * <script>. It can use `vscode` (from acquireVsCodeApi()) and listens
+     * for its own messages from the extension.
+     */
+    readonly script: string;
+
+    /** What to do with the webview's messages from this section, by message type */
+    readonly handlers: Record<string, MessageHandler>;
+}